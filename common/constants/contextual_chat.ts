@@ -37,6 +37,26 @@ export const DEFAULT_CONTEXTUAL_CHAT_CONFIG = {
   },
 } as const;
 
+// ============================================================================
+// Feature Flags
+// ============================================================================
+
+/**
+ * Keys of the feature flags evaluated per user, see `assistant.featureFlags` in the UI capabilities
+ */
+export const FEATURE_FLAGS = {
+  CONTEXTUAL_CHAT: 'contextual_chat_enabled',
+  CONTENT_EXTRACTION: 'content_extraction_enabled',
+  DOM_OBSERVATION: 'dom_observation_enabled',
+  CONTEXTUAL_PROMPTS: 'contextual_prompts_enabled',
+  PERFORMANCE_OPTIMIZATION: 'performance_optimization_enabled',
+  SECURITY_VALIDATION: 'security_validation_enabled',
+  ADMIN_INTERFACE: 'admin_interface_enabled',
+  ANALYTICS: 'analytics_enabled',
+} as const;
+
+export type FeatureFlagKey = typeof FEATURE_FLAGS[keyof typeof FEATURE_FLAGS];
+
 // ============================================================================
 // Content Type Priorities
 // ============================================================================
@@ -139,6 +159,23 @@ export const PERFORMANCE_THRESHOLDS = {
   THROTTLE_DELAY: 1000, // 1 second
 } as const;
 
+// ============================================================================
+// UI Context Limits
+// ============================================================================
+
+/**
+ * Limits of the UI context accepted by the chat routes, the browser truncates its page
+ * snapshot to them so a message is not rejected because of the page it was sent from
+ */
+export const UI_CONTEXT_LIMITS = {
+  MAX_SIZE: 512 * 1024,
+  MAX_CONTENT_ELEMENTS: 50,
+  MAX_ITEMS: 100,
+  MAX_DATA_ITEMS: 1000,
+  MAX_STRING_LENGTH: 2048,
+  MAX_TEXT_LENGTH: 20000,
+} as const;
+
 // ============================================================================
 // Security Constants
 // ============================================================================
@@ -17,10 +17,21 @@ export const ASSISTANT_API = {
   REGENERATE: `${API_BASE}/regenerate`,
   TRACE: `${API_BASE}/trace`,
   ACCOUNT: `${API_BASE}/account`,
+  RESUME_STREAM: `${API_BASE}/stream/_resume`,
+  FLAGS: `${API_BASE}/flags`,
+  AGENT_HEALTH: `${API_BASE}/agent_health`,
+  IMPORT_CONVERSATION: `${API_BASE}/conversation/_import`,
+  SHARED_CONVERSATION: `${API_BASE}/shared_conversation`,
 } as const;
 
+/**
+ * Tags around the matched terms in the snippets of a conversation content search
+ */
+export const SEARCH_HIGHLIGHT_TAGS = { pre: '<mark>', post: '</mark>' } as const;
+
 export const TEXT2VIZ_API = {
   TEXT2PPL: `${API_BASE}/text2ppl`,
+  TEXT2SQL: `${API_BASE}/text2sql`,
   TEXT2VEGA: `${API_BASE}/text2vega`,
 };
 
@@ -29,6 +40,22 @@ export const AGENT_API = {
   CONFIG_EXISTS: `${API_BASE}/agent_config/_exists`,
 };
 
+export const ADMIN_API = {
+  DASHBOARD: `${API_BASE}/admin/dashboard`,
+  SETTINGS: `${API_BASE}/admin/settings`,
+  CONFIG_VALIDATION: `${API_BASE}/admin/config/_validation`,
+  FEATURE_FLAGS: `${API_BASE}/admin/feature_flags`,
+  HEALTH: `${API_BASE}/admin/health`,
+  DIAGNOSTICS: `${API_BASE}/admin/diagnostics`,
+  DIAGNOSTICS_REPORTS: `${API_BASE}/admin/diagnostics/reports`,
+  DIAGNOSTICS_EXPORT: `${API_BASE}/admin/diagnostics/_export`,
+  PERFORMANCE: `${API_BASE}/admin/performance`,
+  PERFORMANCE_ALERTS: `${API_BASE}/admin/performance/alerts`,
+  ANALYTICS_REPORT: `${API_BASE}/admin/analytics/report`,
+  ANALYTICS_TRENDS: `${API_BASE}/admin/analytics/trends`,
+  FEEDBACK_REPORT: `${API_BASE}/admin/feedback/_report`,
+};
+
 export const SUMMARY_ASSISTANT_API = {
   SUMMARIZE: `${API_BASE}/summary`,
   INSIGHT: `${API_BASE}/insight`,
@@ -41,9 +68,16 @@ export const NOTEBOOK_API = {
 
 export const DEFAULT_USER_NAME = 'User';
 
+/**
+ * Version of the server sent events protocol described by `StreamChunk`,
+ * bump it whenever a chunk changes in a way older consumers can not handle.
+ */
+export const STREAM_PROTOCOL_VERSION = 1;
+
 export const TEXT2VEGA_INPUT_SIZE_LIMIT = 400;
 
 export const TEXT2VEGA_RULE_BASED_AGENT_CONFIG_ID = 'os_text2vega';
 export const TEXT2VEGA_WITH_INSTRUCTIONS_AGENT_CONFIG_ID = 'os_text2vega_with_instructions';
 export const TEXT2PPL_AGENT_CONFIG_ID = 'os_query_assist_ppl';
+export const TEXT2SQL_AGENT_CONFIG_ID = 'os_query_assist_sql';
 export const DATA2SUMMARY_AGENT_CONFIG_ID = 'os_data2summary';
@@ -0,0 +1,7 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export const SHARED_CONVERSATION_SAVED_OBJECT = 'assistant-shared-conversation';
+export const SHARED_CONVERSATION_APP_ID = 'assistant-shared-conversation';
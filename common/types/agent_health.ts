@@ -0,0 +1,28 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * State of the circuit breaker in front of the external AI agent:
+ * - closed: requests are sent to the agent
+ * - open: requests fail fast until the cooldown elapses
+ * - half_open: the cooldown elapsed, the next request or health check decides
+ */
+export type AgentCircuitState = 'closed' | 'open' | 'half_open';
+
+export interface AgentHealthStatus {
+  /**
+   * Whether the chat is backed by the external AI agent, the other fields are
+   * only meaningful when it is.
+   */
+  monitored: boolean;
+  /**
+   * Result of the last health check or request, unknown until the first one finishes.
+   */
+  status: 'healthy' | 'unhealthy' | 'unknown';
+  circuit: AgentCircuitState;
+  consecutiveFailures: number;
+  lastCheckedAt?: string;
+  lastError?: string;
+}
@@ -33,9 +33,24 @@ export interface IConversation {
   nextToken?: string;
 }
 
+/**
+ * An interaction matching a conversation content search
+ */
+export interface ConversationSearchMatch {
+  interactionId: string;
+  /**
+   * Snippets of the matching fields, matched terms are wrapped in `SEARCH_HIGHLIGHT_TAGS`
+   */
+  highlights: { input?: string[]; response?: string[] };
+}
+
 export interface IConversationFindResponse {
-  objects: Array<IConversation & { id: string }>;
+  objects: Array<IConversation & { id: string; matches?: ConversationSearchMatch[] }>;
   total: number;
+  /**
+   * The content search only covered the latest conversations, older ones may match too
+   */
+  truncated?: boolean;
 }
 
 export interface IInput {
@@ -59,7 +74,7 @@ export interface IOutput {
   type: 'output';
   interactionId?: string; // used for tracing agent calls
   toolsUsed?: string[];
-  contentType: 'error' | 'markdown' | 'visualization' | string;
+  contentType: 'error' | 'markdown' | 'visualization' | 'table' | 'vega_lite' | 'query' | string;
   content: string;
   suggestedActions?: ISuggestedAction[];
   messageId?: string;
@@ -71,9 +86,32 @@ export interface IOutput {
     url: string;
     body: string;
   }>; // for OpenSearch Agents integration
+  metadata?: Record<string, any>; // e.g. the page context the answer is based on
 }
 export type IMessage = IInput | IOutput;
 
+/**
+ * Content of a `table` output, serialized as JSON in the message content.
+ * Rows follow the order of the columns, like the datarows of a PPL response.
+ */
+export interface ITableContent {
+  columns: Array<{ name: string; type?: string }>;
+  rows: unknown[][];
+}
+
+export type QueryLanguage = 'PPL' | 'SQL' | 'DSL';
+
+/**
+ * Metadata of a `query` output, the content is the query itself.
+ */
+export interface IQueryMetadata {
+  language: QueryLanguage;
+  /**
+   * The index queried, used when running the query in Discover
+   */
+  index?: string;
+}
+
 interface ISuggestedActionBase {
   actionType: string;
   message: string;
@@ -90,8 +128,17 @@ export type ISuggestedAction = ISuggestedActionBase &
         metadata: { interactionId: string };
       }
   );
+export const FEEDBACK_REASONS = ['inaccurate', 'irrelevant', 'unsafe', 'too_slow'] as const;
+export type FeedbackReason = typeof FEEDBACK_REASONS[number];
+
 export interface SendFeedbackBody {
   satisfaction: boolean;
+  reasons?: FeedbackReason[];
+  comment?: string;
+  /**
+   * The answer the user expected, for prompt owners to compare with the response
+   */
+  correctedAnswer?: string;
 }
 
 export interface SendResponse {
@@ -101,6 +148,23 @@ export interface SendResponse {
   interactions: Interaction[];
 }
 
+export interface IToolCall {
+  id: string;
+  name: string;
+  status: 'running' | 'succeeded' | 'failed';
+  input?: string;
+  output?: string;
+}
+
+export interface IStreamUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * Events of a streamed chat response, every stream starts with a `protocol` event.
+ */
 export type StreamChunk =
   | {
       event: 'error';
@@ -123,4 +187,37 @@ export type StreamChunk =
         messageId: string;
         payload: Partial<Omit<IOutput, 'messageId'>>;
       };
+    }
+  | {
+      event: 'protocol';
+      data: {
+        version: number;
+      };
+    }
+  | {
+      event: 'toolCall';
+      data: {
+        messageId: string;
+        toolCall: IToolCall;
+      };
+    }
+  | {
+      event: 'sourceAttributions';
+      data: {
+        messageId: string;
+        sourceAttributions: NonNullable<IOutput['sourceAttributions']>;
+      };
+    }
+  | {
+      event: 'usage';
+      data: {
+        messageId: string;
+        usage: IStreamUsage;
+      };
+    }
+  | {
+      event: 'heartbeat';
+      data: {
+        timestamp: number;
+      };
     };
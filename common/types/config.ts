@@ -52,6 +52,18 @@ export const configSchema = schema.object({
     timeout: schema.number({ defaultValue: 300000 }), // 5 minutes
     healthCheckInterval: schema.number({ defaultValue: 60000 }), // 1 minute
   }),
+  chatBackend: schema.object({
+    // Falls back to opensearch-agents when aiAgent is enabled, ml-commons otherwise
+    default: schema.maybe(schema.string()),
+    // Backend id by data source id
+    dataSources: schema.recordOf(schema.string(), schema.string(), { defaultValue: {} }),
+    // Backend id by app id, takes precedence over the data source mapping
+    apps: schema.recordOf(schema.string(), schema.string(), { defaultValue: {} }),
+  }),
+  admin: schema.object({
+    // Backend roles of the users allowed to use the admin APIs
+    backendRoles: schema.arrayOf(schema.string(), { defaultValue: ['admin'] }),
+  }),
   branding: schema.object({
     label: schema.maybe(schema.string()),
     logo: schema.maybe(
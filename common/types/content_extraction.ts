@@ -17,7 +17,7 @@ import { ContentElement, ContentType, UIContext } from './ui_context';
 // ============================================================================
 
 export interface IContentExtractionPipeline {
-  extractors: IContentExtractor[];
+  extractors: ISpecializedExtractor[];
   processors: IContentProcessor[];
   validators: IContentValidator[];
   prioritizers: IContentPrioritizer[];
@@ -30,7 +30,7 @@ export interface IContentExtractionPipeline {
   /**
    * Add extractor to pipeline
    */
-  addExtractor(extractor: IContentExtractor): void;
+  addExtractor(extractor: ISpecializedExtractor): void;
 
   /**
    * Remove extractor from pipeline
@@ -365,7 +365,6 @@ import {
   IContentProcessor,
   IContentValidator,
   IContentPrioritizer,
-  IContentExtractor,
 } from './contextual_chat_service';
 
 import {
@@ -53,6 +53,7 @@ export interface IContextualChatService {
     messages: IMessage[];
     conversationId: string;
     interactionId: string;
+    stream?: Stream;
   }>;
 
   /**
@@ -159,6 +160,11 @@ export interface IContentExtractor {
 }
 
 export interface ISpecializedExtractor {
+  /**
+   * Unique id of the extractor, used to register and remove it
+   */
+  readonly id: string;
+
   /**
    * Check if this extractor can handle the element/embeddable
    */
@@ -317,6 +323,11 @@ export interface IContextualChatServiceRegistry {
    */
   registerContentExtractor(extractor: ISpecializedExtractor): void;
 
+  /**
+   * Remove content extractor, returns false if there is no extractor with the id
+   */
+  unregisterContentExtractor(extractorId: string): boolean;
+
   /**
    * Register contextual chat service
    */
@@ -0,0 +1,53 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AgentFrameworkTrace } from '../utils/llm_chat/traces';
+import { IMessage, Interaction } from './chat_saved_object_attributes';
+
+export type ConversationExportFormat = 'json' | 'markdown' | 'html';
+
+/**
+ * Version of the exported JSON, bumped when an export cannot be imported by older versions.
+ */
+export const CONVERSATION_EXPORT_VERSION = 1;
+
+export interface ExportedInteraction extends Interaction {
+  /**
+   * Steps of the agent, empty when the backend does not keep traces
+   */
+  traces: AgentFrameworkTrace[];
+}
+
+/**
+ * A conversation exported with `GET /api/assistant/conversation/{id}/_export?format=json`,
+ * the same document is accepted by `POST /api/assistant/conversation/_import`.
+ * Feedback and source attributions are kept in the additional info of the interactions.
+ */
+export interface ConversationExport {
+  version: number;
+  exportedAt: string;
+  conversation: {
+    id: string;
+    title: string;
+    createdTimeMs: number;
+    updatedTimeMs: number;
+  };
+  interactions: ExportedInteraction[];
+  /**
+   * Messages parsed from the interactions, not read when importing
+   */
+  messages: IMessage[];
+}
+
+/**
+ * The part of an exported conversation read when importing it
+ */
+export interface ConversationImport {
+  conversation: Pick<
+    ConversationExport['conversation'],
+    'title' | 'createdTimeMs' | 'updatedTimeMs'
+  >;
+  interactions: Array<Pick<Interaction, 'input' | 'response' | 'create_time' | 'additional_info'>>;
+}
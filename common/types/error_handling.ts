@@ -41,6 +41,11 @@ export enum ContextualChatErrorType {
   INVALID_CONFIGURATION = 'invalid_configuration',
   FEATURE_DISABLED = 'feature_disabled',
 
+  // Request errors
+  INVALID_REQUEST = 'invalid_request',
+  RESOURCE_NOT_FOUND = 'resource_not_found',
+  REQUEST_CANCELLED = 'request_cancelled',
+
   // Unknown errors
   UNKNOWN_ERROR = 'unknown_error',
 }
@@ -87,6 +92,17 @@ export interface ContextualChatError extends Error {
   userMessage?: string;
 }
 
+/**
+ * Attributes of the error responses of the chat routes, they tell the browser
+ * how to present the error and whether to offer a retry
+ */
+export interface ContextualChatErrorAttributes {
+  type: ContextualChatErrorType;
+  severity: ErrorSeverity;
+  recoveryStrategy: RecoveryStrategy;
+  retryable: boolean;
+}
+
 /**
  * Error recovery result
  */
@@ -0,0 +1,47 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FeedbackReason } from './chat_saved_object_attributes';
+
+export type FeedbackReportInterval = '1h' | '1d' | '7d';
+
+export interface FeedbackReportComment {
+  interactionId: string;
+  reasons: FeedbackReason[];
+  comment?: string;
+  correctedAnswer?: string;
+  createTime: string;
+}
+
+/**
+ * Feedback of one agent in one app during one time window
+ */
+export interface FeedbackReportBucket {
+  /**
+   * Id of the agent which answered, the ML Commons root agent id or the OpenSearch Agents url.
+   * The chat backend id when the agent of the interaction was not recorded.
+   */
+  agent: string;
+  /**
+   * Empty when the message was not sent from an app
+   */
+  appId: string;
+  windowStart: string;
+  total: number;
+  positive: number;
+  negative: number;
+  reasons: Partial<Record<FeedbackReason, number>>;
+  /**
+   * Latest negative feedback which has a comment or a corrected answer
+   */
+  comments: FeedbackReportComment[];
+}
+
+export interface FeedbackReport {
+  startTime: number;
+  endTime: number;
+  interval: FeedbackReportInterval;
+  buckets: FeedbackReportBucket[];
+}
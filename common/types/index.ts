@@ -11,3 +11,7 @@ export * from './config';
 export * from './ui_context';
 export * from './contextual_chat_service';
 export * from './content_extraction';
+export * from './agent_health';
+export * from './conversation_export';
+export * from './shared_conversation';
+export * from './feedback_report';
@@ -0,0 +1,18 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ConversationExport } from './conversation_export';
+
+/**
+ * A read-only snapshot of a conversation, taken when the conversation was shared.
+ * Later messages of the conversation are not part of it.
+ */
+export interface SharedConversation {
+  id: string;
+  title: string;
+  sharedBy: string;
+  sharedAt: string;
+  snapshot: ConversationExport;
+}
@@ -2,3 +2,321 @@
  * Copyright OpenSearch Contributors
  * SPDX-License-Identifier: Apache-2.0
  */
+
+/**
+ * UI Context Types
+ *
+ * This file defines the snapshot of the page sent along with chat messages: the
+ * page and navigation state, the active filters and the content elements
+ * extracted from the page by the content extraction pipeline.
+ */
+
+/**
+ * Version of the UI context model, bump it on breaking changes so the server
+ * rejects snapshots it does not understand.
+ */
+export const UI_CONTEXT_VERSION = 1;
+
+// ============================================================================
+// UI Context
+// ============================================================================
+
+export interface UIContext {
+  /**
+   * Version of the model, snapshots without a version are version 1
+   */
+  version?: number;
+  page: PageContext;
+  content: ContentElement[];
+  navigation: NavigationContext;
+  filters: FilterContext[];
+  timeRange?: TimeRangeContext;
+  userActions: UserActionContext[];
+  permissions: PermissionContext;
+  /**
+   * ISO timestamp of the snapshot
+   */
+  extractedAt: string;
+}
+
+export interface PageContext {
+  url: string;
+  title: string;
+  app: string;
+  route: string;
+  breadcrumbs: NavigationItem[];
+  metadata: Record<string, any>;
+}
+
+export interface NavigationContext {
+  currentApp: string;
+  currentRoute: string;
+  breadcrumbs: NavigationItem[];
+  availableApps: AppInfo[];
+}
+
+export interface AppInfo {
+  id: string;
+  title: string;
+  url?: string;
+}
+
+export interface FilterContext {
+  field?: string;
+  operator?: string;
+  value?: any;
+  displayName?: string;
+  enabled: boolean;
+  negated?: boolean;
+  pinned?: boolean;
+}
+
+export interface TimeRangeContext {
+  from: string;
+  to: string;
+  mode?: 'absolute' | 'relative' | 'quick';
+  displayName?: string;
+  refreshInterval?: {
+    pause: boolean;
+    value: number;
+  };
+}
+
+export interface UserActionContext {
+  type: string;
+  timestamp: string;
+  elementId?: string;
+  details?: Record<string, any>;
+}
+
+export interface PermissionContext {
+  canViewData: boolean;
+  canModifyDashboard: boolean;
+  canAccessApp: boolean;
+  restrictedFields?: string[];
+  /**
+   * Whether the user can read each data source, by index pattern
+   */
+  dataSourcePermissions?: Record<string, boolean>;
+}
+
+/**
+ * Change of a content element observed on the page
+ */
+export interface UIChange {
+  type: 'added' | 'removed' | 'updated';
+  elementId: string;
+  element?: ContentElement;
+  timestamp: string;
+}
+
+// ============================================================================
+// Content Elements
+// ============================================================================
+
+export enum ContentType {
+  VISUALIZATION = 'visualization',
+  DATA_TABLE = 'data_table',
+  SEARCH_RESULTS = 'search_results',
+  METRIC = 'metric',
+  TEXT = 'text',
+  TEXT_PANEL = 'text_panel',
+  MARKDOWN = 'markdown',
+  FORM = 'form',
+  FILTER = 'filter',
+  CONTROL_PANEL = 'control_panel',
+  NAVIGATION = 'navigation',
+  NAVIGATION_MENU = 'navigation_menu',
+  BREADCRUMB = 'breadcrumb',
+  BUTTON = 'button',
+  LINK = 'link',
+  IMAGE = 'image',
+  ALERT = 'alert',
+  SAVED_OBJECT = 'saved_object',
+  OTHER = 'other',
+}
+
+export enum VisibilityState {
+  VISIBLE = 'visible',
+  PARTIALLY_VISIBLE = 'partially_visible',
+  HIDDEN = 'hidden',
+  LOADING = 'loading',
+}
+
+export interface ContentElement {
+  id: string;
+  type: ContentType;
+  title: string;
+  description?: string;
+  data: ContentData;
+  position?: ElementPosition;
+  visibility?: VisibilityState;
+  metadata?: Record<string, any>;
+  relationships?: ContentRelationship[];
+}
+
+export interface ContentData {
+  /**
+   * Short human readable description of the element, used when the element is
+   * too large to be sent as a whole
+   */
+  summary?: string;
+  chartData?: ChartData;
+  tableData?: TableData;
+  metricData?: MetricData;
+  textContent?: TextContent;
+  formData?: FormData;
+  navigationData?: NavigationData;
+  /**
+   * Data of extractors registered by other plugins
+   */
+  custom?: Record<string, any>;
+}
+
+export interface ElementPosition {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  zIndex?: number;
+}
+
+export interface ContentRelationship {
+  type: string;
+  targetId: string;
+  description?: string;
+}
+
+// ============================================================================
+// Visualizations and Metrics
+// ============================================================================
+
+export interface ChartData {
+  type: string;
+  values: DataPoint[];
+  series?: SeriesInfo[];
+  trends?: TrendInfo;
+  aggregations?: AggregationInfo[];
+}
+
+export interface DataPoint {
+  x: string | number;
+  y: number;
+  label?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface SeriesInfo {
+  name: string;
+  color?: string;
+  type?: string;
+  visible?: boolean;
+}
+
+export interface TrendInfo {
+  direction: 'increasing' | 'decreasing' | 'stable';
+  confidence?: number;
+  changePercent?: number;
+  anomalies?: Array<{ timestamp: string; value: number; severity: 'low' | 'medium' | 'high' }>;
+}
+
+export interface AggregationInfo {
+  field: string;
+  value: number;
+  type?: string;
+}
+
+export interface MetricData {
+  metrics: MetricValue[];
+}
+
+export interface MetricValue {
+  label: string;
+  value: number;
+  displayValue: string;
+  unit?: string;
+  trend?: 'up' | 'down' | 'neutral';
+}
+
+// ============================================================================
+// Tables
+// ============================================================================
+
+export interface TableData {
+  headers: string[];
+  rows: any[][];
+  totalRows?: number;
+  pagination?: PaginationInfo;
+  sorting?: SortInfo;
+}
+
+export interface PaginationInfo {
+  currentPage: number;
+  totalPages?: number;
+  pageSize?: number;
+  totalItems?: number;
+}
+
+export interface SortInfo {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+// ============================================================================
+// Text and Forms
+// ============================================================================
+
+export interface TextContent {
+  text: string;
+  formattedText?: string;
+  markdown?: string;
+  links: LinkInfo[];
+}
+
+export interface LinkInfo {
+  text: string;
+  href: string;
+  external: boolean;
+}
+
+export interface FormData {
+  fields: FormField[];
+  values: Record<string, any>;
+  validation: ValidationInfo;
+}
+
+export interface FormField {
+  name: string;
+  label?: string;
+  type: string;
+  required: boolean;
+  disabled: boolean;
+  options?: string[];
+}
+
+export interface ValidationInfo {
+  isValid: boolean;
+  errors: Array<{ field?: string; message: string }>;
+}
+
+// ============================================================================
+// Navigation
+// ============================================================================
+
+export interface NavigationData {
+  items: NavigationItem[];
+  currentPath: string;
+  actions: ActionInfo[];
+}
+
+export interface NavigationItem {
+  text: string;
+  href?: string;
+  active: boolean;
+}
+
+export interface ActionInfo {
+  label: string;
+  type: 'button' | 'link' | 'menu_item';
+  enabled: boolean;
+}
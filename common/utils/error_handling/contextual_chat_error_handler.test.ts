@@ -0,0 +1,244 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ContextualChatErrorType,
+  ErrorSeverity,
+  RecoveryStrategy,
+} from '../../types/error_handling';
+import {
+  classifyError,
+  ContextualChatErrorHandler,
+  getErrorStatusCode,
+  toErrorAttributes,
+} from './contextual_chat_error_handler';
+
+const withStatus = (message: string, statusCode: number) =>
+  Object.assign(new Error(message), { statusCode });
+
+describe('classifyError', () => {
+  it.each([
+    [withStatus('model throttled', 429), ContextualChatErrorType.CHAT_SERVICE_UNAVAILABLE],
+    [
+      Object.assign(new Error('ML Commons failure'), { meta: { statusCode: 503 } }),
+      ContextualChatErrorType.CHAT_SERVICE_UNAVAILABLE,
+    ],
+    [withStatus('bad gateway', 502), ContextualChatErrorType.CHAT_SERVICE_UNAVAILABLE],
+    [withStatus('plugin failure', 500), ContextualChatErrorType.UNKNOWN_ERROR],
+    [withStatus('no such index', 404), ContextualChatErrorType.RESOURCE_NOT_FOUND],
+    [
+      Object.assign(new Error('Saved object not found'), { output: { statusCode: 404 } }),
+      ContextualChatErrorType.RESOURCE_NOT_FOUND,
+    ],
+    [withStatus('forbidden', 403), ContextualChatErrorType.INSUFFICIENT_PERMISSIONS],
+    [
+      withStatus('[request body.input]: expected value', 400),
+      ContextualChatErrorType.INVALID_REQUEST,
+    ],
+    [withStatus('gateway timeout', 504), ContextualChatErrorType.SERVICE_TIMEOUT],
+    [
+      Object.assign(new Error('aborted'), { name: 'AbortError' }),
+      ContextualChatErrorType.REQUEST_CANCELLED,
+    ],
+    [
+      Object.assign(new Error('timed out'), { code: 'ETIMEDOUT' }),
+      ContextualChatErrorType.SERVICE_TIMEOUT,
+    ],
+    [
+      Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }),
+      ContextualChatErrorType.NETWORK_ERROR,
+    ],
+    [Object.assign(new TypeError('fetch failed')), ContextualChatErrorType.NETWORK_ERROR],
+    [
+      { body: { attributes: { type: 'context_timeout' } } },
+      ContextualChatErrorType.CONTEXT_TIMEOUT,
+    ],
+    [new Error('something else'), ContextualChatErrorType.UNKNOWN_ERROR],
+  ])('should classify %p', (error, type) => {
+    expect(classifyError(error)).toBe(type);
+  });
+});
+
+describe('ContextualChatErrorHandler', () => {
+  const logger = { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const notify = jest.fn();
+  const createHandler = (enableStandardChatFallback = true) =>
+    new ContextualChatErrorHandler({
+      logger,
+      notify,
+      fallback: { maxRetryAttempts: 2, retryBackoffMs: 0, enableStandardChatFallback },
+    });
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should create typed errors with user-safe messages', () => {
+    const originalError = withStatus('connect ECONNREFUSED 10.0.0.1:9200', 503);
+    const error = createHandler().toContextualError(originalError);
+
+    expect(error).toMatchObject({
+      type: ContextualChatErrorType.CHAT_SERVICE_UNAVAILABLE,
+      severity: ErrorSeverity.HIGH,
+      recoveryStrategy: RecoveryStrategy.RETRY_WITH_BACKOFF,
+      retryable: true,
+      userMessage: 'The assistant backend is unavailable, please try again later.',
+      originalError,
+    });
+    expect(getErrorStatusCode(error)).toBe(503);
+    expect(toErrorAttributes(error)).toEqual({
+      type: ContextualChatErrorType.CHAT_SERVICE_UNAVAILABLE,
+      severity: ErrorSeverity.HIGH,
+      recoveryStrategy: RecoveryStrategy.RETRY_WITH_BACKOFF,
+      retryable: true,
+    });
+  });
+
+  it('should keep the message of client errors, they are meant for the user', () => {
+    const error = createHandler().toContextualError(withStatus('Conversation foo not found', 404));
+
+    expect(error.userMessage).toBe('Conversation foo not found');
+    expect(getErrorStatusCode(error)).toBe(404);
+  });
+
+  it('should honor errors which declare they cannot be retried', () => {
+    const error = createHandler().toContextualError(
+      Object.assign(new Error('circuit open'), {
+        type: ContextualChatErrorType.CHAT_SERVICE_UNAVAILABLE,
+        retryable: false,
+      })
+    );
+
+    expect(createHandler().shouldRetry(error)).toBe(false);
+    expect(
+      createHandler().shouldRetry(
+        createHandler().toContextualError({
+          body: { attributes: { type: 'network_error', retryable: false } },
+        })
+      )
+    ).toBe(false);
+  });
+
+  it('should retry with backoff until the request succeeds', async () => {
+    const retry = jest
+      .fn()
+      .mockRejectedValueOnce(withStatus('unavailable', 503))
+      .mockResolvedValue('answer');
+
+    const result = await createHandler().handleError(withStatus('unavailable', 503), { retry });
+
+    expect(retry).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ success: true, result: 'answer', fallbackUsed: false });
+  });
+
+  it('should send the request without context once the retries are exhausted', async () => {
+    const retry = jest.fn().mockRejectedValue(withStatus('unavailable', 503));
+    const withoutContext = jest.fn().mockResolvedValue('standard answer');
+
+    const result = await createHandler().handleError(withStatus('unavailable', 503), {
+      retry,
+      withoutContext,
+    });
+
+    expect(retry).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ success: true, result: 'standard answer', fallbackUsed: true });
+  });
+
+  it('should skip the context without retrying when the context is the problem', async () => {
+    const retry = jest.fn();
+    const withoutContext = jest.fn().mockResolvedValue('standard answer');
+    const handler = createHandler();
+
+    const result = await handler.handleError(
+      handler.createContextualError(ContextualChatErrorType.PROMPT_BUILDER_FAILED, 'failed'),
+      { retry, withoutContext }
+    );
+
+    expect(retry).not.toHaveBeenCalled();
+    expect(result.fallbackUsed).toBe(true);
+  });
+
+  it('should return the error when the fallback is disabled', async () => {
+    const originalError = withStatus('bad request', 400);
+
+    const result = await createHandler(false).handleError(originalError, {
+      withoutContext: jest.fn(),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.originalError).toBe(originalError);
+  });
+
+  it('should notify the user of errors with the notify strategy', async () => {
+    const result = await createHandler().handleError(
+      Object.assign(new Error(), { name: 'TimeoutError' })
+    );
+
+    expect(result.userNotified).toBe(true);
+    expect(notify).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'error',
+        title: 'Request timed out',
+        message: 'The assistant took too long to answer, please try again.',
+        autoHide: true,
+      })
+    );
+  });
+
+  it('should not send unknown errors again', async () => {
+    const retry = jest.fn();
+    const withoutContext = jest.fn();
+
+    const result = await createHandler().handleError(withStatus('plugin failure', 500), {
+      retry,
+      withoutContext,
+    });
+
+    expect(retry).not.toHaveBeenCalled();
+    expect(withoutContext).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ success: false, fallbackUsed: false, userNotified: true });
+    expect(notify).toHaveBeenCalledWith(expect.objectContaining({ title: 'Something went wrong' }));
+  });
+
+  it('should neither recover nor notify when the request was cancelled', async () => {
+    const retry = jest.fn();
+    const withoutContext = jest.fn();
+
+    const result = await createHandler().handleError(
+      Object.assign(new Error('aborted'), { name: 'AbortError' }),
+      { retry, withoutContext }
+    );
+
+    expect(retry).not.toHaveBeenCalled();
+    expect(withoutContext).not.toHaveBeenCalled();
+    expect(notify).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      success: false,
+      userNotified: false,
+      error: expect.objectContaining({ type: ContextualChatErrorType.REQUEST_CANCELLED }),
+    });
+  });
+
+  it('should offer the recovery actions matching the error', () => {
+    const handler = createHandler();
+    const actions = { retry: jest.fn(), withoutContext: jest.fn() };
+
+    const unavailable = handler.createNotification(
+      handler.toContextualError(withStatus('unavailable', 503)),
+      actions
+    );
+    const invalidContext = handler.createNotification(
+      handler.createContextualError(ContextualChatErrorType.MEMORY_LIMIT_EXCEEDED, 'too large'),
+      actions
+    );
+
+    expect(unavailable.actions?.map(({ label }) => label)).toEqual(['Retry']);
+    expect(unavailable.autoHide).toBe(false);
+    expect(invalidContext.actions?.map(({ label }) => label)).toEqual([
+      'Send without page context',
+    ]);
+    expect(invalidContext.type).toBe('warning');
+  });
+});
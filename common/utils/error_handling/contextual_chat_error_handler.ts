@@ -0,0 +1,592 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  ContextIssueNotification,
+  ContextualChatError,
+  ContextualChatErrorAttributes,
+  ContextualChatErrorType,
+  ErrorRecoveryResult,
+  ErrorSeverity,
+  FallbackConfiguration,
+  IErrorHandler,
+  RecoveryStrategy,
+} from '../../types/error_handling';
+
+interface ErrorDefinition {
+  severity: ErrorSeverity;
+  recoveryStrategy: RecoveryStrategy;
+  retryable: boolean;
+  /**
+   * Status of the HTTP response when the original error has none
+   */
+  statusCode: number;
+  title: string;
+  /**
+   * Message shown to the user, the message of the original error is shown when missing
+   * because it is meant for the user, e.g. a validation failure
+   */
+  userMessage?: string;
+}
+
+const CONTEXT_UNAVAILABLE_MESSAGE =
+  'The page context could not be used, the message is answered without it.';
+
+const ERROR_DEFINITIONS: Record<ContextualChatErrorType, ErrorDefinition> = {
+  [ContextualChatErrorType.CONTEXT_EXTRACTION_FAILED]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.SKIP_CONTEXT,
+    retryable: false,
+    statusCode: 500,
+    title: 'Page context unavailable',
+    userMessage: CONTEXT_UNAVAILABLE_MESSAGE,
+  },
+  [ContextualChatErrorType.CONTEXT_TIMEOUT]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.SKIP_CONTEXT,
+    retryable: false,
+    statusCode: 500,
+    title: 'Page context unavailable',
+    userMessage: CONTEXT_UNAVAILABLE_MESSAGE,
+  },
+  [ContextualChatErrorType.CONTEXT_UNAVAILABLE]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.SKIP_CONTEXT,
+    retryable: false,
+    statusCode: 500,
+    title: 'Page context unavailable',
+    userMessage: CONTEXT_UNAVAILABLE_MESSAGE,
+  },
+  [ContextualChatErrorType.PARTIAL_CONTEXT_ONLY]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.USE_PARTIAL_CONTEXT,
+    retryable: false,
+    statusCode: 500,
+    title: 'Partial page context',
+    userMessage: 'Only part of the page could be read, the answer may miss some of its content.',
+  },
+  [ContextualChatErrorType.INSUFFICIENT_PERMISSIONS]: {
+    severity: ErrorSeverity.HIGH,
+    recoveryStrategy: RecoveryStrategy.NOTIFY_USER,
+    retryable: false,
+    statusCode: 403,
+    title: 'Permission denied',
+    userMessage: 'You do not have the permissions required to use the assistant on this data.',
+  },
+  [ContextualChatErrorType.UNAUTHORIZED_CONTENT]: {
+    severity: ErrorSeverity.MEDIUM,
+    recoveryStrategy: RecoveryStrategy.SKIP_CONTEXT,
+    retryable: false,
+    statusCode: 403,
+    title: 'Page context not shared',
+    userMessage: 'Some of the page content cannot be shared with the assistant.',
+  },
+  [ContextualChatErrorType.SECURITY_VALIDATION_FAILED]: {
+    severity: ErrorSeverity.MEDIUM,
+    recoveryStrategy: RecoveryStrategy.SKIP_CONTEXT,
+    retryable: false,
+    statusCode: 400,
+    title: 'Page context not shared',
+    userMessage: 'The page context was rejected by the security checks.',
+  },
+  [ContextualChatErrorType.CHAT_SERVICE_UNAVAILABLE]: {
+    severity: ErrorSeverity.HIGH,
+    recoveryStrategy: RecoveryStrategy.RETRY_WITH_BACKOFF,
+    retryable: true,
+    statusCode: 503,
+    title: 'Assistant unavailable',
+    userMessage: 'The assistant backend is unavailable, please try again later.',
+  },
+  [ContextualChatErrorType.PROMPT_BUILDER_FAILED]: {
+    severity: ErrorSeverity.MEDIUM,
+    recoveryStrategy: RecoveryStrategy.FALLBACK_TO_STANDARD_CHAT,
+    retryable: false,
+    statusCode: 500,
+    title: 'Page context unavailable',
+    userMessage: CONTEXT_UNAVAILABLE_MESSAGE,
+  },
+  [ContextualChatErrorType.RESPONSE_PROCESSOR_FAILED]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.LOG_AND_CONTINUE,
+    retryable: false,
+    statusCode: 500,
+    title: 'Answer shown without references',
+    userMessage: 'The references to the page could not be added to the answer.',
+  },
+  [ContextualChatErrorType.DOM_OBSERVER_FAILED]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.LOG_AND_CONTINUE,
+    retryable: false,
+    statusCode: 500,
+    title: 'Page changes not tracked',
+    userMessage: 'Changes of the page are not tracked, the page context may be outdated.',
+  },
+  [ContextualChatErrorType.ELEMENT_NOT_FOUND]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.LOG_AND_CONTINUE,
+    retryable: false,
+    statusCode: 404,
+    title: 'Element not found',
+    userMessage: 'The referenced element is no longer on the page.',
+  },
+  [ContextualChatErrorType.ELEMENT_NOT_ACCESSIBLE]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.LOG_AND_CONTINUE,
+    retryable: false,
+    statusCode: 403,
+    title: 'Element not accessible',
+    userMessage: 'The referenced element cannot be read.',
+  },
+  [ContextualChatErrorType.CACHE_ERROR]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.LOG_AND_CONTINUE,
+    retryable: false,
+    statusCode: 500,
+    title: 'Cache error',
+    userMessage: 'The page context is read again instead of using the cache.',
+  },
+  [ContextualChatErrorType.EXTRACTION_QUEUE_FULL]: {
+    severity: ErrorSeverity.MEDIUM,
+    recoveryStrategy: RecoveryStrategy.SKIP_CONTEXT,
+    retryable: true,
+    statusCode: 503,
+    title: 'Page context unavailable',
+    userMessage: CONTEXT_UNAVAILABLE_MESSAGE,
+  },
+  [ContextualChatErrorType.MEMORY_LIMIT_EXCEEDED]: {
+    severity: ErrorSeverity.MEDIUM,
+    recoveryStrategy: RecoveryStrategy.SKIP_CONTEXT,
+    retryable: false,
+    statusCode: 413,
+    title: 'Page context too large',
+    userMessage: 'The page has too much content to be sent to the assistant.',
+  },
+  [ContextualChatErrorType.NETWORK_ERROR]: {
+    severity: ErrorSeverity.HIGH,
+    recoveryStrategy: RecoveryStrategy.RETRY_WITH_BACKOFF,
+    retryable: true,
+    statusCode: 502,
+    title: 'Connection failed',
+    userMessage: 'The assistant backend could not be reached, please try again.',
+  },
+  [ContextualChatErrorType.SERVICE_TIMEOUT]: {
+    severity: ErrorSeverity.HIGH,
+    // the request already waited for the whole timeout, retrying right away would wait again
+    recoveryStrategy: RecoveryStrategy.NOTIFY_USER,
+    retryable: true,
+    statusCode: 504,
+    title: 'Request timed out',
+    userMessage: 'The assistant took too long to answer, please try again.',
+  },
+  [ContextualChatErrorType.INVALID_CONFIGURATION]: {
+    severity: ErrorSeverity.CRITICAL,
+    recoveryStrategy: RecoveryStrategy.FAIL_GRACEFULLY,
+    retryable: false,
+    statusCode: 500,
+    title: 'Assistant not configured',
+    userMessage: 'The assistant is not configured correctly, please contact your administrator.',
+  },
+  [ContextualChatErrorType.FEATURE_DISABLED]: {
+    severity: ErrorSeverity.LOW,
+    recoveryStrategy: RecoveryStrategy.FALLBACK_TO_STANDARD_CHAT,
+    retryable: false,
+    statusCode: 403,
+    title: 'Feature disabled',
+    userMessage: 'This feature is disabled, the message is answered without it.',
+  },
+  [ContextualChatErrorType.INVALID_REQUEST]: {
+    severity: ErrorSeverity.MEDIUM,
+    // the backend may have rejected the prompt built from the page context
+    recoveryStrategy: RecoveryStrategy.FALLBACK_TO_STANDARD_CHAT,
+    retryable: false,
+    statusCode: 400,
+    title: 'Invalid request',
+  },
+  [ContextualChatErrorType.RESOURCE_NOT_FOUND]: {
+    severity: ErrorSeverity.MEDIUM,
+    recoveryStrategy: RecoveryStrategy.NOTIFY_USER,
+    retryable: false,
+    statusCode: 404,
+    title: 'Not found',
+  },
+  [ContextualChatErrorType.REQUEST_CANCELLED]: {
+    severity: ErrorSeverity.LOW,
+    // the user stopped the request, there is nothing to recover from
+    recoveryStrategy: RecoveryStrategy.LOG_AND_CONTINUE,
+    retryable: false,
+    // status of nginx for a request closed by the client
+    statusCode: 499,
+    title: 'Request cancelled',
+    userMessage: 'The request was cancelled.',
+  },
+  [ContextualChatErrorType.UNKNOWN_ERROR]: {
+    severity: ErrorSeverity.HIGH,
+    // the request may have been processed already, sending it again could answer it twice
+    recoveryStrategy: RecoveryStrategy.NOTIFY_USER,
+    retryable: false,
+    statusCode: 500,
+    title: 'Something went wrong',
+    userMessage: 'Something went wrong while processing the request, please try again.',
+  },
+};
+
+const CONTEXT_STRATEGIES = [
+  RecoveryStrategy.FALLBACK_TO_STANDARD_CHAT,
+  RecoveryStrategy.SKIP_CONTEXT,
+  RecoveryStrategy.USE_PARTIAL_CONTEXT,
+];
+
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE'];
+
+const isErrorType = (type: unknown): type is ContextualChatErrorType =>
+  Object.values(ContextualChatErrorType).includes(type as ContextualChatErrorType);
+
+/**
+ * The fields read from OpenSearch client errors, HTTP errors of the browser, errors thrown by the
+ * routes and Boom errors of the saved objects client
+ */
+interface ErrorLike {
+  type?: unknown;
+  name?: unknown;
+  message?: unknown;
+  code?: unknown;
+  cause?: { code?: unknown };
+  statusCode?: unknown;
+  retryable?: unknown;
+  recoveryStrategy?: unknown;
+  meta?: { statusCode?: unknown };
+  response?: { status?: unknown };
+  output?: { statusCode?: unknown };
+  body?: { message?: unknown; attributes?: { type?: unknown; retryable?: unknown } };
+}
+
+const asErrorLike = (error: unknown): ErrorLike =>
+  typeof error === 'object' && error !== null ? (error as ErrorLike) : {};
+
+const firstOfType = <T>(values: unknown[], isType: (value: unknown) => value is T) =>
+  values.find(isType);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number';
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const getStatusCode = (error: unknown): number | undefined => {
+  const { statusCode, meta, response, output } = asErrorLike(error);
+  return firstOfType(
+    [statusCode, meta?.statusCode, response?.status, output?.statusCode],
+    isNumber
+  );
+};
+
+/**
+ * Map a failure of the chat pipeline to an error type. Errors may declare their type,
+ * the other ones are recognized from ML Commons, agent server, network and timeout failures.
+ */
+export const classifyError = (error: unknown): ContextualChatErrorType => {
+  const { type, name, message, code, cause, body } = asErrorLike(error);
+  if (isErrorType(type)) {
+    return type;
+  }
+  // the attributes of an error response of the chat routes
+  const responseType = body?.attributes?.type;
+  if (isErrorType(responseType)) {
+    return responseType;
+  }
+
+  if (name === 'AbortError') {
+    return ContextualChatErrorType.REQUEST_CANCELLED;
+  }
+  const errorCode = code ?? cause?.code;
+  if (name === 'TimeoutError' || errorCode === 'ETIMEDOUT') {
+    return ContextualChatErrorType.SERVICE_TIMEOUT;
+  }
+  if (
+    name === 'ConnectionError' ||
+    name === 'NoLivingConnectionsError' ||
+    (isString(errorCode) && NETWORK_ERROR_CODES.includes(errorCode)) ||
+    // fetch rejects with a TypeError when the server cannot be reached
+    (name === 'TypeError' && message === 'fetch failed')
+  ) {
+    return ContextualChatErrorType.NETWORK_ERROR;
+  }
+
+  const statusCode = getStatusCode(error);
+  if (statusCode === undefined) {
+    return name === 'ValidationError'
+      ? ContextualChatErrorType.INVALID_REQUEST
+      : ContextualChatErrorType.UNKNOWN_ERROR;
+  }
+  switch (statusCode) {
+    case 401:
+    case 403:
+      return ContextualChatErrorType.INSUFFICIENT_PERMISSIONS;
+    case 404:
+      return ContextualChatErrorType.RESOURCE_NOT_FOUND;
+    case 408:
+    case 504:
+      return ContextualChatErrorType.SERVICE_TIMEOUT;
+    case 413:
+      return ContextualChatErrorType.MEMORY_LIMIT_EXCEEDED;
+    case 429:
+    case 502:
+    case 503:
+      return ContextualChatErrorType.CHAT_SERVICE_UNAVAILABLE;
+  }
+  // other server errors are failures of the plugin or the agent rather than outages
+  return statusCode >= 400 && statusCode < 500
+    ? ContextualChatErrorType.INVALID_REQUEST
+    : ContextualChatErrorType.UNKNOWN_ERROR;
+};
+
+export const isContextualChatError = (error: unknown): error is ContextualChatError => {
+  const { type, retryable, recoveryStrategy } = asErrorLike(error);
+  return (
+    isErrorType(type) &&
+    typeof retryable === 'boolean' &&
+    Object.values(RecoveryStrategy).includes(recoveryStrategy as RecoveryStrategy)
+  );
+};
+
+/**
+ * Status of the HTTP response for an error, the status of the original error is kept
+ * when it is an HTTP error already.
+ */
+export const getErrorStatusCode = (error: ContextualChatError): number => {
+  const statusCode = getStatusCode(error.originalError);
+  return statusCode && statusCode >= 400 ? statusCode : ERROR_DEFINITIONS[error.type].statusCode;
+};
+
+export const toErrorAttributes = (error: ContextualChatError): ContextualChatErrorAttributes => ({
+  type: error.type,
+  severity: error.severity,
+  recoveryStrategy: error.recoveryStrategy,
+  retryable: error.retryable,
+});
+
+/**
+ * Operations applying the recovery strategies, a strategy is skipped when its operation is missing.
+ */
+export interface RecoveryActions<T> {
+  /**
+   * Send the same request again
+   */
+  retry?: () => Promise<T>;
+  /**
+   * Send the request without the page context
+   */
+  withoutContext?: () => Promise<T>;
+}
+
+interface ErrorHandlerLogger {
+  debug: (message: string) => void;
+  warn: (message: string) => void;
+  error: (message: string) => void;
+}
+
+export interface ContextualChatErrorHandlerOptions {
+  logger?: ErrorHandlerLogger;
+  /**
+   * Show a notification to the user, notifications are dropped when missing, e.g. on the server
+   */
+  notify?: (notification: ContextIssueNotification) => void;
+  fallback?: Partial<FallbackConfiguration>;
+}
+
+const DEFAULT_FALLBACK_CONFIGURATION: FallbackConfiguration = {
+  enableStandardChatFallback: true,
+  enablePartialContextFallback: true,
+  maxRetryAttempts: 2,
+  retryBackoffMs: 1000,
+  timeoutMs: 5000,
+  notifyUserOnFallback: false,
+  logAllErrors: true,
+};
+
+const NOTIFICATION_DURATION_MS = 10000;
+
+/**
+ * Turns the failures of the chat pipeline into typed errors with user-safe messages
+ * and applies their recovery strategy, shared by the server and the browser.
+ */
+export class ContextualChatErrorHandler implements IErrorHandler {
+  private readonly config: FallbackConfiguration;
+
+  constructor(private readonly options: ContextualChatErrorHandlerOptions = {}) {
+    this.config = { ...DEFAULT_FALLBACK_CONFIGURATION, ...options.fallback };
+  }
+
+  /**
+   * Apply the recovery strategy of the error: retry with backoff when the error is
+   * retryable, then send the request without context if the strategy allows it. Errors
+   * to retry which declare they cannot be retried are not sent again without context either.
+   */
+  async handleError<T>(
+    error: Error | ContextualChatError,
+    recovery: RecoveryActions<T> = {}
+  ): Promise<ErrorRecoveryResult<T>> {
+    let contextualError = this.toContextualError(error);
+    this.log(contextualError);
+    const result = { fallbackUsed: false, partialResult: false, userNotified: false };
+
+    if (
+      contextualError.recoveryStrategy === RecoveryStrategy.RETRY_WITH_BACKOFF &&
+      recovery.retry
+    ) {
+      for (let attempt = 0; attempt < this.config.maxRetryAttempts; attempt++) {
+        if (!this.shouldRetry(contextualError)) {
+          break;
+        }
+        const delay = this.config.retryBackoffMs * 2 ** attempt;
+        this.options.logger?.warn(`Retrying the request in ${delay}ms`);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        try {
+          return { ...result, success: true, result: await recovery.retry() };
+        } catch (retryError) {
+          contextualError = this.toContextualError(retryError);
+          this.log(contextualError);
+        }
+      }
+    }
+
+    const strategy = contextualError.recoveryStrategy;
+    if (
+      (CONTEXT_STRATEGIES.includes(strategy) ||
+        (strategy === RecoveryStrategy.RETRY_WITH_BACKOFF && contextualError.retryable)) &&
+      this.config.enableStandardChatFallback &&
+      recovery.withoutContext
+    ) {
+      this.options.logger?.warn('Sending the request without the page context');
+      try {
+        const fallbackResult = await recovery.withoutContext();
+        if (this.config.notifyUserOnFallback) {
+          this.notifyUser(this.createNotification(contextualError));
+        }
+        return {
+          ...result,
+          success: true,
+          result: fallbackResult,
+          fallbackUsed: true,
+          userNotified: this.config.notifyUserOnFallback && !!this.options.notify,
+        };
+      } catch (fallbackError) {
+        contextualError = this.toContextualError(fallbackError);
+        this.log(contextualError);
+      }
+    }
+
+    if (contextualError.recoveryStrategy === RecoveryStrategy.NOTIFY_USER) {
+      this.notifyUser(this.createNotification(contextualError));
+      return {
+        ...result,
+        success: false,
+        error: contextualError,
+        userNotified: !!this.options.notify,
+      };
+    }
+    return { ...result, success: false, error: contextualError };
+  }
+
+  createContextualError(
+    type: ContextualChatErrorType,
+    message: string,
+    originalError?: Error,
+    context?: ContextualChatError['context']
+  ): ContextualChatError {
+    const definition = ERROR_DEFINITIONS[type];
+    return Object.assign(new Error(message), {
+      name: 'ContextualChatError',
+      type,
+      severity: definition.severity,
+      recoveryStrategy: definition.recoveryStrategy,
+      retryable: definition.retryable,
+      userMessage: definition.userMessage ?? message,
+      context: { ...context, timestamp: context?.timestamp ?? new Date().toISOString() },
+      originalError,
+    });
+  }
+
+  /**
+   * Classify an error, errors may declare whether they can be retried,
+   * e.g. the agent is known to be down.
+   */
+  toContextualError(error: unknown): ContextualChatError {
+    if (isContextualChatError(error)) {
+      return error;
+    }
+    const { message, retryable, body } = asErrorLike(error);
+    const contextualError = this.createContextualError(
+      classifyError(error),
+      firstOfType([body?.message, message], isString) ?? String(error),
+      error instanceof Error ? error : undefined
+    );
+    // error responses of the chat routes carry the decision of the server
+    const serverRetryable = firstOfType(
+      [retryable, body?.attributes?.retryable],
+      (value): value is boolean => typeof value === 'boolean'
+    );
+    if (serverRetryable !== undefined) {
+      contextualError.retryable = serverRetryable;
+    }
+    return contextualError;
+  }
+
+  shouldRetry(error: ContextualChatError): boolean {
+    return error.retryable;
+  }
+
+  getRecoveryStrategy(error: ContextualChatError): RecoveryStrategy {
+    return error.recoveryStrategy;
+  }
+
+  /**
+   * The notification of an error, with a button for each recovery action provided
+   */
+  createNotification(
+    error: ContextualChatError,
+    actions: { retry?: () => void; withoutContext?: () => void } = {}
+  ): ContextIssueNotification {
+    const definition = ERROR_DEFINITIONS[error.type];
+    const notificationActions = [
+      ...(actions.retry && error.retryable ? [{ label: 'Retry', action: actions.retry }] : []),
+      ...(actions.withoutContext && CONTEXT_STRATEGIES.includes(error.recoveryStrategy)
+        ? [{ label: 'Send without page context', action: actions.withoutContext }]
+        : []),
+    ];
+    return {
+      type:
+        error.severity === ErrorSeverity.HIGH || error.severity === ErrorSeverity.CRITICAL
+          ? 'error'
+          : error.severity === ErrorSeverity.MEDIUM
+          ? 'warning'
+          : 'info',
+      title: definition.title,
+      message: error.userMessage ?? error.message,
+      ...(notificationActions.length && { actions: notificationActions }),
+      dismissible: true,
+      // keep the notification until the user picks an action
+      autoHide: !notificationActions.length,
+      duration: NOTIFICATION_DURATION_MS,
+    };
+  }
+
+  notifyUser(notification: ContextIssueNotification): void {
+    this.options.notify?.(notification);
+  }
+
+  private log(error: ContextualChatError) {
+    const { logger } = this.options;
+    if (!logger || !this.config.logAllErrors) {
+      return;
+    }
+    const message = `Contextual chat error ${error.type}: ${error.message}`;
+    if (error.severity === ErrorSeverity.LOW) {
+      logger.debug(message);
+    } else if (error.severity === ErrorSeverity.MEDIUM) {
+      logger.warn(message);
+    } else {
+      logger.error(message);
+    }
+  }
+}
@@ -4,7 +4,14 @@
  */
 
 import { data } from 'jquery';
-import { streamDeserializer, streamSerializer } from './serializer';
+import { STREAM_PROTOCOL_VERSION } from '../../constants/llm';
+import {
+  createStreamDeserializer,
+  formatStreamEventId,
+  parseStreamEventId,
+  streamDeserializer,
+  streamSerializer,
+} from './serializer';
 
 describe('streamSerializer', () => {
   it('should serialize a stream', () => {
@@ -19,6 +26,27 @@ describe('streamSerializer', () => {
       "
     `);
   });
+
+  it('should serialize the event id', () => {
+    const serialized = streamSerializer({ event: 'metadata', data: {} }, 'foo:1');
+    expect(streamDeserializer(serialized)).toEqual([{ event: 'metadata', data: {}, id: 'foo:1' }]);
+  });
+});
+
+describe('stream event id', () => {
+  it('should format and parse event ids', () => {
+    expect(parseStreamEventId(formatStreamEventId('foo:bar', 3))).toEqual({
+      streamId: 'foo:bar',
+      sequence: 3,
+    });
+  });
+
+  it('should return undefined for invalid event ids', () => {
+    expect(parseStreamEventId('foo')).toBeUndefined();
+    expect(parseStreamEventId(':1')).toBeUndefined();
+    expect(parseStreamEventId('foo:bar')).toBeUndefined();
+    expect(parseStreamEventId('foo:-1')).toBeUndefined();
+  });
 });
 
 describe('streamDeserializer', () => {
@@ -34,3 +62,42 @@ describe('streamDeserializer', () => {
     ]);
   });
 });
+
+describe('createStreamDeserializer', () => {
+  it('should return events split across chunks once they are complete', () => {
+    const deserialize = createStreamDeserializer();
+    const serialized = streamSerializer({
+      event: 'appendMessageContent',
+      data: { messageId: 'foo', content: 'bar' },
+    });
+
+    expect(deserialize(serialized.slice(0, 10))).toEqual([]);
+    expect(deserialize(serialized.slice(10))).toEqual([
+      {
+        event: 'appendMessageContent',
+        data: { messageId: 'foo', content: 'bar' },
+        id: undefined,
+      },
+    ]);
+  });
+
+  it('should reject an unsupported protocol version', () => {
+    const deserialize = createStreamDeserializer();
+
+    expect(
+      deserialize(
+        streamSerializer({ event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION } })
+      )
+    ).toEqual([{ event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION }, id: undefined }]);
+    expect(
+      deserialize(
+        streamSerializer({ event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION + 1 } })
+      )
+    ).toEqual([
+      {
+        event: 'error',
+        data: `Unsupported stream protocol version: ${STREAM_PROTOCOL_VERSION + 1}`,
+      },
+    ]);
+  });
+});
@@ -4,14 +4,37 @@
  */
 
 import { createParser } from 'eventsource-parser';
+import { STREAM_PROTOCOL_VERSION } from '../../constants/llm';
 import { StreamChunk } from '../../types/chat_saved_object_attributes';
 
 const separators = `\n\n`;
 const prefix = 'data: ';
 
-export const streamSerializer = (chunk: StreamChunk): string => {
+/**
+ * Stream chunk as returned by the deserializer, `id` is set when the server assigned
+ * an event id so that the stream can be resumed from that event.
+ */
+export type IdentifiedStreamChunk = StreamChunk & { id?: string };
+
+/**
+ * Event ids of resumable streams are formatted as `<streamId>:<sequence>`.
+ */
+export const formatStreamEventId = (streamId: string, sequence: number) =>
+  `${streamId}:${sequence}`;
+
+export const parseStreamEventId = (
+  eventId: string
+): { streamId: string; sequence: number } | undefined => {
+  const match = eventId.match(/^(.+):(\d+)$/);
+  return match ? { streamId: match[1], sequence: Number(match[2]) } : undefined;
+};
+
+export const streamSerializer = (chunk: StreamChunk, id?: string): string => {
   const { event, data } = chunk;
   let chunkString = '';
+  if (id) {
+    chunkString += `id: ${id}\n`;
+  }
   if (event) {
     chunkString += `event: ${event}\n`;
   }
@@ -21,12 +44,23 @@ export const streamSerializer = (chunk: StreamChunk): string => {
   return chunkString;
 };
 
-export const streamDeserializer = (content: string): StreamChunk[] => {
-  const streamChunks: StreamChunk[] = [];
+/**
+ * Creates a deserializer which keeps its parser state between calls, so that an event
+ * split across several network chunks is returned once it is complete.
+ */
+export const createStreamDeserializer = () => {
+  let streamChunks: IdentifiedStreamChunk[] = [];
   const parser = createParser({
     onEvent(message) {
       try {
         const dataPayload = JSON.parse(message.data);
+        if (message.event === 'protocol' && dataPayload.version !== STREAM_PROTOCOL_VERSION) {
+          streamChunks.push({
+            event: 'error',
+            data: `Unsupported stream protocol version: ${dataPayload.version}`,
+          });
+          return;
+        }
         streamChunks.push({
           ...message,
           data: dataPayload,
@@ -45,6 +79,14 @@ export const streamDeserializer = (content: string): StreamChunk[] => {
       });
     },
   });
-  parser.feed(content);
-  return streamChunks;
+
+  return (content: string): IdentifiedStreamChunk[] => {
+    parser.feed(content);
+    const result = streamChunks;
+    streamChunks = [];
+    return result;
+  };
 };
+
+export const streamDeserializer = (content: string): IdentifiedStreamChunk[] =>
+  createStreamDeserializer()(content);
@@ -0,0 +1,142 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { i18n } from '@osd/i18n';
+import { EuiLink } from '@elastic/eui';
+import { EuiIconType } from '@elastic/eui/src/components/icon/icon';
+import { Action } from '../../../../src/plugins/ui_actions/public';
+import { EmbeddableContext } from '../../../../src/plugins/embeddable/public';
+import { toMountPoint } from '../../../../src/plugins/opensearch_dashboards_react/public';
+import { CoreStart } from '../../../../src/core/public';
+import { NLQ_VISUALIZATION_EMBEDDABLE_TYPE } from '../components/visualization/embeddable/nlq_vis_embeddable';
+import { NLQVisualizationInput } from '../components/visualization/embeddable/types';
+import { ConvertVisualizationModal } from '../components/visualization/convert_visualization_modal';
+import { convertNLQVisualization, getConversionTargets } from '../vis_nlq/convert_visualization';
+import { VIS_NLQ_SAVED_OBJECT } from '../../common/constants/vis_type_nlq';
+
+export const CONVERT_NLQ_VISUALIZATION_ACTION = 'CONVERT_NLQ_VISUALIZATION_ACTION';
+
+export interface ConvertNLQVisualizationActionParams {
+  core: CoreStart;
+}
+
+/**
+ * Converts a saved NLQ visualization into a visualization of the Visualize editor
+ */
+export class ConvertNLQVisualizationAction implements Action<EmbeddableContext> {
+  public readonly type = CONVERT_NLQ_VISUALIZATION_ACTION;
+  public readonly id = CONVERT_NLQ_VISUALIZATION_ACTION;
+  public order = 50;
+
+  constructor(private params: ConvertNLQVisualizationActionParams) {}
+
+  public getDisplayName(): string {
+    return i18n.translate('dashboardAssistant.convertNLQVisualizationAction.displayName', {
+      defaultMessage: 'Convert to editable visualization',
+    });
+  }
+
+  public getIconType(): EuiIconType {
+    return 'visVega';
+  }
+
+  public async isCompatible({ embeddable }: EmbeddableContext): Promise<boolean> {
+    return (
+      embeddable.type === NLQ_VISUALIZATION_EMBEDDABLE_TYPE &&
+      !!(embeddable.getInput() as NLQVisualizationInput).savedObjectId
+    );
+  }
+
+  public async execute({ embeddable }: EmbeddableContext): Promise<void> {
+    const { savedObjects, overlays, notifications } = this.params.core;
+    const savedObjectId = (embeddable.getInput() as NLQVisualizationInput).savedObjectId!;
+
+    let targets;
+    try {
+      const nlqVisualization = await savedObjects.client.get<{ visualizationState: string }>(
+        VIS_NLQ_SAVED_OBJECT,
+        savedObjectId
+      );
+      if (nlqVisualization.error) {
+        throw new Error(nlqVisualization.error.message);
+      }
+      targets = getConversionTargets(
+        JSON.parse(nlqVisualization.attributes.visualizationState || '{}').params?.spec,
+        nlqVisualization.references.some(({ type }) => type === 'index-pattern')
+      );
+    } catch (e) {
+      notifications.toasts.addError(e, {
+        title: i18n.translate('dashboardAssistant.convertNLQVisualizationAction.loadFailed', {
+          defaultMessage: 'Failed to load the visualization',
+        }),
+      });
+      return;
+    }
+
+    const modal = overlays.openModal(
+      toMountPoint(
+        <ConvertVisualizationModal
+          savedObjectsClient={savedObjects.client}
+          savedObjectId={savedObjectId}
+          title={embeddable.getTitle() ?? ''}
+          targets={targets}
+          onClose={() => modal.close()}
+          onConvert={async ({ title, target, dashboardIds }) => {
+            try {
+              const visualization = await convertNLQVisualization(savedObjects.client, {
+                id: savedObjectId,
+                title,
+                target,
+                dashboardIds,
+              });
+              modal.close();
+              this.notifyConverted(visualization.id, title, dashboardIds.length);
+            } catch (e) {
+              notifications.toasts.addError(e, {
+                title: i18n.translate(
+                  'dashboardAssistant.convertNLQVisualizationAction.convertFailed',
+                  {
+                    defaultMessage: `Failed to convert '{title}'`,
+                    values: { title },
+                  }
+                ),
+              });
+            }
+          }}
+        />
+      )
+    );
+  }
+
+  private notifyConverted(id: string, title: string, replacedDashboards: number) {
+    const { application, notifications } = this.params.core;
+    const href = application.getUrlForApp('visualize', { path: `#/edit/${id}` });
+    notifications.toasts.addSuccess({
+      title: i18n.translate('dashboardAssistant.convertNLQVisualizationAction.converted', {
+        defaultMessage: `Converted '{title}'`,
+        values: { title },
+      }),
+      text: toMountPoint(
+        <>
+          {replacedDashboards > 0 && (
+            <p>
+              {i18n.translate('dashboardAssistant.convertNLQVisualizationAction.replaced', {
+                defaultMessage:
+                  'Replaced the panel on {count, plural, one {# dashboard} other {# dashboards}}. Reload an open dashboard to see the new panel.',
+                values: { count: replacedDashboards },
+              })}
+            </p>
+          )}
+          <EuiLink href={href}>
+            {i18n.translate('dashboardAssistant.convertNLQVisualizationAction.open', {
+              defaultMessage: 'Open in Visualize',
+            })}
+          </EuiLink>
+        </>
+      ),
+    });
+  }
+}
@@ -15,17 +15,20 @@ import * as useSaveChatExports from '../../hooks/use_save_chat';
 import * as chatContextExports from '../../contexts/chat_context';
 import * as coreContextExports from '../../contexts/core_context';
 import { IMessage } from '../../../common/types/chat_saved_object_attributes';
+import { AgentHealthStatus } from '../../../common/types/agent_health';
 import * as services from '../../services';
 import { ChatWindowHeaderTitle } from '../chat_window_header_title';
 import { DataSourceServiceMock } from '../../services/data_source_service.mock';
 import { setupConfigSchemaMock } from '../../../test/config_schema_mock';
 const setup = ({
   messages = [],
+  agentHealth = { monitored: false, status: 'unknown', circuit: 'closed', consecutiveFailures: 0 },
   ...rest
 }: {
   messages?: IMessage[];
   conversationId?: string | undefined;
   dataSource?: DataSourceServiceMock;
+  agentHealth?: AgentHealthStatus;
 } = {}) => {
   const useCoreMock = {
     services: {
@@ -47,6 +50,7 @@ const setup = ({
     },
   };
   useCoreMock.services.http.put.mockImplementation(() => Promise.resolve());
+  useCoreMock.services.http.get.mockImplementation(() => Promise.resolve(agentHealth));
 
   const useChatStateMock = {
     chatState: { messages },
@@ -93,6 +97,40 @@ describe('<ChatWindowHeaderTitle />', () => {
   afterAll(() => {
     jest.restoreAllMocks();
   });
+  it('should not show the agent health when the agent is not monitored', async () => {
+    const { renderResult, useCoreMock } = setup();
+
+    await waitFor(() => {
+      expect(useCoreMock.services.http.get).toHaveBeenCalledWith('/api/assistant/agent_health', {
+        query: { refresh: false },
+        signal: expect.anything(),
+      });
+    });
+    expect(renderResult.queryByTestId('agentHealthIndicator')).not.toBeInTheDocument();
+  });
+
+  it('should show the assistant as unavailable when the agent circuit is open', async () => {
+    const { renderResult, useCoreMock } = setup({
+      agentHealth: {
+        monitored: true,
+        status: 'unhealthy',
+        circuit: 'open',
+        consecutiveFailures: 3,
+        lastError: 'connect ECONNREFUSED',
+      },
+    });
+
+    await waitFor(() => {
+      expect(renderResult.getByTestId('agentHealthIndicator')).toHaveTextContent('Unavailable');
+    });
+
+    fireEvent.click(renderResult.getByLabelText('Check the assistant backend again'));
+    expect(useCoreMock.services.http.get).toHaveBeenLastCalledWith('/api/assistant/agent_health', {
+      query: { refresh: true },
+      signal: undefined,
+    });
+  });
+
   it('should show rename conversation option when feature flag enabled', () => {
     const { renderResult } = setup();
     fireEvent.click(renderResult.getByLabelText('toggle chat context menu'));
@@ -0,0 +1,40 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { EuiHealth, EuiLink, EuiToolTip } from '@elastic/eui';
+import { useAgentHealth } from '../hooks/use_agent_health';
+
+/**
+ * Tells the user the AI agent is not responding, nothing is shown while it is healthy
+ * or when the chat is not backed by the agent.
+ */
+export const AgentHealthIndicator = () => {
+  const { health, refresh } = useAgentHealth();
+
+  if (!health?.monitored || health.status !== 'unhealthy') {
+    return null;
+  }
+
+  const unavailable = health.circuit === 'open';
+  const content = (
+    <>
+      {unavailable
+        ? 'The assistant backend is not responding, messages cannot be sent until it recovers.'
+        : 'The assistant backend failed to respond recently, messages may fail.'}
+      {health.lastError && <p>{health.lastError}</p>}
+    </>
+  );
+
+  return (
+    <EuiToolTip position="bottom" content={content}>
+      <EuiLink color="text" onClick={refresh} aria-label="Check the assistant backend again">
+        <EuiHealth color={unavailable ? 'danger' : 'warning'} data-test-subj="agentHealthIndicator">
+          {unavailable ? 'Unavailable' : 'Degraded'}
+        </EuiHealth>
+      </EuiLink>
+    </EuiToolTip>
+  );
+};
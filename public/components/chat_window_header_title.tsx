@@ -17,6 +17,7 @@ import { useChatContext } from '../contexts';
 import { useChatActions, useChatState, useSaveChat } from '../hooks';
 import { NotebookNameModal } from './notebook/notebook_name_modal';
 import { ChatExperimentalBadge } from './chat_experimental_badge';
+import { AgentHealthIndicator } from './agent_health_indicator';
 import { useCore } from '../contexts/core_context';
 import { EditConversationNameModal } from './edit_conversation_name_modal';
 import { getConfigSchema } from '../../public/services';
@@ -119,6 +120,9 @@ export const ChatWindowHeaderTitle = React.memo(() => {
         <EuiFlexItem grow={false}>
           <ChatExperimentalBadge onClick={closePopover} />
         </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <AgentHealthIndicator />
+        </EuiFlexItem>
         <EuiFlexItem grow={false}>
           <EuiPopover
             id="conversationTitle"
@@ -0,0 +1,83 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useMemo } from 'react';
+import {
+  EuiBasicTableColumn,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiInMemoryTable,
+  EuiSmallButtonEmpty,
+  EuiText,
+} from '@elastic/eui';
+import { IMessage, ITableContent } from '../../common/types/chat_saved_object_attributes';
+import { downloadCsv } from '../utils/csv';
+
+interface DataTableMessageProps {
+  message: IMessage;
+}
+
+const parseTableContent = (content: string): ITableContent | undefined => {
+  try {
+    const table = JSON.parse(content);
+    return Array.isArray(table?.columns) && Array.isArray(table?.rows) ? table : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const renderCell = (value: unknown) =>
+  value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value ?? '');
+
+export const DataTableMessage: React.FC<DataTableMessageProps> = (props) => {
+  const table = useMemo(() => parseTableContent(props.message.content), [props.message.content]);
+
+  const columns = useMemo<Array<EuiBasicTableColumn<Record<string, unknown>>>>(
+    () =>
+      table?.columns.map(({ name }, index) => ({
+        field: `column_${index}`,
+        name,
+        sortable: true,
+        truncateText: true,
+        render: renderCell,
+      })) ?? [],
+    [table]
+  );
+  // rows are keyed by the position of their column, column names may not be valid field names
+  const items = useMemo(
+    () =>
+      table?.rows.map((row) =>
+        Object.fromEntries(row.map((value, index) => [`column_${index}`, value]))
+      ) ?? [],
+    [table]
+  );
+
+  if (!table) {
+    return <EuiText style={{ whiteSpace: 'pre-line' }}>{props.message.content}</EuiText>;
+  }
+
+  return (
+    <>
+      <EuiInMemoryTable
+        items={items}
+        columns={columns}
+        sorting
+        pagination={{ initialPageSize: 10, pageSizeOptions: [10, 25, 50] }}
+        tableLayout="auto"
+        data-test-subj="chatDataTable"
+      />
+      <EuiFlexGroup justifyContent="flexEnd">
+        <EuiFlexItem grow={false}>
+          <EuiSmallButtonEmpty
+            iconType="download"
+            onClick={() => downloadCsv(table, 'assistant_results.csv')}
+          >
+            Download CSV
+          </EuiSmallButtonEmpty>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+    </>
+  );
+};
@@ -0,0 +1,95 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import {
+  EuiCodeBlock,
+  EuiCopy,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiSmallButtonEmpty,
+} from '@elastic/eui';
+import {
+  IMessage,
+  IOutput,
+  IQueryMetadata,
+  QueryLanguage,
+} from '../../common/types/chat_saved_object_attributes';
+import { UI_SETTINGS } from '../../../../src/plugins/data/common';
+import { useCore } from '../contexts/core_context';
+
+interface QueryMessageProps {
+  message: IMessage;
+}
+
+const CODE_BLOCK_LANGUAGES: Record<QueryLanguage, string> = {
+  PPL: 'sql',
+  SQL: 'sql',
+  DSL: 'json',
+};
+
+export const QueryMessage: React.FC<QueryMessageProps> = (props) => {
+  const core = useCore();
+  const query = props.message.content;
+  const { language = 'PPL', index } = ((props.message as IOutput).metadata ?? {}) as Partial<
+    IQueryMetadata
+  >;
+  // Discover runs PPL and SQL only with the query enhancements
+  const canRunInDiscover =
+    language !== 'DSL' && !!core.services.uiSettings.get(UI_SETTINGS.QUERY_ENHANCEMENTS_ENABLED);
+
+  const runInDiscover = () => {
+    const { dataSourceId } = core.services.dataSource.getDataSourceQuery() as {
+      dataSourceId?: string;
+    };
+    core.services.startDeps.data.query.queryString.setQuery({
+      query,
+      language,
+      ...(index && {
+        dataset: {
+          id: index,
+          title: index,
+          type: 'INDEXES',
+          ...(dataSourceId && {
+            dataSource: { id: dataSourceId, title: dataSourceId, type: 'OpenSearch' },
+          }),
+        },
+      }),
+    });
+    core.services.application.navigateToApp('data-explorer', { path: '/discover' });
+  };
+
+  return (
+    <>
+      <EuiCodeBlock
+        language={CODE_BLOCK_LANGUAGES[language]}
+        fontSize="m"
+        paddingSize="s"
+        whiteSpace="pre"
+        data-test-subj="chatQueryBlock"
+      >
+        {query}
+      </EuiCodeBlock>
+      <EuiFlexGroup justifyContent="flexEnd" gutterSize="s">
+        <EuiFlexItem grow={false}>
+          <EuiCopy textToCopy={query}>
+            {(copy) => (
+              <EuiSmallButtonEmpty iconType="copy" onClick={copy}>
+                Copy
+              </EuiSmallButtonEmpty>
+            )}
+          </EuiCopy>
+        </EuiFlexItem>
+        {canRunInDiscover && (
+          <EuiFlexItem grow={false}>
+            <EuiSmallButtonEmpty iconType="discoverApp" onClick={runInDiscover}>
+              Run in Discover
+            </EuiSmallButtonEmpty>
+          </EuiFlexItem>
+        )}
+      </EuiFlexGroup>
+    </>
+  );
+};
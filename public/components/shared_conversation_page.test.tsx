@@ -0,0 +1,116 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { coreMock } from '../../../../src/core/public/mocks';
+import * as coreContextExports from '../contexts/core_context';
+import { useChatState } from '../hooks/use_chat_state';
+import { DataSourceServiceMock } from '../services/data_source_service.mock';
+import { AssistantActions } from '../types';
+import { SharedConversationPage } from './shared_conversation_page';
+
+jest.mock('../tabs/chat/chat_page', () => ({
+  ChatPage: ({ readOnly }: { readOnly?: boolean }) => {
+    const { chatState } = useChatState();
+    return (
+      <div data-test-subj="chatPage" data-read-only={readOnly}>
+        {chatState.messages.map((message, i) => (
+          <p key={i}>{message.content}</p>
+        ))}
+      </div>
+    );
+  },
+}));
+
+const sharedConversation = {
+  id: 'shared_1',
+  title: 'Failed shards',
+  sharedBy: 'alice',
+  sharedAt: '2024-01-02T00:00:00.000Z',
+  snapshot: {
+    version: 1,
+    exportedAt: '2024-01-02T00:00:00.000Z',
+    conversation: { id: '1', title: 'Failed shards', createdTimeMs: 0, updatedTimeMs: 0 },
+    interactions: [],
+    messages: [
+      { type: 'input', contentType: 'text', content: 'why did shards fail?' },
+      { type: 'output', contentType: 'markdown', content: 'The disk is full.' },
+    ],
+  },
+};
+
+describe('<SharedConversationPage />', () => {
+  const coreStart = coreMock.createStart();
+  const assistantActions = {
+    loadChat: jest.fn(),
+    openChatUI: jest.fn(),
+  } as unknown as AssistantActions;
+
+  const renderPage = () =>
+    render(
+      <SharedConversationPage
+        sharedConversationId="shared_1"
+        messageRenderers={{}}
+        actionExecutors={{}}
+        assistantActions={assistantActions}
+      />
+    );
+
+  beforeEach(() => {
+    jest.spyOn(coreContextExports, 'useCore').mockReturnValue({
+      services: {
+        ...coreStart,
+        dataSource: new DataSourceServiceMock(),
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render the snapshot of the conversation read-only', async () => {
+    coreStart.http.get.mockResolvedValue(sharedConversation);
+
+    renderPage();
+
+    await waitFor(() => {
+      expect(screen.getByText('The disk is full.')).toBeInTheDocument();
+    });
+    expect(coreStart.http.get).toHaveBeenCalledWith(
+      '/api/assistant/shared_conversation/shared_1',
+      expect.anything()
+    );
+    expect(screen.getByText('Failed shards')).toBeInTheDocument();
+    expect(screen.getByText(/Shared by alice/)).toBeInTheDocument();
+    expect(screen.getByTestId('chatPage')).toHaveAttribute('data-read-only', 'true');
+  });
+
+  it('should open the forked conversation in the chat', async () => {
+    coreStart.http.get.mockResolvedValue(sharedConversation);
+    coreStart.http.post.mockResolvedValue({ conversationId: 'forked' });
+
+    renderPage();
+    fireEvent.click(await screen.findByText('Fork into my own conversation'));
+
+    await waitFor(() => {
+      expect(assistantActions.openChatUI).toHaveBeenCalled();
+    });
+    expect(coreStart.http.post).toHaveBeenCalledWith(
+      '/api/assistant/shared_conversation/shared_1/_fork',
+      expect.anything()
+    );
+    expect(assistantActions.loadChat).toHaveBeenCalledWith('forked');
+  });
+
+  it('should show the error when the shared conversation cannot be read', async () => {
+    coreStart.http.get.mockRejectedValue({ body: new Error('Saved object not found') });
+
+    renderPage();
+
+    expect(await screen.findByText('Saved object not found')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,162 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  EuiEmptyPrompt,
+  EuiLoadingSpinner,
+  EuiPage,
+  EuiPageBody,
+  EuiPageContentBody,
+  EuiPageHeader,
+  EuiPageHeaderSection,
+  EuiSmallButton,
+  EuiText,
+  EuiTitle,
+} from '@elastic/eui';
+import moment from 'moment';
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { SIDECAR_DOCKED_MODE } from '../../../../src/core/public';
+import { SharedConversation } from '../../common/types/shared_conversation';
+import { ChatContext, IChatContext } from '../contexts/chat_context';
+import { useCore } from '../contexts/core_context';
+import {
+  ChatStateProvider,
+  useChatState,
+  useFetchSharedConversation,
+  useForkSharedConversation,
+} from '../hooks';
+import { ChatPage } from '../tabs/chat/chat_page';
+import { ActionExecutor, AssistantActions, MessageRenderer } from '../types';
+import { TAB_ID } from '../utils/constants';
+
+interface SharedConversationPageProps {
+  sharedConversationId: string;
+  messageRenderers: Record<string, MessageRenderer>;
+  actionExecutors: Record<string, ActionExecutor>;
+  assistantActions: AssistantActions;
+}
+
+const noop = () => {};
+
+const ReceiveSnapshot = ({ snapshot }: { snapshot: SharedConversation['snapshot'] }) => {
+  const { chatStateDispatch } = useChatState();
+
+  useEffect(() => {
+    chatStateDispatch({
+      type: 'receive',
+      payload: {
+        messages: snapshot.messages,
+        interactions: snapshot.interactions,
+      },
+    });
+  }, [snapshot, chatStateDispatch]);
+
+  return null;
+};
+
+/**
+ * Read-only view of a shared conversation, the messages are rendered by the chat page
+ * from the snapshot taken when the conversation was shared.
+ */
+export const SharedConversationPage = (props: SharedConversationPageProps) => {
+  const core = useCore();
+  const { data: sharedConversation, loading, error } = useFetchSharedConversation(
+    props.sharedConversationId
+  );
+  const { loading: forking, forkSharedConversation } = useForkSharedConversation();
+
+  const chatContextValue: IChatContext = useMemo(
+    () => ({
+      setConversationId: noop,
+      selectedTabId: TAB_ID.CHAT,
+      setSelectedTabId: noop,
+      flyoutVisible: true,
+      flyoutFullScreen: true,
+      setFlyoutVisible: noop,
+      setFlyoutComponent: noop,
+      messageRenderers: props.messageRenderers,
+      actionExecutors: props.actionExecutors,
+      currentAccount: sharedConversation && { username: sharedConversation.sharedBy },
+      title: sharedConversation?.title,
+      setTitle: noop,
+      setInteractionId: noop,
+      sidecarDockedMode: SIDECAR_DOCKED_MODE.TAKEOVER,
+      setSidecarDockedMode: noop,
+    }),
+    [props.messageRenderers, props.actionExecutors, sharedConversation]
+  );
+
+  const fork = useCallback(async () => {
+    try {
+      const { conversationId } = await forkSharedConversation(props.sharedConversationId);
+      core.services.notifications.toasts.addSuccess('The conversation was copied to your chats');
+      await props.assistantActions.loadChat(conversationId);
+      props.assistantActions.openChatUI();
+    } catch (forkError) {
+      core.services.notifications.toasts.addError(forkError, {
+        title: 'Failed to fork the conversation',
+      });
+    }
+  }, [
+    core.services.notifications,
+    forkSharedConversation,
+    props.assistantActions,
+    props.sharedConversationId,
+  ]);
+
+  if (loading) {
+    return (
+      <EuiEmptyPrompt
+        icon={<EuiLoadingSpinner size="xl" />}
+        title={<h1>Loading conversation</h1>}
+        titleSize="l"
+      />
+    );
+  }
+
+  if (error || !sharedConversation) {
+    return (
+      <EuiEmptyPrompt
+        iconType="alert"
+        iconColor="danger"
+        title={<h1>Error loading conversation</h1>}
+        body={error?.message}
+        titleSize="l"
+      />
+    );
+  }
+
+  return (
+    <EuiPage>
+      <EuiPageBody>
+        <EuiPageHeader>
+          <EuiPageHeaderSection>
+            <EuiTitle size="m">
+              <h1>{sharedConversation.title}</h1>
+            </EuiTitle>
+            <EuiText size="s" color="subdued">
+              Shared by {sharedConversation.sharedBy} on{' '}
+              {moment(sharedConversation.sharedAt).format('MMMM D, YYYY')} at{' '}
+              {moment(sharedConversation.sharedAt).format('h:mm A')}
+            </EuiText>
+          </EuiPageHeaderSection>
+          <EuiPageHeaderSection>
+            <EuiSmallButton fill iconType="branch" isLoading={forking} onClick={fork}>
+              Fork into my own conversation
+            </EuiSmallButton>
+          </EuiPageHeaderSection>
+        </EuiPageHeader>
+        <EuiPageContentBody>
+          <ChatContext.Provider value={chatContextValue}>
+            <ChatStateProvider>
+              <ReceiveSnapshot snapshot={sharedConversation.snapshot} />
+              <ChatPage readOnly />
+            </ChatStateProvider>
+          </ChatContext.Provider>
+        </EuiPageContentBody>
+      </EuiPageBody>
+    </EuiPage>
+  );
+};
@@ -0,0 +1,30 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { IMessage } from '../../common/types/chat_saved_object_attributes';
+import { useCore } from '../contexts/core_context';
+import { escapeString } from './visualization/embeddable/nlq_vis_embeddable';
+
+interface VegaLiteMessageProps {
+  message: IMessage;
+}
+
+/**
+ * Render the Vega-Lite spec of a message with the vega expression of the Vega visualization
+ */
+export const VegaLiteMessage: React.FC<VegaLiteMessageProps> = (props) => {
+  const core = useCore();
+  const { ReactExpressionRenderer } = core.services.startDeps.expressions;
+  const expression = `opensearchDashboards | opensearch_dashboards_context | vega spec='${escapeString(
+    props.message.content
+  )}'`;
+
+  return (
+    <div className="llm-chat-vega-lite" data-test-subj="chatVegaLiteChart">
+      <ReactExpressionRenderer expression={expression} />
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useEffect, useState } from 'react';
+import { i18n } from '@osd/i18n';
+import {
+  EuiButton,
+  EuiButtonEmpty,
+  EuiCheckboxGroup,
+  EuiFieldText,
+  EuiForm,
+  EuiFormRow,
+  EuiLoadingSpinner,
+  EuiModal,
+  EuiModalBody,
+  EuiModalFooter,
+  EuiModalHeader,
+  EuiModalHeaderTitle,
+  EuiRadioGroup,
+  EuiText,
+} from '@elastic/eui';
+import { SavedObjectsClientContract } from '../../../../../src/core/public';
+import { ConversionTarget, findReferencingDashboards } from '../../vis_nlq/convert_visualization';
+
+const TARGET_LABELS: Record<ConversionTarget, string> = {
+  vega: i18n.translate('dashboardAssistant.feature.text2viz.convert.vega', {
+    defaultMessage: 'Vega visualization',
+  }),
+  line: i18n.translate('dashboardAssistant.feature.text2viz.convert.line', {
+    defaultMessage: 'Line chart',
+  }),
+  histogram: i18n.translate('dashboardAssistant.feature.text2viz.convert.bar', {
+    defaultMessage: 'Bar chart',
+  }),
+  metric: i18n.translate('dashboardAssistant.feature.text2viz.convert.metric', {
+    defaultMessage: 'Metric',
+  }),
+};
+
+interface Props {
+  savedObjectsClient: SavedObjectsClientContract;
+  savedObjectId: string;
+  title: string;
+  targets: ConversionTarget[];
+  onConvert: (params: {
+    title: string;
+    target: ConversionTarget;
+    dashboardIds: string[];
+  }) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Picks the type of the converted visualization, and the dashboards whose panel is replaced
+ */
+export const ConvertVisualizationModal = (props: Props) => {
+  const { savedObjectsClient, savedObjectId } = props;
+  const [title, setTitle] = useState(props.title);
+  const [target, setTarget] = useState<ConversionTarget>(props.targets[0]);
+  const [dashboards, setDashboards] = useState<Array<{ id: string; title: string }>>();
+  const [selectedDashboards, setSelectedDashboards] = useState<Record<string, boolean>>({});
+  const [converting, setConverting] = useState(false);
+
+  useEffect(() => {
+    findReferencingDashboards(savedObjectsClient, savedObjectId)
+      .then(setDashboards)
+      .catch(() => setDashboards([]));
+  }, [savedObjectsClient, savedObjectId]);
+
+  const onConvert = async () => {
+    setConverting(true);
+    try {
+      await props.onConvert({
+        title: title.trim(),
+        target,
+        dashboardIds: Object.keys(selectedDashboards).filter((id) => selectedDashboards[id]),
+      });
+    } finally {
+      setConverting(false);
+    }
+  };
+
+  return (
+    <EuiModal onClose={props.onClose} data-test-subj="text2vizConvertModal">
+      <EuiModalHeader>
+        <EuiModalHeaderTitle>
+          {i18n.translate('dashboardAssistant.feature.text2viz.convert.title', {
+            defaultMessage: 'Convert to an editable visualization',
+          })}
+        </EuiModalHeaderTitle>
+      </EuiModalHeader>
+      <EuiModalBody>
+        <EuiForm>
+          <EuiFormRow
+            label={i18n.translate('dashboardAssistant.feature.text2viz.convert.titleLabel', {
+              defaultMessage: 'Title',
+            })}
+          >
+            <EuiFieldText value={title} onChange={(e) => setTitle(e.target.value)} />
+          </EuiFormRow>
+          <EuiFormRow
+            label={i18n.translate('dashboardAssistant.feature.text2viz.convert.typeLabel', {
+              defaultMessage: 'Visualization type',
+            })}
+            helpText={
+              props.targets.length === 1
+                ? i18n.translate('dashboardAssistant.feature.text2viz.convert.vegaOnly', {
+                    defaultMessage:
+                      'Only a Vega visualization runs the query of this visualization. Line, bar and metric charts need an index pattern and a single stats aggregation without filters.',
+                  })
+                : undefined
+            }
+          >
+            <EuiRadioGroup
+              options={props.targets.map((id) => ({ id, label: TARGET_LABELS[id] }))}
+              idSelected={target}
+              onChange={(id) => setTarget(id as ConversionTarget)}
+            />
+          </EuiFormRow>
+          <EuiFormRow
+            label={i18n.translate('dashboardAssistant.feature.text2viz.convert.dashboardsLabel', {
+              defaultMessage: 'Replace the panel on these dashboards',
+            })}
+          >
+            {!dashboards ? (
+              <EuiLoadingSpinner size="m" />
+            ) : dashboards.length === 0 ? (
+              <EuiText size="s" color="subdued">
+                {i18n.translate('dashboardAssistant.feature.text2viz.convert.noDashboards', {
+                  defaultMessage: 'No dashboard uses this visualization.',
+                })}
+              </EuiText>
+            ) : (
+              <EuiCheckboxGroup
+                options={dashboards.map(({ id, title: label }) => ({ id, label }))}
+                idToSelectedMap={selectedDashboards}
+                onChange={(id) =>
+                  setSelectedDashboards({ ...selectedDashboards, [id]: !selectedDashboards[id] })
+                }
+              />
+            )}
+          </EuiFormRow>
+        </EuiForm>
+      </EuiModalBody>
+      <EuiModalFooter>
+        <EuiButtonEmpty onClick={props.onClose}>
+          {i18n.translate('dashboardAssistant.feature.text2viz.convert.cancel', {
+            defaultMessage: 'Cancel',
+          })}
+        </EuiButtonEmpty>
+        <EuiButton
+          fill
+          isLoading={converting}
+          disabled={!title.trim()}
+          onClick={onConvert}
+          data-test-subj="text2vizConvertConfirm"
+        >
+          {i18n.translate('dashboardAssistant.feature.text2viz.convert.confirm', {
+            defaultMessage: 'Convert',
+          })}
+        </EuiButton>
+      </EuiModalFooter>
+    </EuiModal>
+  );
+};
@@ -0,0 +1,96 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getDatasetLanguage, parseDataset, savedSearchToDataset } from './dataset';
+
+const mockSavedSearch = (query: object, references: Array<{ type: string; id: string }> = []) => ({
+  get: jest.fn().mockResolvedValue({
+    id: 'search-1',
+    attributes: {
+      title: 'errors',
+      kibanaSavedObjectMeta: { searchSourceJSON: JSON.stringify({ query }) },
+    },
+    references,
+  }),
+});
+
+describe('dataset', () => {
+  const indexPatterns = {
+    get: jest.fn().mockResolvedValue({
+      id: 'index-pattern-1',
+      title: 'logs-*',
+      timeFieldName: 'timestamp',
+      dataSourceRef: { id: 'ds-1' },
+    }),
+  };
+
+  it('should query S3 tables in SQL unless the query says otherwise', () => {
+    expect(getDatasetLanguage('S3')).toBe('SQL');
+    expect(getDatasetLanguage('S3', 'PPL')).toBe('PPL');
+    expect(getDatasetLanguage('INDEXES')).toBe('PPL');
+    expect(getDatasetLanguage('INDEXES', 'sql')).toBe('SQL');
+  });
+
+  it('should parse the dataset of the url', () => {
+    expect(
+      parseDataset(JSON.stringify({ type: 'S3', id: 'table', title: 'table', language: 'SQL' }))
+    ).toEqual({ type: 'S3', id: 'table', title: 'table', language: 'SQL' });
+    expect(parseDataset('{')).toBeUndefined();
+    expect(
+      parseDataset(JSON.stringify({ type: 'S3', id: 'table', title: 'table', language: 'kuery' }))
+    ).toBeUndefined();
+    expect(parseDataset(null)).toBeUndefined();
+  });
+
+  it('should visualize a saved search with its dataset and query', async () => {
+    const savedObjectsClient = mockSavedSearch({
+      query: 'SELECT * FROM table',
+      language: 'SQL',
+      dataset: { id: 'table', title: 'table', type: 'S3', dataSource: { id: 'ds-2' } },
+    });
+
+    await expect(
+      savedSearchToDataset(savedObjectsClient, indexPatterns, 'search-1')
+    ).resolves.toEqual({
+      type: 'SAVED_SEARCH',
+      id: 'search-1',
+      title: 'table',
+      language: 'SQL',
+      dataSourceId: 'ds-2',
+      timeFieldName: undefined,
+      query: 'SELECT * FROM table',
+    });
+    expect(savedObjectsClient.get).toHaveBeenCalledWith('search', 'search-1');
+  });
+
+  it('should visualize a saved search of an index pattern', async () => {
+    const savedObjectsClient = mockSavedSearch({ query: '', language: 'PPL' }, [
+      { type: 'index-pattern', id: 'index-pattern-1' },
+    ]);
+
+    await expect(
+      savedSearchToDataset(savedObjectsClient, indexPatterns, 'search-1')
+    ).resolves.toEqual({
+      type: 'SAVED_SEARCH',
+      id: 'search-1',
+      title: 'logs-*',
+      language: 'PPL',
+      dataSourceId: 'ds-1',
+      timeFieldName: 'timestamp',
+      query: undefined,
+    });
+    expect(indexPatterns.get).toHaveBeenCalledWith('index-pattern-1');
+  });
+
+  it('should reject saved searches in DQL', async () => {
+    const savedObjectsClient = mockSavedSearch({ query: 'status:500', language: 'kuery' }, [
+      { type: 'index-pattern', id: 'index-pattern-1' },
+    ]);
+
+    await expect(
+      savedSearchToDataset(savedObjectsClient, indexPatterns, 'search-1')
+    ).rejects.toThrow("The saved search 'errors' does not use PPL or SQL");
+  });
+});
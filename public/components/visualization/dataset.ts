@@ -0,0 +1,109 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SavedObjectsClientContract } from '../../../../../src/core/public';
+import { IndexPattern, IndexPatternsContract } from '../../../../../src/plugins/data/public';
+import { DEFAULT_DATA } from '../../../../../src/plugins/data/common';
+import { QueryLanguage, toQueryLanguage } from '../../utils/pipeline/query_language';
+import { Text2VizDataset } from '../../vis_nlq/types';
+
+export const SAVED_SEARCH_DATASET_TYPE = 'SAVED_SEARCH';
+
+/**
+ * Dataset types of the dataset picker Text2Viz can visualize
+ */
+export const SUPPORTED_DATASET_TYPES: string[] = [
+  DEFAULT_DATA.SET_TYPES.INDEX_PATTERN,
+  DEFAULT_DATA.SET_TYPES.INDEX,
+  'S3',
+];
+
+/**
+ * The language of the query of the dataset picker, S3 tables are queried in SQL by default
+ */
+export const getDatasetLanguage = (type: string, language?: string): QueryLanguage =>
+  toQueryLanguage(language) ?? (type === 'S3' ? 'SQL' : 'PPL');
+
+export const indexPatternToDataset = (indexPattern: IndexPattern): Text2VizDataset => ({
+  type: DEFAULT_DATA.SET_TYPES.INDEX_PATTERN,
+  id: indexPattern.id ?? '',
+  title: indexPattern.title,
+  language: 'PPL',
+  dataSourceId: indexPattern.dataSourceRef?.id,
+  timeFieldName: indexPattern.timeFieldName,
+});
+
+/**
+ * The dataset passed in the url of the app, undefined when it is malformed
+ */
+export const parseDataset = (value: string | null): Text2VizDataset | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  try {
+    const dataset = JSON.parse(value);
+    const language = toQueryLanguage(dataset?.language);
+    if (typeof dataset?.id !== 'string' || typeof dataset?.title !== 'string' || !language) {
+      return undefined;
+    }
+    return { ...dataset, language };
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * Saved searches are visualized in the language of their query, with their query as a base.
+ * DQL and Lucene saved searches are rejected as no query is generated in those languages.
+ */
+export const savedSearchToDataset = async (
+  savedObjectsClient: SavedObjectsClientContract,
+  indexPatterns: IndexPatternsContract,
+  id: string
+): Promise<Text2VizDataset> => {
+  const savedSearch = await savedObjectsClient.get<{
+    title: string;
+    kibanaSavedObjectMeta?: { searchSourceJSON?: string };
+  }>('search', id);
+  if (savedSearch.error) {
+    throw new Error(savedSearch.error.message);
+  }
+  const searchSource = JSON.parse(
+    savedSearch.attributes.kibanaSavedObjectMeta?.searchSourceJSON ?? '{}'
+  );
+  const query = searchSource.query ?? {};
+  const language = toQueryLanguage(query.language);
+  if (!language) {
+    throw new Error(
+      `The saved search '${savedSearch.attributes.title}' does not use PPL or SQL, it can not be visualized.`
+    );
+  }
+  const savedQuery =
+    typeof query.query === 'string' && query.query.trim() ? query.query : undefined;
+
+  // saved searches of the dataset picker keep their dataset in the query
+  if (query.dataset?.title) {
+    return {
+      type: SAVED_SEARCH_DATASET_TYPE,
+      id,
+      title: query.dataset.title,
+      language,
+      dataSourceId: query.dataset.dataSource?.id,
+      timeFieldName: query.dataset.timeFieldName,
+      query: savedQuery,
+    };
+  }
+  const indexPatternId = savedSearch.references.find(({ type }) => type === 'index-pattern')?.id;
+  if (!indexPatternId) {
+    throw new Error(`The saved search '${savedSearch.attributes.title}' has no index pattern.`);
+  }
+  return {
+    ...indexPatternToDataset(await indexPatterns.get(indexPatternId)),
+    type: SAVED_SEARCH_DATASET_TYPE,
+    id,
+    language,
+    query: savedQuery,
+  };
+};
@@ -13,11 +13,17 @@ import {
   ExpressionsStart,
   IExpressionLoaderParams,
 } from '../../../../../../src/plugins/expressions/public';
-import { TimefilterContract, TimeRange } from '../../../../../../src/plugins/data/public';
+import {
+  Filter,
+  Query,
+  TimefilterContract,
+  TimeRange,
+} from '../../../../../../src/plugins/data/public';
 import { NLQVisualizationInput, NLQVisualizationOutput } from './types';
 import { getExpressions } from '../../../services';
 import { VIS_NLQ_APP_ID, VIS_NLQ_SAVED_OBJECT } from '../../../../common/constants/vis_type_nlq';
 import { PersistedState } from '../../../../../../src/plugins/visualizations/public';
+import { applyFiltersToSpec } from './ppl_filters';
 
 type ExpressionLoader = InstanceType<ExpressionsStart['ExpressionLoader']>;
 
@@ -29,7 +35,7 @@ interface NLQVisualizationEmbeddableConfig {
 
 export const NLQ_VISUALIZATION_EMBEDDABLE_TYPE = VIS_NLQ_SAVED_OBJECT;
 
-const escapeString = (data: string): string => {
+export const escapeString = (data: string): string => {
   return data.replace(/\\/g, `\\\\`).replace(/'/g, `\\'`);
 };
 
@@ -42,6 +48,8 @@ export class NLQVisualizationEmbeddable extends Embeddable<
   private domNode?: HTMLDivElement;
   private abortController?: AbortController;
   private timeRange?: TimeRange;
+  private filters?: Filter[];
+  private query?: Query;
   private subscriptions: Subscription[] = [];
   private uiState: PersistedState;
   private visInput?: NLQVisualizationInput['visInput'];
@@ -99,7 +107,9 @@ export class NLQVisualizationEmbeddable extends Embeddable<
 
     if (visState.type === 'vega-lite' || visState.type === 'vega') {
       if (params.spec) {
-        pipeline += `vega spec='${escapeString(JSON.stringify(params.spec))}'`;
+        // the query of the spec is fixed when it is generated, the container filters it
+        const spec = applyFiltersToSpec(params.spec, { filters: this.filters, query: this.query });
+        pipeline += `vega spec='${escapeString(JSON.stringify(spec))}'`;
       } else {
         return '';
       }
@@ -116,6 +126,18 @@ export class NLQVisualizationEmbeddable extends Embeddable<
       this.timeRange = cloneDeep(this.input.timeRange);
       dirty = true;
     }
+
+    // Check if filters has changed
+    if (!isEqual(this.input.filters, this.filters)) {
+      this.filters = cloneDeep(this.input.filters);
+      dirty = true;
+    }
+
+    // Check if query has changed
+    if (!isEqual(this.input.query, this.query)) {
+      this.query = cloneDeep(this.input.query);
+      dirty = true;
+    }
     return dirty;
   }
 
@@ -123,9 +145,7 @@ export class NLQVisualizationEmbeddable extends Embeddable<
     const expressionParams: IExpressionLoaderParams = {
       searchContext: {
         timeRange: this.timeRange,
-        // for PPL+vega, we don't read query and fitlers from input, because these are already defined by ppl
-        // query: this.input.query,
-        // filters: this.input.filters,
+        // for PPL+vega, query and filters are not passed to vega, they are translated into the ppl of the spec
       },
       uiState: this.uiState,
     };
@@ -135,7 +155,13 @@ export class NLQVisualizationEmbeddable extends Embeddable<
     this.abortController = new AbortController();
     const abortController = this.abortController;
 
-    const expression = await this.buildPipeline();
+    let expression;
+    try {
+      expression = await this.buildPipeline();
+    } catch (error) {
+      this.onContainerError(error);
+      return;
+    }
 
     if (this.handler && !abortController.signal.aborted) {
       this.handler.update(expression, expressionParams);
@@ -170,6 +196,8 @@ export class NLQVisualizationEmbeddable extends Embeddable<
 
   public async render(domNode: HTMLElement) {
     this.timeRange = cloneDeep(this.input.timeRange);
+    this.filters = cloneDeep(this.input.filters);
+    this.query = cloneDeep(this.input.query);
 
     const div = document.createElement('div');
     div.className = `visualize panel-content panel-content--fullWidth`;
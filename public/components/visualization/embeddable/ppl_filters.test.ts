@@ -0,0 +1,126 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Filter } from '../../../../../../src/plugins/data/public';
+import {
+  applyFiltersToPPL,
+  applyFiltersToSpec,
+  applyFiltersToSQL,
+  filterToPPL,
+  queryToPPL,
+} from './ppl_filters';
+
+const filterOf = (meta: Partial<Filter['meta']>): Filter => ({
+  meta: { disabled: false, negate: false, alias: null, ...meta },
+});
+
+describe('PPL filters', () => {
+  it('should translate the filters of the filter bar', () => {
+    expect(
+      filterToPPL(filterOf({ type: 'phrase', key: 'status', params: { query: 'error' } }))
+    ).toBe("`status` = 'error'");
+    expect(filterToPPL(filterOf({ type: 'phrases', key: 'code', params: [404, 500] }))).toBe(
+      '(`code` = 404 or `code` = 500)'
+    );
+    expect(
+      filterToPPL(filterOf({ type: 'range', key: 'bytes', params: { gte: 10, lt: 100 } }))
+    ).toBe('(`bytes` >= 10 and `bytes` < 100)');
+    expect(filterToPPL(filterOf({ type: 'exists', key: 'geo.city', negate: true }))).toBe(
+      'not isnotnull(`geo.city`)'
+    );
+    expect(() => filterToPPL(filterOf({ type: 'custom', alias: 'my filter' }))).toThrow(
+      "The filter 'my filter' is not supported."
+    );
+  });
+
+  it('should translate DQL queries', () => {
+    expect(
+      queryToPPL({
+        query: 'status: "server error" and not geo.city: Lon* and bytes >= 100',
+        language: 'kuery',
+      })
+    ).toBe("(`status` = 'server error' and not like(`geo.city`, 'Lon%') and `bytes` >= 100)");
+    expect(queryToPPL({ query: 'user: *', language: 'kuery' })).toBe('isnotnull(`user`)');
+    expect(() => queryToPPL({ query: 'error', language: 'kuery' })).toThrow(
+      'DQL queries on all fields or on field wildcards are not supported.'
+    );
+  });
+
+  it('should run Lucene queries with query_string', () => {
+    expect(queryToPPL({ query: "status:error AND user:o'neil", language: 'lucene' })).toBe(
+      "query_string(['*'], 'status:error AND user:o\\'neil')"
+    );
+    expect(queryToPPL({ query: ' ', language: 'lucene' })).toBeUndefined();
+  });
+
+  it('should filter the documents before the aggregation', () => {
+    expect(
+      applyFiltersToPPL('source = logs | stats count() by span(timestamp, 1h)', {
+        filters: [
+          filterOf({ type: 'phrase', key: 'status', params: { query: 'error' } }),
+          filterOf({ type: 'exists', key: 'user', disabled: true }),
+        ],
+        query: { query: 'bytes > 10', language: 'kuery' },
+      })
+    ).toBe(
+      "source = logs | where `status` = 'error' and `bytes` > 10 | stats count() by span(timestamp, 1h)"
+    );
+    expect(applyFiltersToPPL('source = logs', { filters: [], query: undefined })).toBe(
+      'source = logs'
+    );
+  });
+
+  it('should add the conditions to the WHERE clause of SQL queries', () => {
+    const context = {
+      filters: [filterOf({ type: 'phrase', key: 'user', params: { query: "o'neil" } })],
+      query: { query: 'not geo.city: Lon* and bytes >= 100', language: 'kuery' },
+    };
+
+    expect(applyFiltersToSQL('SELECT COUNT(*) FROM logs GROUP BY status;', context)).toBe(
+      "SELECT COUNT(*) FROM logs WHERE `user` = 'o''neil' AND (NOT `geo.city` LIKE 'Lon%' AND `bytes` >= 100) GROUP BY status"
+    );
+    expect(
+      applyFiltersToSQL("SELECT * FROM logs WHERE status = 'order by' OR code > 500 LIMIT 10", {
+        filters: [filterOf({ type: 'exists', key: 'user' })],
+      })
+    ).toBe(
+      "SELECT * FROM logs WHERE `user` IS NOT NULL AND (status = 'order by' OR code > 500) LIMIT 10"
+    );
+    expect(applyFiltersToSQL('SELECT * FROM logs', {})).toBe('SELECT * FROM logs');
+  });
+
+  it('should not filter SQL queries of several tables', () => {
+    const context = { query: { query: 'status:error', language: 'lucene' } };
+
+    ['SELECT * FROM logs a JOIN users b ON a.user = b.name', 'SELECT * FROM logs, users'].forEach(
+      (sql) => {
+        expect(() => applyFiltersToSQL(sql, context)).toThrow(
+          'Only the SQL queries which select from a single table can be filtered.'
+        );
+      }
+    );
+    expect(() =>
+      applyFiltersToSQL('SELECT * FROM (SELECT * FROM logs) AS recent', context)
+    ).toThrow('Only the SQL queries which select from a single table can be filtered.');
+  });
+
+  it('should rewrite PPL and SQL data urls', () => {
+    const sqlSpec = { data: { url: { '%type%': 'sql', body: { query: 'SELECT * FROM logs' } } } };
+    const pplSpec = { data: { url: { '%type%': 'ppl', body: { query: 'source = logs' } } } };
+    const indexSpec = { data: { url: { index: 'logs', body: {} } } };
+    const context = { query: { query: 'status:error', language: 'lucene' } };
+
+    expect(applyFiltersToSpec(sqlSpec, context).data.url.body.query).toBe(
+      "SELECT * FROM logs WHERE query_string(['*'], 'status:error')"
+    );
+    expect(applyFiltersToSpec(pplSpec, context).data.url.body.query).toBe(
+      "source = logs | where query_string(['*'], 'status:error')"
+    );
+    expect(applyFiltersToSpec(indexSpec, context)).toBe(indexSpec);
+    // the spec of the saved object is kept
+    expect(pplSpec.data.url.body.query).toBe('source = logs');
+    expect(sqlSpec.data.url.body.query).toBe('SELECT * FROM logs');
+  });
+});
@@ -0,0 +1,298 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import cloneDeep from 'lodash/cloneDeep';
+import {
+  Filter,
+  KueryNode,
+  opensearchKuery,
+  Query,
+} from '../../../../../../src/plugins/data/public';
+
+// the marker of the wildcards in the values of a parsed DQL query
+const KUERY_WILDCARD = '@kuery-wildcard@';
+
+/**
+ * Thrown for the filters and queries without a PPL equivalent, the panel shows it instead of
+ * results which ignore them
+ */
+export class UnsupportedFilterError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedFilterError';
+  }
+}
+
+const quoteField = (field: string) => `\`${field.replace(/`/g, '')}\``;
+
+/**
+ * The syntax which differs between the conditions of PPL and SQL
+ */
+interface QueryDialect {
+  name: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  quoteValue: (value: any) => string;
+  isNotNull: (field: string) => string;
+  like: (field: string, pattern: string) => string;
+  not: (condition: string) => string;
+  and: string;
+  or: string;
+}
+
+const quoteValueWith = (escape: (value: string) => string) =>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (value: any): string => {
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+    return `'${escape(String(value))}'`;
+  };
+
+const PPL: QueryDialect = {
+  name: 'PPL',
+  quoteValue: quoteValueWith((value) => value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")),
+  isNotNull: (field) => `isnotnull(${field})`,
+  like: (field, pattern) => `like(${field}, ${pattern})`,
+  not: (condition) => `not ${condition}`,
+  and: 'and',
+  or: 'or',
+};
+
+const SQL: QueryDialect = {
+  name: 'SQL',
+  quoteValue: quoteValueWith((value) => value.replace(/'/g, "''")),
+  isNotNull: (field) => `${field} IS NOT NULL`,
+  like: (field, pattern) => `${field} LIKE ${pattern}`,
+  not: (condition) => `NOT ${condition}`,
+  and: 'AND',
+  or: 'OR',
+};
+
+const RANGE_OPERATORS: Record<string, string> = { gt: '>', gte: '>=', lt: '<', lte: '<=' };
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const rangeToCondition = (field: string, range: Record<string, any>, dialect: QueryDialect) => {
+  const conditions = Object.keys(RANGE_OPERATORS)
+    .filter((operator) => range[operator] !== undefined && range[operator] !== null)
+    .map(
+      (operator) =>
+        `${quoteField(field)} ${RANGE_OPERATORS[operator]} ${dialect.quoteValue(range[operator])}`
+    );
+  return conditions.length > 1 ? `(${conditions.join(` ${dialect.and} `)})` : conditions[0];
+};
+
+const fieldOf = (node: KueryNode): string => {
+  if (node?.type !== 'literal' || typeof node.value !== 'string' || node.value.includes('*')) {
+    throw new UnsupportedFilterError(
+      'DQL queries on all fields or on field wildcards are not supported.'
+    );
+  }
+  return node.value;
+};
+
+const kueryToCondition = (node: KueryNode, dialect: QueryDialect): string => {
+  const args: KueryNode[] = node.arguments ?? [];
+  switch (node.function) {
+    case 'and':
+    case 'or':
+      return `(${args
+        .map((arg) => kueryToCondition(arg, dialect))
+        .join(` ${dialect[node.function as 'and' | 'or']} `)})`;
+    case 'not':
+      return dialect.not(kueryToCondition(args[0], dialect));
+    case 'exists':
+      return dialect.isNotNull(quoteField(fieldOf(args[0])));
+    case 'range': {
+      const range = Object.fromEntries(
+        args.slice(1).map((namedArg: KueryNode) => [namedArg.name, namedArg.value?.value])
+      );
+      return rangeToCondition(fieldOf(args[0]), range, dialect);
+    }
+    case 'is': {
+      const [fieldNode, valueNode] = args;
+      const field = quoteField(fieldOf(fieldNode));
+      if (valueNode.type === 'wildcard') {
+        const pattern: string = valueNode.value;
+        // `field: *` matches the documents with the field
+        if (pattern === KUERY_WILDCARD) {
+          return dialect.isNotNull(field);
+        }
+        return dialect.like(field, dialect.quoteValue(pattern.split(KUERY_WILDCARD).join('%')));
+      }
+      return `${field} = ${dialect.quoteValue(valueNode.value)}`;
+    }
+    default:
+      throw new UnsupportedFilterError(`DQL '${node.function}' queries are not supported.`);
+  }
+};
+
+const queryToCondition = (dialect: QueryDialect, query?: Query): string | undefined => {
+  const queryString = typeof query?.query === 'string' ? query.query.trim() : '';
+  if (!queryString) {
+    return undefined;
+  }
+  if (query?.language === 'lucene') {
+    return `query_string(['*'], ${dialect.quoteValue(queryString)})`;
+  }
+  if (query?.language === 'kuery') {
+    return kueryToCondition(opensearchKuery.fromKueryExpression(queryString), dialect);
+  }
+  throw new UnsupportedFilterError(`${query?.language} queries are not supported.`);
+};
+
+const filterToCondition = (filter: Filter, dialect: QueryDialect): string => {
+  const { meta } = filter;
+  const field = meta.key;
+  let condition: string | undefined;
+  if (field) {
+    switch (meta.type) {
+      case 'phrase':
+        condition = `${quoteField(field)} = ${dialect.quoteValue(
+          meta.params?.query ?? filter.query?.match_phrase?.[field]
+        )}`;
+        break;
+      case 'phrases':
+        condition = `(${(meta.params as unknown[])
+          .map((value) => `${quoteField(field)} = ${dialect.quoteValue(value)}`)
+          .join(` ${dialect.or} `)})`;
+        break;
+      case 'range':
+        condition = rangeToCondition(field, meta.params ?? filter.range?.[field] ?? {}, dialect);
+        break;
+      case 'exists':
+        condition = dialect.isNotNull(quoteField(field));
+        break;
+    }
+  }
+  if (!condition) {
+    throw new UnsupportedFilterError(
+      `The filter '${meta.alias ?? meta.key ?? meta.type}' is not supported.`
+    );
+  }
+  return meta.negate ? dialect.not(condition) : condition;
+};
+
+/**
+ * The conditions of the query and enabled filters of the container
+ */
+const contextToConditions = (
+  { filters = [], query }: { filters?: Filter[]; query?: Query },
+  dialect: QueryDialect
+) => {
+  const conditions = filters
+    .filter((filter) => !filter.meta.disabled)
+    .map((filter) => filterToCondition(filter, dialect));
+  const queryCondition = queryToCondition(dialect, query);
+  if (queryCondition) {
+    conditions.push(queryCondition);
+  }
+  return conditions;
+};
+
+/**
+ * A PPL condition from the syntax tree of a DQL query
+ */
+export const kueryToPPL = (node: KueryNode): string => kueryToCondition(node, PPL);
+
+/**
+ * A PPL condition from the query of the container, DQL is translated and Lucene is run by the
+ * `query_string` relevance function
+ */
+export const queryToPPL = (query?: Query): string | undefined => queryToCondition(PPL, query);
+
+/**
+ * A PPL condition from a filter of the filter bar
+ */
+export const filterToPPL = (filter: Filter): string => filterToCondition(filter, PPL);
+
+const SOURCE_REGEX = /^\s*(?:search\s+)?source\s*=\s*[^|]+/i;
+
+/**
+ * Filters the PPL query by the query and filters of the container, the conditions are applied
+ * right after the `source` command so they filter the documents before any aggregation
+ */
+export const applyFiltersToPPL = (
+  ppl: string,
+  context: { filters?: Filter[]; query?: Query }
+): string => {
+  const conditions = contextToConditions(context, PPL);
+  if (conditions.length === 0) {
+    return ppl;
+  }
+  const source = ppl.match(SOURCE_REGEX)?.[0];
+  if (!source) {
+    throw new UnsupportedFilterError('The query of the visualization has no source command.');
+  }
+  const rest = ppl.slice(source.length).trim();
+  return `${source.trimEnd()} | where ${conditions.join(' and ')}${rest ? ` ${rest}` : ''}`;
+};
+
+// string literals and quoted identifiers, they are masked before looking for the clauses
+const SQL_QUOTED_REGEX = /'(?:[^']|'')*'|"(?:[^"]|"")*"|`[^`]*`/g;
+const SQL_UNSUPPORTED_REGEX = /\b(?:JOIN|UNION|INTERSECT|EXCEPT|MINUS)\b/i;
+// the clauses which follow the WHERE clause of a SELECT
+const SQL_AFTER_WHERE_REGEX = /\b(?:GROUP\s+BY|HAVING|ORDER\s+BY|LIMIT)\b/i;
+
+/**
+ * Filters the SQL query by the query and filters of the container, the conditions are added to
+ * the WHERE clause so they filter the documents before any aggregation. Only a SELECT from a
+ * single table can be filtered.
+ */
+export const applyFiltersToSQL = (
+  sql: string,
+  context: { filters?: Filter[]; query?: Query }
+): string => {
+  const conditions = contextToConditions(context, SQL);
+  if (conditions.length === 0) {
+    return sql;
+  }
+  const query = sql.trim().replace(/;$/, '').trimEnd();
+  const masked = query.replace(SQL_QUOTED_REGEX, (quoted) => ' '.repeat(quoted.length));
+  const from = masked.search(/\bFROM\b/i);
+  const clauseIndex = from === -1 ? -1 : masked.slice(from).search(SQL_AFTER_WHERE_REGEX);
+  const end = clauseIndex === -1 ? query.length : from + clauseIndex;
+  const where = masked.slice(from, end).match(/\bWHERE\b/i);
+  const tables = masked.slice(from, where ? from + (where.index ?? 0) : end);
+  if (
+    from === -1 ||
+    !/^SELECT\b/i.test(masked) ||
+    masked.match(/\bSELECT\b/gi)?.length !== 1 ||
+    SQL_UNSUPPORTED_REGEX.test(masked) ||
+    tables.includes(',')
+  ) {
+    throw new UnsupportedFilterError(
+      'Only the SQL queries which select from a single table can be filtered.'
+    );
+  }
+
+  const rest = end < query.length ? ` ${query.slice(end)}` : '';
+  const condition = conditions.join(' AND ');
+  if (!where) {
+    return `${query.slice(0, end).trimEnd()} WHERE ${condition}${rest}`;
+  }
+  const whereIndex = from + (where.index ?? 0);
+  const existing = query.slice(whereIndex + where[0].length, end).trim();
+  return `${query.slice(0, whereIndex)}WHERE ${condition} AND (${existing})${rest}`;
+};
+
+/**
+ * The Vega spec with its PPL or SQL data url filtered by the container, other data urls are kept
+ */
+export const applyFiltersToSpec = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  spec: any,
+  context: { filters?: Filter[]; query?: Query }
+) => {
+  const url = spec?.data?.url;
+  const applyFilters = { ppl: applyFiltersToPPL, sql: applyFiltersToSQL }[
+    url?.['%type%'] as string
+  ];
+  if (!applyFilters || typeof url.body?.query !== 'string') {
+    return spec;
+  }
+  const filtered = cloneDeep(spec);
+  filtered.data.url.body.query = applyFilters(url.body.query, context);
+  return filtered;
+};
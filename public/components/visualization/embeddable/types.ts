@@ -11,6 +11,7 @@ import {
   EmbeddableInput,
   SavedObjectEmbeddableInput,
 } from '../../../../../../src/plugins/embeddable/public';
+import { Filter, Query } from '../../../../../../src/plugins/data/public';
 
 interface VisInput {
   title?: string;
@@ -21,6 +22,9 @@ interface VisInput {
 
 export interface NLQVisualizationInput extends SavedObjectEmbeddableInput {
   visInput?: VisInput;
+  // set by the container, they filter the ppl of the visualization
+  filters?: Filter[];
+  query?: Query;
 }
 
 export interface NLQVisualizationOutput extends EmbeddableOutput {
@@ -0,0 +1,166 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { i18n } from '@osd/i18n';
+import {
+  EuiButton,
+  EuiButtonEmpty,
+  EuiCallOut,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiPanel,
+  EuiSpacer,
+  EuiText,
+} from '@elastic/eui';
+import { CodeEditor } from '../../../../../src/plugins/opensearch_dashboards_react/public';
+import { PPLDryRunResult } from '../../utils/pipeline/ppl_dry_run_task';
+import { QueryLanguage } from '../../utils/pipeline/query_language';
+
+interface Props {
+  value: string;
+  // the query generated by the agent, restored by reset
+  generatedValue: string;
+  language?: QueryLanguage;
+  validation?: PPLDryRunResult;
+  validating: boolean;
+  onChange: (value: string) => void;
+  onValidate: () => void;
+  onGenerate: () => void;
+  // back to the visualization the query was opened from
+  onCancel?: () => void;
+}
+
+const ValidationCallOut = ({ validation }: { validation: PPLDryRunResult }) => {
+  if (!validation.valid) {
+    return (
+      <EuiCallOut
+        size="s"
+        color="danger"
+        iconType="alert"
+        title={validation.error}
+        data-test-subj="text2vizPPLInvalid"
+      />
+    );
+  }
+  return validation.hasResults ? (
+    <EuiCallOut
+      size="s"
+      color="success"
+      iconType="check"
+      title={i18n.translate('dashboardAssistant.feature.text2viz.pplReview.valid', {
+        defaultMessage: 'The query is valid.',
+      })}
+    />
+  ) : (
+    <EuiCallOut
+      size="s"
+      color="warning"
+      iconType="help"
+      title={i18n.translate('dashboardAssistant.feature.text2viz.pplReview.noResults', {
+        defaultMessage: 'The query is valid but returns no results.',
+      })}
+    />
+  );
+};
+
+/**
+ * The generated query, checked and possibly edited by the user before it is charted
+ */
+export const PPLReview = (props: Props) => {
+  return (
+    <EuiPanel hasBorder paddingSize="m" data-test-subj="text2vizPPLReview">
+      <EuiText size="s">
+        <h3>
+          {i18n.translate('dashboardAssistant.feature.text2viz.pplReview.title', {
+            defaultMessage: 'Review the query',
+          })}
+        </h3>
+        <p>
+          {i18n.translate('dashboardAssistant.feature.text2viz.pplReview.description', {
+            defaultMessage:
+              'The visualization is generated from the results of this {language} query. Edit it if it does not answer the question.',
+            values: { language: props.language ?? 'PPL' },
+          })}
+        </p>
+      </EuiText>
+      <EuiSpacer size="s" />
+      <div style={{ height: 160 }}>
+        <CodeEditor
+          languageId="plaintext"
+          value={props.value}
+          onChange={props.onChange}
+          options={{
+            readOnly: false,
+            lineNumbers: 'off',
+            fontSize: 12,
+            minimap: {
+              enabled: false,
+            },
+            scrollBeyondLastLine: false,
+            wordWrap: 'on',
+            automaticLayout: true,
+          }}
+        />
+      </div>
+      <EuiSpacer size="s" />
+      {props.validation && !props.validating && (
+        <>
+          <ValidationCallOut validation={props.validation} />
+          <EuiSpacer size="s" />
+        </>
+      )}
+      <EuiFlexGroup gutterSize="s" justifyContent="flexEnd" responsive={false}>
+        {props.onCancel && (
+          <EuiFlexItem grow={false}>
+            <EuiButtonEmpty size="s" onClick={props.onCancel}>
+              {i18n.translate('dashboardAssistant.feature.text2viz.pplReview.cancel', {
+                defaultMessage: 'Cancel',
+              })}
+            </EuiButtonEmpty>
+          </EuiFlexItem>
+        )}
+        <EuiFlexItem grow={false}>
+          <EuiButtonEmpty
+            size="s"
+            iconType="editorUndo"
+            disabled={props.value === props.generatedValue}
+            onClick={() => props.onChange(props.generatedValue)}
+          >
+            {i18n.translate('dashboardAssistant.feature.text2viz.pplReview.reset', {
+              defaultMessage: 'Reset',
+            })}
+          </EuiButtonEmpty>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButton
+            size="s"
+            iconType="check"
+            isLoading={props.validating}
+            onClick={props.onValidate}
+          >
+            {i18n.translate('dashboardAssistant.feature.text2viz.pplReview.validate', {
+              defaultMessage: 'Validate',
+            })}
+          </EuiButton>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiButton
+            size="s"
+            fill
+            iconType="play"
+            data-test-subj="text2vizPPLReviewGenerate"
+            disabled={props.validating || props.validation?.valid === false}
+            onClick={props.onGenerate}
+          >
+            {i18n.translate('dashboardAssistant.feature.text2viz.pplReview.generate', {
+              defaultMessage: 'Generate visualization',
+            })}
+          </EuiButton>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+    </EuiPanel>
+  );
+};
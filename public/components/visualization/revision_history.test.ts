@@ -0,0 +1,91 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  canRedo,
+  canUndo,
+  EMPTY_REVISION_HISTORY,
+  getCurrentRevision,
+  MAX_REVISIONS,
+  pushRevision,
+  redoRevision,
+  restoreRevisionHistory,
+  undoRevision,
+} from './revision_history';
+
+const revision = (input: string, instruction?: string) => ({
+  input,
+  instruction,
+  ppl: `source=${input}`,
+  vega: { mark: 'bar' },
+  createdTimeMs: 0,
+});
+
+describe('revision history', () => {
+  it('should undo and redo between revisions', () => {
+    let history = pushRevision(EMPTY_REVISION_HISTORY, revision('logs'));
+    history = pushRevision(history, revision('logs', 'make it a stacked bar'));
+    expect(canUndo(history)).toBe(true);
+    expect(canRedo(history)).toBe(false);
+
+    history = undoRevision(history);
+    expect(getCurrentRevision(history)?.instruction).toBeUndefined();
+    expect(canUndo(history)).toBe(false);
+    expect(undoRevision(history)).toBe(history);
+
+    history = redoRevision(history);
+    expect(getCurrentRevision(history)?.instruction).toBe('make it a stacked bar');
+  });
+
+  it('should drop the undone revisions when a new one is pushed', () => {
+    let history = pushRevision(EMPTY_REVISION_HISTORY, revision('logs'));
+    history = pushRevision(history, revision('logs', 'only last 24h'));
+    history = pushRevision(undoRevision(history), revision('logs', 'make it a stacked bar'));
+
+    expect(history.revisions.map(({ instruction }) => instruction)).toEqual([
+      undefined,
+      'make it a stacked bar',
+    ]);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it('should keep the latest revisions only', () => {
+    let history = EMPTY_REVISION_HISTORY;
+    for (let i = 0; i <= MAX_REVISIONS; i++) {
+      history = pushRevision(history, revision(`index-${i}`));
+    }
+
+    expect(history.revisions).toHaveLength(MAX_REVISIONS);
+    expect(history.revisions[0].input).toBe('index-1');
+    expect(history.current).toBe(MAX_REVISIONS - 1);
+  });
+
+  it('should restore the revisions of a saved visualization', () => {
+    const revisions = [revision('logs'), revision('logs', 'only last 24h')];
+
+    expect(restoreRevisionHistory({ revisions, currentRevision: 0 })).toEqual({
+      revisions,
+      current: 0,
+    });
+    expect(
+      restoreRevisionHistory(
+        { input: 'logs' },
+        { mark: 'line', data: { url: { body: { query: 'source=logs' } } } }
+      )
+    ).toEqual({
+      revisions: [
+        {
+          input: 'logs',
+          instruction: undefined,
+          ppl: 'source=logs',
+          vega: { mark: 'line', data: { url: { body: { query: 'source=logs' } } } },
+          createdTimeMs: 0,
+        },
+      ],
+      current: 0,
+    });
+    expect(restoreRevisionHistory({})).toBe(EMPTY_REVISION_HISTORY);
+  });
+});
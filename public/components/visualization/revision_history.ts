@@ -0,0 +1,77 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Text2VizRevision, VisNLQUIState } from '../../vis_nlq/types';
+
+/**
+ * Revisions are saved in the uiState of the saved object, keep the chain short
+ */
+export const MAX_REVISIONS = 20;
+
+export interface RevisionHistory {
+  revisions: Text2VizRevision[];
+  // -1 while no visualization was generated
+  current: number;
+}
+
+export const EMPTY_REVISION_HISTORY: RevisionHistory = { revisions: [], current: -1 };
+
+export const getCurrentRevision = (history: RevisionHistory): Text2VizRevision | undefined =>
+  history.revisions[history.current];
+
+export const canUndo = (history: RevisionHistory) => history.current > 0;
+
+export const canRedo = (history: RevisionHistory) => history.current < history.revisions.length - 1;
+
+/**
+ * Adds the revision after the current one, the revisions which were undone are dropped
+ */
+export const pushRevision = (
+  history: RevisionHistory,
+  revision: Text2VizRevision
+): RevisionHistory => {
+  const revisions = [...history.revisions.slice(0, history.current + 1), revision].slice(
+    -MAX_REVISIONS
+  );
+  return { revisions, current: revisions.length - 1 };
+};
+
+export const undoRevision = (history: RevisionHistory): RevisionHistory =>
+  canUndo(history) ? { ...history, current: history.current - 1 } : history;
+
+export const redoRevision = (history: RevisionHistory): RevisionHistory =>
+  canRedo(history) ? { ...history, current: history.current + 1 } : history;
+
+/**
+ * Visualizations saved before revisions were kept start their history with the saved one
+ */
+export const restoreRevisionHistory = (
+  uiState: VisNLQUIState,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  spec?: any
+): RevisionHistory => {
+  if (uiState.revisions?.length) {
+    const current = uiState.currentRevision ?? uiState.revisions.length - 1;
+    return {
+      revisions: uiState.revisions,
+      current: Math.min(Math.max(current, 0), uiState.revisions.length - 1),
+    };
+  }
+  if (!spec) {
+    return EMPTY_REVISION_HISTORY;
+  }
+  return {
+    revisions: [
+      {
+        input: uiState.input ?? '',
+        instruction: uiState.instruction || undefined,
+        ppl: spec.data?.url?.body?.query ?? '',
+        vega: spec,
+        createdTimeMs: 0,
+      },
+    ],
+    current: 0,
+  };
+};
@@ -27,6 +27,8 @@ import { Pipeline } from '../../utils/pipeline/pipeline';
 import { Text2PPLTask } from '../../utils/pipeline/text_to_ppl_task';
 import { PPLSampleTask } from '../../utils/pipeline/ppl_sample_task';
 import { PPLAggsAutoSuggestTask } from '../../utils/pipeline/ppl_aggs_auto_suggest_task';
+import { PPLDryRunResult, PPLDryRunTask } from '../../utils/pipeline/ppl_dry_run_task';
+import { QueryLanguage } from '../../utils/pipeline/query_language';
 import { SourceSelector } from './source_selector';
 import type { IndexPattern } from '../../../../../src/plugins/data/public';
 import { EmbeddableRenderer } from '../../../../../src/plugins/embeddable/public';
@@ -44,7 +46,7 @@ import {
   SavedObjectSaveModalOrigin,
 } from '../../../../../src/plugins/saved_objects/public';
 import { getVisNLQSavedObjectLoader } from '../../vis_nlq/saved_object_loader';
-import { VisNLQSavedObject } from '../../vis_nlq/types';
+import { Text2VizDataset, VisNLQSavedObject, VisNLQUIState } from '../../vis_nlq/types';
 import { getIndexPatterns, getLogoIcon } from '../../services';
 import { NLQ_VISUALIZATION_EMBEDDABLE_TYPE } from './embeddable/nlq_vis_embeddable';
 import { NLQVisualizationInput } from './embeddable/types';
@@ -56,9 +58,29 @@ import { FeedbackThumbs } from '../feedback_thumbs';
 import { VizStyleEditor } from './viz_style_editor';
 import { Text2VegaTask } from '../../utils/pipeline/text_to_vega_task';
 import { Text2VizError } from './text2viz_error';
+import { PPLReview } from './ppl_review';
+import {
+  canRedo,
+  canUndo,
+  EMPTY_REVISION_HISTORY,
+  getCurrentRevision,
+  pushRevision,
+  redoRevision,
+  RevisionHistory,
+  restoreRevisionHistory,
+  undoRevision,
+} from './revision_history';
+import {
+  indexPatternToDataset,
+  parseDataset,
+  SAVED_SEARCH_DATASET_TYPE,
+  savedSearchToDataset,
+} from './dataset';
 
 export const INDEX_PATTERN_URL_SEARCH_KEY = 'indexPatternId';
 export const ASSISTANT_INPUT_URL_SEARCH_KEY = 'assistantInput';
+export const DATASET_URL_SEARCH_KEY = 'dataset';
+export const SAVED_SEARCH_URL_SEARCH_KEY = 'savedSearchId';
 
 export const Text2Viz = () => {
   const { savedObjectId } = useParams<{ savedObjectId?: string }>();
@@ -67,6 +89,11 @@ export const Text2Viz = () => {
   const [selectedSource, setSelectedSource] = useState(
     searchParams.get(INDEX_PATTERN_URL_SEARCH_KEY) ?? ''
   );
+  // a dataset other than an index pattern, or a saved search, takes over the selected source
+  const [dataset, setDataset] = useState<Text2VizDataset | undefined>(() =>
+    parseDataset(searchParams.get(DATASET_URL_SEARCH_KEY))
+  );
+  const hasSource = !!dataset || !!selectedSource;
   const [savedObjectLoading, setSavedObjectLoading] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
@@ -107,18 +134,40 @@ export const Text2Viz = () => {
   );
   const [currentInstruction, setCurrentInstruction] = useState('');
   const [editorInput, setEditorInput] = useState('');
+  const [revisionHistory, setRevisionHistory] = useState<RevisionHistory>(EMPTY_REVISION_HISTORY);
+  const [pplReview, setPPLReview] = useState<{
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    input: any;
+    generatedPPL: string;
+    ppl: string;
+  }>();
+  const [pplValidation, setPPLValidation] = useState<PPLDryRunResult>();
+  const [pplValidating, setPPLValidating] = useState(false);
+  const pplDryRunRef = useRef<PPLDryRunTask | null>(null);
+  const text2pplRef = useRef<Pipeline | null>(null);
   const text2vegaRef = useRef<Pipeline | null>(null);
 
+  if (pplDryRunRef.current === null) {
+    pplDryRunRef.current = new PPLDryRunTask(data.search);
+  }
+
+  // The generated query is reviewed by the user before it is charted
+  if (text2pplRef.current === null) {
+    text2pplRef.current = new Pipeline([new Text2PPLTask(http)]);
+  }
+
   if (text2vegaRef.current === null) {
     text2vegaRef.current = new Pipeline([
-      new Text2PPLTask(http),
+      pplDryRunRef.current,
       new PPLAggsAutoSuggestTask(data.search),
       new PPLSampleTask(data.search),
       new Text2VegaTask(http, savedObjects),
     ]);
   }
 
-  const status = useObservable(text2vegaRef.current.status$);
+  const pplStatus = useObservable(text2pplRef.current.status$);
+  const vegaStatus = useObservable(text2vegaRef.current.status$);
+  const status = pplStatus === 'RUNNING' || vegaStatus === 'RUNNING' ? 'RUNNING' : vegaStatus;
 
   const vegaSpec = useMemo(() => {
     if (!editorInput) {
@@ -138,6 +187,49 @@ export const Text2Viz = () => {
    */
   const currentUsedIndexPatternRef = useRef<IndexPattern>();
 
+  /**
+   * The dataset queried by the generated query, from the selected index pattern by default
+   */
+  const resolveDataset = useCallback(async () => {
+    if (dataset) {
+      currentUsedIndexPatternRef.current = undefined;
+      return dataset;
+    }
+    const indexPattern = await getIndexPatterns().get(selectedSource);
+    currentUsedIndexPatternRef.current = indexPattern;
+    return indexPatternToDataset(indexPattern);
+  }, [dataset, selectedSource]);
+
+  const validatePPL = useCallback(
+    async (ppl: string, dataSourceId?: string, language?: QueryLanguage) => {
+      setPPLValidating(true);
+      try {
+        setPPLValidation(await pplDryRunRef.current?.dryRun(ppl, dataSourceId, language));
+      } finally {
+        setPPLValidating(false);
+      }
+    },
+    []
+  );
+
+  /**
+   * Subscribe to the generated queries, they are validated right away
+   */
+  useEffect(() => {
+    const subscription = text2pplRef.current?.getResult$().subscribe((result) => {
+      if (result.error) {
+        setErrorMessage(`Unable to generate a visualization. ${result.error.message}`);
+        return;
+      }
+      setPPLReview({ input: result, generatedPPL: result.ppl, ppl: result.ppl });
+      validatePPL(result.ppl, result.dataSourceId, result.language);
+    });
+
+    return () => {
+      subscription?.unsubscribe();
+    };
+  }, [validatePPL]);
+
   /**
    * Subscribe to text to visualization result changes
    */
@@ -150,6 +242,17 @@ export const Text2Viz = () => {
           setErrorMessage(msg);
         } else {
           setEditorInput(JSON.stringify(result.vega, undefined, 4));
+          setPPLReview(undefined);
+          setRevisionHistory((history) =>
+            pushRevision(history, {
+              input: result.inputQuestion,
+              instruction: result.inputInstruction || undefined,
+              ppl: result.reviewedPPL ?? result.ppl,
+              pplEdited: result.pplEdited || undefined,
+              vega: result.vega,
+              createdTimeMs: Date.now(),
+            })
+          );
 
           // Report metric when visualization generated successfully
           if (usageCollection) {
@@ -168,6 +271,29 @@ export const Text2Viz = () => {
     };
   }, [usageCollection]);
 
+  /**
+   * Loads the dataset of the saved search the visualization is generated from
+   */
+  useEffect(() => {
+    const savedSearchId = searchParams.get(SAVED_SEARCH_URL_SEARCH_KEY);
+    if (!savedSearchId || savedObjectId) {
+      return;
+    }
+    savedSearchToDataset(savedObjects.client, getIndexPatterns(), savedSearchId)
+      .then(setDataset)
+      .catch((e) => {
+        notifications.toasts.addDanger({
+          title: i18n.translate('dashboardAssistant.feature.text2viz.loadSavedSearchFailed', {
+            defaultMessage: `Failed to load saved search: '{id}'`,
+            values: {
+              id: savedSearchId,
+            },
+          }),
+          text: e.message,
+        });
+      });
+  }, [searchParams, savedObjectId, savedObjects.client, notifications]);
+
   /**
    * Loads the saved object from id when editing an existing visualization
    */
@@ -178,8 +304,9 @@ export const Text2Viz = () => {
       loader
         .get(savedObjectId)
         .then((savedVis) => {
+          let spec;
           if (savedVis?.visualizationState) {
-            const spec = JSON.parse(savedVis.visualizationState ?? '{}').params?.spec;
+            spec = JSON.parse(savedVis.visualizationState ?? '{}').params?.spec;
             const indexId = savedVis.searchSourceFields?.index;
             if (spec) {
               setEditorInput(JSON.stringify(spec, undefined, 4));
@@ -189,8 +316,11 @@ export const Text2Viz = () => {
             }
           }
           if (savedVis?.uiState) {
-            setInputQuestion(JSON.parse(savedVis.uiState ?? '{}').input ?? '');
-            setCurrentInstruction(JSON.parse(savedVis.uiState ?? '{}').instruction ?? '');
+            const uiState: VisNLQUIState = JSON.parse(savedVis.uiState ?? '{}');
+            setInputQuestion(uiState.input ?? '');
+            setCurrentInstruction(uiState.instruction ?? '');
+            setDataset(uiState.dataset);
+            setRevisionHistory(restoreRevisionHistory(uiState, spec));
           }
         })
         .catch(() => {
@@ -217,7 +347,7 @@ export const Text2Viz = () => {
       setCurrentInstruction(inputInstruction);
       setErrorMessage('');
 
-      if (status === 'RUNNING' || !selectedSource) return;
+      if (status === 'RUNNING' || !hasSource) return;
 
       if (
         inputQuestion.trim().length > TEXT2VEGA_INPUT_SIZE_LIMIT ||
@@ -239,17 +369,31 @@ export const Text2Viz = () => {
 
       setSubmitting(true);
 
-      const indexPatterns = getIndexPatterns();
-      const indexPattern = await indexPatterns.get(selectedSource);
-      currentUsedIndexPatternRef.current = indexPattern;
+      const source = await resolveDataset();
+
+      // A follow-up request refines the visualization on display, the query of a saved search
+      // is refined by the question
+      const currentRevision = getCurrentRevision(revisionHistory);
+      let refinement = {};
+      if (inputInstruction && currentRevision) {
+        refinement = {
+          previousPPL: currentRevision.ppl,
+          previousVega: vegaSpec ?? currentRevision.vega,
+        };
+      } else if (source.query) {
+        refinement = { previousPPL: source.query };
+      }
 
-      const text2vega = text2vegaRef.current;
-      text2vega?.run({
-        index: indexPattern.title,
+      setPPLReview(undefined);
+      setPPLValidation(undefined);
+      text2pplRef.current?.run({
+        index: source.title,
         inputQuestion,
         inputInstruction,
-        dataSourceId: indexPattern.dataSourceRef?.id,
-        timeFieldName: indexPattern.timeFieldName,
+        dataSourceId: source.dataSourceId,
+        timeFieldName: source.timeFieldName,
+        language: source.language,
+        ...refinement,
       });
 
       if (usageCollection) {
@@ -262,14 +406,74 @@ export const Text2Viz = () => {
 
       setSubmitting(false);
     },
-    [selectedSource, inputQuestion, status, notifications.toasts, usageCollection]
+    [
+      hasSource,
+      resolveDataset,
+      inputQuestion,
+      status,
+      notifications.toasts,
+      usageCollection,
+      revisionHistory,
+      vegaSpec,
+    ]
   );
 
+  /**
+   * Chart the reviewed query, it is validated again as it may have been edited since
+   */
+  const onGenerateFromPPL = useCallback(() => {
+    if (!pplReview) return;
+    setErrorMessage('');
+    text2vegaRef.current?.run({
+      ...pplReview.input,
+      ppl: pplReview.ppl,
+      reviewedPPL: pplReview.ppl,
+      pplEdited: pplReview.ppl !== pplReview.generatedPPL,
+    });
+  }, [pplReview]);
+
+  /**
+   * Review the query of the visualization on display to chart it again
+   */
+  const onEditQuery = useCallback(async () => {
+    const revision = getCurrentRevision(revisionHistory);
+    if (!revision || !hasSource) return;
+
+    const source = await resolveDataset();
+    setErrorMessage('');
+    setPPLReview({
+      input: {
+        index: source.title,
+        inputQuestion: revision.input,
+        inputInstruction: '',
+        dataSourceId: source.dataSourceId,
+        timeFieldName: source.timeFieldName,
+        language: source.language,
+      },
+      generatedPPL: revision.ppl,
+      ppl: revision.ppl,
+    });
+    validatePPL(revision.ppl, source.dataSourceId, source.language);
+  }, [revisionHistory, hasSource, resolveDataset, validatePPL]);
+
+  /**
+   * Display another revision, following revisions are kept until a new one is generated
+   */
+  const onRevisionChange = useCallback((history: RevisionHistory) => {
+    const revision = getCurrentRevision(history);
+    if (!revision) return;
+    setRevisionHistory(history);
+    setEditorInput(JSON.stringify(revision.vega, undefined, 4));
+    setInputQuestion(revision.input);
+    setCurrentInstruction(revision.instruction ?? '');
+    setErrorMessage('');
+  }, []);
+
   /**
    * Display the save visualization dialog to persist the current generated visualization
    */
   const onSaveClick = useCallback(async () => {
-    if (!vegaSpec || !selectedSource) return;
+    if (!vegaSpec || !hasSource) return;
 
     const doSave = async (onSaveProps: OnSaveProps) => {
       const indexPattern = currentUsedIndexPatternRef.current;
@@ -283,11 +487,16 @@ export const Text2Viz = () => {
           spec: vegaSpec,
         },
       });
-      savedVis.uiState = JSON.stringify({
+      const uiState: VisNLQUIState = {
         input: inputQuestion,
         instruction: currentInstruction,
-      });
-      savedVis.searchSourceFields = { index: indexPattern };
+        revisions: revisionHistory.revisions,
+        currentRevision: revisionHistory.current,
+        dataset,
+      };
+      savedVis.uiState = JSON.stringify(uiState);
+      // only index patterns are referenced by the search source, other datasets are in the ui state
+      savedVis.searchSourceFields = dataset ? {} : { index: indexPattern };
       savedVis.title = onSaveProps.newTitle;
       savedVis.description = onSaveProps.newDescription;
       savedVis.copyOnSave = onSaveProps.newCopyOnSave;
@@ -349,10 +558,12 @@ export const Text2Viz = () => {
     vegaSpec,
     inputQuestion,
     overlays,
-    selectedSource,
+    hasSource,
+    dataset,
     savedObjectId,
     usageCollection,
     currentInstruction,
+    revisionHistory,
   ]);
 
   const pageTitle = savedObjectId
@@ -408,7 +619,7 @@ export const Text2Viz = () => {
   }, [chrome]);
 
   useEffectOnce(() => {
-    if (!selectedSource || !inputQuestion) {
+    if (!hasSource || !inputQuestion) {
       return;
     }
     onSubmit();
@@ -422,10 +633,29 @@ export const Text2Viz = () => {
     return (
       <>
         <EuiFlexItem grow={2} style={{ width: 0 }}>
-          <SourceSelector
-            selectedSourceId={selectedSource}
-            onChange={(ds) => setSelectedSource(ds.value)}
-          />
+          {dataset ? (
+            <EuiFieldText
+              value={dataset.title}
+              readOnly
+              compressed
+              fullWidth
+              prepend={dataset.type === SAVED_SEARCH_DATASET_TYPE ? 'Saved search' : undefined}
+              append={
+                <EuiButtonIcon
+                  aria-label="clear dataset"
+                  iconType="cross"
+                  onClick={() => setDataset(undefined)}
+                  isDisabled={loading}
+                />
+              }
+              data-test-subj="text2vizDataset"
+            />
+          ) : (
+            <SourceSelector
+              selectedSourceId={selectedSource}
+              onChange={(ds) => setSelectedSource(ds.value)}
+            />
+          )}
         </EuiFlexItem>
         <EuiFlexItem grow={1}>
           <EuiFieldText
@@ -436,14 +666,14 @@ export const Text2Viz = () => {
             prepend={config.chat.enabled ? <></> : <EuiIcon type={getLogoIcon('gray')} />}
             placeholder="Generate visualization with a natural language question."
             onKeyDown={(e) => e.key === 'Enter' && onSubmit()}
-            disabled={!selectedSource}
+            disabled={!hasSource}
           />
         </EuiFlexItem>
         <EuiFlexItem grow={false}>
           <EuiButtonIcon
             aria-label="submit"
             onClick={() => onSubmit()}
-            isDisabled={loading || inputQuestion.trim().length === 0 || !selectedSource}
+            isDisabled={loading || inputQuestion.trim().length === 0 || !hasSource}
             display="base"
             size="s"
             iconType="returnKey"
@@ -454,8 +684,9 @@ export const Text2Viz = () => {
   };
 
   const loading = status === 'RUNNING' || savedObjectLoading || submitting;
-  const noResult = !loading && status === 'STOPPED' && !vegaSpec && !savedObjectLoading;
-  const resultLoaded = !loading && status === 'STOPPED' && vegaSpec;
+  const noResult =
+    !loading && status === 'STOPPED' && !vegaSpec && !savedObjectLoading && !pplReview;
+  const resultLoaded = !loading && status === 'STOPPED' && vegaSpec && !pplReview;
 
   return (
     <EuiPage className="text2viz__page" direction="column">
@@ -489,6 +720,24 @@ export const Text2Viz = () => {
       )}
       {noResult && !errorMessage && <Text2VizEmpty />}
       {loading && <Text2VizLoading type={savedObjectLoading ? 'loading' : 'generating'} />}
+      {!loading && pplReview && (
+        <PPLReview
+          value={pplReview.ppl}
+          generatedValue={pplReview.generatedPPL}
+          validation={pplValidation}
+          validating={pplValidating}
+          onChange={(ppl) => {
+            setPPLReview({ ...pplReview, ppl });
+            setPPLValidation(undefined);
+          }}
+          language={pplReview.input.language}
+          onValidate={() =>
+            validatePPL(pplReview.ppl, pplReview.input.dataSourceId, pplReview.input.language)
+          }
+          onGenerate={onGenerateFromPPL}
+          onCancel={vegaSpec ? () => setPPLReview(undefined) : undefined}
+        />
+      )}
       {errorMessage && <Text2VizError message={errorMessage} />}
       {!errorMessage && resultLoaded && factory && (
         <EuiResizableContainer style={{ flexGrow: 1, flexShrink: 1 }}>
@@ -519,6 +768,49 @@ export const Text2Viz = () => {
                         value={currentInstruction}
                       />
                     </EuiFlexItem>
+                    <EuiFlexItem grow={false} className="text2viz__revisionContainer">
+                      <EuiButtonIcon
+                        title={i18n.translate('dashboardAssistant.feature.text2viz.editQuery', {
+                          defaultMessage: 'Edit query',
+                        })}
+                        aria-label="edit query"
+                        iconType="editorCodeBlock"
+                        size="s"
+                        display="base"
+                        onClick={onEditQuery}
+                        isDisabled={!getCurrentRevision(revisionHistory)}
+                      />
+                    </EuiFlexItem>
+                    <EuiFlexItem grow={false} className="text2viz__revisionContainer">
+                      <EuiFlexGroup gutterSize="xs" responsive={false}>
+                        <EuiFlexItem grow={false}>
+                          <EuiButtonIcon
+                            title={i18n.translate('dashboardAssistant.feature.text2viz.undo', {
+                              defaultMessage: 'Undo',
+                            })}
+                            aria-label="undo"
+                            iconType="editorUndo"
+                            size="s"
+                            display="base"
+                            onClick={() => onRevisionChange(undoRevision(revisionHistory))}
+                            isDisabled={!canUndo(revisionHistory)}
+                          />
+                        </EuiFlexItem>
+                        <EuiFlexItem grow={false}>
+                          <EuiButtonIcon
+                            title={i18n.translate('dashboardAssistant.feature.text2viz.redo', {
+                              defaultMessage: 'Redo',
+                            })}
+                            aria-label="redo"
+                            iconType="editorRedo"
+                            size="s"
+                            display="base"
+                            onClick={() => onRevisionChange(redoRevision(revisionHistory))}
+                            isDisabled={!canRedo(revisionHistory)}
+                          />
+                        </EuiFlexItem>
+                      </EuiFlexGroup>
+                    </EuiFlexItem>
                   </EuiFlexGroup>
                   <EmbeddableRenderer factory={factory} input={visInput} />
                 </EuiResizablePanel>
@@ -7,3 +7,8 @@ export { useSaveChat } from './use_save_chat';
 export { useChatState, ChatStateProvider } from './use_chat_state';
 export { useChatActions } from './use_chat_actions';
 export { usePatchConversation, useDeleteConversation } from './use_conversations';
+export {
+  useShareConversation,
+  useFetchSharedConversation,
+  useForkSharedConversation,
+} from './use_shared_conversation';
@@ -0,0 +1,51 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { ASSISTANT_API } from '../../common/constants/llm';
+import { AgentHealthStatus } from '../../common/types/agent_health';
+import { useCore } from '../contexts/core_context';
+
+const AGENT_HEALTH_POLL_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Health of the external AI agent as seen by the server, polled so that the chat
+ * can tell the user the assistant is unavailable before they send a message.
+ */
+export const useAgentHealth = (pollIntervalMs = AGENT_HEALTH_POLL_INTERVAL_MS) => {
+  const core = useCore();
+  const [health, setHealth] = useState<AgentHealthStatus>();
+
+  const fetchHealth = useCallback(
+    (options: { refresh?: boolean; signal?: AbortSignal } = {}) =>
+      core.services.http
+        .get<AgentHealthStatus>(ASSISTANT_API.AGENT_HEALTH, {
+          query: { refresh: !!options.refresh },
+          signal: options.signal,
+        })
+        .then(setHealth)
+        .catch(() => {
+          // keep the last known status, the request may have been aborted or the server restarting
+        }),
+    [core.services.http]
+  );
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    fetchHealth({ signal: abortController.signal });
+    const timer = setInterval(
+      () => fetchHealth({ signal: abortController.signal }),
+      pollIntervalMs
+    );
+    return () => {
+      clearInterval(timer);
+      abortController.abort();
+    };
+  }, [fetchHealth, pollIntervalMs]);
+
+  const refresh = useCallback(() => fetchHealth({ refresh: true }), [fetchHealth]);
+
+  return { health, refresh };
+};
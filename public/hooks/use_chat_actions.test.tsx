@@ -7,13 +7,16 @@ import { renderHook } from '@testing-library/react-hooks';
 import { useChatActions } from './use_chat_actions';
 import * as chatContextHookExports from '../contexts/chat_context';
 import * as coreHookExports from '../contexts/core_context';
-import { httpServiceMock } from '../../../../src/core/public/mocks';
+import { httpServiceMock, notificationServiceMock } from '../../../../src/core/public/mocks';
 import { ConversationsService } from '../services/conversations_service';
 import { ConversationLoadService } from '../services/conversation_load_service';
 import * as chatStateHookExports from './use_chat_state';
 import { ASSISTANT_API } from '../../common/constants/llm';
 import { IMessage } from 'common/types/chat_saved_object_attributes';
 import { DataSourceServiceMock } from '../services/data_source_service.mock';
+import * as getChunksHookExports from './use_get_chunks_from_http_response';
+import { BehaviorSubject } from 'rxjs';
+import { StreamChunk } from '../../common/types/chat_saved_object_attributes';
 
 jest.mock('../services/conversations_service', () => {
   return {
@@ -67,6 +70,7 @@ const mockPureFetchResponse = (body: unknown) => ({
 
 describe('useChatActions hook', () => {
   const httpMock = httpServiceMock.createStartContract();
+  const notificationsMock = notificationServiceMock.createStartContract();
   const chatStateDispatchMock = jest.fn();
   const setFlyoutVisibleMock = jest.fn();
   const setSelectedTabIdMock = jest.fn();
@@ -102,6 +106,7 @@ describe('useChatActions hook', () => {
         conversations: new ConversationsService(httpMock, dataSourceServiceMock),
         conversationLoad: new ConversationLoadService(httpMock, dataSourceServiceMock),
         dataSource: dataSourceServiceMock,
+        notifications: notificationsMock,
       },
     });
 
@@ -171,6 +176,28 @@ describe('useChatActions hook', () => {
     expect(chatStateDispatchMock).toHaveBeenCalledWith(expect.objectContaining({ type: 'error' }));
   });
 
+  it('should notify the user of send message error with a retry action', async () => {
+    httpMock.post.mockImplementationOnce(() => {
+      throw Object.assign(new Error('Service Unavailable'), {
+        body: {
+          message: 'The assistant backend is unavailable, please try again later.',
+          attributes: {
+            type: 'chat_service_unavailable',
+            severity: 'high',
+            recoveryStrategy: 'retry_with_backoff',
+            retryable: true,
+          },
+        },
+      });
+    });
+    const { result } = renderHook(() => useChatActions());
+
+    await result.current.send(INPUT_MESSAGE);
+    expect(notificationsMock.toasts.add).toHaveBeenCalledWith(
+      expect.objectContaining({ title: 'Assistant unavailable', color: 'danger' })
+    );
+  });
+
   it('should load conversation by id', async () => {
     const { result } = renderHook(() => useChatActions());
     expect(chatStateDispatchMock).not.toHaveBeenCalledWith(
@@ -350,6 +377,51 @@ describe('useChatActions hook', () => {
     AbortControllerMock.mockRestore();
   });
 
+  it('should render streamed regenerate chunks until the stream completes', async () => {
+    const chunk$ = new BehaviorSubject<StreamChunk | undefined>(undefined);
+    const getConsumedChunk$FromHttpResponse = jest.fn().mockResolvedValue(chunk$);
+    jest
+      .spyOn(getChunksHookExports, 'useGetChunksFromHTTPResponse')
+      .mockReturnValue({ getConsumedChunk$FromHttpResponse });
+    const stream = { getReader: jest.fn() };
+    httpMock.put.mockImplementationOnce(async () => mockPureFetchResponse(stream));
+    jest
+      .spyOn(chatContextHookExports, 'useChatContext')
+      .mockReturnValue({ ...chatContextMock, conversationId: 'conversation_id_mock' });
+    jest.spyOn(chatStateHookExports, 'useChatState').mockReturnValue({
+      chatState: {
+        messages: SEND_MESSAGE_RESPONSE.messages as IMessage[],
+        interactions: SEND_MESSAGE_RESPONSE.interactions,
+        llmResponding: false,
+      },
+      chatStateDispatch: chatStateDispatchMock,
+    });
+
+    const { result } = renderHook(() => useChatActions());
+    const regenerated = result.current.regenerate('interaction_id_mock');
+    await new Promise((resolve) => setTimeout(resolve));
+    chunk$.next({
+      event: 'metadata',
+      data: {
+        messages: [SEND_MESSAGE_RESPONSE.messages[0] as IMessage],
+        interactions: [],
+      },
+    });
+    chunk$.complete();
+    await regenerated;
+
+    expect(getConsumedChunk$FromHttpResponse).toHaveBeenCalledWith(
+      expect.objectContaining({ stream })
+    );
+    expect(chatStateDispatchMock).toHaveBeenCalledWith({
+      type: 'receive',
+      payload: {
+        messages: [SEND_MESSAGE_RESPONSE.messages[0]],
+        interactions: [],
+      },
+    });
+  });
+
   it('should handle regenerate error', async () => {
     httpMock.put.mockImplementationOnce(() => {
       throw new Error();
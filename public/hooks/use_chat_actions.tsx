@@ -3,15 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { BehaviorSubject } from 'rxjs';
 import { TAB_ID } from '../utils/constants';
 import { ASSISTANT_API } from '../../common/constants/llm';
 import { findLastIndex } from '../utils';
+import { notifyChatError } from '../utils/chat_error_notification';
 import {
   IMessage,
   ISuggestedAction,
   SendResponse,
-  StreamChunk,
 } from '../../common/types/chat_saved_object_attributes';
 import { useChatContext } from '../contexts/chat_context';
 import { useCore } from '../contexts/core_context';
@@ -46,7 +45,7 @@ export const useChatActions = (): AssistantActions => {
       chatContext.setTitle(data.title);
     }
 
-    if (data.messages?.length && data.interactions?.length) {
+    if (data.messages?.length && data.interactions) {
       /**
        * Remove messages that do not have messageId
        * because they are used for displaying loading state
@@ -178,10 +177,27 @@ export const useChatActions = (): AssistantActions => {
     } catch (error) {
       if (abortController.signal.aborted) return;
       chatStateDispatch({ type: 'error', payload: error });
+      notifyChatError(core.services.notifications.toasts, error, {
+        retry: () => {
+          chatStateDispatch({ type: 'retry' });
+          send(input, uiContext);
+        },
+        ...(uiContext && {
+          withoutContext: () => {
+            chatStateDispatch({ type: 'retry' });
+            send(input);
+          },
+        }),
+      });
     }
   };
 
-  const loadChat = async (conversationId?: string, nextToken?: string, title?: string) => {
+  const loadChat = async (
+    conversationId?: string,
+    nextToken?: string,
+    title?: string,
+    interactionId?: string
+  ) => {
     abortControllerRef?.abort();
     core.services.conversationLoad.abortController?.abort();
     chatContext.setConversationId(conversationId);
@@ -205,6 +221,9 @@ export const useChatActions = (): AssistantActions => {
           interactions: conversation.interactions,
         },
       });
+      if (interactionId) {
+        chatStateDispatch({ type: 'focusInteraction', payload: { interactionId } });
+      }
 
       chatStateDispatch({
         type: 'llmRespondingChange',
@@ -327,7 +346,6 @@ export const useChatActions = (): AssistantActions => {
     if (chatContext.conversationId) {
       const abortController = new AbortController();
       abortControllerRef = abortController;
-      let chunk$ = new BehaviorSubject<StreamChunk | undefined>(undefined);
       chatStateDispatch({ type: 'regenerate' });
 
       try {
@@ -341,17 +359,28 @@ export const useChatActions = (): AssistantActions => {
         });
 
         if (fetchResponse.body?.getReader) {
-          chunk$ = await getConsumedChunk$FromHttpResponse({
+          const chunk$ = await getConsumedChunk$FromHttpResponse({
             stream: fetchResponse.body,
             abortController,
           });
 
-          chunk$.subscribe((chunk) => {
-            if (chunk?.event === 'metadata') {
-              regenerateMetadataHandler(chunk.data, {
-                interactionId,
-              });
-            }
+          // Resolve once the regenerated answer has been streamed completely
+          return new Promise((resolve) => {
+            chunk$.subscribe(
+              (chunk) => {
+                if (chunk?.event === 'metadata') {
+                  regenerateMetadataHandler(chunk.data, {
+                    interactionId,
+                  });
+                }
+              },
+              () => {
+                resolve(undefined);
+              },
+              () => {
+                resolve(undefined);
+              }
+            );
           });
         } else {
           if (abortController.signal.aborted) {
@@ -378,6 +407,9 @@ export const useChatActions = (): AssistantActions => {
           return;
         }
         chatStateDispatch({ type: 'error', payload: error });
+        notifyChatError(core.services.notifications.toasts, error, {
+          retry: () => regenerate(interactionId),
+        });
       }
     }
   };
@@ -160,6 +160,22 @@ describe('useChatState hook', () => {
     expect(result.current.chatState.llmResponding).toBe(false);
   });
 
+  it('should update state after `retry`', () => {
+    const { result } = renderHook(() => useChatState(), { wrapper: ChatStateProvider });
+    act(() => {
+      result.current.chatStateDispatch({
+        type: 'send',
+        payload: { type: 'input', contentType: 'text', content: 'question mock' },
+      });
+    });
+    act(() => result.current.chatStateDispatch({ type: 'error', payload: new Error() }));
+
+    act(() => result.current.chatStateDispatch({ type: 'retry' }));
+    // the failed input is removed, it is pushed again when the request is sent
+    expect(result.current.chatState.messages).toEqual([]);
+    expect(result.current.chatState.llmError).toBeUndefined();
+  });
+
   it('should update state after `regenerate`', () => {
     const { result } = renderHook(() => useChatState(), { wrapper: ChatStateProvider });
     act(() =>
@@ -371,6 +387,26 @@ describe('useChatState hook', () => {
       },
     ]);
   });
+
+  it('should focus an interaction until a message is sent', () => {
+    const { result } = renderHook(() => useChatState(), { wrapper: ChatStateProvider });
+
+    act(() => {
+      result.current.chatStateDispatch({
+        type: 'focusInteraction',
+        payload: { interactionId: 'interaction_id_mock' },
+      });
+    });
+    expect(result.current.chatState.focusedInteractionId).toBe('interaction_id_mock');
+
+    act(() => {
+      result.current.chatStateDispatch({
+        type: 'send',
+        payload: { type: 'input', contentType: 'text', content: 'question mock' },
+      });
+    });
+    expect(result.current.chatState.focusedInteractionId).toBeUndefined();
+  });
 });
 
 describe('addPatchInArray', () => {
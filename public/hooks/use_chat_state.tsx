@@ -15,6 +15,8 @@ export interface ChatState {
   llmError?: Error;
   nextToken?: string;
   llmResponseType?: LLMResponseType;
+  // interaction to scroll to, e.g. the match of a conversation search
+  focusedInteractionId?: string;
 }
 
 export enum LLMResponseType {
@@ -24,6 +26,7 @@ export enum LLMResponseType {
 
 type ChatStateAction =
   | { type: 'regenerate' }
+  | { type: 'retry' }
   | { type: 'abort' }
   | { type: 'reset' }
   | { type: 'send'; payload: IMessage }
@@ -53,6 +56,12 @@ type ChatStateAction =
         flag: boolean;
       };
     }
+  | {
+      type: 'focusInteraction';
+      payload: {
+        interactionId?: string;
+      };
+    }
   | {
       type: 'updateResponseType';
       payload: {
@@ -124,6 +133,7 @@ const chatStateReducer: React.Reducer<ChatState, ChatStateAction> = (state, acti
         draft.messages.push(action.payload);
         draft.llmResponding = true;
         draft.llmError = undefined;
+        draft.focusedInteractionId = undefined;
         break;
 
       case 'receive':
@@ -144,6 +154,14 @@ const chatStateReducer: React.Reducer<ChatState, ChatStateAction> = (state, acti
       case 'abort':
         draft.llmResponding = false;
         break;
+      case 'retry':
+        const failedInputIndex = findLastIndex(draft.messages, (msg) => msg.type === 'input');
+        // Drop the input of the failed request, it is pushed again once sent
+        if (failedInputIndex > -1 && !draft.messages[failedInputIndex].messageId) {
+          draft.messages = draft.messages.slice(0, failedInputIndex);
+        }
+        draft.llmError = undefined;
+        break;
       case 'regenerate':
         const lastInputIndex = findLastIndex(draft.messages, (msg) => msg.type === 'input');
         // Exclude the last outputs
@@ -202,6 +220,10 @@ const chatStateReducer: React.Reducer<ChatState, ChatStateAction> = (state, acti
       case 'updateResponseType':
         draft.llmResponseType = action.payload.type;
         break;
+
+      case 'focusInteraction':
+        draft.focusedInteractionId = action.payload.interactionId;
+        break;
     }
   });
 
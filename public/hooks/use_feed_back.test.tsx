@@ -86,6 +86,49 @@ describe('useFeedback hook', () => {
     expect(result.current.feedbackResult).toBe(correct);
   });
 
+  it('should send the feedback details with the app of the message', async () => {
+    const mockInputMessage = {
+      type: 'input',
+      content: 'How many shards?',
+      context: { appId: 'discover' },
+    } as IMessage;
+    const mockOutputMessage = {
+      type: 'output',
+      interactionId: 'interactionId',
+    } as IOutput;
+    jest.spyOn(chatStateHookExports, 'useChatState').mockReturnValue({
+      chatState: {
+        messages: [mockInputMessage, mockOutputMessage],
+        interactions: [],
+        llmResponding: false,
+      },
+      chatStateDispatch: chatStateDispatchMock,
+    });
+    const { result } = renderHook(() =>
+      useFeedback(undefined, httpMock, dataSourceServiceMock, mockUsageCollection, 'chat')
+    );
+
+    await act(async () => {
+      await result.current.sendFeedback(false, mockOutputMessage, {
+        reasons: ['irrelevant'],
+        comment: 'Not about shards',
+      });
+    });
+
+    expect(httpMock.put).toHaveBeenCalledWith(
+      `${ASSISTANT_API.FEEDBACK}/${mockOutputMessage.interactionId}`,
+      {
+        body: JSON.stringify({
+          satisfaction: false,
+          reasons: ['irrelevant'],
+          comment: 'Not about shards',
+        }),
+        query: { appId: 'discover' },
+      }
+    );
+    expect(result.current.feedbackResult).toBe(false);
+  });
+
   it('should not update feedback state if API fail', async () => {
     const mockInteraction = {
       interaction_id: 'interactionId',
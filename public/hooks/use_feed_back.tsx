@@ -16,6 +16,8 @@ import { DataSourceService } from '../services/data_source_service';
 import { UsageCollectionSetup } from '../../../../src/plugins/usage_collection/public';
 import { reportMetric } from '../utils/report_metric';
 
+export type FeedbackDetails = Omit<SendFeedbackBody, 'satisfaction'>;
+
 export const useFeedback = (
   interaction?: Interaction | null,
   httpSetup?: HttpSetup,
@@ -28,7 +30,16 @@ export const useFeedback = (
     interaction?.additional_info?.feedback?.satisfaction ?? undefined
   );
 
-  const sendFeedback = async (correct: boolean, message: IOutput | null) => {
+  /**
+   * @param details reasons, comment and corrected answer, sent again with the satisfaction
+   * once the user fills them after the first feedback
+   */
+  const sendFeedback = async (
+    correct: boolean,
+    message: IOutput | null,
+    details?: FeedbackDetails
+  ) => {
+    let appId: string | undefined;
     if (chatStateContext?.chatState) {
       const chatState = chatStateContext.chatState;
       // Markdown type output all has interactionId. The interactionId of message is equal to interaction id.
@@ -42,20 +53,26 @@ export const useFeedback = (
       if (!inputMessage) {
         return;
       }
+      // the same backend as the message answers the feedback
+      appId = inputMessage.type === 'input' ? inputMessage.context?.appId : undefined;
     }
 
     const body: SendFeedbackBody = {
       satisfaction: correct,
+      ...details,
     };
+    const dataSourceQuery = dataSourceService?.getDataSourceQuery();
     try {
       if (message) {
         await httpSetup?.put(`${ASSISTANT_API.FEEDBACK}/${message.interactionId}`, {
           body: JSON.stringify(body),
-          query: dataSourceService?.getDataSourceQuery(),
+          query: appId ? { ...dataSourceQuery, appId } : dataSourceQuery,
         });
       }
+      if (feedbackResult === undefined) {
+        reportMetric(usageCollection, metricAppName, correct ? 'thumbup' : 'thumbdown');
+      }
       setFeedbackResult(correct);
-      reportMetric(usageCollection, metricAppName, correct ? 'thumbup' : 'thumbdown');
     } catch (error) {
       console.error('send feedback error', error);
     }
@@ -7,6 +7,7 @@ import { ReadableStream as NodeReadableStream } from 'stream/web';
 import { useGetChunksFromHTTPResponse } from './use_get_chunks_from_http_response';
 import * as chatStateHookExports from './use_chat_state';
 import { streamSerializer } from '../../common/utils/stream/serializer';
+import { STREAM_PROTOCOL_VERSION } from '../../common/constants/llm';
 import { waitFor } from '@testing-library/dom';
 
 describe('useGetChunksFromHTTPResponse', () => {
@@ -156,6 +157,59 @@ describe('useGetChunksFromHTTPResponse', () => {
     });
   });
 
+  it('should patch tool calls and source attributions into the output message', async () => {
+    const { getConsumedChunk$FromHttpResponse } = useGetChunksFromHTTPResponse();
+    const sourceAttributions = [{ title: 'Document 1', url: '#', body: 'Score: 1' }];
+    const chunks = [
+      streamSerializer({ event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION } }),
+      streamSerializer({
+        event: 'toolCall',
+        data: { messageId: 'a', toolCall: { id: '1', name: 'SearchIndexTool', status: 'running' } },
+      }),
+      streamSerializer({
+        event: 'toolCall',
+        data: {
+          messageId: 'a',
+          toolCall: { id: '1', name: 'SearchIndexTool', status: 'succeeded' },
+        },
+      }),
+      streamSerializer({
+        event: 'sourceAttributions',
+        data: { messageId: 'a', sourceAttributions },
+      }),
+    ].join('');
+    const mockedEventStream = new NodeReadableStream({
+      start(controller) {
+        // split the events across network chunks
+        controller.enqueue(new TextEncoder().encode(chunks.slice(0, 50)));
+        controller.enqueue(new TextEncoder().encode(chunks.slice(50)));
+        controller.close();
+      },
+    });
+
+    await getConsumedChunk$FromHttpResponse({
+      stream: mockedEventStream as ReadableStream,
+      abortController: new AbortController(),
+    });
+
+    await waitFor(() => {
+      expect(chatStateDispatchMock).toHaveBeenCalledWith({
+        type: 'updateOutputMessage',
+        payload: { messageId: 'a', payload: { toolsUsed: ['SearchIndexTool'] } },
+      });
+      expect(chatStateDispatchMock).toHaveBeenCalledWith({
+        type: 'updateOutputMessage',
+        payload: { messageId: 'a', payload: { sourceAttributions } },
+      });
+      expect(chatStateDispatchMock).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'error' })
+      );
+    });
+    expect(
+      chatStateDispatchMock.mock.calls.filter(([action]) => action.type === 'updateOutputMessage')
+    ).toHaveLength(2);
+  });
+
   it('should abort reading streaming when abort controller get changed', async () => {
     const { getConsumedChunk$FromHttpResponse } = useGetChunksFromHTTPResponse();
     const mockedEventStream = new NodeReadableStream({
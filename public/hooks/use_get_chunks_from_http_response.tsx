@@ -5,7 +5,7 @@
 
 import { BehaviorSubject } from 'rxjs';
 import { LLMResponseType, useChatState } from './use_chat_state';
-import { streamDeserializer } from '../../common/utils/stream/serializer';
+import { createStreamDeserializer } from '../../common/utils/stream/serializer';
 import { StreamChunk } from '../../common/types/chat_saved_object_attributes';
 import { MessageContentPuller } from '../utils/message_content_puller';
 import { convertEventStreamToObservable } from '../../common/utils/stream/stream_to_observable';
@@ -30,6 +30,9 @@ export const useGetChunksFromHTTPResponse = () => {
         return true;
       },
     });
+    const streamDeserializer = createStreamDeserializer();
+    // names of the tools called for each output message
+    const toolsUsed: Record<string, string[]> = {};
     const result = convertEventStreamToObservable(props.stream);
     props.abortController.signal.addEventListener('abort', () => {
       messageContentPuller.stop();
@@ -107,6 +110,22 @@ export const useGetChunksFromHTTPResponse = () => {
               type: 'updateOutputMessage',
               payload: data,
             });
+          } else if (chunk.event === 'toolCall') {
+            const { messageId, toolCall } = chunk.data;
+            const names = toolsUsed[messageId] || [];
+            if (!names.includes(toolCall.name)) {
+              toolsUsed[messageId] = [...names, toolCall.name];
+              chatStateDispatch({
+                type: 'updateOutputMessage',
+                payload: { messageId, payload: { toolsUsed: toolsUsed[messageId] } },
+              });
+            }
+          } else if (chunk.event === 'sourceAttributions') {
+            const { messageId, sourceAttributions } = chunk.data;
+            chatStateDispatch({
+              type: 'updateOutputMessage',
+              payload: { messageId, payload: { sourceAttributions } },
+            });
           } else if (chunk.event === 'error') {
             chatStateDispatch({ type: 'error', payload: new Error(chunk.data) });
             return;
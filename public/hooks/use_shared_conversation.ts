@@ -0,0 +1,92 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useReducer } from 'react';
+import { ASSISTANT_API } from '../../common/constants/llm';
+import { SharedConversation } from '../../common/types/shared_conversation';
+import { useCore } from '../contexts/core_context';
+import { GenericReducer, genericReducer } from './fetch_reducer';
+
+export const useShareConversation = () => {
+  const core = useCore();
+  const reducer: GenericReducer<SharedConversation> = genericReducer;
+  const [state, dispatch] = useReducer(reducer, { loading: false });
+
+  const shareConversation = useCallback(
+    (conversationId: string) => {
+      dispatch({ type: 'request' });
+      return core.services.http
+        .post<SharedConversation>(`${ASSISTANT_API.CONVERSATION}/${conversationId}/_share`, {
+          query: core.services.dataSource.getDataSourceQuery(),
+        })
+        .then((payload) => {
+          dispatch({ type: 'success', payload });
+          return payload;
+        })
+        .catch((error) => {
+          dispatch({ type: 'failure', error });
+          throw error;
+        });
+    },
+    [core.services.http, core.services.dataSource]
+  );
+
+  return { ...state, shareConversation };
+};
+
+export const useFetchSharedConversation = (sharedConversationId: string) => {
+  const core = useCore();
+  const reducer: GenericReducer<SharedConversation> = genericReducer;
+  const [state, dispatch] = useReducer(reducer, { loading: true });
+
+  useEffect(() => {
+    const abortController = new AbortController();
+    dispatch({ type: 'request' });
+
+    core.services.http
+      .get<SharedConversation>(`${ASSISTANT_API.SHARED_CONVERSATION}/${sharedConversationId}`, {
+        signal: abortController.signal,
+      })
+      .then((payload) => dispatch({ type: 'success', payload }))
+      .catch((error) => {
+        if (error.name === 'AbortError') return;
+        dispatch({ type: 'failure', error });
+      });
+
+    return () => abortController.abort();
+  }, [core.services.http, sharedConversationId]);
+
+  return { ...state };
+};
+
+export const useForkSharedConversation = () => {
+  const core = useCore();
+  const reducer: GenericReducer<{ conversationId: string }> = genericReducer;
+  const [state, dispatch] = useReducer(reducer, { loading: false });
+
+  const forkSharedConversation = useCallback(
+    (sharedConversationId: string) => {
+      dispatch({ type: 'request' });
+      return core.services.http
+        .post<{ conversationId: string }>(
+          `${ASSISTANT_API.SHARED_CONVERSATION}/${sharedConversationId}/_fork`,
+          {
+            query: core.services.dataSource.getDataSourceQuery(),
+          }
+        )
+        .then((payload) => {
+          dispatch({ type: 'success', payload });
+          return payload;
+        })
+        .catch((error) => {
+          dispatch({ type: 'failure', error });
+          throw error;
+        });
+    },
+    [core.services.http, core.services.dataSource]
+  );
+
+  return { ...state, forkSharedConversation };
+};
@@ -29,6 +29,10 @@ export interface UseStreamingChatReturn {
   ) => Promise<void>;
   streamingContent: string;
   isStreaming: boolean;
+  /**
+   * True while the connection is lost and the stream is being resumed
+   */
+  isReconnecting: boolean;
   error: Error | null;
   abortStream: () => void;
   clearContent: () => void;
@@ -42,6 +46,7 @@ export const useStreamingChat = (options: UseStreamingChatOptions): UseStreaming
 
   const [streamingContent, setStreamingContent] = useState<string>('');
   const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  const [isReconnecting, setIsReconnecting] = useState<boolean>(false);
   const [error, setError] = useState<Error | null>(null);
   const [forceUpdate, setForceUpdate] = useState<number>(0);
 
@@ -85,6 +90,7 @@ export const useStreamingChat = (options: UseStreamingChatOptions): UseStreaming
       setError(null);
       setStreamingContent('');
       setIsStreaming(true);
+      setIsReconnecting(false);
 
       console.log('🔄 HOOK: State reset complete, isStreaming should be true');
 
@@ -116,6 +122,7 @@ export const useStreamingChat = (options: UseStreamingChatOptions): UseStreaming
           request,
           // onChunk
           (chunk: string) => {
+            setIsReconnecting(false);
             setStreamingContent((prev) => {
               const newContent = prev + chunk;
 
@@ -142,6 +149,7 @@ export const useStreamingChat = (options: UseStreamingChatOptions): UseStreaming
           // onComplete
           (response: StreamingChatResponse) => {
             setIsStreaming(false);
+            setIsReconnecting(false);
 
             // Call direct callback to notify component streaming is complete
             if (onUpdate) {
@@ -167,17 +175,23 @@ export const useStreamingChat = (options: UseStreamingChatOptions): UseStreaming
             console.error('❌ Streaming error:', streamError);
             setError(streamError);
             setIsStreaming(false);
+            setIsReconnecting(false);
 
             if (onError) {
               onError(streamError);
             }
           },
-          dataSourceId
+          dataSourceId,
+          // onReconnect
+          () => {
+            setIsReconnecting(true);
+          }
         );
       } catch (sendError) {
         console.error('❌ Failed to send streaming message:', sendError);
         setError(sendError as Error);
         setIsStreaming(false);
+        setIsReconnecting(false);
 
         if (onError) {
           onError(sendError as Error);
@@ -191,6 +205,7 @@ export const useStreamingChat = (options: UseStreamingChatOptions): UseStreaming
     if (streamingServiceRef.current) {
       streamingServiceRef.current.abortStream();
       setIsStreaming(false);
+      setIsReconnecting(false);
     }
   }, []);
 
@@ -203,6 +218,7 @@ export const useStreamingChat = (options: UseStreamingChatOptions): UseStreaming
     sendMessage,
     streamingContent,
     isStreaming,
+    isReconnecting,
     error,
     abortStream,
     clearContent,
@@ -47,6 +47,7 @@ import {
   setAssistantService,
   setTimeFilter,
   setLocalStorage,
+  getFrontendContextualChatServiceRegistry,
 } from './services';
 import { ConfigSchema } from '../common/types/config';
 import { DataSourceService } from './services/data_source_service';
@@ -54,6 +55,7 @@ import {
   ASSISTANT_API,
   DEFAULT_USER_NAME,
   TEXT2PPL_AGENT_CONFIG_ID,
+  TEXT2SQL_AGENT_CONFIG_ID,
   TEXT2VEGA_RULE_BASED_AGENT_CONFIG_ID,
   TEXT2VEGA_WITH_INSTRUCTIONS_AGENT_CONFIG_ID,
 } from '../common/constants/llm';
@@ -62,6 +64,7 @@ import { AssistantService } from './services/assistant_service';
 import { ActionContextMenu } from './components/ui_action_context_menu';
 import { AI_ASSISTANT_QUERY_EDITOR_TRIGGER, bootstrap } from './ui_triggers';
 import { TEXT2VIZ_APP_ID } from './text2viz';
+import { SHARED_CONVERSATION_APP_ID } from '../common/constants/shared_conversation';
 import { VIS_NLQ_APP_ID, VIS_NLQ_SAVED_OBJECT } from '../common/constants/vis_type_nlq';
 import {
   createVisNLQSavedObjectLoader,
@@ -71,11 +74,16 @@ import { NLQVisualizationEmbeddableFactory } from './components/visualization/em
 import { NLQ_VISUALIZATION_EMBEDDABLE_TYPE } from './components/visualization/embeddable/nlq_vis_embeddable';
 import {
   ASSISTANT_INPUT_URL_SEARCH_KEY,
+  DATASET_URL_SEARCH_KEY,
   INDEX_PATTERN_URL_SEARCH_KEY,
 } from './components/visualization/text2viz';
+import { getDatasetLanguage, SUPPORTED_DATASET_TYPES } from './components/visualization/dataset';
+import { Text2VizDataset } from './vis_nlq/types';
 import { DEFAULT_DATA, createStorage } from '../../../src/plugins/data/common';
 import { initializeContextualChatPublicServices } from './services/contextual_chat_initializer';
 import { VisualizationChatExistingUIIntegration } from './services/visualization_chat_existing_ui_integration';
+import { ConvertNLQVisualizationAction } from './actions/convert_nlq_visualization_action';
+import { CONTEXT_MENU_TRIGGER } from '../../../src/plugins/embeddable/public';
 import { SimpleButtonInjector } from './services/simple_button_injector';
 
 export const [getCoreStart, setCoreStart] = createGetterSetter<CoreStart>('CoreStart');
@@ -225,6 +233,34 @@ export class AssistantPlugin
       });
     }
 
+    core.application.register({
+      id: SHARED_CONVERSATION_APP_ID,
+      title: i18n.translate('dashboardAssistant.feature.sharedConversation', {
+        defaultMessage: 'Shared conversation',
+      }),
+      navLinkStatus: AppNavLinkStatus.hidden,
+      mount: async (params: AppMountParameters) => {
+        const [coreStart, startDeps] = await core.getStartServices();
+        if (!coreStart.application.capabilities.assistant?.chatEnabled) {
+          const { renderAppNotFound } = await import('./text2viz');
+          return renderAppNotFound(params);
+        }
+        const { renderSharedConversationApp } = await import('./shared_conversation');
+        return renderSharedConversationApp(
+          params,
+          {
+            ...coreStart,
+            setupDeps,
+            startDeps,
+            conversationLoad: new ConversationLoadService(coreStart.http, this.dataSourceService),
+            conversations: new ConversationsService(coreStart.http, this.dataSourceService),
+            dataSource: this.dataSourceService,
+          },
+          { messageRenderers, actionExecutors, assistantActions }
+        );
+      },
+    });
+
     (async () => {
       const [coreStart, startDeps] = await core.getStartServices();
       if (!coreStart.application.capabilities.assistant?.chatEnabled) {
@@ -347,6 +383,10 @@ export class AssistantPlugin
       registerIncontextInsight: this.incontextInsightRegistry.register.bind(
         this.incontextInsightRegistry
       ),
+      registerContentExtractor: (extractor) =>
+        getFrontendContextualChatServiceRegistry().registerContentExtractor(extractor),
+      unregisterContentExtractor: (extractorId) =>
+        getFrontendContextualChatServiceRegistry().unregisterContentExtractor(extractorId),
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       renderIncontextInsight: (props: any) => {
         if (!this.incontextInsightRegistry?.isEnabled()) return <div {...props} />;
@@ -416,13 +456,17 @@ export class AssistantPlugin
         getIconType: () => 'visLine' as const,
         // T2Viz is only compatible with data sources that have certain agents configured
         isCompatible: async (context) => {
-          // t2viz only supports selecting index pattern at the moment
-          if (context.datasetType === DEFAULT_DATA.SET_TYPES.INDEX_PATTERN && context.datasetId) {
+          // t2viz supports index patterns, indexes and S3 tables queried in PPL or SQL
+          if (context.datasetType && SUPPORTED_DATASET_TYPES.includes(context.datasetType)) {
+            const language = getDatasetLanguage(
+              context.datasetType,
+              data.query.queryString.getQuery().language
+            );
             const res = await assistantServiceStart.client.agentConfigExists(
               [
                 TEXT2VEGA_RULE_BASED_AGENT_CONFIG_ID,
                 TEXT2VEGA_WITH_INSTRUCTIONS_AGENT_CONFIG_ID,
-                TEXT2PPL_AGENT_CONFIG_ID,
+                language === 'SQL' ? TEXT2SQL_AGENT_CONFIG_ID : TEXT2PPL_AGENT_CONFIG_ID,
               ],
               {
                 dataSourceId: context.dataSourceId,
@@ -434,8 +478,20 @@ export class AssistantPlugin
         },
         execute: async (context) => {
           const url = new URL(core.application.getUrlForApp(TEXT2VIZ_APP_ID, { absolute: true }));
+          const query = data.query.queryString.getQuery();
           if (context.datasetId && context.datasetType === DEFAULT_DATA.SET_TYPES.INDEX_PATTERN) {
             url.searchParams.set(INDEX_PATTERN_URL_SEARCH_KEY, context.datasetId);
+          } else if (context.datasetType && query.dataset) {
+            // other datasets are not saved objects, they are passed in full
+            const dataset: Text2VizDataset = {
+              type: context.datasetType,
+              id: query.dataset.id,
+              title: query.dataset.title,
+              language: getDatasetLanguage(context.datasetType, query.language),
+              dataSourceId: query.dataset.dataSource?.id ?? context.dataSourceId,
+              timeFieldName: query.dataset.timeFieldName,
+            };
+            url.searchParams.set(DATASET_URL_SEARCH_KEY, JSON.stringify(dataset));
           }
           /**
            * TODO: the current implementation of getting query assistant input needs to be refactored
@@ -460,6 +516,8 @@ export class AssistantPlugin
         overlays: core.overlays,
       });
       setVisNLQSavedObjectLoader(savedVisNLQLoader);
+
+      uiActions.addTriggerAction(CONTEXT_MENU_TRIGGER, new ConvertNLQVisualizationAction({ core }));
     }
 
     setIndexPatterns(data.indexPatterns);
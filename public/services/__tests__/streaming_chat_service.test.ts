@@ -0,0 +1,247 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ReadableStream as NodeReadableStream } from 'stream/web';
+import { httpServiceMock } from '../../../../../src/core/public/mocks';
+import { ASSISTANT_API, STREAM_PROTOCOL_VERSION } from '../../../common/constants/llm';
+import { StreamChunk } from '../../../common/types/chat_saved_object_attributes';
+import { streamSerializer } from '../../../common/utils/stream/serializer';
+import { StreamingChatService } from '../streaming_chat_service';
+
+/**
+ * Mock an event stream response which sends the parts one by one, then fails with
+ * the given error or ends.
+ */
+const mockEventStreamResponse = (parts: string[], error?: Error) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  headers: {
+    get: (name: string) => (name === 'content-type' ? 'text/event-stream' : null),
+    entries: () => [['content-type', 'text/event-stream']],
+  },
+  body: new NodeReadableStream({
+    pull(controller) {
+      const part = parts.shift();
+      if (part !== undefined) {
+        controller.enqueue(new TextEncoder().encode(part));
+      } else if (error) {
+        controller.error(error);
+      } else {
+        controller.close();
+      }
+    },
+  }),
+});
+
+const mockStreamResponse = (chunks: StreamChunk[]) => {
+  const content = chunks.map((chunk) => streamSerializer(chunk)).join('');
+  // split the events across network chunks
+  return mockEventStreamResponse([content.slice(0, 40), content.slice(40)]);
+};
+
+describe('StreamingChatService', () => {
+  const http = httpServiceMock.createSetupContract();
+  const streamingChatService = new StreamingChatService(http, 0);
+  const request = {
+    input: {
+      type: 'input' as const,
+      context: {},
+      content: 'question',
+      contentType: 'text' as const,
+    },
+  };
+  const interaction = {
+    input: 'question',
+    response: 'hello world',
+    conversation_id: 'conversation_id',
+    interaction_id: 'interaction_id',
+    create_time: '2024-01-01',
+  };
+
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    window.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('should render streamed content and complete with the final metadata', async () => {
+    fetchMock.mockResolvedValue(
+      mockStreamResponse([
+        { event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION } },
+        {
+          event: 'metadata',
+          data: { conversationId: 'conversation_id', messages: [], interactions: [] },
+        },
+        {
+          event: 'appendMessageContent',
+          data: { messageId: 'interaction_id_1', content: 'hello' },
+        },
+        { event: 'heartbeat', data: { timestamp: 0 } },
+        {
+          event: 'appendMessageContent',
+          data: { messageId: 'interaction_id_1', content: ' world' },
+        },
+        {
+          event: 'metadata',
+          data: { conversationId: 'conversation_id', messages: [], interactions: [interaction] },
+        },
+      ]) as unknown as Response
+    );
+    const onChunk = jest.fn();
+    const onComplete = jest.fn();
+    const onError = jest.fn();
+
+    await streamingChatService.sendStreamingMessage(request, onChunk, onComplete, onError);
+
+    expect(onChunk.mock.calls).toEqual([['hello'], [' world']]);
+    expect(onComplete).toHaveBeenCalledWith({
+      conversationId: 'conversation_id',
+      interactionId: 'interaction_id',
+      messages: [],
+      interactions: [interaction],
+      title: undefined,
+    });
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should report error events and unsupported protocol versions', async () => {
+    const onError = jest.fn();
+    fetchMock
+      .mockResolvedValueOnce(
+        mockStreamResponse([
+          { event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION } },
+          { event: 'error', data: 'agent failed' },
+        ]) as unknown as Response
+      )
+      .mockResolvedValueOnce(
+        mockStreamResponse([
+          { event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION + 1 } },
+        ]) as unknown as Response
+      );
+
+    await streamingChatService.sendStreamingMessage(request, jest.fn(), jest.fn(), onError);
+    await streamingChatService.sendStreamingMessage(request, jest.fn(), jest.fn(), onError);
+
+    expect(onError.mock.calls[0][0].message).toBe('agent failed');
+    expect(onError.mock.calls[1][0].message).toBe(
+      `Unsupported stream protocol version: ${STREAM_PROTOCOL_VERSION + 1}`
+    );
+  });
+  it('should resume the stream after the last received event when the connection is lost', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        mockEventStreamResponse(
+          [
+            streamSerializer(
+              { event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION } },
+              'stream_id:1'
+            ),
+            streamSerializer(
+              {
+                event: 'appendMessageContent',
+                data: { messageId: 'interaction_id_1', content: 'hello' },
+              },
+              'stream_id:2'
+            ),
+          ],
+          new TypeError('network error')
+        ) as unknown as Response
+      )
+      .mockResolvedValueOnce(
+        mockEventStreamResponse([
+          streamSerializer(
+            {
+              event: 'appendMessageContent',
+              data: { messageId: 'interaction_id_1', content: ' world' },
+            },
+            'stream_id:3'
+          ),
+          streamSerializer(
+            {
+              event: 'metadata',
+              data: {
+                conversationId: 'conversation_id',
+                messages: [],
+                interactions: [interaction],
+              },
+            },
+            'stream_id:4'
+          ),
+        ]) as unknown as Response
+      );
+    const onChunk = jest.fn();
+    const onComplete = jest.fn();
+    const onError = jest.fn();
+    const onReconnect = jest.fn();
+
+    await streamingChatService.sendStreamingMessage(
+      request,
+      onChunk,
+      onComplete,
+      onError,
+      undefined,
+      onReconnect
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][0]).toContain(ASSISTANT_API.RESUME_STREAM);
+    expect(fetchMock.mock.calls[1][1].headers['Last-Event-ID']).toBe('stream_id:2');
+    expect(onReconnect).toHaveBeenCalledWith(1);
+    expect(onChunk.mock.calls).toEqual([['hello'], [' world']]);
+    expect(onComplete).toHaveBeenCalledWith(
+      expect.objectContaining({ interactionId: 'interaction_id', interactions: [interaction] })
+    );
+    expect(onError).not.toHaveBeenCalled();
+  });
+
+  it('should report an error when the stream can not be resumed', async () => {
+    fetchMock
+      .mockResolvedValueOnce(
+        mockEventStreamResponse(
+          [
+            streamSerializer(
+              {
+                event: 'appendMessageContent',
+                data: { messageId: 'interaction_id_1', content: 'hello' },
+              },
+              'stream_id:1'
+            ),
+          ],
+          new TypeError('network error')
+        ) as unknown as Response
+      )
+      .mockResolvedValueOnce({ ok: false, status: 404 } as Response);
+    const onError = jest.fn();
+
+    await streamingChatService.sendStreamingMessage(request, jest.fn(), jest.fn(), onError);
+
+    expect(onError.mock.calls[0][0].message).toBe('Failed to resume the stream: HTTP 404');
+  });
+
+  it('should not resume streams without event ids', async () => {
+    fetchMock.mockResolvedValueOnce(
+      mockEventStreamResponse(
+        [
+          streamSerializer({
+            event: 'appendMessageContent',
+            data: { messageId: 'a', content: 'a' },
+          }),
+        ],
+        new TypeError('network error')
+      ) as unknown as Response
+    );
+    const onError = jest.fn();
+
+    await streamingChatService.sendStreamingMessage(request, jest.fn(), jest.fn(), onError);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toBe('network error');
+  });
+});
@@ -0,0 +1,57 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ContentElement, ContentType } from '../../../common/types/ui_context';
+import { ContentCache } from './content_cache';
+
+const createContent = (id: string): ContentElement => ({
+  id,
+  type: ContentType.TEXT,
+  title: id,
+  data: {},
+});
+
+describe('ContentCache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should expire entries after their ttl', () => {
+    jest.useFakeTimers();
+    const cache = new ContentCache(10, 1000);
+    cache.set('default', createContent('default'));
+    cache.set('short', createContent('short'), 100);
+
+    jest.advanceTimersByTime(500);
+
+    expect(cache.get('short')).toBeNull();
+    expect(cache.get('default')?.id).toBe('default');
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 1, size: 1, maxSize: 10 });
+  });
+
+  it('should evict the least recently used entry when full', () => {
+    const cache = new ContentCache(2);
+    cache.set('a', createContent('a'));
+    cache.set('b', createContent('b'));
+    cache.get('a');
+    cache.set('c', createContent('c'));
+
+    expect(cache.get('b')).toBeNull();
+    expect(cache.get('a')).not.toBeNull();
+    expect(cache.get('c')).not.toBeNull();
+  });
+
+  it('should invalidate and clear entries', () => {
+    const cache = new ContentCache();
+    cache.set('a', createContent('a'));
+    cache.set('b', createContent('b'));
+
+    cache.invalidate('a');
+    expect(cache.get('a')).toBeNull();
+
+    cache.clear();
+    expect(cache.getStats()).toEqual({ hits: 0, misses: 0, size: 0, maxSize: 100 });
+  });
+});
@@ -0,0 +1,72 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { CacheStats, IContentCache } from '../../../common/types/content_extraction';
+import { ContentElement } from '../../../common/types/ui_context';
+
+export const DEFAULT_CONTENT_CACHE_TTL_MS = 30 * 1000;
+export const DEFAULT_CONTENT_CACHE_SIZE = 100;
+
+interface CacheEntry {
+  content: ContentElement;
+  expiresAt: number;
+}
+
+/**
+ * Cache of extracted content elements, entries expire after their ttl and the
+ * least recently used entry is evicted when the cache is full.
+ */
+export class ContentCache implements IContentCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly maxSize = DEFAULT_CONTENT_CACHE_SIZE,
+    private readonly defaultTtl = DEFAULT_CONTENT_CACHE_TTL_MS
+  ) {}
+
+  public get(key: string): ContentElement | null {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      this.misses++;
+      return null;
+    }
+
+    // Map keeps insertion order, re-insert to mark the entry as recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.content;
+  }
+
+  public set(key: string, content: ContentElement, ttl = this.defaultTtl): void {
+    this.entries.delete(key);
+    this.entries.set(key, { content, expiresAt: Date.now() + ttl });
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  public invalidate(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  public getStats(): CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      maxSize: this.maxSize,
+    };
+  }
+}
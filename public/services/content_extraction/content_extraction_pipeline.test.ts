@@ -0,0 +1,148 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ISpecializedExtractor } from '../../../common/types/contextual_chat_service';
+import { ContentElement, ContentType } from '../../../common/types/ui_context';
+import {
+  getFrontendContextualChatServiceRegistry,
+  resetFrontendContextualChatServiceRegistry,
+} from '../contextual_chat_service_registry';
+import { ContentCache } from './content_cache';
+import { ContentExtractionPipeline } from './content_extraction_pipeline';
+import { createContentExtractionPipeline } from './page_snapshot';
+import { SecurityValidator } from './security_validator';
+
+const createExtractor = (
+  id: string,
+  canHandle: (element: HTMLElement) => boolean = () => true
+): ISpecializedExtractor => ({
+  id,
+  canHandle,
+  getContentType: () => ContentType.OTHER,
+  extract: jest.fn(async (element: HTMLElement) => ({
+    id: element.id,
+    type: ContentType.OTHER,
+    title: `${id}: ${element.textContent}`,
+    data: {},
+  })),
+});
+
+const createElements = (...ids: string[]) =>
+  ids.map((id) => {
+    const element = document.createElement('div');
+    element.id = id;
+    element.textContent = `text of ${id}`;
+    return element;
+  });
+
+describe('ContentExtractionPipeline', () => {
+  it('should extract every element with the first extractor able to handle it', async () => {
+    const pipeline = new ContentExtractionPipeline({
+      extractors: [
+        createExtractor('first', (element) => element.id === 'a'),
+        createExtractor('last'),
+      ],
+    });
+
+    const content = await pipeline.process(createElements('a', 'b'));
+
+    expect(content.map(({ title }) => title)).toEqual(['first: text of a', 'last: text of b']);
+  });
+
+  it('should give precedence to added extractors and remove them by id', async () => {
+    const pipeline = new ContentExtractionPipeline({ extractors: [createExtractor('built-in')] });
+    pipeline.addExtractor(createExtractor('custom'));
+
+    expect(() => pipeline.addExtractor(createExtractor('custom'))).toThrow(
+      'There is already a content extractor whose id is custom'
+    );
+    expect((await pipeline.process(createElements('a')))[0].title).toBe('custom: text of a');
+
+    pipeline.removeExtractor('custom');
+    expect(pipeline.extractors.map(({ id }) => id)).toEqual(['built-in']);
+  });
+
+  it('should skip elements which fail to extract or are rejected by a validator', async () => {
+    const failing = createExtractor('failing', (element) => element.id === 'a');
+    (failing.extract as jest.Mock).mockRejectedValue(new Error('boom'));
+    const pipeline = new ContentExtractionPipeline({
+      extractors: [failing, createExtractor('other')],
+      validators: [new SecurityValidator()],
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const content = await pipeline.process(createElements('a', '', 'c'));
+
+    expect(content.map(({ id }) => id)).toEqual(['c']);
+  });
+
+  it('should make ids unique, then process, prioritize and limit the content', async () => {
+    const processor = {
+      process: jest.fn(async (content: ContentElement[]) =>
+        content.map((element) => ({ ...element, description: 'processed' }))
+      ),
+    };
+    const prioritizer = {
+      prioritize: jest.fn((content: ContentElement[]) => [...content].reverse()),
+    };
+    const pipeline = new ContentExtractionPipeline({
+      extractors: [createExtractor('extractor')],
+      processors: [processor],
+      prioritizers: [prioritizer],
+      maxElements: 2,
+    });
+
+    const content = await pipeline.process(createElements('a', 'a', 'b'), 'query');
+
+    expect(content.map(({ id }) => id)).toEqual(['b', 'a-1']);
+    expect(content.every(({ description }) => description === 'processed')).toBe(true);
+    expect(prioritizer.prioritize).toHaveBeenCalledWith(expect.any(Array), 'query');
+
+    await pipeline.process(createElements('a'));
+    expect(prioritizer.prioritize).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reuse the cached content of unchanged elements', async () => {
+    const extractor = createExtractor('extractor');
+    const cache = new ContentCache();
+    const pipeline = new ContentExtractionPipeline({ extractors: [extractor], cache });
+    const [element] = createElements('a');
+
+    await pipeline.process([element]);
+    await pipeline.process([element]);
+    element.textContent = 'changed';
+    await pipeline.process([element]);
+
+    expect(extractor.extract).toHaveBeenCalledTimes(2);
+    expect(cache.getStats()).toEqual({ hits: 1, misses: 2, size: 2, maxSize: 100 });
+  });
+
+  describe('createContentExtractionPipeline', () => {
+    afterEach(() => {
+      resetFrontendContextualChatServiceRegistry();
+    });
+
+    it('should put the registered extractors before the built-in ones', () => {
+      const registry = getFrontendContextualChatServiceRegistry();
+      registry.registerContentExtractor(createExtractor('custom'));
+
+      expect(() => registry.registerContentExtractor(createExtractor('custom'))).toThrow(
+        'There is already a content extractor whose id is custom'
+      );
+      expect(createContentExtractionPipeline().extractors.map(({ id }) => id)).toEqual([
+        'custom',
+        'visualization',
+        'metric',
+        'table',
+        'form',
+        'navigation',
+        'text',
+      ]);
+
+      expect(registry.unregisterContentExtractor('custom')).toBe(true);
+      expect(createContentExtractionPipeline().extractors[0].id).toBe('visualization');
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  IContentCache,
+  IContentExtractionPipeline,
+} from '../../../common/types/content_extraction';
+import {
+  IContentPrioritizer,
+  IContentProcessor,
+  IContentValidator,
+  ISpecializedExtractor,
+} from '../../../common/types/contextual_chat_service';
+import { ContentElement } from '../../../common/types/ui_context';
+
+export interface ContentExtractionPipelineOptions {
+  /**
+   * Extractors in order of precedence, the first extractor which can handle an element extracts it
+   */
+  extractors?: ISpecializedExtractor[];
+  processors?: IContentProcessor[];
+  validators?: IContentValidator[];
+  prioritizers?: IContentPrioritizer[];
+  cache?: IContentCache;
+  /**
+   * Maximum number of content elements returned, after prioritization
+   */
+  maxElements?: number;
+}
+
+/**
+ * Key of an element in the content cache, changes whenever the element is re-rendered
+ */
+const getCacheKey = (extractor: ISpecializedExtractor, element: HTMLElement) => {
+  const html = element.outerHTML;
+  // FNV-1a hash, cheap and good enough to tell renders apart
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < html.length; i++) {
+    hash ^= html.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${extractor.id}:${(hash >>> 0).toString(16)}:${html.length}`;
+};
+
+/**
+ * Extracts the content elements of a page: every DOM element is extracted by the first
+ * extractor able to handle it, then validated and sanitized by the validators, processed
+ * by the processors and finally ordered by the prioritizers when there is a user query.
+ */
+export class ContentExtractionPipeline implements IContentExtractionPipeline {
+  public readonly extractors: ISpecializedExtractor[];
+  public readonly processors: IContentProcessor[];
+  public readonly validators: IContentValidator[];
+  public readonly prioritizers: IContentPrioritizer[];
+
+  constructor(private readonly options: ContentExtractionPipelineOptions = {}) {
+    this.extractors = [...(options.extractors ?? [])];
+    this.processors = [...(options.processors ?? [])];
+    this.validators = [...(options.validators ?? [])];
+    this.prioritizers = [...(options.prioritizers ?? [])];
+  }
+
+  public async process(elements: HTMLElement[], userQuery?: string): Promise<ContentElement[]> {
+    const extracted: ContentElement[] = [];
+    const ids = new Set<string>();
+
+    for (const element of elements) {
+      const content = await this.extract(element);
+      if (!content) {
+        continue;
+      }
+      const validated = this.validate(content);
+      if (!validated) {
+        continue;
+      }
+
+      // Elements without an id of their own can share the same generated id
+      let id = validated.id;
+      for (let suffix = 1; ids.has(id); suffix++) {
+        id = `${validated.id}-${suffix}`;
+      }
+      ids.add(id);
+      extracted.push(id === validated.id ? validated : { ...validated, id });
+    }
+
+    let content = extracted;
+    for (const processor of this.processors) {
+      content = await processor.process(content);
+    }
+    if (userQuery) {
+      for (const prioritizer of this.prioritizers) {
+        content = prioritizer.prioritize(content, userQuery);
+      }
+    }
+
+    return this.options.maxElements === undefined
+      ? content
+      : content.slice(0, this.options.maxElements);
+  }
+
+  /**
+   * Add an extractor, it takes precedence over the extractors already added.
+   */
+  public addExtractor(extractor: ISpecializedExtractor): void {
+    if (this.extractors.some(({ id }) => id === extractor.id)) {
+      throw new Error(`There is already a content extractor whose id is ${extractor.id}`);
+    }
+    this.extractors.unshift(extractor);
+  }
+
+  public removeExtractor(extractorId: string): void {
+    const index = this.extractors.findIndex(({ id }) => id === extractorId);
+    if (index >= 0) {
+      this.extractors.splice(index, 1);
+    }
+  }
+
+  private async extract(element: HTMLElement): Promise<ContentElement | undefined> {
+    const extractor = this.extractors.find((item) => {
+      try {
+        return item.canHandle(element);
+      } catch (error) {
+        console.warn(`Content extractor ${item.id} failed to check an element:`, error);
+        return false;
+      }
+    });
+    if (!extractor) {
+      return;
+    }
+
+    const cacheKey = this.options.cache && getCacheKey(extractor, element);
+    const cached = cacheKey && this.options.cache?.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const content = await extractor.extract(element);
+      if (cacheKey) {
+        this.options.cache?.set(cacheKey, content);
+      }
+      return content;
+    } catch (error) {
+      console.warn(`Content extractor ${extractor.id} failed to extract an element:`, error);
+    }
+  }
+
+  /**
+   * @returns the sanitized content, or undefined when a validator rejects it
+   */
+  private validate(content: ContentElement): ContentElement | undefined {
+    let validated = content;
+    for (const validator of this.validators) {
+      if (!validator.validate(validated)) {
+        return;
+      }
+      validated = validator.sanitize(validated);
+    }
+    return validated;
+  }
+}
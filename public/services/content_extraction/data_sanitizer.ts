@@ -0,0 +1,97 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IDataSanitizer } from '../../../common/types/content_extraction';
+
+export const REDACTED = '[REDACTED]';
+
+const UNSAFE_ELEMENTS = [
+  'script',
+  'style',
+  'iframe',
+  'object',
+  'embed',
+  'link',
+  'meta',
+  'template',
+];
+const URL_ATTRIBUTES = ['href', 'src', 'action', 'formaction', 'xlink:href'];
+
+const SENSITIVE_KEY = /passw(or)?d|secret|token|api[_-]?key|authorization|cookie|session|credential/i;
+const SENSITIVE_VALUES = [
+  // bearer and basic authorization headers
+  /\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/g,
+  // JSON web tokens
+  /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+  // payment card numbers, grouped by four digits
+  /\b\d{4}[ -]\d{4}[ -]\d{4}[ -]\d{1,4}\b/g,
+];
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F\u200B-\u200D\uFEFF]/g;
+
+/**
+ * Sanitizes extracted content before it is sent to the LLM, removes markup which
+ * could run scripts and redacts values which look like credentials.
+ */
+export class DataSanitizer implements IDataSanitizer {
+  constructor(private readonly maxTextLength = 1000) {}
+
+  public sanitizeHTML(html: string): string {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    template.content.querySelectorAll(UNSAFE_ELEMENTS.join(', ')).forEach((unsafe) => {
+      unsafe.remove();
+    });
+    template.content.querySelectorAll('*').forEach((element) => {
+      Array.from(element.attributes).forEach(({ name, value }) => {
+        const isEventHandler = name.toLowerCase().startsWith('on');
+        const isScriptUrl =
+          URL_ATTRIBUTES.includes(name.toLowerCase()) &&
+          /^\s*(javascript|vbscript|data):/i.test(value);
+        if (isEventHandler || isScriptUrl) {
+          element.removeAttribute(name);
+        }
+      });
+    });
+    return this.redact(template.innerHTML);
+  }
+
+  public sanitizeText(text: string): string {
+    const sanitized = this.redact(text.replace(CONTROL_CHARACTERS, '')).trim();
+    return sanitized.length > this.maxTextLength
+      ? `${sanitized.substring(0, this.maxTextLength)}...`
+      : sanitized;
+  }
+
+  /**
+   * Redact the values of sensitive keys and sanitize every string, recursively.
+   */
+  public removeSensitiveData(data: any): any {
+    if (typeof data === 'string') {
+      return this.sanitizeText(data);
+    }
+    if (Array.isArray(data)) {
+      return data.map((item) => this.removeSensitiveData(item));
+    }
+    if (data && typeof data === 'object') {
+      return Object.fromEntries(
+        Object.entries(data).map(([key, value]) => [
+          key,
+          SENSITIVE_KEY.test(key) && value !== undefined && value !== null
+            ? REDACTED
+            : this.removeSensitiveData(value),
+        ])
+      );
+    }
+    return data;
+  }
+
+  private redact(text: string): string {
+    return SENSITIVE_VALUES.reduce(
+      (redacted, pattern) => redacted.replace(pattern, REDACTED),
+      text
+    );
+  }
+}
@@ -0,0 +1,131 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { UI_CONTEXT_LIMITS } from '../../../common/constants/contextual_chat';
+import {
+  ContentData,
+  ContentElement,
+  ContentType,
+  ElementPosition,
+  VisibilityState,
+} from '../../../common/types/ui_context';
+
+const TITLE_SELECTORS = [
+  '.embeddable-title',
+  '.panel-title',
+  '.euiStat__title',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  '[data-test-subj*="title"]',
+];
+
+export const getTestSubj = (element: HTMLElement) => element.getAttribute('data-test-subj') || '';
+
+/**
+ * className is an SVGAnimatedString for SVG elements, read the attribute instead.
+ */
+export const getClassName = (element: Element) => element.getAttribute('class') || '';
+
+/**
+ * Truncate a string of the UI context to the length the chat routes accept
+ */
+export const truncateText = (
+  text: string,
+  maxLength: number = UI_CONTEXT_LIMITS.MAX_STRING_LENGTH
+) => (text.length > maxLength ? text.substring(0, maxLength) : text);
+
+export const getElementText = (element: Element) =>
+  (element.textContent || '').replace(/\s+/g, ' ').trim();
+
+export const getElementTitle = (element: HTMLElement) => {
+  for (const selector of TITLE_SELECTORS) {
+    const title = element.querySelector(selector);
+    if (title && getElementText(title)) {
+      return getElementText(title);
+    }
+  }
+
+  return (
+    element.getAttribute('title') ||
+    element.getAttribute('aria-label') ||
+    getTestSubj(element) ||
+    `Element ${element.tagName}`
+  );
+};
+
+export const getElementPosition = (element: HTMLElement): ElementPosition => {
+  const rect = element.getBoundingClientRect();
+  return { x: rect.left, y: rect.top, width: rect.width, height: rect.height };
+};
+
+export const getVisibilityState = (element: HTMLElement): VisibilityState => {
+  if (
+    element.getAttribute('data-loading') === 'true' ||
+    element.querySelector('.euiLoadingSpinner, .euiLoadingChart, [data-loading="true"]')
+  ) {
+    return VisibilityState.LOADING;
+  }
+
+  const rect = element.getBoundingClientRect();
+  if (
+    rect.width <= 0 ||
+    rect.height <= 0 ||
+    rect.bottom <= 0 ||
+    rect.top >= window.innerHeight ||
+    rect.right <= 0 ||
+    rect.left >= window.innerWidth
+  ) {
+    return VisibilityState.HIDDEN;
+  }
+
+  const isFullyInViewport =
+    rect.top >= 0 &&
+    rect.left >= 0 &&
+    rect.bottom <= window.innerHeight &&
+    rect.right <= window.innerWidth;
+  return isFullyInViewport ? VisibilityState.VISIBLE : VisibilityState.PARTIALLY_VISIBLE;
+};
+
+/**
+ * Parse a displayed number such as `1,234.5`, `-12%` or `3.2K`, returns NaN if there is no number.
+ */
+export const parseDisplayedNumber = (text: string) => {
+  const match = text.replace(/,/g, '').match(/-?\d+(?:\.\d+)?\s*([KMB])?\b/i);
+  if (!match) {
+    return NaN;
+  }
+  const multipliers: Record<string, number> = { K: 1e3, M: 1e6, B: 1e9 };
+  const value = parseFloat(match[0]);
+  return match[1] ? value * multipliers[match[1].toUpperCase()] : value;
+};
+
+/**
+ * Build the content element of an extractor, the parts shared by all extractors
+ * such as position and visibility are read from the DOM element.
+ */
+export const createContentElement = (
+  element: HTMLElement,
+  type: ContentType,
+  data: ContentData,
+  metadata: Record<string, any> = {}
+): ContentElement => ({
+  id: element.id || getTestSubj(element) || `${type}-${getElementTitle(element)}`,
+  type,
+  title: getElementTitle(element),
+  data,
+  position: getElementPosition(element),
+  visibility: getVisibilityState(element),
+  metadata: {
+    tagName: element.tagName,
+    testSubj: getTestSubj(element) || undefined,
+    renderComplete: element.getAttribute('data-render-complete') === 'true',
+    ...metadata,
+  },
+  relationships: [],
+});
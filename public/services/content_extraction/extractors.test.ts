@@ -0,0 +1,300 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { UI_CONTEXT_LIMITS } from '../../../common/constants/contextual_chat';
+import { ContentType, VisibilityState } from '../../../common/types/ui_context';
+import { FormExtractor } from './form_extractor';
+import { MetricExtractor } from './metric_extractor';
+import { NavigationExtractor } from './navigation_extractor';
+import { TableExtractor } from './table_extractor';
+import { TextExtractor } from './text_extractor';
+import { VisualizationExtractor } from './visualization_extractor';
+
+const render = (html: string) => {
+  document.body.innerHTML = html;
+  return document.body.firstElementChild as HTMLElement;
+};
+
+describe('content extractors', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  describe('VisualizationExtractor', () => {
+    const extractor = new VisualizationExtractor();
+
+    it('should extract the values rendered by the chart', async () => {
+      const element = render(`
+        <div data-test-subj="embeddablePanel" class="bar-chart">
+          <h2 class="embeddable-title">Requests per host</h2>
+          <div class="echChart"><svg>
+            <text>1,200</text><text>3.5K</text><text>host-a</text>
+          </svg></div>
+          <div class="echLegendItem">requests</div>
+        </div>
+      `);
+
+      expect(extractor.canHandle(element)).toBe(true);
+      const content = await extractor.extract(element);
+
+      expect(content.type).toBe(ContentType.VISUALIZATION);
+      expect(content.title).toBe('Requests per host');
+      expect(content.data.chartData).toEqual({
+        type: 'bar',
+        values: [
+          { x: 0, y: 1200, label: '1,200' },
+          { x: 1, y: 3500, label: '3.5K' },
+        ],
+        series: [{ name: 'requests', visible: true }],
+      });
+      expect(content.data.summary).toBe(
+        'Requests per host - bar visualization with 2 data points, includes legend'
+      );
+    });
+
+    it('should fall back to the numbers of the element text', async () => {
+      const element = render(`<div data-test-subj="visualization">Errors 12 Warnings 40</div>`);
+
+      const { values } = await extractor.extractChartData(element);
+
+      expect(values.map(({ y }) => y)).toEqual([12, 40]);
+      expect(extractor.getVisualizationType(element)).toBe('chart');
+    });
+
+    it('should not handle other elements', () => {
+      expect(extractor.canHandle(render('<p>text</p>'))).toBe(false);
+    });
+  });
+
+  describe('MetricExtractor', () => {
+    it('should extract the metrics with their label, unit and trend', async () => {
+      const element = render(`
+        <div class="euiStat trend-up">
+          <p class="euiStat__title">Error rate</p>
+          <p class="euiStat__number">12.5%</p>
+        </div>
+      `);
+
+      const content = await new MetricExtractor().extract(element);
+
+      expect(content.type).toBe(ContentType.METRIC);
+      expect(content.data.metricData?.metrics).toEqual([
+        { label: 'Error rate', value: 12.5, displayValue: '12.5%', unit: '%', trend: 'up' },
+      ]);
+      expect(content.data.summary).toBe('Error rate - Error rate: 12.5%');
+    });
+  });
+
+  describe('TableExtractor', () => {
+    const extractor = new TableExtractor();
+    const table = `
+      <div class="euiBasicTable">
+        <table class="euiTable">
+          <thead><tr>
+            <th>host</th><th aria-sort="descending">count</th>
+          </tr></thead>
+          <tbody>
+            <tr><td>host-a</td><td>10</td></tr>
+            <tr><td>host-b</td><td>5</td></tr>
+          </tbody>
+        </table>
+        <nav class="euiPagination">
+          <button aria-current="true">1</button><button>2</button><button>3</button>
+        </nav>
+      </div>
+    `;
+
+    it('should extract headers, rows, pagination and sorting', async () => {
+      const element = render(table).querySelector('table') as HTMLElement;
+      const wrapper = element.parentElement as HTMLElement;
+
+      expect(extractor.canHandle(element)).toBe(true);
+      expect(extractor.extractHeaders(element)).toEqual(['host', 'count']);
+      expect(extractor.extractRows(element)).toEqual([
+        ['host-a', '10'],
+        ['host-b', '5'],
+      ]);
+      expect(extractor.extractPaginationInfo(wrapper)).toEqual({
+        currentPage: 1,
+        totalPages: 3,
+        pageSize: 2,
+      });
+      expect(extractor.extractSortingInfo(wrapper)).toEqual({ column: 'count', direction: 'desc' });
+    });
+
+    it('should summarize the table', async () => {
+      const content = await extractor.extract(render(table).querySelector('table') as HTMLElement);
+
+      expect(content.type).toBe(ContentType.DATA_TABLE);
+      expect(content.data.tableData?.totalRows).toBe(2);
+      expect(content.data.summary).toBe(
+        'Element TABLE - table with 2 columns and 2 rows, sortable'
+      );
+    });
+  });
+
+  describe('TextExtractor', () => {
+    const extractor = new TextExtractor();
+
+    it('should extract markdown panels as markdown', async () => {
+      const element = render(`
+        <div class="euiMarkdownFormat">
+          <h2>Runbook</h2>
+          <p>Restart <strong>nginx</strong>, see <a href="https://example.com/doc">the doc</a>.</p>
+          <ul><li>first</li><li>second</li></ul>
+        </div>
+      `);
+
+      const content = await extractor.extract(element);
+
+      expect(content.type).toBe(ContentType.MARKDOWN);
+      expect(content.data.textContent?.markdown).toBe(
+        '## Runbook\n\nRestart **nginx**, see [the doc](https://example.com/doc).\n\n- first\n- second'
+      );
+      expect(content.data.textContent?.links).toEqual([
+        { text: 'the doc', href: 'https://example.com/doc', external: true },
+      ]);
+    });
+
+    it('should extract plain text and handle any element with text', async () => {
+      const element = render('<div class="euiPanel">Hello <b>world</b></div>');
+
+      expect(extractor.canHandle(element)).toBe(true);
+      expect(extractor.canHandle(render('<div> </div>'))).toBe(false);
+      const content = await extractor.extract(element);
+      expect(content.type).toBe(ContentType.TEXT);
+      expect(content.data.textContent).toEqual({ text: 'Hello world', links: [] });
+    });
+
+    it('should cap the links and their length to the limits of the UI context', () => {
+      const longHref = `/app/discover#/?_a=${'a'.repeat(3000)}`;
+      const element = render(
+        `<div>${'<a href="LONG">link</a>'.repeat(150).replace(/LONG/g, longHref)}</div>`
+      );
+
+      const links = extractor.extractLinks(element);
+
+      expect(links).toHaveLength(UI_CONTEXT_LIMITS.MAX_ITEMS);
+      expect(links[0].href).toHaveLength(UI_CONTEXT_LIMITS.MAX_STRING_LENGTH);
+    });
+  });
+
+  describe('FormExtractor', () => {
+    const extractor = new FormExtractor();
+
+    it('should extract fields, values and validation without secrets', async () => {
+      const element = render(`
+        <form>
+          <label for="name">Name</label>
+          <input id="name" name="name" value="my index" required />
+          <div class="euiFormRow">
+            <label>Password</label>
+            <input name="password" type="password" value="secret" />
+          </div>
+          <select name="type"><option>logs</option><option selected>metrics</option></select>
+          <input name="enabled" type="checkbox" checked />
+          <div class="euiFormRow">
+            <input name="shards" value="-1" aria-invalid="true" />
+            <div class="euiFormErrorText">Must be positive</div>
+          </div>
+          <button type="submit">Save</button>
+        </form>
+      `);
+
+      expect(extractor.extractFields(element)).toEqual([
+        { name: 'name', label: 'Name', type: 'text', required: true, disabled: false },
+        { name: 'password', label: 'Password', type: 'password', required: false, disabled: false },
+        {
+          name: 'type',
+          type: 'select',
+          required: false,
+          disabled: false,
+          options: ['logs', 'metrics'],
+        },
+        { name: 'enabled', type: 'checkbox', required: false, disabled: false },
+        { name: 'shards', type: 'text', required: false, disabled: false },
+      ]);
+      expect(extractor.extractValues(element)).toEqual({
+        name: 'my index',
+        type: 'metrics',
+        enabled: true,
+        shards: '-1',
+      });
+      expect(extractor.extractValidationInfo(element)).toEqual({
+        isValid: false,
+        errors: [{ field: 'shards', message: 'Must be positive' }],
+      });
+    });
+  });
+
+  describe('NavigationExtractor', () => {
+    const extractor = new NavigationExtractor();
+
+    it('should extract breadcrumbs as the current path', async () => {
+      const element = render(`
+        <nav class="euiBreadcrumbs">
+          <a class="euiBreadcrumb" href="/app/dashboards">Dashboards</a>
+          <span class="euiBreadcrumb euiBreadcrumb--last" aria-current="page">Sales</span>
+        </nav>
+      `);
+
+      const content = await extractor.extract(element);
+
+      expect(content.type).toBe(ContentType.NAVIGATION);
+      expect(content.data.navigationData).toEqual({
+        items: [
+          { text: 'Dashboards', href: '/app/dashboards', active: false },
+          { text: 'Sales', href: undefined, active: true },
+        ],
+        currentPath: 'Dashboards / Sales',
+        actions: [],
+      });
+    });
+
+    it('should extract the active tab and the available actions', () => {
+      const element = render(`
+        <div role="tablist" class="euiTabs">
+          <button role="tab" aria-selected="false">Overview</button>
+          <button role="tab" aria-selected="true">Details</button>
+          <button disabled>Refresh</button>
+        </div>
+      `);
+
+      expect(extractor.extractCurrentPath(element)).toBe('Details');
+      expect(extractor.extractAvailableActions(element)).toEqual([
+        { label: 'Refresh', type: 'button', enabled: false },
+      ]);
+    });
+
+    it('should cap the items and actions to the limits of the UI context', () => {
+      const element = render(`
+        <nav>
+          ${'<a href="/app/dashboards">Dashboards</a><button>Open</button>'.repeat(150)}
+        </nav>
+      `);
+
+      expect(extractor.extractNavigationItems(element)).toHaveLength(UI_CONTEXT_LIMITS.MAX_ITEMS);
+      expect(extractor.extractAvailableActions(element)).toHaveLength(UI_CONTEXT_LIMITS.MAX_ITEMS);
+    });
+  });
+
+  it('should report the visibility of the extracted elements', async () => {
+    const element = render('<div data-test-subj="visualization">1 2</div>');
+    jest.spyOn(element, 'getBoundingClientRect').mockReturnValue({
+      top: 10,
+      left: 10,
+      bottom: 110,
+      right: 210,
+      width: 200,
+      height: 100,
+    } as DOMRect);
+
+    const content = await new VisualizationExtractor().extract(element);
+
+    expect(content.visibility).toBe(VisibilityState.VISIBLE);
+    expect(content.position).toEqual({ x: 10, y: 10, width: 200, height: 100 });
+    expect(content.id).toBe('visualization');
+  });
+});
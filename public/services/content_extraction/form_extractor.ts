@@ -0,0 +1,112 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IFormExtractor } from '../../../common/types/content_extraction';
+import {
+  ContentElement,
+  ContentType,
+  FormField,
+  ValidationInfo,
+} from '../../../common/types/ui_context';
+import { createContentElement, getClassName, getElementText, getElementTitle } from './dom_utils';
+
+type FieldElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+/**
+ * Values of these fields are never extracted.
+ */
+const SECRET_FIELD_TYPES = ['password', 'hidden', 'file'];
+
+export class FormExtractor implements IFormExtractor {
+  public readonly id = 'form';
+
+  public canHandle(element: HTMLElement): boolean {
+    return (
+      element.tagName === 'FORM' ||
+      element.getAttribute('role') === 'form' ||
+      getClassName(element).split(/\s+/).includes('euiForm')
+    );
+  }
+
+  public getContentType(): ContentType {
+    return ContentType.FORM;
+  }
+
+  public async extract(element: HTMLElement): Promise<ContentElement> {
+    const fields = this.extractFields(element);
+    const validation = this.extractValidationInfo(element);
+
+    return createContentElement(element, ContentType.FORM, {
+      summary: `${getElementTitle(element)} - form with ${fields.length} fields${
+        validation.isValid ? '' : `, ${validation.errors.length} validation errors`
+      }`,
+      formData: { fields, values: this.extractValues(element), validation },
+    });
+  }
+
+  public extractFields(element: HTMLElement): FormField[] {
+    return this.getFieldElements(element).map((field) => ({
+      name: this.getFieldName(field),
+      label: this.getFieldLabel(element, field),
+      type: field instanceof HTMLSelectElement ? 'select' : field.type || 'text',
+      required: field.required || field.getAttribute('aria-required') === 'true',
+      disabled: field.disabled,
+      ...(field instanceof HTMLSelectElement && {
+        options: Array.from(field.options).map((option) => option.text),
+      }),
+    }));
+  }
+
+  public extractValues(element: HTMLElement): Record<string, any> {
+    const values: Record<string, any> = {};
+    this.getFieldElements(element)
+      .filter((field) => !SECRET_FIELD_TYPES.includes(field.type))
+      .forEach((field) => {
+        if (field.type === 'checkbox') {
+          values[this.getFieldName(field)] = (field as HTMLInputElement).checked;
+        } else if (field.type !== 'radio' || (field as HTMLInputElement).checked) {
+          values[this.getFieldName(field)] = field.value;
+        }
+      });
+    return values;
+  }
+
+  public extractValidationInfo(element: HTMLElement): ValidationInfo {
+    const fieldErrors = this.getFieldElements(element)
+      .filter((field) => field.getAttribute('aria-invalid') === 'true')
+      .map((field) => ({
+        field: this.getFieldName(field),
+        message:
+          getElementText(
+            field.closest('.euiFormRow')?.querySelector('.euiFormErrorText') ?? field
+          ) || 'Invalid value',
+      }));
+    const formErrors = Array.from(element.querySelectorAll('.euiCallOut--danger'))
+      .map((callOut) => ({ message: getElementText(callOut) }))
+      .filter(({ message }) => message.length > 0);
+    const errors = [...fieldErrors, ...formErrors];
+
+    return { isValid: errors.length === 0, errors };
+  }
+
+  private getFieldElements(element: HTMLElement): FieldElement[] {
+    return Array.from(element.querySelectorAll<FieldElement>('input, select, textarea')).filter(
+      (field) => !['submit', 'button', 'reset', 'image'].includes(field.type)
+    );
+  }
+
+  private getFieldName(field: FieldElement): string {
+    return field.name || field.id || field.getAttribute('aria-label') || field.type;
+  }
+
+  private getFieldLabel(element: HTMLElement, field: FieldElement): string | undefined {
+    const label =
+      (field.id &&
+        Array.from(element.querySelectorAll('label')).find((item) => item.htmlFor === field.id)) ||
+      field.closest('label') ||
+      field.closest('.euiFormRow')?.querySelector('label');
+    return (label && getElementText(label)) || field.getAttribute('aria-label') || undefined;
+  }
+}
@@ -0,0 +1,16 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+export * from './content_cache';
+export * from './content_extraction_pipeline';
+export * from './data_sanitizer';
+export * from './form_extractor';
+export * from './metric_extractor';
+export * from './navigation_extractor';
+export * from './page_snapshot';
+export * from './security_validator';
+export * from './table_extractor';
+export * from './text_extractor';
+export * from './visualization_extractor';
@@ -0,0 +1,89 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ISpecializedExtractor } from '../../../common/types/contextual_chat_service';
+import {
+  ContentElement,
+  ContentType,
+  MetricData,
+  MetricValue,
+} from '../../../common/types/ui_context';
+import {
+  createContentElement,
+  getClassName,
+  getElementText,
+  getElementTitle,
+  getTestSubj,
+  parseDisplayedNumber,
+} from './dom_utils';
+
+const VALUE_SELECTORS = ['.euiStat__number', '.mtrVis__value', '.metric-value'];
+const LABEL_SELECTORS = ['.euiStat__title', '.euiStat__description', '.mtrVis__label'];
+
+const extractUnit = (displayValue: string) =>
+  displayValue.replace(/-?\d[\d.,]*[KMB]?\b/i, '').match(/[a-zA-Z%$€£¥]+/)?.[0] ?? '';
+
+const extractTrend = (element: Element): MetricValue['trend'] => {
+  const className = getClassName(element);
+  if (/(^|[\s_-])(up|increase|positive)/i.test(className)) return 'up';
+  if (/(^|[\s_-])(down|decrease|negative)/i.test(className)) return 'down';
+  return 'neutral';
+};
+
+export class MetricExtractor implements ISpecializedExtractor {
+  public readonly id = 'metric';
+
+  public canHandle(element: HTMLElement): boolean {
+    return (
+      getClassName(element).includes('euiStat') ||
+      getClassName(element).includes('mtrVis') ||
+      getTestSubj(element).includes('metric')
+    );
+  }
+
+  public getContentType(): ContentType {
+    return ContentType.METRIC;
+  }
+
+  public async extract(element: HTMLElement): Promise<ContentElement> {
+    const metricData = this.extractMetricData(element);
+    const title = getElementTitle(element);
+    const [metric] = metricData.metrics;
+
+    return createContentElement(element, ContentType.METRIC, {
+      summary: metric
+        ? `${title} - ${metric.label}: ${metric.displayValue}`
+        : `${title} - metric display`,
+      metricData,
+    });
+  }
+
+  public extractMetricData(element: HTMLElement): MetricData {
+    for (const selector of VALUE_SELECTORS) {
+      const values = Array.from(element.querySelectorAll(selector));
+      if (values.length > 0) {
+        return { metrics: values.map((value) => this.toMetricValue(element, value)) };
+      }
+    }
+    return { metrics: [] };
+  }
+
+  private toMetricValue(element: HTMLElement, valueElement: Element): MetricValue {
+    const displayValue = getElementText(valueElement);
+    const container = valueElement.closest('.euiStat, .mtrVis__container') || element;
+    const label = LABEL_SELECTORS.map((selector) => container.querySelector(selector)).find(
+      (labelElement) => labelElement && getElementText(labelElement)
+    );
+    const value = parseDisplayedNumber(displayValue);
+
+    return {
+      label: label ? getElementText(label) : 'Metric',
+      value: isNaN(value) ? 0 : value,
+      displayValue,
+      unit: extractUnit(displayValue),
+      trend: extractTrend(container),
+    };
+  }
+}
@@ -0,0 +1,112 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { UI_CONTEXT_LIMITS } from '../../../common/constants/contextual_chat';
+import { INavigationExtractor } from '../../../common/types/content_extraction';
+import {
+  ActionInfo,
+  ContentElement,
+  ContentType,
+  NavigationItem,
+} from '../../../common/types/ui_context';
+import {
+  createContentElement,
+  getClassName,
+  getElementText,
+  getElementTitle,
+  truncateText,
+} from './dom_utils';
+
+const NAVIGATION_CLASSES = ['euiBreadcrumbs', 'euiTabs', 'euiSideNav', 'euiHeaderLinks'];
+const ITEM_SELECTORS = ['.euiBreadcrumb', '[role="tab"]', '.euiSideNavItemButton', 'a[href]'];
+
+const isActive = (item: Element) =>
+  item.getAttribute('aria-current') === 'page' ||
+  item.getAttribute('aria-selected') === 'true' ||
+  /(^|\s)(active|\S+-isSelected|\S+--last)(\s|$)/.test(getClassName(item));
+
+export class NavigationExtractor implements INavigationExtractor {
+  public readonly id = 'navigation';
+
+  public canHandle(element: HTMLElement): boolean {
+    const className = getClassName(element);
+    return (
+      element.tagName === 'NAV' ||
+      element.getAttribute('role') === 'navigation' ||
+      element.getAttribute('role') === 'tablist' ||
+      NAVIGATION_CLASSES.some((navigationClass) => className.includes(navigationClass))
+    );
+  }
+
+  public getContentType(): ContentType {
+    return ContentType.NAVIGATION;
+  }
+
+  public async extract(element: HTMLElement): Promise<ContentElement> {
+    const items = this.extractNavigationItems(element);
+    const currentPath = this.extractCurrentPath(element);
+
+    return createContentElement(element, ContentType.NAVIGATION, {
+      summary: `${getElementTitle(element)} - navigation with ${items.length} items${
+        currentPath ? `, current: ${currentPath}` : ''
+      }`,
+      navigationData: {
+        items,
+        currentPath,
+        actions: this.extractAvailableActions(element),
+      },
+    });
+  }
+
+  public extractNavigationItems(element: HTMLElement): NavigationItem[] {
+    for (const selector of ITEM_SELECTORS) {
+      const items = Array.from(element.querySelectorAll(selector));
+      if (items.length > 0) {
+        return items
+          .map((item) => {
+            const href = (item.closest('a[href]') || item.querySelector('a[href]'))?.getAttribute(
+              'href'
+            );
+            return {
+              text: truncateText(getElementText(item)),
+              href: href ? truncateText(href) : undefined,
+              active: isActive(item),
+            };
+          })
+          .filter(({ text }) => text.length > 0)
+          .slice(0, UI_CONTEXT_LIMITS.MAX_ITEMS);
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Path of the active items, such as `Dashboards / Sales`, falls back to the page route.
+   */
+  public extractCurrentPath(element: HTMLElement): string {
+    const items = this.extractNavigationItems(element);
+    const isBreadcrumbs = getClassName(element).includes('euiBreadcrumbs');
+    const path = (isBreadcrumbs ? items : items.filter((item) => item.active)).map(
+      (item) => item.text
+    );
+    return path.length > 0 ? path.join(' / ') : window.location.pathname;
+  }
+
+  public extractAvailableActions(element: HTMLElement): ActionInfo[] {
+    return Array.from(element.querySelectorAll<HTMLElement>('button, [role="menuitem"]'))
+      .filter((action) => action.getAttribute('role') !== 'tab')
+      .map(
+        (action): ActionInfo => ({
+          label: truncateText(getElementText(action) || action.getAttribute('aria-label') || ''),
+          type: action.getAttribute('role') === 'menuitem' ? 'menu_item' : 'button',
+          enabled:
+            !(action as HTMLButtonElement).disabled &&
+            action.getAttribute('aria-disabled') !== 'true',
+        })
+      )
+      .filter(({ label }) => label.length > 0)
+      .slice(0, UI_CONTEXT_LIMITS.MAX_ITEMS);
+  }
+}
@@ -0,0 +1,203 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { UI_CONTEXT_LIMITS } from '../../../common/constants/contextual_chat';
+import { ISpecializedExtractor } from '../../../common/types/contextual_chat_service';
+import {
+  NavigationItem,
+  UIContext,
+  UI_CONTEXT_VERSION,
+  VisibilityState,
+} from '../../../common/types/ui_context';
+import { getFrontendContextualChatServiceRegistry } from '../contextual_chat_service_registry';
+import { ContentCache } from './content_cache';
+import { ContentExtractionPipeline } from './content_extraction_pipeline';
+import { getElementText, getVisibilityState, truncateText } from './dom_utils';
+import { FormExtractor } from './form_extractor';
+import { MetricExtractor } from './metric_extractor';
+import { NavigationExtractor } from './navigation_extractor';
+import { SecurityValidator } from './security_validator';
+import { TableExtractor } from './table_extractor';
+import { TextExtractor } from './text_extractor';
+import { VisualizationExtractor } from './visualization_extractor';
+
+export const MAX_SNAPSHOT_ELEMENTS = 15;
+
+export const CONTENT_SELECTORS = [
+  '[data-test-subj*="embeddablePanel"]',
+  '[data-test-subj*="visualization"]',
+  '.react-grid-item',
+  '.euiStat',
+  '.euiTable',
+  '.euiDataGrid',
+  'table',
+  'canvas[data-chart]',
+  'svg[data-chart]',
+  '.lens-vis-container',
+  '.vega-vis-container',
+];
+
+const READY_SELECTORS = [
+  '[data-test-subj="dashboardViewport"]',
+  '.react-grid-layout',
+  '[data-render-complete="true"]',
+];
+const LOADING_SELECTORS = ['.euiLoadingSpinner', '.euiLoadingChart', '[data-loading="true"]'];
+
+const contentCache = new ContentCache();
+const navigationExtractor = new NavigationExtractor();
+
+/**
+ * Built-in extractors, in order of precedence. The text extractor handles any element
+ * with text so it comes last.
+ */
+export const createBuiltInExtractors = (): ISpecializedExtractor[] => [
+  new VisualizationExtractor(),
+  new MetricExtractor(),
+  new TableExtractor(),
+  new FormExtractor(),
+  new NavigationExtractor(),
+  new TextExtractor(),
+];
+
+/**
+ * Create the pipeline extracting the page snapshot, the extractors registered by
+ * other plugins take precedence over the built-in ones.
+ */
+export const createContentExtractionPipeline = () =>
+  new ContentExtractionPipeline({
+    extractors: [
+      ...getFrontendContextualChatServiceRegistry().getContentExtractors(),
+      ...createBuiltInExtractors(),
+    ],
+    validators: [new SecurityValidator()],
+    cache: contentCache,
+    maxElements: MAX_SNAPSHOT_ELEMENTS,
+  });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Wait until the page has rendered its content and nothing is loading, gives up after the timeout.
+ */
+export const waitForPageReady = async (timeoutMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const isRendered = READY_SELECTORS.some((selector) => document.querySelector(selector));
+    const isLoading = LOADING_SELECTORS.some((selector) => document.querySelector(selector));
+    if (isRendered && !isLoading) {
+      return true;
+    }
+    await sleep(100);
+  }
+  return false;
+};
+
+export const findContentElements = (root: ParentNode = document) =>
+  Array.from(root.querySelectorAll<HTMLElement>(CONTENT_SELECTORS.join(', '))).filter(
+    (element) => getVisibilityState(element) !== VisibilityState.HIDDEN
+  );
+
+export const extractAppFromURL = () =>
+  window.location.pathname.match(/\/app\/([^\/]+)/)?.[1] ?? 'unknown';
+
+export const extractDashboardId = () =>
+  window.location.pathname.match(/\/dashboards?\/(?:view\/)?([^\/\?#]+)/)?.[1];
+
+export const extractSavedObjectType = () => {
+  const path = window.location.pathname;
+  if (path.includes('/dashboard')) return 'dashboard';
+  if (path.includes('/visualize')) return 'visualization';
+  if (path.includes('/discover')) return 'search';
+  return undefined;
+};
+
+export const extractBreadcrumbs = (): NavigationItem[] => {
+  const breadcrumbs = document.querySelector<HTMLElement>('.euiBreadcrumbs');
+  return breadcrumbs ? navigationExtractor.extractNavigationItems(breadcrumbs) : [];
+};
+
+export const extractFilters = () =>
+  Array.from(document.querySelectorAll<HTMLElement>('.globalFilterItem'))
+    .slice(0, UI_CONTEXT_LIMITS.MAX_ITEMS)
+    .map((element) => {
+      const displayName = truncateText(getElementText(element));
+      const separator = displayName.indexOf(':');
+      return {
+        displayName,
+        enabled: !element.classList.contains('globalFilterItem-isDisabled'),
+        negated: element.classList.contains('globalFilterItem-isExcluded'),
+        pinned: element.classList.contains('globalFilterItem-isPinned'),
+        ...(separator > 0 && {
+          field: displayName.substring(0, separator).trim(),
+          value: displayName.substring(separator + 1).trim(),
+        }),
+      };
+    })
+    .filter(({ displayName }) => displayName.length > 0);
+
+/**
+ * Take a snapshot of the current page for the assistant. When extraction fails or the
+ * content is not extracted, the snapshot only describes the page without its content.
+ */
+export const captureUIContext = async ({
+  appId,
+  userQuery,
+  extractContent = true,
+}: {
+  appId?: string;
+  userQuery?: string;
+  /**
+   * Whether to extract the content of the page, off when `content_extraction_enabled` is off
+   */
+  extractContent?: boolean;
+}): Promise<UIContext> => {
+  const app = appId || extractAppFromURL();
+  const breadcrumbs = extractBreadcrumbs();
+  const context: UIContext = {
+    version: UI_CONTEXT_VERSION,
+    page: {
+      // the app state of Discover and dashboards URLs can be longer than the routes accept
+      url: truncateText(window.location.href),
+      title: truncateText(document.title),
+      app: truncateText(app),
+      route: truncateText(window.location.pathname),
+      breadcrumbs,
+      metadata: {
+        dashboardId: extractDashboardId(),
+        savedObjectType: extractSavedObjectType(),
+      },
+    },
+    content: [],
+    navigation: {
+      currentApp: truncateText(app),
+      currentRoute: truncateText(window.location.pathname),
+      breadcrumbs,
+      availableApps: [],
+    },
+    filters: extractFilters(),
+    userActions: [],
+    permissions: {
+      canViewData: true,
+      canModifyDashboard: false,
+      canAccessApp: true,
+    },
+    extractedAt: new Date().toISOString(),
+  };
+
+  if (!extractContent) {
+    return context;
+  }
+  try {
+    await waitForPageReady();
+    context.content = await createContentExtractionPipeline().process(
+      findContentElements(),
+      userQuery
+    );
+  } catch (error) {
+    console.error('Failed to extract the page content:', error);
+  }
+  return context;
+};
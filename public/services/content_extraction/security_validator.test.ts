@@ -0,0 +1,95 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ContentElement, ContentType } from '../../../common/types/ui_context';
+import { DataSanitizer, REDACTED } from './data_sanitizer';
+import { SecurityValidator } from './security_validator';
+
+const table: ContentElement = {
+  id: 'users',
+  type: ContentType.DATA_TABLE,
+  title: 'Users',
+  data: {
+    tableData: {
+      headers: ['name', 'email', 'logins'],
+      rows: [['alice', 'alice@example.com', '3']],
+    },
+  },
+  metadata: { indexPattern: 'users-*' },
+};
+
+describe('DataSanitizer', () => {
+  const sanitizer = new DataSanitizer(20);
+
+  it('should remove scripts and event handlers from html', () => {
+    expect(
+      sanitizer.sanitizeHTML(
+        '<p onclick="steal()">Hi<script>steal()</script></p><a href="javascript:steal()">link</a>'
+      )
+    ).toBe('<p>Hi</p><a>link</a>');
+  });
+
+  it('should redact credentials and truncate long text', () => {
+    expect(sanitizer.sanitizeText('Bearer abc.def')).toBe(REDACTED);
+    expect(new DataSanitizer().sanitizeText('card 4111 1111 1111 1111 ok')).toBe(
+      `card ${REDACTED} ok`
+    );
+    expect(sanitizer.sanitizeText('a very long text which is truncated')).toBe(
+      'a very long text whi...'
+    );
+  });
+
+  it('should redact sensitive keys recursively', () => {
+    expect(
+      sanitizer.removeSensitiveData({
+        user: 'alice',
+        apiKey: 'abc',
+        nested: [{ password: 'secret', count: 1 }],
+      })
+    ).toEqual({ user: 'alice', apiKey: REDACTED, nested: [{ password: REDACTED, count: 1 }] });
+  });
+});
+
+describe('SecurityValidator', () => {
+  const validator = new SecurityValidator();
+
+  it('should validate the structure of content elements', () => {
+    expect(validator.validate(table)).toBe(true);
+    expect(validator.validate({ ...table, id: '' })).toBe(false);
+    expect(validator.validate({ ...table, type: 'unknown' as ContentType })).toBe(false);
+    expect(validator.validate({ ...table, data: undefined } as any)).toBe(false);
+  });
+
+  it('should sanitize the title and data of content elements', () => {
+    const sanitized = validator.sanitize({
+      ...table,
+      title: 'Users\u0000',
+      metadata: { token: 'abc' },
+    });
+
+    expect(sanitized.title).toBe('Users');
+    expect(sanitized.metadata).toEqual({ token: REDACTED });
+    expect(sanitized.data).toEqual(table.data);
+  });
+
+  it('should filter content by permissions', () => {
+    expect(
+      validator.filterByPermissions([table], { dataSourcePermissions: { 'users-*': false } })
+    ).toEqual([]);
+    expect(validator.filterByPermissions([table], { canViewData: false })[0].data).toEqual({});
+    expect(
+      validator.filterByPermissions([table], { restrictedFields: ['email'] })[0].data.tableData
+    ).toEqual({ headers: ['name', 'logins'], rows: [['alice', '3']] });
+    expect(validator.validateAccess({ permissions: {} }, table)).toBe(true);
+  });
+
+  it('should keep an audit log of content accesses', () => {
+    validator.auditAccess({ username: 'alice' }, 'users');
+
+    expect(validator.getAuditLog()).toEqual([
+      { user: 'alice', contentId: 'users', timestamp: expect.any(String) },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IDataSanitizer, ISecurityValidator } from '../../../common/types/content_extraction';
+import { IContentValidator } from '../../../common/types/contextual_chat_service';
+import { ContentElement, ContentType } from '../../../common/types/ui_context';
+import { DataSanitizer } from './data_sanitizer';
+
+const MAX_AUDIT_ENTRIES = 100;
+
+export interface ContentPermissions {
+  canViewData?: boolean;
+  /**
+   * Fields whose values must not leave the page, such as table columns
+   */
+  restrictedFields?: string[];
+  /**
+   * Access to the data of an index pattern or data source, missing entries are allowed
+   */
+  dataSourcePermissions?: Record<string, boolean>;
+}
+
+export interface ContentAccessAuditEntry {
+  user: string;
+  contentId: string;
+  timestamp: string;
+}
+
+const getUserName = (user: any): string =>
+  typeof user === 'string' ? user : user?.username ?? user?.user_name ?? 'unknown';
+
+/**
+ * Validates extracted content elements and removes the data the user is not allowed
+ * to send to the assistant, used by the extraction pipeline as a content validator.
+ */
+export class SecurityValidator implements ISecurityValidator, IContentValidator {
+  private readonly auditLog: ContentAccessAuditEntry[] = [];
+
+  constructor(private readonly sanitizer: IDataSanitizer = new DataSanitizer()) {}
+
+  public validate(content: ContentElement): boolean {
+    return (
+      typeof content?.id === 'string' &&
+      content.id.length > 0 &&
+      Object.values(ContentType).includes(content.type) &&
+      typeof content.title === 'string' &&
+      !!content.data &&
+      typeof content.data === 'object'
+    );
+  }
+
+  public sanitize(content: ContentElement): ContentElement {
+    return this.sanitizeContent(content);
+  }
+
+  public sanitizeContent(content: ContentElement): ContentElement {
+    return {
+      ...content,
+      title: this.sanitizer.sanitizeText(content.title),
+      ...(content.description && {
+        description: this.sanitizer.sanitizeText(content.description),
+      }),
+      data: this.sanitizer.removeSensitiveData(content.data),
+      ...(content.metadata && { metadata: this.sanitizer.removeSensitiveData(content.metadata) }),
+    };
+  }
+
+  public validateAccess(user: any, content: ContentElement): boolean {
+    const permissions: ContentPermissions = user?.permissions ?? {};
+    const dataSource = content.metadata?.indexPattern ?? content.metadata?.dataSource;
+    return !dataSource || permissions.dataSourcePermissions?.[dataSource] !== false;
+  }
+
+  /**
+   * Remove the elements of forbidden data sources, the data of every element when the
+   * user cannot view data, and the restricted columns of tables.
+   */
+  public filterByPermissions(
+    content: ContentElement[],
+    permissions: ContentPermissions = {}
+  ): ContentElement[] {
+    const restrictedFields = new Set(permissions.restrictedFields ?? []);
+
+    return content
+      .filter((element) => this.validateAccess({ permissions }, element))
+      .map((element) => {
+        if (permissions.canViewData === false) {
+          return { ...element, data: {} };
+        }
+        const tableData = element.data.tableData;
+        if (!tableData || !tableData.headers.some((header) => restrictedFields.has(header))) {
+          return element;
+        }
+
+        const allowedColumns = tableData.headers
+          .map((header, index) => (restrictedFields.has(header) ? -1 : index))
+          .filter((index) => index >= 0);
+        return {
+          ...element,
+          data: {
+            ...element.data,
+            tableData: {
+              ...tableData,
+              headers: allowedColumns.map((index) => tableData.headers[index]),
+              rows: tableData.rows.map((row) => allowedColumns.map((index) => row[index])),
+            },
+          },
+        };
+      });
+  }
+
+  public auditAccess(user: any, contentId: string): void {
+    this.auditLog.push({
+      user: getUserName(user),
+      contentId,
+      timestamp: new Date().toISOString(),
+    });
+    if (this.auditLog.length > MAX_AUDIT_ENTRIES) {
+      this.auditLog.shift();
+    }
+  }
+
+  /**
+   * Get the latest content accesses, at most 100 entries are kept.
+   */
+  public getAuditLog(): ContentAccessAuditEntry[] {
+    return [...this.auditLog];
+  }
+}
@@ -0,0 +1,141 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ITableExtractor } from '../../../common/types/content_extraction';
+import {
+  ContentElement,
+  ContentType,
+  PaginationInfo,
+  SortInfo,
+  TableData,
+} from '../../../common/types/ui_context';
+import {
+  createContentElement,
+  getClassName,
+  getElementText,
+  getElementTitle,
+  getTestSubj,
+} from './dom_utils';
+
+const MAX_ROWS = 50;
+
+const TABLE_SELECTORS = ['table', '.euiTable', '.euiDataGrid', '.osdTable', '[role="table"]'];
+const HEADER_SELECTORS = [
+  'thead th',
+  '.euiTableHeaderCell',
+  '.euiDataGridHeaderCell',
+  '[role="columnheader"]',
+];
+const ROW_SELECTORS = ['tbody tr', '.euiTableRow', '.euiDataGridRow', '[role="row"]'];
+const CELL_SELECTORS = ['td', '.euiTableRowCell', '.euiDataGridRowCell', '[role="cell"]'];
+const PAGINATION_SELECTORS = ['.euiPagination', '[data-test-subj*="pagination"]'];
+
+const findFirst = (element: Element, selectors: string[]): Element[] => {
+  for (const selector of selectors) {
+    const found = element.querySelectorAll(selector);
+    if (found.length > 0) {
+      return Array.from(found);
+    }
+  }
+  return [];
+};
+
+export class TableExtractor implements ITableExtractor {
+  public readonly id = 'table';
+
+  public canHandle(element: HTMLElement): boolean {
+    const className = getClassName(element);
+    return (
+      element.tagName === 'TABLE' ||
+      element.getAttribute('role') === 'table' ||
+      className.includes('euiTable') ||
+      className.includes('euiDataGrid') ||
+      getTestSubj(element).includes('docTable')
+    );
+  }
+
+  public getContentType(): ContentType {
+    return ContentType.DATA_TABLE;
+  }
+
+  public async extract(element: HTMLElement): Promise<ContentElement> {
+    const headers = this.extractHeaders(element);
+    const rows = this.extractRows(element);
+    const pagination = this.extractPaginationInfo(element);
+    const sorting = this.extractSortingInfo(element);
+    const tableData: TableData = {
+      headers,
+      rows,
+      totalRows: pagination?.totalItems ?? rows.length,
+      ...(pagination && { pagination }),
+      ...(sorting && { sorting }),
+    };
+
+    const features = [pagination && 'paginated', sorting && 'sortable'].filter(Boolean);
+    const title = getElementTitle(element);
+    return createContentElement(element, ContentType.DATA_TABLE, {
+      summary: `${title} - table with ${headers.length} columns and ${rows.length} rows${
+        features.length > 0 ? `, ${features.join(', ')}` : ''
+      }`,
+      tableData,
+    });
+  }
+
+  public extractHeaders(element: HTMLElement): string[] {
+    return findFirst(this.getTable(element), HEADER_SELECTORS).map(getElementText);
+  }
+
+  /**
+   * Rows are capped at 50, the total number of rows is reported by the pagination info.
+   */
+  public extractRows(element: HTMLElement): string[][] {
+    return findFirst(this.getTable(element), ROW_SELECTORS)
+      .filter((row) => !row.querySelector('th, [role="columnheader"]'))
+      .slice(0, MAX_ROWS)
+      .map((row) => findFirst(row, CELL_SELECTORS).map(getElementText))
+      .filter((cells) => cells.length > 0);
+  }
+
+  public extractPaginationInfo(element: HTMLElement): PaginationInfo | null {
+    const pagination = findFirst(element, PAGINATION_SELECTORS)[0];
+    if (!pagination) {
+      return null;
+    }
+
+    const pageNumbers = Array.from(pagination.querySelectorAll('button, a'))
+      .map((button) => parseInt(getElementText(button), 10))
+      .filter((page) => !isNaN(page));
+    const current = pagination.querySelector('[aria-current="true"], [aria-current="page"]');
+
+    return {
+      currentPage: (current && parseInt(getElementText(current), 10)) || 1,
+      ...(pageNumbers.length > 0 && { totalPages: Math.max(...pageNumbers) }),
+      pageSize: this.extractRows(element).length,
+    };
+  }
+
+  public extractSortingInfo(element: HTMLElement): SortInfo | null {
+    const sortedHeader = findFirst(element, [
+      '[aria-sort="ascending"]',
+      '[aria-sort="descending"]',
+      '.euiTableHeaderCell--isSorted',
+    ])[0];
+    if (!sortedHeader) {
+      return null;
+    }
+
+    const ariaSort = sortedHeader.getAttribute('aria-sort');
+    const isDescending =
+      ariaSort === 'descending' || !!sortedHeader.querySelector('[data-euiicon-type="sortDown"]');
+    return {
+      column: getElementText(sortedHeader),
+      direction: isDescending ? 'desc' : 'asc',
+    };
+  }
+
+  private getTable(element: HTMLElement): Element {
+    return this.canHandle(element) ? element : findFirst(element, TABLE_SELECTORS)[0] || element;
+  }
+}
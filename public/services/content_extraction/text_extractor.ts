@@ -0,0 +1,133 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { UI_CONTEXT_LIMITS } from '../../../common/constants/contextual_chat';
+import { ITextExtractor } from '../../../common/types/content_extraction';
+import { ContentElement, ContentType, LinkInfo } from '../../../common/types/ui_context';
+import { createContentElement, getElementText, getElementTitle, truncateText } from './dom_utils';
+
+const MARKDOWN_SELECTORS = ['.euiMarkdownFormat', '.osdMarkdown__body', '.markdown-body'];
+const MAX_SUMMARY_LENGTH = 300;
+
+/**
+ * Fallback extractor for any element with text, markdown panels are extracted as markdown.
+ */
+export class TextExtractor implements ITextExtractor {
+  public readonly id = 'text';
+
+  public canHandle(element: HTMLElement): boolean {
+    return getElementText(element).length > 0;
+  }
+
+  public getContentType(): ContentType {
+    return ContentType.TEXT;
+  }
+
+  public async extract(element: HTMLElement): Promise<ContentElement> {
+    const text = this.extractPlainText(element);
+    const markdown = this.extractMarkdown(element);
+
+    return createContentElement(
+      element,
+      markdown === null ? ContentType.TEXT : ContentType.MARKDOWN,
+      {
+        summary: `${getElementTitle(element)} - ${text.substring(0, MAX_SUMMARY_LENGTH)}`,
+        textContent: {
+          text,
+          ...(markdown !== null && { markdown }),
+          links: this.extractLinks(element),
+        },
+      }
+    );
+  }
+
+  public extractPlainText(element: HTMLElement): string {
+    return getElementText(element);
+  }
+
+  public extractFormattedText(element: HTMLElement): string {
+    return element.innerHTML;
+  }
+
+  /**
+   * Convert the rendered markdown back to markdown, returns null if the element
+   * is not a markdown panel.
+   */
+  public extractMarkdown(element: HTMLElement): string | null {
+    const markdownRoot = MARKDOWN_SELECTORS.some((selector) => element.matches(selector))
+      ? element
+      : element.querySelector(MARKDOWN_SELECTORS.join(', '));
+    if (!markdownRoot) {
+      return null;
+    }
+
+    return Array.from(markdownRoot.children)
+      .map((child) => this.toMarkdown(child))
+      .filter((block) => block.length > 0)
+      .join('\n\n');
+  }
+
+  public extractLinks(element: HTMLElement): LinkInfo[] {
+    return Array.from(element.querySelectorAll<HTMLAnchorElement>('a[href]'))
+      .slice(0, UI_CONTEXT_LIMITS.MAX_ITEMS)
+      .map((link) => ({
+        text: truncateText(getElementText(link)),
+        href: truncateText(link.getAttribute('href') || ''),
+        external: link.host !== '' && link.host !== window.location.host,
+      }));
+  }
+
+  private toMarkdown(element: Element): string {
+    const tagName = element.tagName.toLowerCase();
+    const heading = tagName.match(/^h([1-6])$/);
+    if (heading) {
+      return `${'#'.repeat(Number(heading[1]))} ${this.toInlineMarkdown(element)}`;
+    }
+    switch (tagName) {
+      case 'ul':
+      case 'ol':
+        return Array.from(element.children)
+          .map(
+            (item, index) =>
+              `${tagName === 'ol' ? `${index + 1}.` : '-'} ${this.toInlineMarkdown(item)}`
+          )
+          .join('\n');
+      case 'pre':
+        return `\`\`\`\n${element.textContent?.trim() ?? ''}\n\`\`\``;
+      case 'blockquote':
+        return `> ${this.toInlineMarkdown(element)}`;
+      default:
+        return this.toInlineMarkdown(element);
+    }
+  }
+
+  private toInlineMarkdown(element: Element): string {
+    return Array.from(element.childNodes)
+      .map((node) => {
+        if (node.nodeType !== Node.ELEMENT_NODE) {
+          return node.textContent ?? '';
+        }
+        const child = node as Element;
+        const text = this.toInlineMarkdown(child);
+        switch (child.tagName.toLowerCase()) {
+          case 'a':
+            return `[${text}](${child.getAttribute('href') ?? ''})`;
+          case 'strong':
+          case 'b':
+            return `**${text}**`;
+          case 'em':
+          case 'i':
+            return `_${text}_`;
+          case 'code':
+            return `\`${text}\``;
+          default:
+            return text;
+        }
+      })
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+}
@@ -0,0 +1,183 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  IVisualizationExtractor,
+  VisualizationMetadata,
+} from '../../../common/types/content_extraction';
+import {
+  ChartData,
+  ContentElement,
+  ContentType,
+  DataPoint,
+  SeriesInfo,
+} from '../../../common/types/ui_context';
+import {
+  createContentElement,
+  getClassName,
+  getElementText,
+  getElementTitle,
+  getTestSubj,
+  parseDisplayedNumber,
+} from './dom_utils';
+
+const MAX_DATA_POINTS = 15;
+
+const CHART_TYPES = ['bar', 'line', 'pie', 'area', 'scatter', 'histogram', 'heatmap', 'gauge'];
+
+/**
+ * Selectors of the text rendered by the OpenSearch Dashboards charting libraries,
+ * such as axis labels and values
+ */
+const CHART_TEXT_SELECTORS = [
+  '.visAxis__splitTitles .visAxis__splitTitle',
+  '.visWrapper__chart .visAxis__column',
+  '[data-test-subj="visChart"] .chart-container',
+  '.echChart text',
+  '.vega-vis text',
+  '.lens-vis text',
+];
+
+const LEGEND_ITEM_SELECTORS = ['.echLegendItem', '.visLegend__value', '.euiLegendItem'];
+
+export class VisualizationExtractor implements IVisualizationExtractor {
+  public readonly id = 'visualization';
+
+  public canHandle(element: HTMLElement): boolean {
+    const testSubj = getTestSubj(element);
+    const className = getClassName(element);
+    return (
+      testSubj.includes('visualization') ||
+      testSubj.includes('embeddable') ||
+      className.includes('visualization') ||
+      className.includes('embeddable') ||
+      className.includes('lens-vis-container') ||
+      className.includes('vega-vis-container') ||
+      element.hasAttribute('data-chart')
+    );
+  }
+
+  public getContentType(): ContentType {
+    return ContentType.VISUALIZATION;
+  }
+
+  public async extract(element: HTMLElement): Promise<ContentElement> {
+    const chartData = await this.extractChartData(element);
+    const metadata = await this.extractMetadata(element);
+    const legend = chartData.series?.length ? ', includes legend' : '';
+
+    return createContentElement(
+      element,
+      ContentType.VISUALIZATION,
+      {
+        summary: `${metadata.title} - ${chartData.type} visualization with ${chartData.values.length} data points${legend}`,
+        chartData,
+      },
+      { visualizationType: metadata.type, description: metadata.description }
+    );
+  }
+
+  /**
+   * Charts are rendered to canvas or SVG, so the data is read back from the text
+   * the chart renders. Chart specific text is preferred over tables, which is
+   * preferred over any number found in the element.
+   */
+  public async extractChartData(element: HTMLElement): Promise<ChartData> {
+    const values =
+      this.extractChartTextValues(element) ||
+      this.extractTableValues(element) ||
+      this.extractTextValues(element) ||
+      [];
+    const series = this.extractSeries(element);
+
+    return {
+      type: this.getVisualizationType(element),
+      values: values.slice(0, MAX_DATA_POINTS),
+      ...(series.length > 0 && { series }),
+    };
+  }
+
+  public getVisualizationType(element: HTMLElement): string {
+    const visType =
+      element.getAttribute('data-vis-type') ||
+      element.querySelector('[data-vis-type]')?.getAttribute('data-vis-type');
+    if (visType) {
+      return visType;
+    }
+
+    const className = getClassName(element).toLowerCase();
+    const chartType = CHART_TYPES.find((type) => className.includes(type));
+    if (chartType) {
+      return chartType;
+    }
+
+    if (element.querySelector('canvas')) return 'canvas-chart';
+    if (element.querySelector('svg')) return 'svg-chart';
+    return 'chart';
+  }
+
+  public async extractMetadata(element: HTMLElement): Promise<VisualizationMetadata> {
+    const description =
+      element.getAttribute('data-description') ||
+      element.querySelector('[data-description]')?.getAttribute('data-description');
+    return {
+      type: this.getVisualizationType(element),
+      title: getElementTitle(element),
+      description: description || undefined,
+      lastUpdated: new Date().toISOString(),
+    };
+  }
+
+  private extractChartTextValues(element: HTMLElement): DataPoint[] | undefined {
+    for (const selector of CHART_TEXT_SELECTORS) {
+      const values = this.toDataPoints(Array.from(element.querySelectorAll(selector)));
+      if (values.length > 0) {
+        return values;
+      }
+    }
+  }
+
+  private extractTableValues(element: HTMLElement): DataPoint[] | undefined {
+    for (const table of Array.from(element.querySelectorAll('table, [role="table"]'))) {
+      const values = this.toDataPoints(Array.from(table.querySelectorAll('td, [role="cell"]')));
+      if (values.length >= 2) {
+        return values;
+      }
+    }
+  }
+
+  private extractTextValues(element: HTMLElement): DataPoint[] | undefined {
+    const numbers = getElementText(element).match(/-?\d[\d,]*(?:\.\d+)?[KMB]?\b/g) || [];
+    const values = numbers
+      .map((text, index) => ({ x: index, y: parseDisplayedNumber(text), label: text }))
+      .filter(({ y }) => !isNaN(y));
+    return values.length >= 2 ? values : undefined;
+  }
+
+  private toDataPoints(elements: Element[]): DataPoint[] {
+    return elements
+      .map((item) => getElementText(item))
+      .filter((text) => text.length > 0)
+      .map((text) => ({ y: parseDisplayedNumber(text), label: text }))
+      .filter(({ y }) => !isNaN(y))
+      .map((value, index) => ({ x: index, ...value }));
+  }
+
+  private extractSeries(element: HTMLElement): SeriesInfo[] {
+    for (const selector of LEGEND_ITEM_SELECTORS) {
+      const items = Array.from(element.querySelectorAll<HTMLElement>(selector));
+      if (items.length > 0) {
+        return items
+          .map((item) => ({
+            name: getElementText(item),
+            color: item.querySelector<HTMLElement>('[style*="color"]')?.style.color || undefined,
+            visible: !getClassName(item).includes('hidden'),
+          }))
+          .filter(({ name }) => name.length > 0);
+      }
+    }
+    return [];
+  }
+}
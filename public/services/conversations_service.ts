@@ -32,7 +32,7 @@ export class ConversationsService {
     query?: Pick<
       SavedObjectsFindOptions,
       'page' | 'perPage' | 'fields' | 'sortField' | 'sortOrder' | 'search' | 'searchFields'
-    >
+    > & { searchMode?: 'title' | 'content' }
   ) => {
     this.abortController?.abort();
     this.abortController = new AbortController();
@@ -6,6 +6,8 @@
 import { HttpSetup } from '../../../../src/core/public';
 import { ASSISTANT_API } from '../../common/constants/llm';
 import { UIContext } from '../../common/types/ui_context';
+import { IMessage, Interaction } from '../../common/types/chat_saved_object_attributes';
+import { createStreamDeserializer } from '../../common/utils/stream/serializer';
 
 export interface StreamingChatMessage {
   type: 'input' | 'output';
@@ -38,15 +40,24 @@ export interface StreamingChatRequest {
 export interface StreamingChatResponse {
   conversationId: string;
   interactionId: string;
-  messages: StreamingChatMessage[];
-  interactions: any[];
+  messages: IMessage[];
+  interactions: Interaction[];
   title?: string;
 }
 
+interface StreamState {
+  lastEventId?: string;
+  streamingContent: string;
+  eventCount: number;
+  finalResponse: StreamingChatResponse | null;
+}
+
+const MAX_RECONNECT_ATTEMPTS = 3;
+
 export class StreamingChatService {
   private abortController: AbortController | null = null;
 
-  constructor(private http: HttpSetup) {}
+  constructor(private http: HttpSetup, private readonly reconnectDelayMs = 1000) {}
 
   /**
    * Send a streaming chat request and handle real-time responses
@@ -56,7 +67,8 @@ export class StreamingChatService {
     onChunk: (chunk: string) => void,
     onComplete: (response: StreamingChatResponse) => void,
     onError: (error: Error) => void,
-    dataSourceId?: string
+    dataSourceId?: string,
+    onReconnect?: (attempt: number) => void
   ): Promise<void> {
     console.log('🌊 STREAMING SERVICE: sendStreamingMessage called', {
       hasRequest: !!request,
@@ -166,7 +178,7 @@ export class StreamingChatService {
         if (contentType?.includes('text/event-stream')) {
           console.log('🌊 STREAMING SERVICE: Processing streaming response...');
           console.log('🔄 STREAMING SERVICE: Calling processStreamingResponse...');
-          await this.processStreamingResponse(response, onChunk, onComplete, onError);
+          await this.processStreamingResponse(response, onChunk, onComplete, onError, onReconnect);
           console.log('✅ STREAMING SERVICE: processStreamingResponse completed');
         } else {
           console.log('📄 STREAMING SERVICE: Processing regular JSON response...');
@@ -206,154 +218,182 @@ export class StreamingChatService {
   }
 
   /**
-   * Process Server-Sent Events stream
+   * Process Server-Sent Events stream, reconnects to the resume endpoint when the
+   * connection is lost before the final response arrived.
    */
   private async processStreamingResponse(
     response: Response,
     onChunk: (chunk: string) => void,
     onComplete: (response: StreamingChatResponse) => void,
-    onError: (error: Error) => void
+    onError: (error: Error) => void,
+    onReconnect?: (attempt: number) => void
   ): Promise<void> {
     console.log('🌊 STREAMING SERVICE: processStreamingResponse started');
 
+    const state: StreamState = {
+      streamingContent: '',
+      eventCount: 0,
+      finalResponse: null,
+    };
+    // keep the signal, abortStream resets the controller
+    const signal = this.abortController?.signal;
+    let currentResponse = response;
+    let reconnectAttempt = 0;
+
+    try {
+      while (true) {
+        let disconnected = false;
+        let connectionError: Error | undefined;
+        const eventCountBeforeRead = state.eventCount;
+        try {
+          await this.readStream(currentResponse, state, onChunk);
+          // a resumable stream always ends with the final response, otherwise the connection was cut
+          disconnected = !state.finalResponse && !!state.lastEventId;
+        } catch (error) {
+          if (error.name === 'AbortError' || !state.lastEventId) {
+            throw error;
+          }
+          disconnected = true;
+          connectionError = error as Error;
+        }
+
+        if (!disconnected) {
+          break;
+        }
+        if (state.eventCount > eventCountBeforeRead) {
+          reconnectAttempt = 0;
+        }
+        if (reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+          if (connectionError) {
+            throw connectionError;
+          }
+          // the server keeps ending the stream without a final response, use what we have
+          break;
+        }
+        reconnectAttempt++;
+        onReconnect?.(reconnectAttempt);
+        await new Promise((resolve) =>
+          setTimeout(resolve, this.reconnectDelayMs * reconnectAttempt)
+        );
+        currentResponse = await this.resumeStream(state.lastEventId!, signal);
+      }
+
+      // Only call onComplete if we have a final response from the server
+      // Don't create a fallback message from streaming content to avoid duplicates
+      if (state.finalResponse) {
+        onComplete(state.finalResponse);
+      } else if (state.streamingContent.trim()) {
+        // Only create fallback if we actually received streaming content
+        onComplete({
+          conversationId: 'stream-conversation',
+          interactionId: 'stream-interaction',
+          messages: [
+            {
+              type: 'output',
+              content: state.streamingContent,
+              contentType: 'text',
+            },
+          ],
+          interactions: [],
+        });
+      }
+    } catch (error) {
+      console.error('❌ Stream processing error:', error);
+      onError(error as Error);
+    }
+  }
+
+  /**
+   * Read the events of one connection until it ends, throws when the connection fails
+   */
+  private async readStream(
+    response: Response,
+    state: StreamState,
+    onChunk: (chunk: string) => void
+  ): Promise<void> {
     const reader = response.body?.getReader();
     if (!reader) {
       console.error('❌ STREAMING SERVICE: Response body is not readable');
       throw new Error('Response body is not readable');
     }
 
-    console.log('✅ STREAMING SERVICE: Reader obtained, starting to process stream');
     const decoder = new TextDecoder();
-    let buffer = '';
-    let streamingContent = '';
-    let eventCount = 0;
-    let finalResponse: StreamingChatResponse | null = null;
+    const deserialize = createStreamDeserializer();
 
     try {
-      console.log('🔄 STREAMING SERVICE: Starting read loop...');
       while (true) {
-        console.log('📖 STREAMING SERVICE: Reading next chunk...');
         const { done, value } = await reader.read();
-        console.log('📖 STREAMING SERVICE: Read result:', {
-          done,
-          hasValue: !!value,
-          valueLength: value?.length || 0,
-        });
-
         if (done) {
-          console.log('✅ Stream completed');
-          console.log('📊 Stream statistics:', {
-            totalEvents: eventCount,
-            totalCharacters: streamingContent.length,
-            finalResponseAvailable: !!finalResponse,
-          });
-
-          // Only call onComplete if we have a final response from the server
-          // Don't create a fallback message from streaming content to avoid duplicates
-          if (finalResponse) {
-            console.log('🏁 STREAMING SERVICE: Calling onComplete with final response');
-            onComplete(finalResponse);
-          } else {
-            console.log('⚠️ STREAMING SERVICE: No final response received from server');
-            // Only create fallback if we actually received streaming content
-            if (streamingContent.trim()) {
-              console.log(
-                '🔄 STREAMING SERVICE: Creating fallback response from streaming content'
-              );
-              onComplete({
-                conversationId: 'stream-conversation',
-                interactionId: 'stream-interaction',
-                messages: [
-                  {
-                    type: 'output',
-                    content: streamingContent,
-                    contentType: 'text',
-                  },
-                ],
-                interactions: [],
-              });
-            } else {
-              console.log('❌ STREAMING SERVICE: No content received, not calling onComplete');
-            }
-          }
-          break;
+          return;
         }
 
-        // Decode the chunk and add to buffer
-        const chunk = decoder.decode(value, { stream: true });
-        buffer += chunk;
-
-        // Process complete lines
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-        for (const line of lines) {
-          if (line.trim() === '') continue;
-
-          eventCount++;
+        // Decode the chunk, the deserializer keeps incomplete events until they are complete
+        const chunks = deserialize(decoder.decode(value, { stream: true }));
+
+        for (const chunk of chunks) {
+          state.eventCount++;
+
+          switch (chunk.event) {
+            case 'appendMessageContent':
+              state.streamingContent += chunk.data.content;
+              onChunk(chunk.data.content);
+              break;
+
+            case 'metadata':
+              // The final metadata carries the recorded interaction
+              if (chunk.data.interactions?.length) {
+                state.finalResponse = {
+                  conversationId: chunk.data.conversationId || '',
+                  interactionId: chunk.data.interactions[0].interaction_id,
+                  messages: chunk.data.messages || [],
+                  interactions: chunk.data.interactions,
+                  title: chunk.data.title,
+                };
+              }
+              break;
 
-          // Handle Server-Sent Events format
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6); // Remove 'data: ' prefix
+            case 'error':
+              // An error reported by the server ends the stream, there is nothing to resume
+              state.lastEventId = undefined;
+              throw new Error(chunk.data || 'Streaming error');
 
-            if (data === '[DONE]') {
-              console.log('🏁 Received [DONE] signal');
-              continue;
-            }
+            default:
+              // protocol, heartbeat, tool call, source and usage events are not rendered here
+              break;
+          }
 
-            try {
-              // Try to parse as JSON (for structured events)
-              const eventData = JSON.parse(data);
-
-              console.log('📨 Received SSE event:', eventData.type, eventData);
-
-              if (eventData.type === 'content') {
-                const content = eventData.content || '';
-                streamingContent += content;
-                onChunk(content);
-                console.log('📝 Added content chunk:', {
-                  chunkLength: content.length,
-                  totalLength: streamingContent.length,
-                  chunkPreview: content.substring(0, 30) + (content.length > 30 ? '...' : ''),
-                  totalPreview:
-                    streamingContent.substring(0, 50) + (streamingContent.length > 50 ? '...' : ''),
-                });
-              } else if (eventData.type === 'start') {
-                console.log('🚀 Stream started:', eventData.conversationId);
-              } else if (eventData.type === 'complete') {
-                console.log('✅ Stream completed with messages:', eventData.messages?.length);
-                // Use the complete event data as final response
-                finalResponse = {
-                  conversationId: eventData.conversationId,
-                  interactionId: eventData.interactionId,
-                  messages: eventData.messages || [],
-                  interactions: [],
-                };
-              } else if (eventData.type === 'error') {
-                throw new Error(eventData.error || 'Streaming error');
-              }
-            } catch (parseError) {
-              // If not JSON, treat as plain text content
-              if (data.trim() && data !== '[DONE]') {
-                streamingContent += data;
-                onChunk(data);
-              }
-            }
-          } else if (line.trim() && !line.startsWith(':')) {
-            // Handle plain text lines (fallback)
-            streamingContent += line + '\n';
-            onChunk(line + '\n');
+          // Only remember the id once the event is handled, so that a resumed stream continues after it
+          if (chunk.id) {
+            state.lastEventId = chunk.id;
           }
         }
       }
-    } catch (error) {
-      console.error('❌ Stream processing error:', error);
-      onError(error as Error);
     } finally {
       reader.releaseLock();
     }
   }
 
+  /**
+   * Reconnect to a stream, the server replays the events after the last received event
+   */
+  private async resumeStream(lastEventId: string, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.http.basePath.get()}${ASSISTANT_API.RESUME_STREAM}`, {
+      method: 'GET',
+      headers: {
+        'osd-xsrf': 'true',
+        Accept: 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Last-Event-ID': lastEventId,
+      },
+      signal,
+    });
+    if (!response.ok) {
+      // the stream has expired or never existed, retrying would not help
+      throw new Error(`Failed to resume the stream: HTTP ${response.status}`);
+    }
+    return response;
+  }
+
   /**
    * Abort the current streaming request
    */
@@ -0,0 +1,50 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import ReactDOM from 'react-dom';
+import { Route, Router, Switch } from 'react-router-dom';
+
+import { AppMountParameters } from '../../../src/core/public';
+import { OpenSearchDashboardsContextProvider } from '../../../src/plugins/opensearch_dashboards_react/public';
+import { SharedConversationPage } from './components/shared_conversation_page';
+import { AssistantServices } from './contexts/core_context';
+import { ActionExecutor, AssistantActions, MessageRenderer } from './types';
+
+interface SharedConversationAppOptions {
+  messageRenderers: Record<string, MessageRenderer>;
+  actionExecutors: Record<string, ActionExecutor>;
+  assistantActions: AssistantActions;
+}
+
+export const renderSharedConversationApp = (
+  params: AppMountParameters,
+  services: AssistantServices,
+  options: SharedConversationAppOptions
+) => {
+  ReactDOM.render(
+    <OpenSearchDashboardsContextProvider services={services}>
+      <Router history={params.history}>
+        <Switch>
+          <Route
+            path="/:sharedConversationId"
+            render={({ match }) => (
+              <SharedConversationPage
+                key={match.params.sharedConversationId}
+                sharedConversationId={match.params.sharedConversationId}
+                {...options}
+              />
+            )}
+          />
+        </Switch>
+      </Router>
+    </OpenSearchDashboardsContextProvider>,
+
+    params.element
+  );
+  return () => {
+    ReactDOM.unmountComponentAtNode(params.element);
+  };
+};
@@ -4,10 +4,14 @@
  */
 
 import React from 'react';
-import { render, screen, fireEvent, act } from '@testing-library/react';
+import { render, screen, fireEvent, act, waitFor } from '@testing-library/react';
+import { copyToClipboard } from '@elastic/eui';
 
 import { ChatWindowHeader } from '../chat_window_header';
 import * as chatContextExports from '../../contexts/chat_context';
+import * as coreContextExports from '../../contexts/core_context';
+import { coreMock } from '../../../../../src/core/public/mocks';
+import { DataSourceServiceMock } from '../../services/data_source_service.mock';
 import { TabId } from '../../types';
 import { SIDECAR_DOCKED_MODE } from '../../../../../src/core/public';
 import { setupConfigSchemaMock } from '../../../test/config_schema_mock';
@@ -18,6 +22,11 @@ jest.mock('../../components/chat_window_header_title', () => {
 
 jest.mock('../../services');
 
+jest.mock('@elastic/eui', () => ({
+  ...jest.requireActual('@elastic/eui'),
+  copyToClipboard: jest.fn(),
+}));
+
 const setup = ({ selectedTabId }: { selectedTabId?: TabId } = {}) => {
   const useChatContextMock = {
     conversationId: '1',
@@ -97,4 +106,33 @@ describe('<ChatWindowHeader />', () => {
     fireEvent.click(renderResult.getByLabelText('history'));
     expect(useChatContextMock.setSelectedTabId).toHaveBeenLastCalledWith('history');
   });
+
+  it('should copy the link of a snapshot of the conversation after share button click', async () => {
+    const coreStart = coreMock.createStart();
+    coreStart.http.post.mockResolvedValue({ id: 'shared_1' });
+    coreStart.application.getUrlForApp.mockReturnValue(
+      'http://localhost/app/assistant-shared-conversation/shared_1'
+    );
+    jest.spyOn(coreContextExports, 'useCore').mockReturnValue({
+      services: { ...coreStart, dataSource: new DataSourceServiceMock() },
+    });
+    const { renderResult } = setup();
+
+    fireEvent.click(renderResult.getByLabelText('share'));
+
+    await waitFor(() => {
+      expect(coreStart.notifications.toasts.addSuccess).toHaveBeenCalled();
+    });
+    expect(coreStart.http.post).toHaveBeenCalledWith(
+      '/api/assistant/conversation/1/_share',
+      expect.anything()
+    );
+    expect(coreStart.application.getUrlForApp).toHaveBeenCalledWith(
+      'assistant-shared-conversation',
+      { path: '/shared_1', absolute: true }
+    );
+    expect(copyToClipboard).toHaveBeenCalledWith(
+      'http://localhost/app/assistant-shared-conversation/shared_1'
+    );
+  });
 });
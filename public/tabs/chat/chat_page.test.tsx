@@ -17,7 +17,7 @@ import { DataSourceServiceMock } from '../../services/data_source_service.mock';
 import { httpServiceMock } from '../../../../../src/core/public/mocks';
 
 jest.mock('./controls/chat_input_controls', () => {
-  return { ChatInputControls: () => <div /> };
+  return { ChatInputControls: () => <div data-test-subj="chatInputControls" /> };
 });
 
 jest.mock('./chat_page_content', () => {
@@ -139,4 +139,10 @@ describe('<ChatPage />', () => {
       });
     });
   });
+
+  it('should not render the input controls when read-only', () => {
+    render(<ChatPage readOnly />);
+
+    expect(screen.queryByTestId('chatInputControls')).not.toBeInTheDocument();
+  });
 });
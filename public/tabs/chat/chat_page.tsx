@@ -28,6 +28,10 @@ import { ChatInputControls } from './controls/chat_input_controls';
 interface ChatPageProps {
   className?: string;
   enableStreaming?: boolean;
+  /**
+   * Show the messages of the chat state without the input controls, suggestions and message actions
+   */
+  readOnly?: boolean;
 }
 
 export const ChatPage: React.FC<ChatPageProps> = (props) => {
@@ -275,22 +279,25 @@ export const ChatPage: React.FC<ChatPageProps> = (props) => {
               }
               onRefreshConversation={refreshConversation}
               onRefreshConversationsList={refreshConversationsList}
+              readOnly={props.readOnly}
             />
           </EuiPageBody>
         </EuiPage>
       </EuiFlyoutBody>
-      <EuiFlyoutFooter>
-        <EuiSpacer size="xs" />
-        <ChatInputControls
-          loading={chatState.llmResponding}
-          disabled={messagesLoading || chatState.llmResponding || streamingChat.isStreaming}
-          http={core.services.http}
-          enableStreaming={props.enableStreaming}
-          onStreamingResponse={handleStreamingResponse}
-          streamingChat={streamingChat} // Pass the streaming chat hook
-        />
-        <EuiSpacer size="m" />
-      </EuiFlyoutFooter>
+      {!props.readOnly && (
+        <EuiFlyoutFooter>
+          <EuiSpacer size="xs" />
+          <ChatInputControls
+            loading={chatState.llmResponding}
+            disabled={messagesLoading || chatState.llmResponding || streamingChat.isStreaming}
+            http={core.services.http}
+            enableStreaming={props.enableStreaming}
+            onStreamingResponse={handleStreamingResponse}
+            streamingChat={streamingChat} // Pass the streaming chat hook
+          />
+          <EuiSpacer size="m" />
+        </EuiFlyoutFooter>
+      )}
     </>
   );
 };
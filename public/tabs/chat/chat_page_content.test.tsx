@@ -191,6 +191,38 @@ describe('<ChatPageContent />', () => {
     expect(screen.queryByText('suggested action mock')).toBeInTheDocument();
   });
 
+  it('should NOT display the suggested actions when read-only', () => {
+    const messages: IMessage[] = [
+      {
+        type: 'input',
+        content: 'what indices are in my cluster?',
+        contentType: 'text',
+      },
+      {
+        type: 'output',
+        content: 'here are the indices in your cluster: .kibana',
+        contentType: 'markdown',
+        suggestedActions: [{ actionType: 'send_as_input', message: 'suggested action mock' }],
+      },
+    ];
+    jest.spyOn(chatStateHookExports, 'useChatState').mockReturnValue({
+      chatState: { messages, llmResponding: false, interactions: [] },
+      chatStateDispatch: jest.fn(),
+    });
+    render(
+      <ChatPageContent
+        messagesLoading={false}
+        conversationsLoading={false}
+        chatScrollTopRef={mockChatScrollTopRef}
+        onRefreshConversation={jest.fn()}
+        onRefreshConversationsList={jest.fn()}
+        readOnly
+      />
+    );
+    expect(screen.queryByText('here are the indices in your cluster: .kibana')).toBeInTheDocument();
+    expect(screen.queryAllByLabelText('chat suggestions')).toHaveLength(0);
+  });
+
   it('should NOT display the suggested actions if no suggested actions', () => {
     const messages: IMessage[] = [
       {
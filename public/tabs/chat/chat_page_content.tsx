@@ -35,6 +35,7 @@ interface ChatPageContentProps {
   conversationsError?: Error;
   onRefreshConversation: () => void;
   onRefreshConversationsList: () => void;
+  readOnly?: boolean;
 }
 
 /**
@@ -47,13 +48,14 @@ const CHAT_PAGE_CONTENT_PADDING_HEIGHT = 135;
 
 export const ChatPageContent: React.FC<ChatPageContentProps> = React.memo((props) => {
   const chatContext = useChatContext();
-  const { chatState } = useChatState();
+  const { chatState, chatStateDispatch } = useChatState();
   const pageEndRef = useRef<HTMLDivElement>(null);
   const loading = props.messagesLoading || chatState.llmResponding;
   const chatActions = useChatActions();
   const registry = getIncontextInsightRegistry();
   const configSchema = getConfigSchema();
   const latestInputRef = useRef<HTMLDivElement | null>(null);
+  const focusedInteractionRef = useRef<HTMLDivElement | null>(null);
   const [messageSpacerHeight, setMessageSpacerHeight] = useState(0);
 
   useLayoutEffect(() => {
@@ -82,6 +84,16 @@ export const ChatPageContent: React.FC<ChatPageContentProps> = React.memo((props
     }
   }, [pageEndRef.current, setMessageSpacerHeight]);
 
+  useEffect(() => {
+    // Declared after the scrolling to the page end so that the focused interaction wins
+    if (!chatState.focusedInteractionId || props.messagesLoading) {
+      return;
+    }
+    // The interaction may be in a page which is not loaded yet, focus it only once anyway
+    focusedInteractionRef.current?.scrollIntoView();
+    chatStateDispatch({ type: 'focusInteraction', payload: {} });
+  }, [chatState.focusedInteractionId, props.messagesLoading, chatStateDispatch]);
+
   if (props.conversationsError) {
     return (
       <>
@@ -144,6 +156,14 @@ export const ChatPageContent: React.FC<ChatPageContentProps> = React.memo((props
 
   const firstInputIndex = chatState.messages.findIndex((msg) => msg.type === 'input');
   const lastInputIndex = findLastIndex(chatState.messages, (msg) => msg.type === 'input');
+  // Messages ids of an interaction are prefixed with its id, outputs also carry the id
+  const focusedIndex = chatState.focusedInteractionId
+    ? chatState.messages.findIndex(
+        (msg) =>
+          msg.messageId?.startsWith(`${chatState.focusedInteractionId}_`) ||
+          (msg.type === 'output' && msg.interactionId === chatState.focusedInteractionId)
+      )
+    : -1;
 
   // The state after user sent a message and waiting for server's message (loading)
   const isWaitingForRepsonse = loading && chatState.llmResponseType !== LLMResponseType.STREAMING;
@@ -162,7 +182,7 @@ export const ChatPageContent: React.FC<ChatPageContentProps> = React.memo((props
           <MessageBubble loading showActionBar={false} />
         </>
       )}
-      {firstInputIndex < 0 && (
+      {firstInputIndex < 0 && !props.readOnly && (
         <Suggestions
           message={{
             content: '',
@@ -184,7 +204,7 @@ export const ChatPageContent: React.FC<ChatPageContentProps> = React.memo((props
         // All the llm output in response to user's input, exclude outputs before user's first input
         const isChatOutput = firstInputIndex >= 0 && i > firstInputIndex;
         // Only show suggestion on llm outputs after last user input
-        const showSuggestions = i > lastInputIndex && !chatState.llmResponding;
+        const showSuggestions = i > lastInputIndex && !chatState.llmResponding && !props.readOnly;
 
         let interaction: Interaction | undefined;
         if (message.type === 'output' && message.interactionId) {
@@ -195,6 +215,7 @@ export const ChatPageContent: React.FC<ChatPageContentProps> = React.memo((props
         }
 
         const showActionBar =
+          !props.readOnly &&
           isChatOutput &&
           (chatState.llmResponseType === LLMResponseType.TEXT ||
             (chatState.llmResponseType === LLMResponseType.STREAMING && !chatState.llmResponding));
@@ -208,7 +229,13 @@ export const ChatPageContent: React.FC<ChatPageContentProps> = React.memo((props
         return (
           <div
             key={message.messageId || `${interaction?.conversation_id}-${i}`}
-            ref={isLatestInput && isWaitingForRepsonse ? latestInputRef : undefined}
+            ref={
+              isLatestInput && isWaitingForRepsonse
+                ? latestInputRef
+                : focusedIndex === i
+                ? focusedInteractionRef
+                : undefined
+            }
             style={
               isLatestOutput
                 ? {
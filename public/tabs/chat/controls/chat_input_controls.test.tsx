@@ -8,6 +8,7 @@ import { render, screen, fireEvent, waitFor, getByRole } from '@testing-library/
 
 import { ChatInputControls } from './chat_input_controls';
 import * as contextExports from '../../../contexts/chat_context';
+import * as coreContextExports from '../../../contexts/core_context';
 import * as hookExports from '../../../hooks/use_chat_actions';
 
 describe('<ChatInputControls />', () => {
@@ -20,6 +21,11 @@ describe('<ChatInputControls />', () => {
     jest.spyOn(hookExports, 'useChatActions').mockReturnValue({
       send: sendMock,
     });
+    jest.spyOn(coreContextExports, 'useCore').mockReturnValue({
+      services: {
+        application: { capabilities: { assistant: { featureFlags: {} } } },
+      },
+    });
   });
 
   afterEach(() => {
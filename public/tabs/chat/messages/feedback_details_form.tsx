@@ -0,0 +1,130 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React, { useState } from 'react';
+import {
+  EuiCheckboxGroup,
+  EuiCompressedFormRow,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiSmallButton,
+  EuiSmallButtonEmpty,
+  EuiSpacer,
+  EuiTextArea,
+  htmlIdGenerator,
+} from '@elastic/eui';
+import { i18n } from '@osd/i18n';
+import {
+  FeedbackReason,
+  FEEDBACK_REASONS,
+} from '../../../../common/types/chat_saved_object_attributes';
+import { FeedbackDetails } from '../../../hooks/use_feed_back';
+
+const REASON_LABELS: Record<FeedbackReason, string> = {
+  inaccurate: i18n.translate('assistantDashboards.feedbackDetails.reason.inaccurate', {
+    defaultMessage: 'Inaccurate',
+  }),
+  irrelevant: i18n.translate('assistantDashboards.feedbackDetails.reason.irrelevant', {
+    defaultMessage: 'Irrelevant',
+  }),
+  unsafe: i18n.translate('assistantDashboards.feedbackDetails.reason.unsafe', {
+    defaultMessage: 'Unsafe',
+  }),
+  too_slow: i18n.translate('assistantDashboards.feedbackDetails.reason.tooSlow', {
+    defaultMessage: 'Too slow',
+  }),
+};
+
+interface FeedbackDetailsFormProps {
+  onSubmit: (details: FeedbackDetails) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Details of a bad response, optional so the user can skip them
+ */
+export const FeedbackDetailsForm: React.FC<FeedbackDetailsFormProps> = ({ onSubmit, onCancel }) => {
+  // checkbox ids must be unique as every message has its own form
+  const [getReasonId] = useState(() => htmlIdGenerator('feedbackReason'));
+  const [selectedReasons, setSelectedReasons] = useState<Record<string, boolean>>({});
+  const [comment, setComment] = useState('');
+  const [correctedAnswer, setCorrectedAnswer] = useState('');
+
+  const reasons = FEEDBACK_REASONS.filter((reason) => selectedReasons[getReasonId(reason)]);
+  const isEmpty = !reasons.length && !comment.trim() && !correctedAnswer.trim();
+
+  return (
+    <div style={{ width: 320 }} data-test-subj="feedbackDetailsForm">
+      <EuiCompressedFormRow
+        label={i18n.translate('assistantDashboards.feedbackDetails.reasons', {
+          defaultMessage: 'What was wrong?',
+        })}
+      >
+        <EuiCheckboxGroup
+          compressed
+          options={FEEDBACK_REASONS.map((reason) => ({
+            id: getReasonId(reason),
+            label: REASON_LABELS[reason],
+          }))}
+          idToSelectedMap={selectedReasons}
+          onChange={(id) => setSelectedReasons({ ...selectedReasons, [id]: !selectedReasons[id] })}
+        />
+      </EuiCompressedFormRow>
+      <EuiCompressedFormRow
+        label={i18n.translate('assistantDashboards.feedbackDetails.comment', {
+          defaultMessage: 'Comment',
+        })}
+      >
+        <EuiTextArea
+          compressed
+          rows={2}
+          maxLength={2000}
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+        />
+      </EuiCompressedFormRow>
+      <EuiCompressedFormRow
+        label={i18n.translate('assistantDashboards.feedbackDetails.correctedAnswer', {
+          defaultMessage: 'Expected answer',
+        })}
+      >
+        <EuiTextArea
+          compressed
+          rows={3}
+          maxLength={10000}
+          value={correctedAnswer}
+          onChange={(e) => setCorrectedAnswer(e.target.value)}
+        />
+      </EuiCompressedFormRow>
+      <EuiSpacer size="s" />
+      <EuiFlexGroup gutterSize="s" justifyContent="flexEnd" responsive={false}>
+        <EuiFlexItem grow={false}>
+          <EuiSmallButtonEmpty onClick={onCancel}>
+            {i18n.translate('assistantDashboards.feedbackDetails.skip', {
+              defaultMessage: 'Skip',
+            })}
+          </EuiSmallButtonEmpty>
+        </EuiFlexItem>
+        <EuiFlexItem grow={false}>
+          <EuiSmallButton
+            fill
+            isDisabled={isEmpty}
+            onClick={() =>
+              onSubmit({
+                reasons,
+                comment: comment.trim() || undefined,
+                correctedAnswer: correctedAnswer.trim() || undefined,
+              })
+            }
+          >
+            {i18n.translate('assistantDashboards.feedbackDetails.send', {
+              defaultMessage: 'Send',
+            })}
+          </EuiSmallButton>
+        </EuiFlexItem>
+      </EuiFlexGroup>
+    </div>
+  );
+};
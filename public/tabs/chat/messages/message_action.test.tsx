@@ -70,6 +70,31 @@ describe('MessageActions', () => {
     expect(sendFeedback).toHaveBeenCalledWith(false, message);
   });
 
+  it('should ask for the reasons of a bad response and send them with the feedback', () => {
+    const message = { interactionId: 'interaction1' } as IOutput;
+    const sendFeedback = jest.fn();
+    mockUseFeedback.mockReturnValue({
+      feedbackResult: undefined,
+      sendFeedback,
+    });
+
+    render(<MessageActions message={message} showFeedback />);
+    fireEvent.click(screen.getByLabelText('feedback thumbs down'));
+    expect(sendFeedback).toHaveBeenCalledWith(false, message);
+
+    fireEvent.click(screen.getByLabelText('Inaccurate'));
+    fireEvent.change(screen.getByLabelText('Expected answer'), {
+      target: { value: ' The index has 3 shards ' },
+    });
+    fireEvent.click(screen.getByText('Send'));
+
+    expect(sendFeedback).toHaveBeenLastCalledWith(false, message, {
+      reasons: ['inaccurate'],
+      comment: undefined,
+      correctedAnswer: 'The index has 3 shards',
+    });
+  });
+
   it('should render trace icon and call onViewTrace function when clicked', () => {
     const onViewTrace = jest.fn();
     render(<MessageActions showTraceIcon traceInteractionId="trace1" onViewTrace={onViewTrace} />);
@@ -3,14 +3,23 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useCallback } from 'react';
-import { EuiFlexGroup, EuiFlexItem, EuiSmallButtonIcon, EuiCopy, EuiToolTip } from '@elastic/eui';
+import React, { useCallback, useState } from 'react';
+import {
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiSmallButtonIcon,
+  EuiCopy,
+  EuiToolTip,
+  EuiPopover,
+  EuiPopoverTitle,
+} from '@elastic/eui';
 import { i18n } from '@osd/i18n';
 import { IOutput, Interaction } from '../../../../common/types/chat_saved_object_attributes';
 import { useFeedback } from '../../../hooks/use_feed_back';
 import { HttpSetup } from '../../../../../../src/core/public';
 import { DataSourceService } from '../../../services/data_source_service';
 import { UsageCollectionSetup } from '../../../../../../src/plugins/usage_collection/public';
+import { FeedbackDetailsForm } from './feedback_details_form';
 
 interface MessageActionsProps {
   contentToCopy?: string;
@@ -63,12 +72,16 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
     metricAppName
   );
 
+  const [isFeedbackDetailsOpen, setIsFeedbackDetailsOpen] = useState(false);
+
   const handleFeedback = useCallback(
     (correct: boolean) => {
       if (feedbackResult !== undefined) {
         return;
       }
       sendFeedback(correct, message);
+      // ask why the response is bad, the feedback is already sent if the user skips it
+      setIsFeedbackDetailsOpen(!correct);
     },
     [feedbackResult, message, sendFeedback]
   );
@@ -154,15 +167,35 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
     },
     thumbDown: {
       show: showFeedback && feedbackResult !== true,
-      component: renderButtonWithTooltip(
-        feedbackResult === false ? feedbackTip : 'Bad response',
-        <EuiSmallButtonIcon
-          aria-label="feedback thumbs down"
-          color={feedbackResult === false ? 'primary' : 'text'}
-          iconType="thumbsDown"
-          onClick={() => handleFeedback(false)}
-        />,
-        'thumbDown'
+      component: (
+        <EuiPopover
+          button={renderButtonWithTooltip(
+            feedbackResult === false ? feedbackTip : 'Bad response',
+            <EuiSmallButtonIcon
+              aria-label="feedback thumbs down"
+              color={feedbackResult === false ? 'primary' : 'text'}
+              iconType="thumbsDown"
+              onClick={() => handleFeedback(false)}
+            />,
+            'thumbDown'
+          )}
+          isOpen={isFeedbackDetailsOpen}
+          closePopover={() => setIsFeedbackDetailsOpen(false)}
+          anchorPosition="downRight"
+        >
+          <EuiPopoverTitle>
+            {i18n.translate('assistantDashboards.messageActions.feedbackDetailsTitle', {
+              defaultMessage: 'Tell us more',
+            })}
+          </EuiPopoverTitle>
+          <FeedbackDetailsForm
+            onSubmit={(details) => {
+              sendFeedback(false, message, details);
+              setIsFeedbackDetailsOpen(false);
+            }}
+            onCancel={() => setIsFeedbackDetailsOpen(false)}
+          />
+        </EuiPopover>
       ),
     },
     trace: {
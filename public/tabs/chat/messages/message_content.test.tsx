@@ -7,6 +7,7 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import { MessageContent } from './message_content';
 import * as chatContextExports from '../../../contexts/chat_context';
+import * as coreContextExports from '../../../contexts/core_context';
 
 jest.mock('../../../components/core_visualization', () => {
   return {
@@ -14,6 +15,12 @@ jest.mock('../../../components/core_visualization', () => {
   };
 });
 
+jest.mock('../../../components/vega_lite_message', () => {
+  return {
+    VegaLiteMessage: () => <div aria-label="vega lite chart" />,
+  };
+});
+
 describe('<MessageContent />', () => {
   const customizedRenderMock = jest.fn();
 
@@ -77,6 +84,59 @@ describe('<MessageContent />', () => {
     expect(screen.queryAllByText('title')).toHaveLength(1);
   });
 
+  it('should display message(table)', () => {
+    render(
+      <MessageContent
+        message={{
+          type: 'output',
+          contentType: 'table',
+          content: JSON.stringify({
+            columns: [{ name: 'status' }, { name: 'count()' }],
+            rows: [['200', 10]],
+          }),
+        }}
+      />
+    );
+    expect(screen.queryAllByText('count()').length).toBeGreaterThan(0);
+    expect(screen.queryAllByText('200').length).toBeGreaterThan(0);
+    expect(screen.getByText('Download CSV')).toBeInTheDocument();
+  });
+
+  it('should display message(vega_lite)', () => {
+    render(
+      <MessageContent
+        message={{
+          type: 'output',
+          contentType: 'vega_lite',
+          content: JSON.stringify({ mark: 'bar' }),
+        }}
+      />
+    );
+    expect(screen.queryAllByLabelText('vega lite chart')).toHaveLength(1);
+  });
+
+  it('should display message(query)', () => {
+    jest.spyOn(coreContextExports, 'useCore').mockReturnValue({
+      services: { uiSettings: { get: jest.fn().mockReturnValue(false) } },
+    });
+    const { container } = render(
+      <MessageContent
+        message={{
+          type: 'output',
+          contentType: 'query',
+          content: 'source=logs | head 10',
+          metadata: { language: 'PPL', index: 'logs' },
+        }}
+      />
+    );
+    expect(container.querySelector('[data-test-subj="chatQueryBlock"]')?.textContent).toContain(
+      'source=logs | head 10'
+    );
+    expect(screen.getByText('Copy')).toBeInTheDocument();
+    // Discover runs PPL only when the query enhancements are enabled
+    expect(screen.queryByText('Run in Discover')).toBeNull();
+  });
+
   it('should render customized render content', () => {
     render(
       <MessageContent
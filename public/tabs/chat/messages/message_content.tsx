@@ -10,6 +10,9 @@ import { CoreVisualization } from '../../../components/core_visualization';
 import { useChatContext } from '../../../contexts/chat_context';
 import { BlinkCursor } from '../../../components/blink_cursor';
 import { MarkdownWithBlinkCursor } from '../../../components/markdown_with_blink_cursor';
+import { DataTableMessage } from '../../../components/data_table_message';
+import { VegaLiteMessage } from '../../../components/vega_lite_message';
+import { QueryMessage } from '../../../components/query_message';
 
 export interface MessageContentProps {
   message: IMessage;
@@ -49,6 +52,15 @@ export const MessageContent: React.FC<MessageContentProps> = React.memo((props)
         </div>
       );
 
+    case 'table':
+      return <DataTableMessage message={props.message} />;
+
+    case 'vega_lite':
+      return <VegaLiteMessage message={props.message} />;
+
+    case 'query':
+      return <QueryMessage message={props.message} />;
+
     // content types registered by plugins unknown to assistant
     default: {
       const message = props.message as IMessage;
@@ -3,9 +3,19 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { EuiButtonIcon, EuiFlexGroup, EuiFlexItem, EuiIcon } from '@elastic/eui';
-import React from 'react';
+import {
+  copyToClipboard,
+  EuiButtonIcon,
+  EuiFlexGroup,
+  EuiFlexItem,
+  EuiIcon,
+  EuiToolTip,
+} from '@elastic/eui';
+import React, { useCallback } from 'react';
+import { SHARED_CONVERSATION_APP_ID } from '../../common/constants/shared_conversation';
 import { useChatContext } from '../contexts/chat_context';
+import { useCore } from '../contexts/core_context';
+import { useShareConversation } from '../hooks';
 import { ChatWindowHeaderTitle } from '../components/chat_window_header_title';
 import { TAB_ID } from '../utils/constants';
 import { SidecarIconMenu } from '../components/sidecar_icon_menu';
@@ -14,6 +24,32 @@ import { getLogoIcon, getConfigSchema } from '../services';
 export const ChatWindowHeader = React.memo(() => {
   const configSchema = getConfigSchema();
   const chatContext = useChatContext();
+  const core = useCore();
+  const { loading: sharing, shareConversation } = useShareConversation();
+
+  const share = useCallback(async () => {
+    if (!chatContext.conversationId) {
+      return;
+    }
+    try {
+      const { id } = await shareConversation(chatContext.conversationId);
+      copyToClipboard(
+        core.services.application.getUrlForApp(SHARED_CONVERSATION_APP_ID, {
+          path: `/${encodeURIComponent(id)}`,
+          absolute: true,
+        })
+      );
+      core.services.notifications.toasts.addSuccess({
+        title: 'Link copied',
+        text:
+          'Users who can see the saved objects of this tenant or workspace can open a read-only copy of the conversation.',
+      });
+    } catch (error) {
+      core.services.notifications.toasts.addError(error, {
+        title: 'Failed to share the conversation',
+      });
+    }
+  }, [chatContext.conversationId, shareConversation, core.services]);
 
   return (
     <>
@@ -33,6 +69,20 @@ export const ChatWindowHeader = React.memo(() => {
             </EuiFlexItem>
           </EuiFlexGroup>
         </EuiFlexItem>
+        {chatContext.conversationId && (
+          <EuiFlexItem grow={false}>
+            <EuiToolTip content="Copy a link to this conversation">
+              <EuiButtonIcon
+                aria-label="share"
+                iconType="share"
+                size="xs"
+                color="text"
+                isDisabled={sharing}
+                onClick={share}
+              />
+            </EuiToolTip>
+          </EuiFlexItem>
+        )}
         <EuiFlexItem grow={false}>
           {configSchema.chat.showConversationHistory && (
             <EuiButtonIcon
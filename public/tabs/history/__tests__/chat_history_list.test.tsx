@@ -49,6 +49,29 @@ describe('<ChatHistoryList />', () => {
     expect(onChatHistoryTitleClickMock).toHaveBeenCalledWith('1', '', 'foo');
   });
 
+  it('should render the highlighted snippets of search matches', () => {
+    const onChatHistoryMatchClickMock = jest.fn();
+    const { getByText, getByTestId } = render(
+      <ChatHistoryList
+        chatHistories={[
+          {
+            id: '1',
+            title: 'foo',
+            updatedTimeMs: 0,
+            matches: [
+              { interactionId: 'i1', highlights: { response: ['a <mark>bar</mark> chart'] } },
+            ],
+          },
+        ]}
+        onChatHistoryMatchClick={onChatHistoryMatchClickMock}
+      />
+    );
+
+    expect(getByText('bar').tagName).toBe('MARK');
+    fireEvent.click(getByTestId('chatHistoryMatch-i1'));
+    expect(onChatHistoryMatchClickMock).toHaveBeenCalledWith('1', 'foo', 'i1');
+  });
+
   it('should call onChatHistoryEditClick with id and title', () => {
     const onChatHistoryEditClickMock = jest.fn();
     const { getByLabelText } = render(
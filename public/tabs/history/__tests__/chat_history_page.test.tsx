@@ -228,6 +228,34 @@ describe('<ChatHistoryPage />', () => {
     });
   });
 
+  it('should only search the message content for texts of 3 characters or more', async () => {
+    const { renderResult, useCoreMock } = setup();
+    fireEvent.change(renderResult.getByPlaceholderText('Search by conversation name'), {
+      target: { value: 'ba' },
+    });
+    fireEvent.click(renderResult.getByTestId('chatHistorySearchModeSwitch'));
+    await waitFor(() => {
+      expect(useCoreMock.services.http.get).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          query: expect.not.objectContaining({ search: expect.anything() }),
+        })
+      );
+    });
+
+    fireEvent.change(renderResult.getByPlaceholderText('Search in messages'), {
+      target: { value: 'bar' },
+    });
+    await waitFor(() => {
+      expect(useCoreMock.services.http.get).toHaveBeenLastCalledWith(
+        expect.any(String),
+        expect.objectContaining({
+          query: expect.objectContaining({ search: 'bar', searchMode: 'content', page: 1 }),
+        })
+      );
+    });
+  });
+
   it('should call get conversations with new page size', async () => {
     const { renderResult, useCoreMock } = setup();
     fireEvent.click(renderResult.getByTestId('tablePaginationPopoverButton'));
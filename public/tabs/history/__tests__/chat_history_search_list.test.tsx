@@ -131,6 +131,39 @@ describe('<ChatHistorySearchList />', () => {
     });
   });
 
+  it('should switch to content search and load the conversation of a match', () => {
+    const onSearchModeChangeMock = jest.fn();
+    const onLoadChatMock = jest.fn();
+    const { renderResult } = setup({
+      searchMode: 'content',
+      onSearchModeChange: onSearchModeChangeMock,
+      onLoadChat: onLoadChatMock,
+      histories: [
+        {
+          id: '1',
+          title: 'foo',
+          updatedTimeMs: 0,
+          matches: [{ interactionId: 'i1', highlights: { input: ['what is <mark>bar</mark>'] } }],
+        },
+      ],
+    });
+
+    expect(renderResult.getByPlaceholderText('Search in messages')).toBeInTheDocument();
+    fireEvent.click(renderResult.getByTestId('chatHistorySearchModeSwitch'));
+    expect(onSearchModeChangeMock).toHaveBeenCalledWith('title');
+
+    fireEvent.click(renderResult.getByLabelText('Jump to matching message'));
+    expect(onLoadChatMock).toHaveBeenCalledWith('1', '', 'foo', 'i1');
+  });
+
+  it('should tell when only the latest conversations were searched', () => {
+    const { renderResult } = setup({ searchMode: 'content', truncated: true });
+
+    expect(renderResult.getByTestId('chatHistorySearchTruncated')).toHaveTextContent(
+      'Only the latest conversations were searched, older ones may match too.'
+    );
+  });
+
   it('should display empty panel', () => {
     const { renderResult } = setup({
       histories: [],
@@ -15,26 +15,49 @@ import {
 } from '@elastic/eui';
 import moment from 'moment';
 import { getConfigSchema } from '../../services';
+import { SEARCH_HIGHLIGHT_TAGS } from '../../../common/constants/llm';
+import { ConversationSearchMatch } from '../../../common/types/chat_saved_object_attributes';
 
 interface ChatHistory {
   id: string;
   title: string;
   updatedTimeMs: number;
+  matches?: ConversationSearchMatch[];
 }
 
 interface ChatHistoryListItemProps extends ChatHistory {
   hasBottomBorder?: boolean;
   onTitleClick?: (id: string, nextToken: string, title: string) => void;
+  onMatchClick?: (id: string, title: string, interactionId: string) => void;
   onDeleteClick?: (conversation: { id: string }) => void;
   onEditClick?: (conversation: { id: string; title: string }) => void;
 }
 
+/**
+ * Render the matched terms of a search snippet as marks, the rest stays plain text.
+ */
+const renderSnippet = (snippet: string) =>
+  snippet.split(SEARCH_HIGHLIGHT_TAGS.pre).map((part, index) => {
+    if (index === 0) {
+      return part;
+    }
+    const [matched, ...rest] = part.split(SEARCH_HIGHLIGHT_TAGS.post);
+    return (
+      <React.Fragment key={index}>
+        <mark>{matched}</mark>
+        {rest.join(SEARCH_HIGHLIGHT_TAGS.post)}
+      </React.Fragment>
+    );
+  });
+
 export const ChatHistoryListItem = ({
   id,
   title,
   updatedTimeMs,
+  matches,
   hasBottomBorder = true,
   onTitleClick,
+  onMatchClick,
   onDeleteClick,
   onEditClick,
 }: ChatHistoryListItemProps) => {
@@ -76,6 +99,24 @@ export const ChatHistoryListItem = ({
             {moment(updatedTimeMs).format('MMMM D, YYYY')} at{' '}
             {moment(updatedTimeMs).format('h:mm A')}
           </EuiText>
+          {matches?.map(({ interactionId, highlights }) => {
+            const snippet = highlights.input?.[0] ?? highlights.response?.[0];
+            return (
+              snippet && (
+                <EuiLink
+                  key={interactionId}
+                  color="text"
+                  aria-label="Jump to matching message"
+                  data-test-subj={`chatHistoryMatch-${interactionId}`}
+                  onClick={() => onMatchClick?.(id, title, interactionId)}
+                >
+                  <EuiText size="xs">
+                    <p>{renderSnippet(snippet)}</p>
+                  </EuiText>
+                </EuiLink>
+              )
+            );
+          })}
         </EuiFlexItem>
         <EuiFlexItem grow={false}>
           <EuiFlexGroup gutterSize="s" responsive={false}>
@@ -110,6 +151,7 @@ export const ChatHistoryListItem = ({
 export interface ChatHistoryListProps {
   chatHistories: ChatHistory[];
   onChatHistoryTitleClick?: (id: string, title: string) => void;
+  onChatHistoryMatchClick?: (id: string, title: string, interactionId: string) => void;
   onChatHistoryDeleteClick?: (conversation: { id: string }) => void;
   onChatHistoryEditClick?: (conversation: { id: string; title: string }) => void;
 }
@@ -117,6 +159,7 @@ export interface ChatHistoryListProps {
 export const ChatHistoryList = ({
   chatHistories,
   onChatHistoryTitleClick,
+  onChatHistoryMatchClick,
   onChatHistoryEditClick,
   onChatHistoryDeleteClick,
 }: ChatHistoryListProps) => {
@@ -129,8 +172,10 @@ export const ChatHistoryList = ({
             id={item.id}
             title={item.title}
             updatedTimeMs={item.updatedTimeMs}
+            matches={item.matches}
             hasBottomBorder={index + 1 < chatHistories.length}
             onTitleClick={onChatHistoryTitleClick}
+            onMatchClick={onChatHistoryMatchClick}
             onEditClick={onChatHistoryEditClick}
             onDeleteClick={onChatHistoryDeleteClick}
           />
@@ -31,6 +31,41 @@ interface ChatHistoryPageProps {
   className?: string;
 }
 
+interface BulkGetOptions {
+  page: number;
+  perPage: number;
+  fields: string[];
+  sortField: string;
+  sortOrder: string;
+  searchFields: string[];
+  search?: string;
+  searchMode?: 'title' | 'content';
+}
+
+const SEARCH_DEBOUNCE_MS = 150;
+// a content search sends a request per conversation on the ML Commons backend
+const CONTENT_SEARCH_DEBOUNCE_MS = 500;
+const CONTENT_SEARCH_MIN_LENGTH = 3;
+
+/**
+ * Options searching the typed text, shorter texts than the minimum do not search the content
+ */
+const withSearch = (options: BulkGetOptions, searchName: string): BulkGetOptions => {
+  const search =
+    options.searchMode === 'content' && searchName.trim().length < CONTENT_SEARCH_MIN_LENGTH
+      ? ''
+      : searchName;
+  if (options.search === search || (!options.search && search === '')) {
+    return options;
+  }
+  const { search: previousSearch, ...rest } = options;
+  return {
+    ...rest,
+    page: 1,
+    ...(search ? { search } : {}),
+  };
+};
+
 export const ChatHistoryPage: React.FC<ChatHistoryPageProps> = React.memo((props) => {
   const { services } = useCore();
   const { loadChat } = useChatActions();
@@ -43,15 +78,7 @@ export const ChatHistoryPage: React.FC<ChatHistoryPageProps> = React.memo((props
     setTitle,
   } = useChatContext();
   const [searchName, setSearchName] = useState<string>('');
-  const [bulkGetOptions, setBulkGetOptions] = useState<{
-    page: number;
-    perPage: number;
-    fields: string[];
-    sortField: string;
-    sortOrder: string;
-    searchFields: string[];
-    search?: string;
-  }>({
+  const [bulkGetOptions, setBulkGetOptions] = useState<BulkGetOptions>({
     page: 1,
     perPage: 10,
     fields: ['createdTimeMs', 'updatedTimeMs', 'title'],
@@ -70,6 +97,15 @@ export const ChatHistoryPage: React.FC<ChatHistoryPageProps> = React.memo((props
     setSearchName(e.target.value);
   }, []);
 
+  const handleSearchModeChange = useCallback(
+    (searchMode: 'title' | 'content') => {
+      setBulkGetOptions((prevOptions) =>
+        withSearch({ ...prevOptions, page: 1, searchMode }, searchName)
+      );
+    },
+    [searchName]
+  );
+
   const handleItemsPerPageChange = useCallback((itemsPerPage: number) => {
     setBulkGetOptions((prevOptions) => ({ ...prevOptions, page: 1, perPage: itemsPerPage }));
   }, []);
@@ -99,19 +135,9 @@ export const ChatHistoryPage: React.FC<ChatHistoryPageProps> = React.memo((props
 
   useDebounce(
     () => {
-      setBulkGetOptions((prevOptions) => {
-        if (prevOptions.search === searchName || (!prevOptions.search && searchName === '')) {
-          return prevOptions;
-        }
-        const { search, ...rest } = prevOptions;
-        return {
-          ...rest,
-          page: 1,
-          ...(searchName ? { search: searchName } : {}),
-        };
-      });
+      setBulkGetOptions((prevOptions) => withSearch(prevOptions, searchName));
     },
-    150,
+    bulkGetOptions.searchMode === 'content' ? CONTENT_SEARCH_DEBOUNCE_MS : SEARCH_DEBOUNCE_MS,
     [searchName]
   );
 
@@ -178,8 +204,11 @@ export const ChatHistoryPage: React.FC<ChatHistoryPageProps> = React.memo((props
           ) : (
             <ChatHistorySearchList
               search={searchName}
+              searchMode={bulkGetOptions.searchMode}
+              truncated={!!bulkGetOptions.search && conversations?.truncated}
               loading={loading}
               onSearchChange={handleSearchChange}
+              onSearchModeChange={handleSearchModeChange}
               onLoadChat={loadChat}
               onRefresh={services.conversations.reload}
               histories={chatHistories}
@@ -8,6 +8,7 @@ import {
   EuiFieldSearchProps,
   EuiPanel,
   EuiSpacer,
+  EuiSwitch,
   EuiTablePagination,
   EuiTablePaginationProps,
   EuiText,
@@ -24,16 +25,29 @@ export interface ChatHistorySearchListProps
     'activePage' | 'itemsPerPage' | 'onChangeItemsPerPage' | 'onChangePage' | 'pageCount'
   > {
   search?: string;
+  searchMode?: 'title' | 'content';
+  /**
+   * Only the latest conversations were searched
+   */
+  truncated?: boolean;
   loading: boolean;
   histories: ChatHistoryListProps['chatHistories'];
   onSearchChange: EuiFieldSearchProps['onChange'];
-  onLoadChat: (conversationId?: string | undefined, title?: string | undefined) => void;
+  onSearchModeChange?: (searchMode: 'title' | 'content') => void;
+  onLoadChat: (
+    conversationId?: string,
+    nextToken?: string,
+    title?: string,
+    interactionId?: string
+  ) => void;
   onRefresh: () => void;
   onHistoryDeleted: (id: string) => void;
 }
 
 export const ChatHistorySearchList = ({
   search,
+  searchMode = 'title',
+  truncated,
   loading,
   histories,
   pageCount,
@@ -43,6 +57,7 @@ export const ChatHistorySearchList = ({
   onLoadChat,
   onChangePage,
   onSearchChange,
+  onSearchModeChange,
   onHistoryDeleted,
   onChangeItemsPerPage,
 }: ChatHistorySearchListProps) => {
@@ -79,14 +94,43 @@ export const ChatHistorySearchList = ({
     },
     [setDeletingConversation, onRefresh, deletingConversation, onHistoryDeleted]
   );
+
+  const handleMatchClick = useCallback(
+    (id: string, title: string, interactionId: string) => {
+      onLoadChat(id, '', title, interactionId);
+    },
+    [onLoadChat]
+  );
   return (
     <>
       <EuiCompressedFieldSearch
-        placeholder="Search by conversation name"
+        placeholder={
+          searchMode === 'content' ? 'Search in messages' : 'Search by conversation name'
+        }
         value={search}
         onChange={onSearchChange}
         fullWidth
       />
+      {onSearchModeChange && (
+        <>
+          <EuiSpacer size="s" />
+          <EuiSwitch
+            compressed
+            label="Search message content"
+            checked={searchMode === 'content'}
+            onChange={(e) => onSearchModeChange(e.target.checked ? 'content' : 'title')}
+            data-test-subj="chatHistorySearchModeSwitch"
+          />
+        </>
+      )}
+      {truncated && (
+        <>
+          <EuiSpacer size="s" />
+          <EuiText size="xs" color="subdued" data-test-subj="chatHistorySearchTruncated">
+            <p>Only the latest conversations were searched, older ones may match too.</p>
+          </EuiText>
+        </>
+      )}
       <EuiSpacer size="s" />
       <EuiSpacer size="xs" />
       {!loading && histories.length === 0 ? (
@@ -101,6 +145,7 @@ export const ChatHistorySearchList = ({
           <ChatHistoryList
             chatHistories={histories}
             onChatHistoryTitleClick={onLoadChat}
+            onChatHistoryMatchClick={handleMatchClick}
             onChatHistoryEditClick={setEditingConversation}
             onChatHistoryDeleteClick={setDeletingConversation}
           />
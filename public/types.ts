@@ -8,7 +8,11 @@ import { EmbeddableSetup, EmbeddableStart } from '../../../src/plugins/embeddabl
 import { IMessage, ISuggestedAction } from '../common/types/chat_saved_object_attributes';
 import { IChatContext } from './contexts/chat_context';
 import { MessageContentProps } from './tabs/chat/messages/message_content';
-import { DataSourceServiceContract, IncontextInsightRegistry } from './services';
+import {
+  DataSourceServiceContract,
+  FrontendContextualChatServiceRegistry,
+  IncontextInsightRegistry,
+} from './services';
 import { DataSourceManagementPluginSetup } from '../../../src/plugins/data_source_management/public';
 import {
   VisualizationsSetup,
@@ -91,6 +95,12 @@ export interface AssistantSetup {
   assistantActions: Omit<AssistantActions, 'executeAction'>;
   assistantTriggers: { AI_ASSISTANT_QUERY_EDITOR_TRIGGER: string };
   registerIncontextInsight: IncontextInsightRegistry['register'];
+  /**
+   * Register an extractor of the page content sent to the assistant, it takes
+   * precedence over the built-in extractors.
+   */
+  registerContentExtractor: FrontendContextualChatServiceRegistry['registerContentExtractor'];
+  unregisterContentExtractor: FrontendContextualChatServiceRegistry['unregisterContentExtractor'];
   renderIncontextInsight: (component: React.ReactNode) => React.ReactElement;
 }
 
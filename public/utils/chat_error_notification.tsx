@@ -0,0 +1,79 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { EuiFlexGroup, EuiFlexItem, EuiSmallButton, EuiText } from '@elastic/eui';
+import { IToasts, Toast } from '../../../../src/core/public';
+import { toMountPoint } from '../../../../src/plugins/opensearch_dashboards_react/public';
+import {
+  ContextIssueNotification,
+  ContextualChatErrorType,
+} from '../../common/types/error_handling';
+import { ContextualChatErrorHandler } from '../../common/utils/error_handling/contextual_chat_error_handler';
+
+const TOAST_COLORS = {
+  error: 'danger',
+  warning: 'warning',
+  info: 'primary',
+} as const;
+
+// notifications with actions stay until the user picks one or closes them
+const PERSISTENT_TOAST_LIFETIME_MS = 60 * 60 * 1000;
+
+export const showContextIssueNotification = (
+  toasts: IToasts,
+  notification: ContextIssueNotification
+): Toast => {
+  const actions = notification.actions ?? [];
+  const toast: Toast = toasts.add({
+    title: notification.title,
+    color: TOAST_COLORS[notification.type],
+    iconType: notification.type === 'info' ? 'iInCircle' : 'alert',
+    text: toMountPoint(
+      <>
+        <EuiText size="s">
+          <p>{notification.message}</p>
+        </EuiText>
+        {actions.length > 0 && (
+          <EuiFlexGroup justifyContent="flexEnd" gutterSize="s">
+            {actions.map(({ label, action }) => (
+              <EuiFlexItem grow={false} key={label}>
+                <EuiSmallButton
+                  onClick={() => {
+                    toasts.remove(toast);
+                    action();
+                  }}
+                >
+                  {label}
+                </EuiSmallButton>
+              </EuiFlexItem>
+            ))}
+          </EuiFlexGroup>
+        )}
+      </>
+    ),
+    toastLifeTimeMs: notification.autoHide ? notification.duration : PERSISTENT_TOAST_LIFETIME_MS,
+  });
+  return toast;
+};
+
+/**
+ * Tell the user a chat request failed, with buttons to recover from it when the error allows it.
+ * Requests cancelled by the user are not reported.
+ */
+export const notifyChatError = (
+  toasts: IToasts,
+  error: unknown,
+  actions: { retry?: () => void; withoutContext?: () => void }
+) => {
+  const errorHandler = new ContextualChatErrorHandler({
+    notify: (notification) => showContextIssueNotification(toasts, notification),
+  });
+  const contextualError = errorHandler.toContextualError(error);
+  if (contextualError.type === ContextualChatErrorType.REQUEST_CANCELLED) {
+    return;
+  }
+  errorHandler.notifyUser(errorHandler.createNotification(contextualError, actions));
+};
@@ -0,0 +1,28 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ITableContent } from '../../common/types/chat_saved_object_attributes';
+
+const escapeCsvValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (table: ITableContent) =>
+  [table.columns.map(({ name }) => name), ...table.rows]
+    .map((row) => row.map(escapeCsvValue).join(','))
+    .join('\n');
+
+export const downloadCsv = (table: ITableContent, filename: string) => {
+  const url = URL.createObjectURL(new Blob([toCsv(table)], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
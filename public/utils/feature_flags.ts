@@ -0,0 +1,16 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Capabilities } from '../../../../src/core/public';
+import { FeatureFlagKey } from '../../common/constants/contextual_chat';
+
+/**
+ * Whether a feature flag is on for the current user, flags are evaluated by the server
+ * in `assistant.featureFlags` of the UI capabilities and are off when they are missing.
+ */
+export const isFeatureFlagEnabled = (capabilities: Capabilities, flagKey: FeatureFlagKey) => {
+  const featureFlags = capabilities.assistant?.featureFlags;
+  return typeof featureFlags === 'object' && featureFlags[flagKey] === true;
+};
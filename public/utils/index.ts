@@ -6,3 +6,4 @@
 export * from './notebook';
 export * from './find_last_index';
 export * from './alerting';
+export * from './feature_flags';
@@ -5,11 +5,13 @@
 
 import { Task } from './task';
 import { DataPublicPluginStart } from '../../../../../src/plugins/data/public';
+import { QueryLanguage } from './query_language';
 
 interface Input {
   ppl: string;
   dataSourceId: string | undefined;
   timeFieldName?: string;
+  language?: QueryLanguage;
 }
 
 export class PPLAggsAutoSuggestTask extends Task<Input, Input> {
@@ -24,7 +26,8 @@ export class PPLAggsAutoSuggestTask extends Task<Input, Input> {
   async execute<T extends Input>(v: T) {
     let ppl = v.ppl;
 
-    if (ppl) {
+    // aggregations are only suggested in PPL
+    if (ppl && (v.language ?? 'PPL') === 'PPL') {
       const pplHasAgg = this.pplHasAggregation(ppl);
 
       if (!pplHasAgg) {
@@ -0,0 +1,71 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { of, throwError } from 'rxjs';
+import { DataPublicPluginStart } from '../../../../../src/plugins/data/public';
+import { PPLDryRunTask } from './ppl_dry_run_task';
+
+describe('PPLDryRunTask', () => {
+  let pplDryRunTask: PPLDryRunTask;
+  let mockSearchClient: DataPublicPluginStart['search'];
+
+  beforeEach(() => {
+    mockSearchClient = {
+      search: jest.fn(),
+    };
+    pplDryRunTask = new PPLDryRunTask(mockSearchClient);
+  });
+
+  it('should run the query with one result through the pplraw strategy', async () => {
+    mockSearchClient.search.mockReturnValue(of({ rawResponse: { total: 1 } }));
+
+    const result = await pplDryRunTask.dryRun('source = test', 'test-source');
+
+    expect(result).toEqual({ valid: true, hasResults: true });
+    expect(mockSearchClient.search).toHaveBeenCalledWith(
+      { params: { body: { query: 'source = test | head 1' } }, dataSourceId: 'test-source' },
+      { strategy: 'pplraw' }
+    );
+  });
+
+  it('should run a SQL query through the sqlraw strategy', async () => {
+    mockSearchClient.search.mockReturnValue(of({ rawResponse: { total: 0 } }));
+
+    const result = await pplDryRunTask.dryRun('SELECT * FROM test LIMIT 100', undefined, 'SQL');
+
+    expect(result).toEqual({ valid: true, hasResults: false });
+    expect(mockSearchClient.search).toHaveBeenCalledWith(
+      { params: { body: { query: 'SELECT * FROM test LIMIT 1' } }, dataSourceId: undefined },
+      { strategy: 'sqlraw' }
+    );
+  });
+
+  it('should report the reason of an invalid query', async () => {
+    mockSearchClient.search.mockReturnValue(
+      throwError({ body: { message: 'Field [foo] not found' } })
+    );
+
+    const result = await pplDryRunTask.dryRun('source = test | where foo > 1');
+
+    expect(result).toEqual({
+      valid: false,
+      error: "Invalid query: 'source = test | where foo > 1'. Field [foo] not found",
+    });
+  });
+
+  it('should not run an empty query', async () => {
+    await expect(pplDryRunTask.execute({ ppl: ' ', dataSourceId: undefined })).rejects.toThrow(
+      'The query is empty.'
+    );
+    expect(mockSearchClient.search).not.toHaveBeenCalled();
+  });
+
+  it('should pass the input on to the next task when the query is valid', async () => {
+    mockSearchClient.search.mockReturnValue(of({ rawResponse: { total: 0 } }));
+    const input = { ppl: 'source = test', dataSourceId: undefined };
+
+    await expect(pplDryRunTask.execute(input)).resolves.toBe(input);
+  });
+});
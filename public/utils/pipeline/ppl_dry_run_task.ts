@@ -0,0 +1,67 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Task } from './task';
+import { DataPublicPluginStart } from '../../../../../src/plugins/data/public';
+import { QUERY_LANGUAGES, QueryLanguage } from './query_language';
+
+interface Input {
+  ppl: string;
+  dataSourceId: string | undefined;
+  language?: QueryLanguage;
+}
+
+export type PPLDryRunResult =
+  | { valid: true; hasResults: boolean }
+  | { valid: false; error: string };
+
+/**
+ * Checks the query runs before charting it, the query may have been edited by the user
+ */
+export class PPLDryRunTask extends Task<Input, Input> {
+  searchClient: DataPublicPluginStart['search'];
+
+  constructor(searchClient: DataPublicPluginStart['search']) {
+    super();
+    this.searchClient = searchClient;
+  }
+
+  async execute<T extends Input>(v: T) {
+    const result = await this.dryRun(v.ppl, v.dataSourceId, v.language);
+    if (!result.valid) {
+      throw new Error(result.error);
+    }
+    return v;
+  }
+
+  async dryRun(
+    ppl: string,
+    dataSourceId?: string,
+    language: QueryLanguage = 'PPL'
+  ): Promise<PPLDryRunResult> {
+    if (!ppl.trim()) {
+      return { valid: false, error: 'The query is empty.' };
+    }
+    const config = QUERY_LANGUAGES[language];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    let res: any;
+    try {
+      res = await this.searchClient
+        .search(
+          { params: { body: { query: config.limit(ppl, 1) } }, dataSourceId },
+          { strategy: config.searchStrategy }
+        )
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .toPromise<any>();
+    } catch (e) {
+      const reason = e?.body?.message ?? e?.message;
+      return {
+        valid: false,
+        error: reason ? `Invalid query: '${ppl}'. ${reason}` : `Invalid query: '${ppl}'.`,
+      };
+    }
+    return { valid: true, hasResults: res.rawResponse.total > 0 };
+  }
+}
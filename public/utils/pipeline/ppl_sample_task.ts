@@ -5,15 +5,15 @@
 
 import { Task } from './task';
 import { DataPublicPluginStart } from '../../../../../src/plugins/data/public';
+import { QUERY_LANGUAGES, QueryLanguage } from './query_language';
 
 interface Input {
   ppl: string;
   dataSourceId: string | undefined;
   pplSampleSize?: number;
+  language?: QueryLanguage;
 }
 
-const topN = (ppl: string, n: number = 2) => `${ppl} | head ${n}`;
-
 export class PPLSampleTask extends Task<Input, Input & { sample: string }> {
   searchClient: DataPublicPluginStart['search'];
 
@@ -23,14 +23,15 @@ export class PPLSampleTask extends Task<Input, Input & { sample: string }> {
   }
 
   async execute<T extends Input>(v: T) {
-    const ppl = topN(v.ppl, v.pplSampleSize);
+    const config = QUERY_LANGUAGES[v.language ?? 'PPL'];
+    const ppl = config.limit(v.ppl, v.pplSampleSize ?? 2);
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let res: any;
     try {
       res = await this.searchClient
         .search(
           { params: { body: { query: ppl } }, dataSourceId: v.dataSourceId },
-          { strategy: 'pplraw' }
+          { strategy: config.searchStrategy }
         )
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         .toPromise<any>();
@@ -0,0 +1,23 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { QUERY_LANGUAGES, toQueryLanguage } from './query_language';
+
+describe('query language', () => {
+  it('should only generate PPL and SQL', () => {
+    expect(toQueryLanguage('ppl')).toBe('PPL');
+    expect(toQueryLanguage('SQL')).toBe('SQL');
+    expect(toQueryLanguage('kuery')).toBeUndefined();
+    expect(toQueryLanguage()).toBeUndefined();
+  });
+
+  it('should limit the results of a query', () => {
+    expect(QUERY_LANGUAGES.PPL.limit('source = logs', 10)).toBe('source = logs | head 10');
+    expect(QUERY_LANGUAGES.SQL.limit('SELECT * FROM logs', 10)).toBe('SELECT * FROM logs LIMIT 10');
+    expect(QUERY_LANGUAGES.SQL.limit('SELECT * FROM logs limit 500;', 1)).toBe(
+      'SELECT * FROM logs LIMIT 1'
+    );
+  });
+});
@@ -0,0 +1,52 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { TEXT2VIZ_API } from '../../../common/constants/llm';
+
+export type QueryLanguage = 'PPL' | 'SQL';
+
+interface QueryLanguageConfig {
+  // the route generating a query from a question, and the field of the query in its response
+  text2QueryApi: string;
+  responseField: 'ppl' | 'sql';
+  // the field of the query refined by a follow-up request in the request body
+  previousQueryField: 'previous_ppl' | 'previous_sql';
+  // search strategy responding with the raw response of the query
+  searchStrategy: string;
+  // `%type%` of the Vega data url running the query
+  dataUrlType: string;
+  limit: (query: string, size: number) => string;
+}
+
+const SQL_LIMIT_REGEX = /\s+limit\s+\d+\s*;?\s*$/i;
+
+export const QUERY_LANGUAGES: Record<QueryLanguage, QueryLanguageConfig> = {
+  PPL: {
+    text2QueryApi: TEXT2VIZ_API.TEXT2PPL,
+    responseField: 'ppl',
+    previousQueryField: 'previous_ppl',
+    searchStrategy: 'pplraw',
+    dataUrlType: 'ppl',
+    limit: (query, size) => `${query} | head ${size}`,
+  },
+  SQL: {
+    text2QueryApi: TEXT2VIZ_API.TEXT2SQL,
+    responseField: 'sql',
+    previousQueryField: 'previous_sql',
+    searchStrategy: 'sqlraw',
+    dataUrlType: 'sql',
+    limit: (query, size) =>
+      `${query.replace(SQL_LIMIT_REGEX, '').replace(/;\s*$/, '')} LIMIT ${size}`,
+  },
+};
+
+/**
+ * The language a visualization is generated in, from the language of the query of a dataset.
+ * Undefined for the languages Text2Viz does not generate, like DQL and Lucene.
+ */
+export const toQueryLanguage = (language?: string): QueryLanguage | undefined => {
+  const upperCased = language?.toUpperCase();
+  return upperCased === 'PPL' || upperCased === 'SQL' ? upperCased : undefined;
+};
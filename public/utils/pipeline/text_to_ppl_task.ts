@@ -5,13 +5,18 @@
 
 import { HttpSetup } from '../../../../../src/core/public';
 import { Task } from './task';
-import { TEXT2VIZ_API } from '../../../common/constants/llm';
+import { QUERY_LANGUAGES, QueryLanguage } from './query_language';
 
 interface Input {
   inputQuestion: string;
   index: string;
   dataSourceId?: string;
   timeFieldName?: string;
+  // a follow-up request refining previousPPL
+  inputInstruction?: string;
+  previousPPL?: string;
+  // the query is generated in the language of the dataset, PPL by default
+  language?: QueryLanguage;
 }
 
 export class Text2PPLTask extends Task<Input, Input & { ppl: string }> {
@@ -25,24 +30,46 @@ export class Text2PPLTask extends Task<Input, Input & { ppl: string }> {
   async execute<T extends Input>(v: T) {
     let ppl = '';
     try {
-      ppl = await this.text2ppl(v.inputQuestion, v.index, v.dataSourceId);
+      ppl = await this.text2ppl(
+        v.inputQuestion,
+        v.index,
+        v.dataSourceId,
+        // without an instruction, the question refines the previous query, i.e. a saved search
+        v.previousPPL
+          ? { instruction: v.inputInstruction || v.inputQuestion, previousPPL: v.previousPPL }
+          : undefined,
+        v.language
+      );
     } catch (e) {
       throw new Error(
-        `Error while generating PPL query with input: ${v.inputQuestion}. Please try rephrasing your question.`
+        `Error while generating ${v.language ?? 'PPL'} query with input: ${
+          v.inputQuestion
+        }. Please try rephrasing your question.`
       );
     }
 
     return { ...v, ppl };
   }
 
-  async text2ppl(query: string, index: string, dataSourceId?: string) {
-    const res = await this.http.post(TEXT2VIZ_API.TEXT2PPL, {
+  async text2ppl(
+    query: string,
+    index: string,
+    dataSourceId?: string,
+    refinement?: { instruction?: string; previousPPL: string },
+    language: QueryLanguage = 'PPL'
+  ) {
+    const config = QUERY_LANGUAGES[language];
+    const res = await this.http.post(config.text2QueryApi, {
       body: JSON.stringify({
         question: query,
         index,
+        ...(!!refinement?.instruction && {
+          instruction: refinement.instruction,
+          [config.previousQueryField]: refinement.previousPPL,
+        }),
       }),
       query: { dataSourceId },
     });
-    return res.ppl;
+    return res[config.responseField];
   }
 }
@@ -115,4 +115,23 @@ describe('Text2VegaTask', () => {
       data_source_name: 'mocked_data_source_name',
     });
   });
+
+  it('should send the previous specification without its data with a follow-up request', async () => {
+    const httpMock = httpServiceMock.createStartContract();
+    const savedObjectsMock = savedObjectsServiceMock.createStartContract();
+    httpMock.post.mockResolvedValue({ mark: 'bar' });
+
+    const task = new Text2VegaTask(httpMock, savedObjectsMock);
+    await task.text2vega({
+      inputQuestion: 'mock question',
+      inputInstruction: 'make it a stacked bar',
+      ppl: 'source=mock_source',
+      sampleData: '',
+      dataSchema: '',
+      previousVega: { mark: 'line', data: { url: { body: { query: 'source=mock_source' } } } },
+    });
+
+    const body = JSON.parse(httpMock.post.mock.calls[0][1]?.body as string);
+    expect(JSON.parse(body.previous_vega)).toEqual({ mark: 'line' });
+  });
 });
@@ -7,6 +7,7 @@ import { Task } from './task';
 import { HttpSetup, SavedObjectsStart } from '../../../../../src/core/public';
 import { TEXT2VIZ_API } from '../../../common/constants/llm';
 import { DataSourceAttributes } from '../../../../../src/plugins/data_source/common/data_sources';
+import { QUERY_LANGUAGES, QueryLanguage } from './query_language';
 
 interface Input {
   inputQuestion: string;
@@ -16,6 +17,10 @@ interface Input {
   sample: any;
   dataSourceId: string | undefined;
   timeFieldName?: string;
+  language?: QueryLanguage;
+  // the specification refined by inputInstruction
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  previousVega?: any;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -37,11 +42,12 @@ export class Text2VegaTask extends Task<Input, Input & { vega: any }> {
       sampleData: JSON.stringify(v.sample.jsonData),
       dataSchema: JSON.stringify(v.sample.schema),
       dataSourceId: v.dataSourceId,
+      previousVega: v.previousVega,
     });
     const dataSourceName = await this.getDataSourceNameById(v.dataSourceId);
     result.data = {
       url: {
-        '%type%': 'ppl',
+        '%type%': QUERY_LANGUAGES[v.language ?? 'PPL'].dataUrlType,
         body: { query: v.ppl },
       },
     };
@@ -63,6 +69,7 @@ export class Text2VegaTask extends Task<Input, Input & { vega: any }> {
     sampleData,
     dataSchema,
     dataSourceId,
+    previousVega,
   }: {
     inputQuestion: string;
     inputInstruction?: string;
@@ -70,6 +77,8 @@ export class Text2VegaTask extends Task<Input, Input & { vega: any }> {
     sampleData: string;
     dataSchema: string;
     dataSourceId?: string;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    previousVega?: any;
   }) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const escapeField = (json: any, field: string) => {
@@ -92,6 +101,11 @@ export class Text2VegaTask extends Task<Input, Input & { vega: any }> {
         ppl,
         sampleData: JSON.stringify(sampleData),
         dataSchema: JSON.stringify(dataSchema),
+        ...(previousVega &&
+          !!inputInstruction.trim() && {
+            // the data is set again from the new query
+            previous_vega: JSON.stringify({ ...previousVega, data: undefined }),
+          }),
       }),
       query: { dataSourceId },
     });
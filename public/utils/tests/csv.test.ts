@@ -0,0 +1,29 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { toCsv } from '../csv';
+
+describe('toCsv', () => {
+  it('should write the column names then the rows', () => {
+    expect(
+      toCsv({
+        columns: [{ name: 'status' }, { name: 'count()' }],
+        rows: [
+          ['200', 10],
+          ['500', 2],
+        ],
+      })
+    ).toBe('status,count()\n200,10\n500,2');
+  });
+
+  it('should quote values with separators and serialize objects', () => {
+    expect(
+      toCsv({
+        columns: [{ name: 'message' }, { name: 'tags' }, { name: 'user' }],
+        rows: [['say "hi", bye', ['a', 'b'], null]],
+      })
+    ).toBe('message,tags,user\n"say ""hi"", bye","[""a"",""b""]",');
+  });
+});
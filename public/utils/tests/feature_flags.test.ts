@@ -0,0 +1,29 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Capabilities } from '../../../../../src/core/public';
+import { FEATURE_FLAGS } from '../../../common/constants/contextual_chat';
+import { isFeatureFlagEnabled } from '../feature_flags';
+
+const capabilitiesOf = (assistant: Capabilities[string]) =>
+  ({ navLinks: {}, management: {}, catalogue: {}, assistant } as Capabilities);
+
+describe('isFeatureFlagEnabled', () => {
+  it('should read the flags of the assistant capabilities', () => {
+    const capabilities = capabilitiesOf({
+      enabled: true,
+      featureFlags: { content_extraction_enabled: true, dom_observation_enabled: false },
+    });
+
+    expect(isFeatureFlagEnabled(capabilities, FEATURE_FLAGS.CONTENT_EXTRACTION)).toBe(true);
+    expect(isFeatureFlagEnabled(capabilities, FEATURE_FLAGS.DOM_OBSERVATION)).toBe(false);
+  });
+
+  it('should consider missing flags off', () => {
+    expect(
+      isFeatureFlagEnabled(capabilitiesOf({ enabled: true }), FEATURE_FLAGS.CONTENT_EXTRACTION)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  convertNLQVisualization,
+  getConversionTargets,
+  parsePPLAggregation,
+  toVisualizationSavedObject,
+} from './convert_visualization';
+
+const specOf = (query: string) => ({
+  mark: 'line',
+  data: { url: { '%type%': 'ppl', body: { query } } },
+  encoding: {},
+});
+
+const visualizationStateOf = (query: string) =>
+  JSON.stringify({ title: 'logs', type: 'vega-lite', params: { spec: specOf(query) } });
+
+describe('convert NLQ visualization', () => {
+  it('should parse the aggregation of a PPL query', () => {
+    expect(parsePPLAggregation('source = logs | stats count() by span(timestamp, 1h)')).toEqual({
+      metric: { type: 'count' },
+      bucket: { type: 'date_histogram', field: 'timestamp', interval: '1h' },
+    });
+    expect(parsePPLAggregation('source=logs | stats avg(bytes) as avg by `geo.country`')).toEqual({
+      metric: { type: 'avg', field: 'bytes' },
+      bucket: { type: 'terms', field: 'geo.country' },
+    });
+    expect(parsePPLAggregation('source = logs | stats sum(bytes)')).toEqual({
+      metric: { type: 'sum', field: 'bytes' },
+    });
+    expect(
+      parsePPLAggregation('source = logs | where status = 500 | stats count()')
+    ).toBeUndefined();
+  });
+
+  it('should only convert to native types with an index pattern and a supported query', () => {
+    const timeSeries = specOf('source = logs | stats count() by span(timestamp, 1d)');
+    expect(getConversionTargets(timeSeries, true)).toEqual(['vega', 'line', 'histogram']);
+    expect(getConversionTargets(timeSeries, false)).toEqual(['vega']);
+    expect(getConversionTargets(specOf('source = logs | stats count()'), true)).toEqual([
+      'vega',
+      'metric',
+    ]);
+    expect(getConversionTargets(specOf('source = logs | head 10'), true)).toEqual(['vega']);
+  });
+
+  it('should keep the PPL data url of a Vega visualization', () => {
+    const { attributes, references } = toVisualizationSavedObject({
+      title: 'Logs',
+      visualizationState: visualizationStateOf('source = logs | stats count()'),
+      target: 'vega',
+    });
+    const visState = JSON.parse(attributes.visState);
+
+    expect(visState.type).toBe('vega');
+    expect(JSON.parse(visState.params.spec)).toEqual({
+      $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+      ...specOf('source = logs | stats count()'),
+    });
+    expect(references).toEqual([]);
+  });
+
+  it('should run the aggregation on the index pattern of a line chart', () => {
+    const { attributes, references } = toVisualizationSavedObject({
+      title: 'Logs',
+      visualizationState: visualizationStateOf(
+        'source = logs | stats max(bytes) by span(timestamp, 1q)'
+      ),
+      target: 'line',
+      indexPatternId: 'index-pattern-1',
+    });
+
+    expect(JSON.parse(attributes.visState)).toEqual({
+      title: 'Logs',
+      type: 'line',
+      params: {},
+      aggs: [
+        { id: '1', enabled: true, type: 'max', schema: 'metric', params: { field: 'bytes' } },
+        {
+          id: '2',
+          enabled: true,
+          type: 'date_histogram',
+          schema: 'segment',
+          params: { field: 'timestamp', interval: '3M', min_doc_count: 1 },
+        },
+      ],
+    });
+    expect(references).toEqual([
+      {
+        name: 'kibanaSavedObjectMeta.searchSourceJSON.index',
+        type: 'index-pattern',
+        id: 'index-pattern-1',
+      },
+    ]);
+  });
+
+  it('should not convert to a type the query does not allow', () => {
+    expect(() =>
+      toVisualizationSavedObject({
+        title: 'Logs',
+        visualizationState: visualizationStateOf('source = logs | stats count()'),
+        target: 'line',
+        indexPatternId: 'index-pattern-1',
+      })
+    ).toThrow('The visualization can not be converted to line.');
+  });
+
+  it('should create the visualization and replace the panel on the dashboards', async () => {
+    const savedObjectsClient = {
+      get: jest.fn().mockImplementation(async (type: string) =>
+        type === 'dashboard'
+          ? {
+              attributes: { title: 'Dashboard' },
+              version: 'v1',
+              references: [
+                { name: 'panel_0', type: 'visualization-nlq', id: 'nlq-1' },
+                { name: 'panel_1', type: 'visualization', id: 'other' },
+              ],
+            }
+          : {
+              attributes: {
+                visualizationState: visualizationStateOf('source = logs | stats count()'),
+              },
+              references: [],
+            }
+      ),
+      create: jest.fn().mockResolvedValue({ id: 'vis-1' }),
+      update: jest.fn().mockResolvedValue({}),
+    };
+
+    const visualization = await convertNLQVisualization(savedObjectsClient, {
+      id: 'nlq-1',
+      title: 'Logs',
+      target: 'vega',
+      dashboardIds: ['dashboard-1'],
+    });
+
+    expect(visualization.id).toBe('vis-1');
+    expect(savedObjectsClient.create).toHaveBeenCalledWith(
+      'visualization',
+      expect.objectContaining({ title: 'Logs' }),
+      { references: [] }
+    );
+    expect(savedObjectsClient.update).toHaveBeenCalledWith(
+      'dashboard',
+      'dashboard-1',
+      { title: 'Dashboard' },
+      {
+        version: 'v1',
+        references: [
+          { name: 'panel_0', type: 'visualization', id: 'vis-1' },
+          { name: 'panel_1', type: 'visualization', id: 'other' },
+        ],
+      }
+    );
+  });
+});
@@ -0,0 +1,268 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SavedObjectReference, SavedObjectsClientContract } from '../../../../src/core/public';
+import { VIS_NLQ_SAVED_OBJECT } from '../../common/constants/vis_type_nlq';
+
+export const VISUALIZATION_SAVED_OBJECT = 'visualization';
+const INDEX_PATTERN_REF_NAME = 'kibanaSavedObjectMeta.searchSourceJSON.index';
+const VEGA_LITE_SCHEMA = 'https://vega.github.io/schema/vega-lite/v5.json';
+
+/**
+ * The visualization types of the Visualize editor a NLQ visualization is converted into
+ */
+export type ConversionTarget = 'vega' | 'line' | 'histogram' | 'metric';
+
+interface VisAggregation {
+  id: string;
+  enabled: boolean;
+  type: string;
+  schema: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  params: Record<string, any>;
+}
+
+/**
+ * The aggregation of a PPL query the native visualizations can run, `source = <index> | stats
+ * <metric> [by span(<field>, <interval>) | by <field>]`. Filters and other commands are not
+ * translated, the visualizations of such queries are only converted to Vega.
+ */
+export interface PPLAggregation {
+  metric: { type: string; field?: string };
+  bucket?:
+    | { type: 'date_histogram'; field: string; interval: string }
+    | { type: 'terms'; field: string };
+}
+
+const FIELD = '`?([\\w.@-]+)`?';
+const ALIAS = '(?:\\s+as\\s+`?[\\w.@-]+`?)?';
+const STATS_REGEX = new RegExp(
+  `^\\s*source\\s*=\\s*\\S+\\s*\\|\\s*stats\\s+(?:count\\(\\s*\\)|(avg|sum|min|max)\\(\\s*${FIELD}\\s*\\))${ALIAS}` +
+    `(?:\\s+by\\s+(?:span\\(\\s*${FIELD}\\s*,\\s*(\\d+)\\s*(ms|[smhdwMqy])\\s*\\)${ALIAS}|${FIELD}))?\\s*$`
+);
+
+export const parsePPLAggregation = (ppl: string): PPLAggregation | undefined => {
+  const match = ppl.match(STATS_REGEX);
+  if (!match) {
+    return undefined;
+  }
+  const [, metricType, metricField, spanField, spanValue, spanUnit, termsField] = match;
+  const aggregation: PPLAggregation = {
+    metric: metricType ? { type: metricType.toLowerCase(), field: metricField } : { type: 'count' },
+  };
+  if (spanField) {
+    // date histograms have no millisecond and quarter intervals
+    if (spanUnit === 'ms') {
+      return undefined;
+    }
+    const interval = spanUnit === 'q' ? `${Number(spanValue) * 3}M` : `${spanValue}${spanUnit}`;
+    aggregation.bucket = { type: 'date_histogram', field: spanField, interval };
+  } else if (termsField) {
+    aggregation.bucket = { type: 'terms', field: termsField };
+  }
+  return aggregation;
+};
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export const getVisualizationQuery = (spec: any): string | undefined => {
+  const query = spec?.data?.url?.body?.query;
+  return typeof query === 'string' ? query : undefined;
+};
+
+/**
+ * The types a NLQ visualization can be converted into: Vega always, line and bar charts for a
+ * grouped aggregation and a metric for a single value, when the visualization has an index pattern
+ */
+export const getConversionTargets = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  spec: any,
+  hasIndexPattern: boolean
+): ConversionTarget[] => {
+  const query = getVisualizationQuery(spec);
+  if (!hasIndexPattern || spec?.data?.url?.['%type%'] !== 'ppl' || !query) {
+    return ['vega'];
+  }
+  const aggregation = parsePPLAggregation(query);
+  if (!aggregation) {
+    return ['vega'];
+  }
+  return aggregation.bucket ? ['vega', 'line', 'histogram'] : ['vega', 'metric'];
+};
+
+const toAggregations = (aggregation: PPLAggregation): VisAggregation[] => {
+  const aggs: VisAggregation[] = [
+    {
+      id: '1',
+      enabled: true,
+      type: aggregation.metric.type,
+      schema: 'metric',
+      params: aggregation.metric.field ? { field: aggregation.metric.field } : {},
+    },
+  ];
+  const { bucket } = aggregation;
+  if (bucket?.type === 'date_histogram') {
+    aggs.push({
+      id: '2',
+      enabled: true,
+      type: 'date_histogram',
+      schema: 'segment',
+      params: { field: bucket.field, interval: bucket.interval, min_doc_count: 1 },
+    });
+  } else if (bucket?.type === 'terms') {
+    aggs.push({
+      id: '2',
+      enabled: true,
+      type: 'terms',
+      schema: 'segment',
+      params: { field: bucket.field, size: 10, order: 'desc', orderBy: '1' },
+    });
+  }
+  return aggs;
+};
+
+/**
+ * The attributes and references of the `visualization` saved object converted from the
+ * `visualizationState` of a NLQ visualization. The Vega visualization keeps the data url of the
+ * generated query, the native ones run the aggregation of the query on the index pattern.
+ */
+export const toVisualizationSavedObject = ({
+  title,
+  description,
+  visualizationState,
+  target,
+  indexPatternId,
+}: {
+  title: string;
+  description?: string;
+  visualizationState: string;
+  target: ConversionTarget;
+  indexPatternId?: string;
+}) => {
+  const visState = JSON.parse(visualizationState || '{}');
+  const spec = visState.params?.spec;
+  if (!spec) {
+    throw new Error('The visualization has no specification.');
+  }
+  const references: SavedObjectReference[] = [];
+  const searchSource: Record<string, unknown> = {
+    query: { query: '', language: 'kuery' },
+    filter: [],
+  };
+
+  let nativeVisState;
+  if (target === 'vega') {
+    nativeVisState = {
+      title,
+      type: 'vega',
+      aggs: [],
+      params: {
+        spec: JSON.stringify(
+          visState.type === 'vega-lite' && !spec.$schema
+            ? { $schema: VEGA_LITE_SCHEMA, ...spec }
+            : spec,
+          undefined,
+          2
+        ),
+      },
+    };
+  } else {
+    const aggregation = parsePPLAggregation(getVisualizationQuery(spec) ?? '');
+    if (!indexPatternId || !getConversionTargets(spec, true).includes(target) || !aggregation) {
+      throw new Error(`The visualization can not be converted to ${target}.`);
+    }
+    nativeVisState = { title, type: target, params: {}, aggs: toAggregations(aggregation) };
+    searchSource.indexRefName = INDEX_PATTERN_REF_NAME;
+    references.push({ name: INDEX_PATTERN_REF_NAME, type: 'index-pattern', id: indexPatternId });
+  }
+
+  return {
+    attributes: {
+      title,
+      description: description ?? '',
+      visState: JSON.stringify(nativeVisState),
+      uiStateJSON: '{}',
+      version: 1,
+      kibanaSavedObjectMeta: { searchSourceJSON: JSON.stringify(searchSource) },
+    },
+    references,
+  };
+};
+
+/**
+ * The dashboards with a panel of the NLQ visualization
+ */
+export const findReferencingDashboards = async (
+  savedObjectsClient: SavedObjectsClientContract,
+  id: string
+) => {
+  const res = await savedObjectsClient.find<{ title: string }>({
+    type: 'dashboard',
+    hasReference: { type: VIS_NLQ_SAVED_OBJECT, id },
+    fields: ['title'],
+    perPage: 100,
+  });
+  return res.savedObjects.map((dashboard) => ({
+    id: dashboard.id,
+    title: dashboard.attributes.title,
+  }));
+};
+
+/**
+ * Points the panels of the NLQ visualization on a dashboard to the converted visualization,
+ * panels reference their saved object by the `panelRefName` of the dashboard references
+ */
+export const replaceDashboardPanels = async (
+  savedObjectsClient: SavedObjectsClientContract,
+  dashboardId: string,
+  nlqVisualizationId: string,
+  visualizationId: string
+) => {
+  const dashboard = await savedObjectsClient.get<Record<string, unknown>>('dashboard', dashboardId);
+  const references = dashboard.references.map((reference) =>
+    reference.type === VIS_NLQ_SAVED_OBJECT && reference.id === nlqVisualizationId
+      ? { ...reference, type: VISUALIZATION_SAVED_OBJECT, id: visualizationId }
+      : reference
+  );
+  await savedObjectsClient.update('dashboard', dashboardId, dashboard.attributes, {
+    references,
+    version: dashboard.version,
+  });
+};
+
+/**
+ * Creates the `visualization` saved object of a NLQ visualization, and replaces its panel on the
+ * given dashboards. The NLQ visualization is kept.
+ */
+export const convertNLQVisualization = async (
+  savedObjectsClient: SavedObjectsClientContract,
+  {
+    id,
+    title,
+    target,
+    dashboardIds = [],
+  }: { id: string; title: string; target: ConversionTarget; dashboardIds?: string[] }
+) => {
+  const nlqVisualization = await savedObjectsClient.get<{
+    description?: string;
+    visualizationState: string;
+  }>(VIS_NLQ_SAVED_OBJECT, id);
+  if (nlqVisualization.error) {
+    throw new Error(nlqVisualization.error.message);
+  }
+  const { attributes, references } = toVisualizationSavedObject({
+    title,
+    description: nlqVisualization.attributes.description,
+    visualizationState: nlqVisualization.attributes.visualizationState,
+    target,
+    indexPatternId: nlqVisualization.references.find(({ type }) => type === 'index-pattern')?.id,
+  });
+  const visualization = await savedObjectsClient.create(VISUALIZATION_SAVED_OBJECT, attributes, {
+    references,
+  });
+  for (const dashboardId of dashboardIds) {
+    await replaceDashboardPanels(savedObjectsClient, dashboardId, id, visualization.id);
+  }
+  return visualization;
+};
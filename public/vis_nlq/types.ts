@@ -4,6 +4,7 @@
  */
 
 import { SavedObject } from '../../../../src/plugins/saved_objects/public';
+import { QueryLanguage } from '../utils/pipeline/query_language';
 
 export interface VisNLQSavedObject extends SavedObject {
   id?: string;
@@ -13,3 +14,47 @@ export interface VisNLQSavedObject extends SavedObject {
   uiState: string;
   version?: number;
 }
+
+/**
+ * A version of the visualization, generated for a question or a follow-up request
+ */
+export interface Text2VizRevision {
+  input: string;
+  // the follow-up request which refined the previous revision
+  instruction?: string;
+  // the query as reviewed by the user, before an aggregation is suggested
+  ppl: string;
+  // the user changed the generated query
+  pplEdited?: boolean;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  vega: any;
+  createdTimeMs: number;
+}
+
+/**
+ * A dataset of the dataset picker or a saved search, visualized instead of an index pattern
+ */
+export interface Text2VizDataset {
+  // a dataset type of the data plugin, or SAVED_SEARCH
+  type: string;
+  id: string;
+  // the index or the table queried
+  title: string;
+  language: QueryLanguage;
+  dataSourceId?: string;
+  timeFieldName?: string;
+  // the query of a saved search, the generated query refines it
+  query?: string;
+}
+
+/**
+ * The parsed `uiState` of a visualization-nlq saved object
+ */
+export interface VisNLQUIState {
+  input?: string;
+  instruction?: string;
+  // absent for visualizations of an index pattern, which is saved in searchSourceFields
+  dataset?: Text2VizDataset;
+  revisions?: Text2VizRevision[];
+  currentRevision?: number;
+}
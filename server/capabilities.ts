@@ -3,6 +3,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { FEATURE_FLAGS } from '../common/constants/contextual_chat';
+
 export const capabilitiesProvider = () => ({
   observability: {
     show: true,
@@ -10,5 +12,7 @@ export const capabilitiesProvider = () => ({
   assistant: {
     enabled: true,
     chatEnabled: false,
+    // evaluated per user by the capabilities switcher
+    featureFlags: Object.fromEntries(Object.values(FEATURE_FLAGS).map((key) => [key, false])),
   },
 });
@@ -85,6 +85,9 @@ export const BasicInputOutputParser: MessageParser = {
           (interaction.additional_info?.['QuestionSuggestor.output'] as string | null) || ''
         )
       : [];
+    const sourceAttributions = interaction.additional_info?.sourceAttributions as
+      | IOutput['sourceAttributions']
+      | undefined;
     const inputItem: IInput = {
       type: 'input',
       contentType: 'text',
@@ -96,6 +99,7 @@ export const BasicInputOutputParser: MessageParser = {
         contentType: 'markdown',
         content: sanitize(interaction.response),
         interactionId: interaction.interaction_id,
+        ...(sourceAttributions && { sourceAttributions }),
         suggestedActions: suggestedActions
           .filter((item) => item)
           .map((item) => ({
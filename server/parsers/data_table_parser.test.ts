@@ -0,0 +1,62 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createInteraction } from './interaction.mock';
+import { DataTableParser } from './data_table_parser';
+
+describe('DataTableParser', () => {
+  it('return a table for the execution result of PPLTool', async () => {
+    const executionResult = JSON.stringify({
+      schema: [
+        { name: 'count()', type: 'integer' },
+        { name: 'status', type: 'string' },
+      ],
+      datarows: [
+        [10, '200'],
+        [2, '500'],
+      ],
+      total: 2,
+      size: 2,
+    });
+
+    expect(
+      await DataTableParser.parserProvider(
+        createInteraction({
+          'PPLTool.output': [JSON.stringify({ ppl: 'source=logs', executionResult })],
+        }),
+        { interactions: [] }
+      )
+    ).toEqual([
+      {
+        type: 'output',
+        contentType: 'table',
+        content: JSON.stringify({
+          columns: [
+            { name: 'count()', type: 'integer' },
+            { name: 'status', type: 'string' },
+          ],
+          rows: [
+            [10, '200'],
+            [2, '500'],
+          ],
+        }),
+        fullWidth: true,
+      },
+    ]);
+  });
+
+  it('do not return tables when the execution result is not a query response', async () => {
+    expect(
+      await DataTableParser.parserProvider(
+        createInteraction({
+          'PPLTool.output': [
+            JSON.stringify({ ppl: 'source=logs', executionResult: 'index not found' }),
+          ],
+        }),
+        { interactions: [] }
+      )
+    ).toEqual([]);
+  });
+});
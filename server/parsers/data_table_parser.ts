@@ -0,0 +1,49 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IOutput, ITableContent } from '../../common/types/chat_saved_object_attributes';
+import { MessageParser } from '../types';
+import { getToolOutputs, parseJsonSafely } from '../utils/tool_output';
+
+interface QueryResponse {
+  schema?: Array<{ name: string; type?: string }>;
+  datarows?: unknown[][];
+}
+
+/**
+ * Convert the response of a PPL or SQL query, e.g. `{ schema, datarows }`, to a table
+ */
+export const toTableContent = (response: QueryResponse | undefined): ITableContent | undefined => {
+  if (!response || !Array.isArray(response.schema) || !Array.isArray(response.datarows)) {
+    return undefined;
+  }
+  return {
+    columns: response.schema.map(({ name, type }) => ({ name, type })),
+    rows: response.datarows.filter((row) => Array.isArray(row)),
+  };
+};
+
+export const DataTableParser: MessageParser = {
+  id: 'data_table',
+  async parserProvider(interaction) {
+    return getToolOutputs(interaction, 'PPLTool')
+      .map((output) =>
+        toTableContent(
+          parseJsonSafely(
+            (parseJsonSafely(output) as { executionResult?: unknown } | undefined)?.executionResult
+          ) as QueryResponse | undefined
+        )
+      )
+      .filter((table): table is ITableContent => !!table)
+      .map(
+        (table): IOutput => ({
+          type: 'output',
+          contentType: 'table',
+          content: JSON.stringify(table),
+          fullWidth: true,
+        })
+      );
+  },
+};
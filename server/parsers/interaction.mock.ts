@@ -0,0 +1,15 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Interaction } from '../../common/types/chat_saved_object_attributes';
+
+export const createInteraction = (additionalInfo: Interaction['additional_info']): Interaction => ({
+  input: 'input',
+  response: 'response',
+  conversation_id: '',
+  interaction_id: 'interaction_id',
+  create_time: '',
+  additional_info: additionalInfo,
+});
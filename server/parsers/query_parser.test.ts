@@ -0,0 +1,47 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createInteraction } from './interaction.mock';
+import { getPPLSource, QueryParser } from './query_parser';
+
+describe('QueryParser', () => {
+  it('return a query block for each PPL query', async () => {
+    expect(
+      await QueryParser.parserProvider(
+        createInteraction({
+          'PPLTool.output': [
+            JSON.stringify({ ppl: 'source=logs | stats count() by status', executionResult: '' }),
+          ],
+        }),
+        { interactions: [] }
+      )
+    ).toEqual([
+      {
+        type: 'output',
+        contentType: 'query',
+        content: 'source=logs | stats count() by status',
+        metadata: { language: 'PPL', index: 'logs' },
+        fullWidth: true,
+      },
+    ]);
+  });
+
+  it('do not return query blocks when PPLTool.output is missing or malformed', async () => {
+    expect(await QueryParser.parserProvider(createInteraction({}), { interactions: [] })).toEqual(
+      []
+    );
+    expect(
+      await QueryParser.parserProvider(
+        createInteraction({ 'PPLTool.output': ['not json', JSON.stringify({ ppl: '' })] }),
+        { interactions: [] }
+      )
+    ).toEqual([]);
+  });
+
+  it('read the index of a PPL query', () => {
+    expect(getPPLSource('source = `logs-*` | head 10')).toBe('logs-*');
+    expect(getPPLSource('describe tables')).toBeUndefined();
+  });
+});
@@ -0,0 +1,31 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IOutput } from '../../common/types/chat_saved_object_attributes';
+import { MessageParser } from '../types';
+import { getToolOutputs, parseJsonSafely } from '../utils/tool_output';
+
+/**
+ * The index a PPL query reads from, e.g. `logs` for `source=logs | stats count()`
+ */
+export const getPPLSource = (ppl: string) => ppl.match(/source\s*=\s*`?([^\s|`]+)`?/i)?.[1];
+
+export const QueryParser: MessageParser = {
+  id: 'query',
+  async parserProvider(interaction) {
+    return getToolOutputs(interaction, 'PPLTool')
+      .map((output) => (parseJsonSafely(output) as { ppl?: unknown } | undefined)?.ppl)
+      .filter((ppl): ppl is string => typeof ppl === 'string' && !!ppl.trim())
+      .map(
+        (ppl): IOutput => ({
+          type: 'output',
+          contentType: 'query',
+          content: ppl,
+          metadata: { language: 'PPL', index: getPPLSource(ppl) },
+          fullWidth: true,
+        })
+      );
+  },
+};
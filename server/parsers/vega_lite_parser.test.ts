@@ -0,0 +1,56 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createInteraction } from './interaction.mock';
+import { VegaLiteParser } from './vega_lite_parser';
+
+const spec = {
+  mark: 'bar',
+  encoding: { x: { field: 'status' }, y: { field: 'count' } },
+};
+
+describe('VegaLiteParser', () => {
+  it('return a chart for each Vega-Lite spec', async () => {
+    expect(
+      await VegaLiteParser.parserProvider(
+        createInteraction({
+          'VegaLiteTool.output': [
+            `Here is the chart <vega-lite>${JSON.stringify(spec)}</vega-lite>`,
+            JSON.stringify({ response: JSON.stringify(spec) }),
+          ],
+        }),
+        { interactions: [] }
+      )
+    ).toEqual([
+      {
+        type: 'output',
+        contentType: 'vega_lite',
+        content: JSON.stringify({
+          $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+          ...spec,
+        }),
+        fullWidth: true,
+      },
+      {
+        type: 'output',
+        contentType: 'vega_lite',
+        content: JSON.stringify({
+          $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+          ...spec,
+        }),
+        fullWidth: true,
+      },
+    ]);
+  });
+
+  it('skip the outputs without a valid spec', async () => {
+    expect(
+      await VegaLiteParser.parserProvider(
+        createInteraction({ 'VegaLiteTool.output': ['no chart', '{ invalid }'] }),
+        { interactions: [] }
+      )
+    ).toEqual([]);
+  });
+});
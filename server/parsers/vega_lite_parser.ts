@@ -0,0 +1,36 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IOutput } from '../../common/types/chat_saved_object_attributes';
+import { MessageParser } from '../types';
+import { extractVegaLiteSpec, getToolOutputs } from '../utils/tool_output';
+
+const VEGA_LITE_SCHEMA = 'https://vega.github.io/schema/vega-lite/v5.json';
+
+export const VegaLiteParser: MessageParser = {
+  id: 'vega_lite',
+  async parserProvider(interaction) {
+    return getToolOutputs(interaction, 'VegaLiteTool').flatMap((output): IOutput[] => {
+      let spec: Record<string, any> | undefined;
+      try {
+        spec = extractVegaLiteSpec(output);
+      } catch (e) {
+        // a malformed spec should not hide the other outputs
+        return [];
+      }
+      if (!spec) {
+        return [];
+      }
+      return [
+        {
+          type: 'output',
+          contentType: 'vega_lite',
+          content: JSON.stringify({ $schema: VEGA_LITE_SCHEMA, ...spec }),
+          fullWidth: true,
+        },
+      ];
+    });
+  },
+};
@@ -7,7 +7,7 @@ import { AssistantPlugin } from './plugin';
 import { coreMock } from '../../../src/core/server/mocks';
 import { loggerMock } from '../../../src/core/server/logging/logger.mock';
 import { of } from 'rxjs';
-import { MessageParser } from './types';
+import { ChatBackend, MessageParser } from './types';
 import {
   PluginInitializerContext,
   OpenSearchDashboardsRequest,
@@ -21,14 +21,14 @@ describe('AssistantPlugin', () => {
   const mockLogger = loggerMock.create();
   const mockCoreSetup = coreMock.createSetup();
   const mockCoreStart = coreMock.createStart();
-  const mockPluginInitializerContext = ({
+  const mockPluginInitializerContext = {
     logger: {
       get: jest.fn(() => mockLogger),
     },
     config: {
       create: jest.fn(),
     },
-  } as unknown) as PluginInitializerContext;
+  } as unknown as PluginInitializerContext;
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -36,6 +36,10 @@ describe('AssistantPlugin', () => {
     // @ts-ignore
     mockPluginInitializerContext.config.create.mockReturnValue(
       of({
+        enabled: true,
+        chat: {
+          enabled: true,
+        },
         text2viz: {
           enabled: true,
         },
@@ -60,14 +64,14 @@ describe('AssistantPlugin', () => {
 
   describe('setup', () => {
     it('should register routes and message parsers', async () => {
-      const mockRouter = ({
+      const mockRouter = {
         get: jest.fn(),
         post: jest.fn(),
         put: jest.fn(),
         delete: jest.fn(),
         handleLegacyErrors: jest.fn((handler) => handler),
         getRoutes: jest.fn().mockReturnValue([]),
-      } as unknown) as IRouter;
+      } as unknown as IRouter;
       mockCoreSetup.http.createRouter.mockReturnValue(mockRouter);
 
       mockCoreSetup.capabilities.registerProvider = jest.fn();
@@ -108,14 +112,14 @@ describe('AssistantPlugin', () => {
     });
 
     it('should register and remove message parsers correctly', async () => {
-      const mockRouter = ({
+      const mockRouter = {
         get: jest.fn(),
         post: jest.fn(),
         put: jest.fn(),
         delete: jest.fn(),
         handleLegacyErrors: jest.fn((handler) => handler),
         getRoutes: jest.fn().mockReturnValue([]),
-      } as unknown) as IRouter;
+      } as unknown as IRouter;
       mockCoreSetup.http.createRouter.mockReturnValue(mockRouter);
 
       const setupResult = await plugin.setup(mockCoreSetup);
@@ -141,15 +145,52 @@ describe('AssistantPlugin', () => {
       );
     });
 
+    it('should register and remove chat backends correctly', async () => {
+      const mockRouter = {
+        get: jest.fn(),
+        post: jest.fn(),
+        put: jest.fn(),
+        delete: jest.fn(),
+        handleLegacyErrors: jest.fn((handler) => handler),
+        getRoutes: jest.fn().mockReturnValue([]),
+      } as unknown as IRouter;
+      mockCoreSetup.http.createRouter.mockReturnValue(mockRouter);
+
+      const setupResult = await plugin.setup(mockCoreSetup);
+
+      const testBackend: ChatBackend = {
+        id: 'test-backend',
+        createChatService: jest.fn(),
+        createStorageService: jest.fn(),
+      };
+
+      setupResult.registerChatBackend(testBackend);
+
+      expect(() => {
+        setupResult.registerChatBackend(testBackend);
+      }).toThrow();
+      // the built-in backends are registered during setup
+      expect(() => {
+        setupResult.registerChatBackend({ ...testBackend, id: 'local-mock' });
+      }).toThrow();
+
+      setupResult.removeChatBackend('test-backend');
+
+      setupResult.removeChatBackend('non-existent-backend');
+      expect(mockLogger.error).toHaveBeenCalledWith(
+        'There is not a chat backend whose id is non-existent-backend'
+      );
+    });
+
     it('should handle errors from dynamic config service', async () => {
-      const mockRouter = ({
+      const mockRouter = {
         get: jest.fn(),
         post: jest.fn(),
         put: jest.fn(),
         delete: jest.fn(),
         handleLegacyErrors: jest.fn((handler) => handler),
         getRoutes: jest.fn().mockReturnValue([]),
-      } as unknown) as IRouter;
+      } as unknown as IRouter;
       mockCoreSetup.http.createRouter.mockReturnValue(mockRouter);
 
       mockCoreSetup.dynamicConfigService.getStartService = jest.fn().mockResolvedValue({
@@ -177,14 +218,14 @@ describe('AssistantPlugin', () => {
 
     it('should return correct capabilities based on settings', async () => {
       // Mock router
-      const mockRouter = ({
+      const mockRouter = {
         get: jest.fn(),
         post: jest.fn(),
         put: jest.fn(),
         delete: jest.fn(),
         handleLegacyErrors: jest.fn((handler) => handler),
         getRoutes: jest.fn().mockReturnValue([]),
-      } as unknown) as IRouter;
+      } as unknown as IRouter;
       mockCoreSetup.http.createRouter.mockReturnValue(mockRouter);
 
       mockCoreSetup.dynamicConfigService.getStartService = jest.fn().mockResolvedValue({
@@ -227,16 +268,83 @@ describe('AssistantPlugin', () => {
     });
   });
 
+  describe('config validation', () => {
+    it('should refuse to set up with an invalid agent base URL', async () => {
+      // @ts-ignore
+      mockPluginInitializerContext.config.create.mockReturnValue(
+        of({
+          enabled: true,
+          chat: {
+            enabled: true,
+          },
+          text2viz: {
+            enabled: false,
+          },
+          alertInsight: {
+            enabled: false,
+          },
+          aiAgent: {
+            enabled: true,
+            baseUrl: 'ftp://localhost:8000',
+            timeout: 300000,
+            healthCheckInterval: 60000,
+          },
+        })
+      );
+
+      await expect(plugin.setup(mockCoreSetup)).rejects.toThrow(
+        'Invalid assistant configuration:\n[error] aiAgent.baseUrl: aiAgent.baseUrl must use http or https, got [ftp:]'
+      );
+    });
+
+    it('should set up with conflicting toggles and log a warning', async () => {
+      const mockRouter = {
+        get: jest.fn(),
+        post: jest.fn(),
+        put: jest.fn(),
+        delete: jest.fn(),
+        handleLegacyErrors: jest.fn((handler) => handler),
+        getRoutes: jest.fn().mockReturnValue([]),
+      } as unknown as IRouter;
+      mockCoreSetup.http.createRouter.mockReturnValue(mockRouter);
+      // @ts-ignore
+      mockPluginInitializerContext.config.create.mockReturnValue(
+        of({
+          enabled: true,
+          chat: {
+            enabled: false,
+          },
+          text2viz: {
+            enabled: true,
+          },
+          alertInsight: {
+            enabled: false,
+          },
+          aiAgent: {
+            enabled: false,
+          },
+        })
+      );
+
+      await expect(plugin.setup(mockCoreSetup)).resolves.toBeDefined();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining(
+          '[warning] text2viz.enabled: text2viz is enabled but chat is disabled'
+        )
+      );
+    });
+  });
+
   describe('start and stop', () => {
     it('should call assistantService start and stop methods', async () => {
-      const mockRouter = ({
+      const mockRouter = {
         get: jest.fn(),
         post: jest.fn(),
         put: jest.fn(),
         delete: jest.fn(),
         handleLegacyErrors: jest.fn((handler) => handler),
         getRoutes: jest.fn().mockReturnValue([]),
-      } as unknown) as IRouter;
+      } as unknown as IRouter;
       mockCoreSetup.http.createRouter.mockReturnValue(mockRouter);
 
       const assistantServiceStartSpy = jest.spyOn(plugin.assistantService, 'start');
@@ -12,10 +12,14 @@ import {
   OpenSearchDashboardsRequest,
   Plugin,
   PluginInitializerContext,
+  SavedObjectsClient,
 } from '../../../src/core/server';
-import { AssistantPluginSetup, AssistantPluginStart, MessageParser } from './types';
+import { AssistantPluginSetup, AssistantPluginStart, ChatBackend, MessageParser } from './types';
 import { BasicInputOutputParser } from './parsers/basic_input_output_parser';
 import { VisualizationCardParser } from './parsers/visualization_card_parser';
+import { QueryParser } from './parsers/query_parser';
+import { DataTableParser } from './parsers/data_table_parser';
+import { VegaLiteParser } from './parsers/vega_lite_parser';
 import { registerChatRoutes } from './routes/chat_routes';
 import { registerText2VizRoutes } from './routes/text2viz_routes';
 import { AssistantService } from './services/assistant_service';
@@ -28,15 +32,45 @@ import { capabilitiesProvider as visNLQCapabilitiesProvider } from './vis_type_n
 import { visNLQSavedObjectType } from './vis_type_nlq/saved_object_type';
 import { capabilitiesProvider } from './capabilities';
 import { ENABLE_AI_FEATURES } from './utils/constants';
+import { getUserName } from './utils/get_user_name';
 import { getContextualChatServiceRegistry } from './services/contextual_chat_service_registry';
-import { contextualChatSavedObjectTypes } from './saved_objects/contextual_chat_saved_objects';
+import {
+  CONTEXTUAL_CHAT_HIDDEN_SAVED_OBJECTS,
+  contextualChatSavedObjectTypes,
+} from './saved_objects/contextual_chat_saved_objects';
+import { sharedConversationSavedObjectType } from './saved_objects/shared_conversation_saved_object';
 import { initializeContextualChatServices } from './services/contextual_chat_initializer';
+import { registerAdminRoutes } from './routes/admin_routes';
+import { registerFeatureFlagRoutes } from './routes/feature_flag_routes';
+import {
+  ConfigValidationReport,
+  ConfigValidator,
+  formatConfigValidationReport,
+} from './services/config/config_validator';
+import { AdminServices, createAdminServices, destroyAdminServices } from './services/admin';
+import { ChatBackendRegistry } from './services/chat/chat_backend_registry';
+import {
+  createLocalMockChatBackend,
+  createOpenSearchAgentsChatBackend,
+  mlCommonsChatBackend,
+} from './services/chat/chat_backends';
+import { AgentHealthMonitor } from './services/chat/agent_health_monitor';
+import { SavedObjectsRetentionService } from './services/admin/saved_objects_retention_service';
+import { registerAgentHealthRoutes } from './routes/agent_health_routes';
+import { SharedConversationService } from './services/shared_conversation_service';
+import { SHARED_CONVERSATION_SAVED_OBJECT } from '../common/constants/shared_conversation';
 
 export class AssistantPlugin implements Plugin<AssistantPluginSetup, AssistantPluginStart> {
   private readonly logger: Logger;
   private messageParsers: MessageParser[] = [];
   private assistantService = new AssistantService();
   private contextualChatServiceRegistry = getContextualChatServiceRegistry();
+  private adminServices?: Promise<AdminServices>;
+  private chatBackendRegistry = new ChatBackendRegistry();
+  private config?: ConfigSchema;
+  private configValidationReport?: ConfigValidationReport;
+  private agentHealthMonitor?: AgentHealthMonitor;
+  private retentionService?: SavedObjectsRetentionService;
 
   constructor(private readonly initializerContext: PluginInitializerContext) {
     this.logger = initializerContext.logger.get();
@@ -48,9 +82,15 @@ export class AssistantPlugin implements Plugin<AssistantPluginSetup, AssistantPl
       .create<ConfigSchema>()
       .pipe(first())
       .toPromise();
+    this.config = config;
+    this.validateConfig(config);
 
     const assistantServiceSetup = this.assistantService.setup();
 
+    if (config.aiAgent.enabled) {
+      this.agentHealthMonitor = new AgentHealthMonitor(config.aiAgent, this.logger);
+    }
+
     // Initialize contextual chat service registry if enabled
     if (config.contextualChat?.enabled) {
       this.logger.info('Contextual chat feature is enabled (snapshot-based approach)');
@@ -81,6 +121,34 @@ export class AssistantPlugin implements Plugin<AssistantPluginSetup, AssistantPl
 
     const router = core.http.createRouter();
 
+    // the admin services and feature flags live in saved objects, they are created on first use
+    const getAdminServices = () => {
+      if (!this.adminServices) {
+        this.adminServices = core
+          .getStartServices()
+          .then(([coreStart]) =>
+            createAdminServices(
+              config.contextualChat,
+              new SavedObjectsClient(
+                coreStart.savedObjects.createInternalRepository(
+                  CONTEXTUAL_CHAT_HIDDEN_SAVED_OBJECTS
+                )
+              ),
+              this.logger
+            )
+          )
+          .catch((error) => {
+            // allow the next request to retry the initialization
+            this.adminServices = undefined;
+            throw error;
+          });
+      }
+      return this.adminServices;
+    };
+    const getFeatureFlagManager = config.contextualChat?.enabled
+      ? () => getAdminServices().then(({ featureFlagManager }) => featureFlagManager)
+      : undefined;
+
     core.http.registerRouteHandlerContext('assistant_plugin', () => {
       return {
         logger: this.logger,
@@ -94,7 +162,33 @@ export class AssistantPlugin implements Plugin<AssistantPluginSetup, AssistantPl
       config,
       messageParsers: this.messageParsers,
       auth: core.http.auth,
+      chatBackendRegistry: this.chatBackendRegistry,
+      getFeatureFlagManager,
+      getSharedConversationService: async (request) => {
+        const [coreStart] = await core.getStartServices();
+        return new SharedConversationService(
+          coreStart.savedObjects.getScopedClient(request, {
+            includedHiddenTypes: [SHARED_CONVERSATION_SAVED_OBJECT],
+          })
+        );
+      },
     });
+    core.savedObjects.registerType(sharedConversationSavedObjectType);
+    registerAgentHealthRoutes(router, { healthMonitor: this.agentHealthMonitor });
+
+    // Register admin, monitoring and troubleshooting APIs for contextual chat
+    if (getFeatureFlagManager) {
+      registerAdminRoutes(router, {
+        auth: core.http.auth,
+        getAdminServices,
+        adminBackendRoles: config.admin.backendRoles,
+        getConfigValidationReport: () => this.configValidationReport,
+      });
+      registerFeatureFlagRoutes(router, {
+        auth: core.http.auth,
+        getFeatureFlagManager,
+      });
+    }
 
     // Register router for text to visualization
     if (config.text2viz.enabled) {
@@ -108,6 +202,24 @@ export class AssistantPlugin implements Plugin<AssistantPluginSetup, AssistantPl
       registerSummaryAssistantRoutes(router, assistantServiceSetup);
     }
 
+    /**
+     * The feature flags of the user, all flags stay off when they cannot be evaluated
+     */
+    const getFeatureFlagStatus = async (
+      request: OpenSearchDashboardsRequest
+    ): Promise<Record<string, boolean> | undefined> => {
+      if (!getFeatureFlagManager) {
+        return undefined;
+      }
+      try {
+        const featureFlagManager = await getFeatureFlagManager();
+        return featureFlagManager.getFlagStatus(getUserName(core.http.auth, request));
+      } catch (e) {
+        this.logger.error(e);
+        return {};
+      }
+    };
+
     core.capabilities.registerProvider(capabilitiesProvider);
     // register UI capabilities from dynamic config service
     core.capabilities.registerSwitcher(
@@ -129,10 +241,13 @@ export class AssistantPlugin implements Plugin<AssistantPluginSetup, AssistantPl
           const uiSettingsClient = coreStart.uiSettings.asScopedToClient(savedObjectsClient);
           const isAssistantEnabledBySetting = await uiSettingsClient.get(ENABLE_AI_FEATURES);
 
+          const featureFlags = await getFeatureFlagStatus(opensearchDashboardsRequest);
+
           return {
             assistant: {
               enabled: dynamicConfig.enabled && isAssistantEnabledBySetting,
               chatEnabled: dynamicConfig.chat.enabled && isAssistantEnabledBySetting,
+              ...(featureFlags && { featureFlags }),
             },
           };
         } catch (e) {
@@ -156,6 +271,13 @@ export class AssistantPlugin implements Plugin<AssistantPluginSetup, AssistantPl
 
     registerMessageParser(BasicInputOutputParser);
     registerMessageParser(VisualizationCardParser);
+    registerMessageParser(QueryParser);
+    registerMessageParser(DataTableParser);
+    registerMessageParser(VegaLiteParser);
+
+    this.chatBackendRegistry.register(mlCommonsChatBackend);
+    this.chatBackendRegistry.register(createOpenSearchAgentsChatBackend(this.agentHealthMonitor));
+    this.chatBackendRegistry.register(createLocalMockChatBackend());
 
     return {
       assistantService: assistantServiceSetup,
@@ -168,17 +290,67 @@ export class AssistantPlugin implements Plugin<AssistantPluginSetup, AssistantPl
 
         this.messageParsers.splice(findIndex, 1);
       },
+      registerChatBackend: (chatBackend: ChatBackend) => {
+        this.chatBackendRegistry.register(chatBackend);
+      },
+      removeChatBackend: (backendId: ChatBackend['id']) => {
+        if (!this.chatBackendRegistry.unregister(backendId)) {
+          this.logger.error(`There is not a chat backend whose id is ${backendId}`);
+        }
+      },
       contextualChatServiceRegistry: this.contextualChatServiceRegistry,
     };
   }
 
+  /**
+   * Log the issues of the config and refuse to start with an invalid config.
+   */
+  private validateConfig(config: ConfigSchema) {
+    const report = new ConfigValidator(this.logger).validatePluginConfig(config);
+    this.configValidationReport = report;
+
+    const issues = formatConfigValidationReport(report);
+    if (!report.isValid) {
+      throw new Error(`Invalid assistant configuration:\n${issues}`);
+    }
+    if (report.warnings.length) {
+      this.logger.warn(`Assistant configuration warnings:\n${issues}`);
+    } else if (report.info.length) {
+      this.logger.info(`Assistant configuration notes:\n${issues}`);
+    }
+  }
+
   public start(core: CoreStart) {
     this.logger.debug('Assistant: Started');
     this.assistantService.start();
+    this.agentHealthMonitor?.start();
+
+    if (this.config?.contextualChat?.enabled) {
+      this.retentionService = new SavedObjectsRetentionService(
+        new SavedObjectsClient(
+          core.savedObjects.createInternalRepository(CONTEXTUAL_CHAT_HIDDEN_SAVED_OBJECTS)
+        ),
+        this.logger
+      );
+      this.retentionService.start();
+    }
+
+    // other plugins register their chat backends during setup, all backends are known now
+    const missingBackendIds = this.config
+      ? this.chatBackendRegistry.getMissingBackendIds(this.config)
+      : [];
+    if (missingBackendIds.length) {
+      this.logger.error(
+        `Chat backends ${missingBackendIds.join(', ')} are configured but not registered`
+      );
+    }
     return {};
   }
 
   public stop() {
     this.assistantService.stop();
+    this.agentHealthMonitor?.destroy();
+    this.retentionService?.destroy();
+    this.adminServices?.then(destroyAdminServices).catch(() => {});
   }
 }
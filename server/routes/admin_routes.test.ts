@@ -0,0 +1,328 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ResponseObject } from '@hapi/hapi';
+import { Boom } from '@hapi/boom';
+import { HttpAuth } from '../../../../src/core/server';
+import { Router } from '../../../../src/core/server/http/router';
+import { enhanceWithContext, triggerHandler } from './router.mock';
+import { httpServerMock } from '../../../../src/core/server/http/http_server.mocks';
+import { loggerMock } from '../../../../src/core/server/logging/logger.mock';
+import { ADMIN_API } from '../../common/constants/llm';
+import { AdminServices } from '../services/admin';
+import { ConfigValidationReport } from '../services/config/config_validator';
+import { FeedbackStore } from '../services/storage/feedback_store';
+import { registerAdminRoutes } from './admin_routes';
+
+jest.mock('../services/storage/feedback_store');
+
+const mockedLogger = loggerMock.create();
+
+const mockAdminServices = {
+  configService: {
+    isFeatureEnabled: jest.fn(),
+  },
+  featureFlagManager: {
+    getAllFlags: jest.fn(),
+  },
+  adminService: {
+    getAdminDashboardData: jest.fn(),
+    getAdminSettings: jest.fn(),
+    updateAdminSetting: jest.fn(),
+    updateFeatureFlag: jest.fn(),
+    resetFeatureFlag: jest.fn(),
+    getSystemHealth: jest.fn(),
+  },
+  performanceService: {
+    getDashboard: jest.fn(),
+    getAlertsHistory: jest.fn(),
+    resolveAlert: jest.fn(),
+  },
+  troubleshootingTools: {
+    runDiagnostics: jest.fn(),
+    getReportHistory: jest.fn(),
+    exportDiagnosticData: jest.fn(),
+  },
+  analyticsService: {
+    generateReport: jest.fn(),
+    getTrendData: jest.fn(),
+  },
+};
+
+const mockConfigValidationReport = {
+  isValid: true,
+  errors: [],
+  warnings: [
+    {
+      field: 'contextualChat.extractionTimeout',
+      message: 'extractionTimeout > 10s may cause poor user experience',
+      severity: 'warning',
+    },
+  ],
+  info: [],
+};
+
+const mockAuth = {
+  get: jest.fn(),
+  isAuthenticated: jest.fn(),
+};
+
+const router = new Router(
+  '',
+  mockedLogger,
+  enhanceWithContext({
+    assistant_plugin: {
+      logger: mockedLogger,
+    },
+  })
+);
+registerAdminRoutes(router, {
+  auth: mockAuth as unknown as HttpAuth,
+  getAdminServices: () => Promise.resolve(mockAdminServices as unknown as AdminServices),
+  adminBackendRoles: ['admin'],
+  getConfigValidationReport: () => mockConfigValidationReport as ConfigValidationReport,
+});
+
+const triggerAdminRoute = (
+  method: string,
+  path: string,
+  options: { params?: {}; payload?: {}; query?: {} } = {}
+) =>
+  triggerHandler(router, {
+    method,
+    path,
+    req: httpServerMock.createRawRequest(options),
+  });
+
+describe('admin routes', () => {
+  beforeEach(() => {
+    loggerMock.clear(mockedLogger);
+    mockAuth.get.mockReturnValue({
+      status: 'authenticated',
+      state: { authInfo: { user_name: 'admin', backend_roles: ['admin'] } },
+    });
+    mockAdminServices.configService.isFeatureEnabled.mockReturnValue(true);
+  });
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should return forbidden when the admin interface is disabled', async () => {
+    mockAdminServices.configService.isFeatureEnabled.mockReturnValue(false);
+    const result = (await triggerAdminRoute('get', ADMIN_API.DASHBOARD)) as Boom;
+    expect(result.output.statusCode).toBe(403);
+    expect(mockAdminServices.adminService.getAdminDashboardData).not.toHaveBeenCalled();
+  });
+
+  it('should return forbidden for unauthenticated requests', async () => {
+    mockAuth.get.mockReturnValue({ status: 'unauthenticated' });
+    const result = (await triggerAdminRoute('get', ADMIN_API.HEALTH)) as Boom;
+    expect(result.output.statusCode).toBe(403);
+    expect(mockAdminServices.adminService.getSystemHealth).not.toHaveBeenCalled();
+  });
+
+  it('should return forbidden for users without an admin backend role', async () => {
+    mockAuth.get.mockReturnValue({
+      status: 'authenticated',
+      state: { authInfo: { user_name: 'user', backend_roles: ['readall'] } },
+    });
+    const results = (await Promise.all([
+      triggerAdminRoute('get', ADMIN_API.DASHBOARD),
+      triggerAdminRoute('get', ADMIN_API.CONFIG_VALIDATION),
+      triggerAdminRoute('get', ADMIN_API.FEEDBACK_REPORT),
+    ])) as Boom[];
+    results.forEach((result) => expect(result.output.statusCode).toBe(403));
+    expect(mockAdminServices.adminService.getAdminDashboardData).not.toHaveBeenCalled();
+    expect(FeedbackStore.prototype.getReport).not.toHaveBeenCalled();
+  });
+
+  it('should return forbidden when security is disabled', async () => {
+    mockAuth.get.mockReturnValue({ status: 'unknown' });
+    const result = (await triggerAdminRoute('get', ADMIN_API.DASHBOARD)) as Boom;
+    expect(result.output.statusCode).toBe(403);
+    expect(mockAdminServices.adminService.getAdminDashboardData).not.toHaveBeenCalled();
+  });
+
+  it('should return admin dashboard data', async () => {
+    mockAdminServices.adminService.getAdminDashboardData.mockResolvedValue({ settings: [] });
+    const result = (await triggerAdminRoute('get', ADMIN_API.DASHBOARD)) as ResponseObject;
+    expect(result.source).toEqual({ settings: [] });
+  });
+
+  it('should update a known admin setting', async () => {
+    mockAdminServices.adminService.getAdminSettings.mockResolvedValue([
+      { id: 'maxVisualizations', type: 'number' },
+    ]);
+    const result = (await triggerAdminRoute('put', `${ADMIN_API.SETTINGS}/{settingId}`, {
+      params: { settingId: 'maxVisualizations' },
+      payload: { value: 10 },
+    })) as ResponseObject;
+    expect(result.source).toEqual({ success: true });
+    expect(mockAdminServices.adminService.updateAdminSetting).toHaveBeenCalledWith(
+      'maxVisualizations',
+      10
+    );
+  });
+
+  it('should reject unknown settings and mismatched setting types', async () => {
+    mockAdminServices.adminService.getAdminSettings.mockResolvedValue([
+      { id: 'maxVisualizations', type: 'number' },
+    ]);
+    const notFound = (await triggerAdminRoute('put', `${ADMIN_API.SETTINGS}/{settingId}`, {
+      params: { settingId: 'foo' },
+      payload: { value: 10 },
+    })) as Boom;
+    expect(notFound.output.statusCode).toBe(404);
+
+    const badRequest = (await triggerAdminRoute('put', `${ADMIN_API.SETTINGS}/{settingId}`, {
+      params: { settingId: 'maxVisualizations' },
+      payload: { value: 'ten' },
+    })) as Boom;
+    expect(badRequest.output.statusCode).toBe(400);
+    expect(mockAdminServices.adminService.updateAdminSetting).not.toHaveBeenCalled();
+  });
+
+  it('should return the config validation report', async () => {
+    const result = (await triggerAdminRoute('get', ADMIN_API.CONFIG_VALIDATION)) as ResponseObject;
+    expect(result.source).toEqual(mockConfigValidationReport);
+  });
+
+  it('should update a known feature flag', async () => {
+    mockAdminServices.featureFlagManager.getAllFlags.mockReturnValue([
+      { key: 'analytics_enabled' },
+    ]);
+    const result = (await triggerAdminRoute('put', `${ADMIN_API.FEATURE_FLAGS}/{flagKey}`, {
+      params: { flagKey: 'analytics_enabled' },
+      payload: { value: true, reason: 'incident follow-up' },
+    })) as ResponseObject;
+    expect(result.source).toEqual({ success: true });
+    expect(mockAdminServices.adminService.updateFeatureFlag).toHaveBeenCalledWith(
+      'analytics_enabled',
+      true,
+      'incident follow-up'
+    );
+  });
+
+  it('should reset the override of a known feature flag', async () => {
+    mockAdminServices.featureFlagManager.getAllFlags.mockReturnValue([
+      { key: 'analytics_enabled' },
+    ]);
+    const result = (await triggerAdminRoute('delete', `${ADMIN_API.FEATURE_FLAGS}/{flagKey}`, {
+      params: { flagKey: 'analytics_enabled' },
+    })) as ResponseObject;
+    expect(result.source).toEqual({ success: true });
+    expect(mockAdminServices.adminService.resetFeatureFlag).toHaveBeenCalledWith(
+      'analytics_enabled'
+    );
+
+    const notFound = (await triggerAdminRoute('delete', `${ADMIN_API.FEATURE_FLAGS}/{flagKey}`, {
+      params: { flagKey: 'foo' },
+    })) as Boom;
+    expect(notFound.output.statusCode).toBe(404);
+  });
+
+  it('should run diagnostics with the requested tests', async () => {
+    mockAdminServices.troubleshootingTools.runDiagnostics.mockResolvedValue({
+      overallStatus: 'healthy',
+    });
+    const result = (await triggerAdminRoute('post', ADMIN_API.DIAGNOSTICS, {
+      payload: { tests: ['Memory Usage Check'] },
+    })) as ResponseObject;
+    expect(result.source).toEqual({ overallStatus: 'healthy' });
+    expect(mockAdminServices.troubleshootingTools.runDiagnostics).toHaveBeenCalledWith([
+      'Memory Usage Check',
+    ]);
+  });
+
+  it('should return report history with the default limit', async () => {
+    mockAdminServices.troubleshootingTools.getReportHistory.mockResolvedValue([]);
+    const result = (await triggerAdminRoute(
+      'get',
+      ADMIN_API.DIAGNOSTICS_REPORTS
+    )) as ResponseObject;
+    expect(result.source).toEqual({ reports: [] });
+    expect(mockAdminServices.troubleshootingTools.getReportHistory).toHaveBeenCalledWith(10);
+  });
+
+  it('should export diagnostic data', async () => {
+    mockAdminServices.troubleshootingTools.exportDiagnosticData.mockResolvedValue({
+      latestReport: null,
+    });
+    const result = (await triggerAdminRoute('get', ADMIN_API.DIAGNOSTICS_EXPORT)) as ResponseObject;
+    expect(result.source).toEqual({ latestReport: null });
+  });
+
+  it('should resolve a performance alert', async () => {
+    const result = (await triggerAdminRoute(
+      'post',
+      `${ADMIN_API.PERFORMANCE_ALERTS}/{alertId}/_resolve`,
+      { params: { alertId: 'error_rate-critical-1' } }
+    )) as ResponseObject;
+    expect(result.source).toEqual({ success: true });
+    expect(mockAdminServices.performanceService.resolveAlert).toHaveBeenCalledWith(
+      'error_rate-critical-1'
+    );
+  });
+
+  it('should generate an analytics report for the requested window', async () => {
+    mockAdminServices.analyticsService.generateReport.mockResolvedValue({});
+    await triggerAdminRoute('get', ADMIN_API.ANALYTICS_REPORT, {
+      query: { startTime: 1000, endTime: 2000 },
+    });
+    expect(mockAdminServices.analyticsService.generateReport).toHaveBeenCalledWith(1000, 2000);
+
+    const result = (await triggerAdminRoute('get', ADMIN_API.ANALYTICS_REPORT, {
+      query: { startTime: 2000, endTime: 1000 },
+    })) as Boom;
+    expect(result.output.statusCode).toBe(400);
+  });
+
+  it('should return trend data', async () => {
+    mockAdminServices.analyticsService.getTrendData.mockResolvedValue({
+      labels: [],
+      datasets: [],
+    });
+    const result = (await triggerAdminRoute('get', ADMIN_API.ANALYTICS_TRENDS, {
+      query: { metric: 'error_rate', period: 'hour', count: 12 },
+    })) as ResponseObject;
+    expect(result.source).toEqual({ labels: [], datasets: [] });
+    expect(mockAdminServices.analyticsService.getTrendData).toHaveBeenCalledWith(
+      'error_rate',
+      'hour',
+      12
+    );
+  });
+
+  it('should return the feedback report of the requested window', async () => {
+    const report = { startTime: 1000, endTime: 2000, interval: '1h', buckets: [] };
+    (FeedbackStore.prototype.getReport as jest.Mock).mockResolvedValue(report);
+
+    const result = (await triggerAdminRoute('get', ADMIN_API.FEEDBACK_REPORT, {
+      query: { startTime: 1000, endTime: 2000, interval: '1h', agent: 'ml-commons' },
+    })) as ResponseObject;
+
+    expect(result.source).toEqual(report);
+    expect(FeedbackStore.prototype.getReport).toHaveBeenCalledWith({
+      startTime: 1000,
+      endTime: 2000,
+      interval: '1h',
+      agent: 'ml-commons',
+      appId: undefined,
+    });
+  });
+
+  it('should not return the feedback report when the admin interface is disabled', async () => {
+    mockAdminServices.configService.isFeatureEnabled.mockReturnValue(false);
+    const result = (await triggerAdminRoute('get', ADMIN_API.FEEDBACK_REPORT)) as Boom;
+    expect(result.output.statusCode).toBe(403);
+    expect(FeedbackStore.prototype.getReport).not.toHaveBeenCalled();
+  });
+
+  it('should handle service errors', async () => {
+    mockAdminServices.performanceService.getDashboard.mockRejectedValue(new Error('failed'));
+    const result = (await triggerAdminRoute('get', ADMIN_API.PERFORMANCE)) as Boom;
+    expect(result.output.statusCode).toBe(500);
+  });
+});
@@ -0,0 +1,454 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { schema } from '@osd/config-schema';
+import { HttpAuth, IRouter, OpenSearchDashboardsRequest } from '../../../../src/core/server';
+import { ADMIN_API } from '../../common/constants/llm';
+import { AdminServices } from '../services/admin';
+import { ConfigValidationReport } from '../services/config/config_validator';
+import { FeedbackStore } from '../services/storage/feedback_store';
+import { getUserBackendRoles } from '../utils/get_user_backend_roles';
+import { handleError } from './error_handler';
+
+export interface AdminRoutesOptions {
+  auth: HttpAuth;
+  getAdminServices: () => Promise<AdminServices>;
+  /**
+   * Backend roles allowed to use the admin interface, the user needs one of them.
+   */
+  adminBackendRoles: string[];
+  /**
+   * Report of the config validation of the plugin setup.
+   */
+  getConfigValidationReport: () => ConfigValidationReport | undefined;
+}
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+const limitQuerySchema = (defaultValue: number) =>
+  schema.object({
+    limit: schema.number({ min: 1, max: 100, defaultValue }),
+  });
+
+export function registerAdminRoutes(router: IRouter, options: AdminRoutesOptions) {
+  /**
+   * Resolve the admin services for a request, or undefined when the request
+   * is not allowed to use the admin interface. Only the users with an admin
+   * backend role are allowed, nobody is when security is disabled.
+   */
+  const getServicesForRequest = async (
+    request: OpenSearchDashboardsRequest
+  ): Promise<AdminServices | undefined> => {
+    if (options.auth.get(request).status === 'unauthenticated') {
+      return undefined;
+    }
+    const backendRoles = getUserBackendRoles(options.auth, request);
+    if (!backendRoles.some((role) => options.adminBackendRoles.includes(role))) {
+      return undefined;
+    }
+    const services = await options.getAdminServices();
+    if (!services.configService.isFeatureEnabled('adminInterface')) {
+      return undefined;
+    }
+    return services;
+  };
+
+  const forbiddenBody = { message: 'Assistant admin interface is not available' };
+
+  router.get(
+    {
+      path: ADMIN_API.DASHBOARD,
+      validate: {},
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const dashboard = await services.adminService.getAdminDashboardData();
+        return res.ok({ body: dashboard });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.put(
+    {
+      path: `${ADMIN_API.SETTINGS}/{settingId}`,
+      validate: {
+        params: schema.object({
+          settingId: schema.string(),
+        }),
+        body: schema.object({
+          value: schema.oneOf([schema.boolean(), schema.number(), schema.string()]),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const settings = await services.adminService.getAdminSettings();
+        const setting = settings.find((item) => item.id === req.params.settingId);
+        if (!setting) {
+          return res.notFound({ body: `Unknown setting: ${req.params.settingId}` });
+        }
+        if (typeof req.body.value !== setting.type) {
+          return res.badRequest({
+            body: `Setting ${setting.id} expects a value of type ${setting.type}`,
+          });
+        }
+        await services.adminService.updateAdminSetting(setting.id, req.body.value);
+        return res.ok({ body: { success: true } });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.get(
+    {
+      path: ADMIN_API.CONFIG_VALIDATION,
+      validate: {},
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const report = options.getConfigValidationReport();
+        if (!report) {
+          return res.notFound({ body: 'The configuration has not been validated' });
+        }
+        return res.ok({ body: report });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.put(
+    {
+      path: `${ADMIN_API.FEATURE_FLAGS}/{flagKey}`,
+      validate: {
+        params: schema.object({
+          flagKey: schema.string(),
+        }),
+        body: schema.object({
+          value: schema.boolean(),
+          reason: schema.string({ minLength: 1 }),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const { flagKey } = req.params;
+        if (!services.featureFlagManager.getAllFlags().some((flag) => flag.key === flagKey)) {
+          return res.notFound({ body: `Unknown feature flag: ${flagKey}` });
+        }
+        await services.adminService.updateFeatureFlag(flagKey, req.body.value, req.body.reason);
+        return res.ok({ body: { success: true } });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.delete(
+    {
+      path: `${ADMIN_API.FEATURE_FLAGS}/{flagKey}`,
+      validate: {
+        params: schema.object({
+          flagKey: schema.string(),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const { flagKey } = req.params;
+        if (!services.featureFlagManager.getAllFlags().some((flag) => flag.key === flagKey)) {
+          return res.notFound({ body: `Unknown feature flag: ${flagKey}` });
+        }
+        await services.adminService.resetFeatureFlag(flagKey);
+        return res.ok({ body: { success: true } });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.get(
+    {
+      path: ADMIN_API.HEALTH,
+      validate: {},
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const health = await services.adminService.getSystemHealth();
+        return res.ok({ body: health });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.post(
+    {
+      path: ADMIN_API.DIAGNOSTICS,
+      validate: {
+        body: schema.object({
+          tests: schema.maybe(schema.arrayOf(schema.string())),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const report = await services.troubleshootingTools.runDiagnostics(req.body.tests);
+        return res.ok({ body: report });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.get(
+    {
+      path: ADMIN_API.DIAGNOSTICS_REPORTS,
+      validate: {
+        query: limitQuerySchema(10),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const reports = await services.troubleshootingTools.getReportHistory(req.query.limit);
+        return res.ok({ body: { reports } });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.get(
+    {
+      path: ADMIN_API.DIAGNOSTICS_EXPORT,
+      validate: {},
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const data = await services.troubleshootingTools.exportDiagnosticData();
+        return res.ok({
+          headers: {
+            'Content-Disposition': `attachment; filename="assistant-diagnostics-${Date.now()}.json"`,
+          },
+          body: data,
+        });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.get(
+    {
+      path: ADMIN_API.PERFORMANCE,
+      validate: {},
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const dashboard = await services.performanceService.getDashboard();
+        return res.ok({ body: dashboard });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.get(
+    {
+      path: ADMIN_API.PERFORMANCE_ALERTS,
+      validate: {
+        query: limitQuerySchema(50),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const alerts = await services.performanceService.getAlertsHistory(req.query.limit);
+        return res.ok({ body: { alerts } });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.post(
+    {
+      path: `${ADMIN_API.PERFORMANCE_ALERTS}/{alertId}/_resolve`,
+      validate: {
+        params: schema.object({
+          alertId: schema.string(),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        await services.performanceService.resolveAlert(req.params.alertId);
+        return res.ok({ body: { success: true } });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.get(
+    {
+      path: ADMIN_API.ANALYTICS_REPORT,
+      validate: {
+        query: schema.object({
+          startTime: schema.maybe(schema.number({ min: 0 })),
+          endTime: schema.maybe(schema.number({ min: 0 })),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const endTime = req.query.endTime ?? Date.now();
+        const startTime = req.query.startTime ?? endTime - ONE_DAY_MS;
+        if (startTime > endTime) {
+          return res.badRequest({ body: 'startTime must not be later than endTime' });
+        }
+        const report = await services.analyticsService.generateReport(startTime, endTime);
+        return res.ok({ body: report });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.get(
+    {
+      path: ADMIN_API.ANALYTICS_TRENDS,
+      validate: {
+        query: schema.object({
+          metric: schema.oneOf([
+            schema.literal('context_extractions'),
+            schema.literal('chat_interactions'),
+            schema.literal('error_rate'),
+            schema.literal('performance'),
+          ]),
+          period: schema.oneOf(
+            [
+              schema.literal('hour'),
+              schema.literal('day'),
+              schema.literal('week'),
+              schema.literal('month'),
+            ],
+            { defaultValue: 'day' }
+          ),
+          count: schema.number({ min: 1, max: 100, defaultValue: 7 }),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const trends = await services.analyticsService.getTrendData(
+          req.query.metric,
+          req.query.period,
+          req.query.count
+        );
+        return res.ok({ body: trends });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.get(
+    {
+      path: ADMIN_API.FEEDBACK_REPORT,
+      validate: {
+        query: schema.object({
+          startTime: schema.maybe(schema.number({ min: 0 })),
+          endTime: schema.maybe(schema.number({ min: 0 })),
+          interval: schema.oneOf(
+            [schema.literal('1h'), schema.literal('1d'), schema.literal('7d')],
+            { defaultValue: '1d' }
+          ),
+          agent: schema.maybe(schema.string()),
+          appId: schema.maybe(schema.string()),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const services = await getServicesForRequest(req);
+        if (!services) {
+          return res.forbidden({ body: forbiddenBody });
+        }
+        const { interval, agent, appId } = req.query;
+        const endTime = req.query.endTime ?? Date.now();
+        const startTime = req.query.startTime ?? endTime - 7 * ONE_DAY_MS;
+        if (startTime > endTime) {
+          return res.badRequest({ body: 'startTime must not be later than endTime' });
+        }
+        const report = await new FeedbackStore(
+          context.core.opensearch.client.asInternalUser,
+          context.assistant_plugin.logger
+        ).getReport({ startTime, endTime, interval, agent, appId });
+        return res.ok({ body: report });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+}
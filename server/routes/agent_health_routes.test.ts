@@ -0,0 +1,89 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ResponseObject } from '@hapi/hapi';
+import { Router } from '../../../../src/core/server/http/router';
+import { enhanceWithContext, triggerHandler } from './router.mock';
+import { httpServerMock } from '../../../../src/core/server/http/http_server.mocks';
+import { loggerMock } from '../../../../src/core/server/logging/logger.mock';
+import { ASSISTANT_API } from '../../common/constants/llm';
+import { AgentHealthMonitor } from '../services/chat/agent_health_monitor';
+import { registerAgentHealthRoutes } from './agent_health_routes';
+
+const mockedLogger = loggerMock.create();
+
+const mockHealthMonitor = {
+  getStatus: jest.fn(),
+  checkHealth: jest.fn(),
+};
+
+const createRouter = (healthMonitor?: AgentHealthMonitor) => {
+  const router = new Router(
+    '',
+    mockedLogger,
+    enhanceWithContext({
+      assistant_plugin: {
+        logger: mockedLogger,
+      },
+    })
+  );
+  registerAgentHealthRoutes(router, { healthMonitor });
+  return router;
+};
+
+const getAgentHealth = (router: Router, query: Record<string, string> = {}) =>
+  triggerHandler(router, {
+    method: 'get',
+    path: ASSISTANT_API.AGENT_HEALTH,
+    req: httpServerMock.createRawRequest({ query }),
+  });
+
+const openCircuitStatus = {
+  monitored: true,
+  status: 'unhealthy',
+  circuit: 'open',
+  consecutiveFailures: 3,
+  lastError: 'connect ECONNREFUSED',
+};
+
+describe('agent health routes', () => {
+  const router = createRouter(mockHealthMonitor as unknown as AgentHealthMonitor);
+
+  beforeEach(() => {
+    loggerMock.clear(mockedLogger);
+  });
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should return the result of the last check', async () => {
+    mockHealthMonitor.getStatus.mockReturnValue(openCircuitStatus);
+
+    const result = (await getAgentHealth(router)) as ResponseObject;
+
+    expect(result.source).toEqual(openCircuitStatus);
+    expect(mockHealthMonitor.checkHealth).not.toHaveBeenCalled();
+  });
+
+  it('should check the agent again when asked to refresh', async () => {
+    mockHealthMonitor.checkHealth.mockResolvedValue(openCircuitStatus);
+
+    const result = (await getAgentHealth(router, { refresh: 'true' })) as ResponseObject;
+
+    expect(result.source).toEqual(openCircuitStatus);
+    expect(mockHealthMonitor.checkHealth).toHaveBeenCalled();
+  });
+
+  it('should report the agent as not monitored when it is disabled', async () => {
+    const result = (await getAgentHealth(createRouter())) as ResponseObject;
+
+    expect(result.source).toEqual({
+      monitored: false,
+      status: 'unknown',
+      circuit: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { schema } from '@osd/config-schema';
+import { IRouter } from '../../../../src/core/server';
+import { ASSISTANT_API } from '../../common/constants/llm';
+import { AgentHealthStatus } from '../../common/types/agent_health';
+import { AgentHealthMonitor } from '../services/chat/agent_health_monitor';
+import { handleError } from './error_handler';
+
+export interface AgentHealthRoutesOptions {
+  /**
+   * Only available when the external AI agent is enabled.
+   */
+  healthMonitor?: AgentHealthMonitor;
+}
+
+const UNMONITORED_STATUS: AgentHealthStatus = {
+  monitored: false,
+  status: 'unknown',
+  circuit: 'closed',
+  consecutiveFailures: 0,
+};
+
+export function registerAgentHealthRoutes(router: IRouter, options: AgentHealthRoutesOptions) {
+  router.get(
+    {
+      path: ASSISTANT_API.AGENT_HEALTH,
+      validate: {
+        query: schema.object({
+          // check the agent now instead of returning the result of the last check
+          refresh: schema.boolean({ defaultValue: false }),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const { healthMonitor } = options;
+        if (!healthMonitor) {
+          return res.ok({ body: UNMONITORED_STATUS });
+        }
+        return res.ok({
+          body: req.query.refresh ? await healthMonitor.checkHealth() : healthMonitor.getStatus(),
+        });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+}
@@ -0,0 +1,167 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ResponseObject } from '@hapi/hapi';
+import { HttpAuth } from '../../../../src/core/server';
+import { Router } from '../../../../src/core/server/http/router';
+import { enhanceWithContext, triggerHandler } from './router.mock';
+import { httpServerMock } from '../../../../src/core/server/http/http_server.mocks';
+import { loggerMock } from '../../../../src/core/server/logging/logger.mock';
+import { ASSISTANT_API } from '../../common/constants/llm';
+import { ConfigSchema } from '../../common/types/config';
+import { ChatBackend } from '../types';
+import { AgentFrameworkStorageService } from '../services/storage/agent_framework_storage_service';
+import { ChatBackendRegistry } from '../services/chat/chat_backend_registry';
+import { SharedConversationService } from '../services/shared_conversation_service';
+import { registerChatRoutes } from './chat_routes';
+
+jest.mock('../utils/get_opensearch_client_transport');
+
+const createStorageService = () => ({
+  getConversation: jest.fn().mockResolvedValue({
+    title: 'Failed shards',
+    createdTimeMs: 0,
+    updatedTimeMs: 0,
+    messages: [],
+    interactions: [],
+  }),
+  deleteConversation: jest.fn().mockResolvedValue({ success: true }),
+  updateConversation: jest.fn().mockResolvedValue({ success: true }),
+  importConversation: jest.fn().mockResolvedValue({ conversationId: 'imported' }),
+  getTraces: jest.fn().mockResolvedValue([]),
+});
+
+const defaultStorageService = createStorageService();
+const appStorageService = createStorageService();
+
+const createBackend = (
+  id: string,
+  storageService: ReturnType<typeof createStorageService>
+): ChatBackend => ({
+  id,
+  createChatService: jest.fn(),
+  createStorageService: () => storageService as unknown as AgentFrameworkStorageService,
+});
+
+const chatBackendRegistry = new ChatBackendRegistry();
+chatBackendRegistry.register(createBackend('default', defaultStorageService));
+chatBackendRegistry.register(createBackend('app_backend', appStorageService));
+
+const mockedLogger = loggerMock.create();
+const router = new Router(
+  '',
+  mockedLogger,
+  enhanceWithContext({
+    assistant_plugin: {
+      logger: mockedLogger,
+    },
+  })
+);
+registerChatRoutes(router, {
+  messageParsers: [],
+  auth: { get: () => ({ status: 'authenticated' }) } as unknown as HttpAuth,
+  config: {
+    aiAgent: { enabled: false },
+    chatBackend: { default: 'default', dataSources: {}, apps: { discover: 'app_backend' } },
+  } as unknown as ConfigSchema,
+  chatBackendRegistry,
+  getSharedConversationService: async () =>
+    ({
+      share: jest.fn().mockResolvedValue({ id: 'shared_1' }),
+    } as unknown as SharedConversationService),
+});
+
+const conversationRoutes = [
+  {
+    name: 'get conversation',
+    method: 'get',
+    path: `${ASSISTANT_API.CONVERSATION}/{conversationId}`,
+    params: { conversationId: '1' },
+    storageMethod: 'getConversation',
+  },
+  {
+    name: 'get traces',
+    method: 'get',
+    path: `${ASSISTANT_API.TRACE}/{interactionId}`,
+    params: { interactionId: '1' },
+    storageMethod: 'getTraces',
+  },
+  {
+    name: 'delete conversation',
+    method: 'delete',
+    path: `${ASSISTANT_API.CONVERSATION}/{conversationId}`,
+    params: { conversationId: '1' },
+    storageMethod: 'deleteConversation',
+  },
+  {
+    name: 'rename conversation',
+    method: 'put',
+    path: `${ASSISTANT_API.CONVERSATION}/{conversationId}`,
+    params: { conversationId: '1' },
+    payload: { title: 'Disk usage' },
+    storageMethod: 'updateConversation',
+  },
+  {
+    name: 'export conversation',
+    method: 'get',
+    path: `${ASSISTANT_API.CONVERSATION}/{conversationId}/_export`,
+    params: { conversationId: '1' },
+    storageMethod: 'getConversation',
+  },
+  {
+    name: 'share conversation',
+    method: 'post',
+    path: `${ASSISTANT_API.CONVERSATION}/{conversationId}/_share`,
+    params: { conversationId: '1' },
+    storageMethod: 'getConversation',
+  },
+  {
+    name: 'import conversation',
+    method: 'post',
+    path: ASSISTANT_API.IMPORT_CONVERSATION,
+    payload: {
+      version: 1,
+      conversation: { title: 'Failed shards', createdTimeMs: 0, updatedTimeMs: 0 },
+      interactions: [],
+    },
+    storageMethod: 'importConversation',
+  },
+] as const;
+
+describe('chat backend of the conversation routes', () => {
+  beforeEach(() => {
+    loggerMock.clear(mockedLogger);
+    jest.clearAllMocks();
+  });
+
+  it.each(conversationRoutes)(
+    'should $name with the backend of the app',
+    async ({ method, path, storageMethod, ...options }) => {
+      const result = (await triggerHandler(router, {
+        method,
+        path,
+        req: httpServerMock.createRawRequest({ ...options, query: { appId: 'discover' } }),
+      })) as ResponseObject;
+
+      expect(result.statusCode).toBe(200);
+      expect(appStorageService[storageMethod]).toHaveBeenCalled();
+      expect(defaultStorageService[storageMethod]).not.toHaveBeenCalled();
+    }
+  );
+
+  it('should use the default backend for apps without a mapping', async () => {
+    await triggerHandler(router, {
+      method: 'get',
+      path: `${ASSISTANT_API.CONVERSATION}/{conversationId}`,
+      req: httpServerMock.createRawRequest({
+        params: { conversationId: '1' },
+        query: { appId: 'dashboards' },
+      }),
+    });
+
+    expect(defaultStorageService.getConversation).toHaveBeenCalledWith('1');
+    expect(appStorageService.getConversation).not.toHaveBeenCalled();
+  });
+});
@@ -15,8 +15,12 @@ import { loggerMock } from '../../../../src/core/server/logging/logger.mock';
 import { registerChatRoutes } from './chat_routes';
 import { ASSISTANT_API } from '../../common/constants/llm';
 import { getOpenSearchClientTransport } from '../utils/get_opensearch_client_transport';
+import { HttpAuth } from '../../../../src/core/server';
+import { SendFeedbackBody } from '../../common/types/chat_saved_object_attributes';
+import { FeedbackStore } from '../services/storage/feedback_store';
 
 jest.mock('../utils/get_opensearch_client_transport');
+jest.mock('../services/storage/feedback_store');
 
 beforeEach(() => {
   (getOpenSearchClientTransport as jest.Mock).mockImplementation(({ dataSourceId }) => {
@@ -43,6 +47,7 @@ const router = new Router(
 );
 registerChatRoutes(router, {
   messageParsers: [],
+  auth: { get: () => ({ status: 'authenticated' }) } as unknown as HttpAuth,
 });
 
 const triggerDeleteConversation = (conversationId: string, dataSourceId?: string) =>
@@ -112,7 +117,7 @@ const triggerAbortAgentExecution = (conversationId: string, dataSourceId?: strin
   });
 const triggerFeedback = (
   params: { interactionId: string },
-  payload: { satisfaction: boolean },
+  payload: SendFeedbackBody,
   dataSourceId?: string
 ) =>
   triggerHandler(router, {
@@ -130,6 +135,14 @@ const triggerFeedback = (
         : {}),
     }),
   });
+const triggerResumeStream = (lastEventId?: string) =>
+  triggerHandler(router, {
+    method: 'get',
+    path: ASSISTANT_API.RESUME_STREAM,
+    req: httpServerMock.createRawRequest({
+      headers: lastEventId ? { 'last-event-id': lastEventId } : {},
+    }),
+  });
 
 describe('chat routes', () => {
   beforeEach(() => {
@@ -386,5 +399,75 @@ describe('chat routes', () => {
       expect(mockedLogger.error).toHaveBeenCalledWith(expect.any(Error));
       expect(result.output.statusCode).toBe(500);
     });
+
+    it('should save the reasons, comment and corrected answer for the feedback report', async () => {
+      mockAgentFrameworkStorageService.updateInteraction.mockResolvedValueOnce({ success: true });
+      const feedback: SendFeedbackBody = {
+        satisfaction: false,
+        reasons: ['inaccurate', 'too_slow'],
+        comment: 'The index has 3 shards',
+        correctedAnswer: 'It has 3 shards',
+      };
+
+      const result = (await triggerFeedback({ interactionId: 'foo' }, feedback)) as ResponseObject;
+
+      expect(mockAgentFrameworkStorageService.updateInteraction).toHaveBeenCalledWith('foo', {
+        feedback,
+      });
+      expect(FeedbackStore.prototype.saveFeedback).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ interactionId: 'foo', feedback })
+      );
+      expect(result.source).toEqual({ success: true });
+    });
+
+    it('should report the feedback for the agent which answered the interaction', async () => {
+      mockAgentFrameworkStorageService.updateInteraction.mockResolvedValueOnce({ success: true });
+      (FeedbackStore.prototype.getAnswerAgent as jest.Mock).mockResolvedValueOnce('root_agent_id');
+
+      await triggerFeedback({ interactionId: 'foo' }, { satisfaction: false });
+
+      expect(FeedbackStore.prototype.getAnswerAgent).toHaveBeenCalledWith('foo');
+      expect(FeedbackStore.prototype.saveFeedback).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ interactionId: 'foo', agent: 'root_agent_id' })
+      );
+    });
+
+    it('should not fail the feedback when it cannot be saved for the report', async () => {
+      mockAgentFrameworkStorageService.updateInteraction.mockResolvedValueOnce({ success: true });
+      (FeedbackStore.prototype.saveFeedback as jest.Mock).mockRejectedValueOnce(
+        new Error('index read-only')
+      );
+
+      const result = (await triggerFeedback(
+        { interactionId: 'foo' },
+        { satisfaction: false }
+      )) as ResponseObject;
+
+      expect(mockedLogger.warn).toHaveBeenCalled();
+      expect(result.source).toEqual({ success: true });
+    });
+
+    it('should reject unknown feedback reasons', async () => {
+      const result = (await triggerFeedback({ interactionId: 'foo' }, {
+        satisfaction: false,
+        reasons: ['boring'],
+      } as unknown as SendFeedbackBody)) as Boom;
+
+      expect(result.output.statusCode).toBe(400);
+      expect(mockAgentFrameworkStorageService.updateInteraction).not.toHaveBeenCalled();
+    });
+  });
+  describe('resume stream', () => {
+    it('should return 400 error when last event id is missing', async () => {
+      const result = (await triggerResumeStream()) as Boom;
+      expect(result.output.statusCode).toBe(400);
+    });
+
+    it('should return 404 error when the stream does not exist', async () => {
+      const result = (await triggerResumeStream('foo:1')) as Boom;
+      expect(result.output.statusCode).toBe(404);
+    });
   });
 });
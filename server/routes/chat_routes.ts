@@ -10,17 +10,25 @@ import {
   HttpResponsePayload,
   IOpenSearchDashboardsResponse,
   IRouter,
+  OpenSearchDashboardsRequest,
   RequestHandlerContext,
 } from '../../../../src/core/server';
 import { ASSISTANT_API, DEFAULT_USER_NAME } from '../../common/constants/llm';
+import { FEATURE_FLAGS } from '../../common/constants/contextual_chat';
 import { OllyChatService } from '../services/chat/olly_chat_service';
 import { ChatServiceFactory } from '../services/chat/chat_service_factory';
+import { isContextualChatService } from '../services/chat/contextual_chat_service';
 import { AgentFrameworkStorageService } from '../services/storage/agent_framework_storage_service';
-import { StorageServiceFactory } from '../services/storage/storage_service_factory';
-import { RoutesOptions } from '../types';
+import { ChatBackendOptions, RoutesOptions } from '../types';
 import { ChatService } from '../services/chat/chat_service';
 import { getOpenSearchClientTransport } from '../utils/get_opensearch_client_transport';
-import { handleError } from './error_handler';
+import { handleChatError, handleError } from './error_handler';
+import { getUserName } from '../utils/get_user_name';
+import { ResumableStreamRegistry } from '../services/chat/resumable_stream_registry';
+import { uiContextSchema } from './ui_context_schema';
+import { CONVERSATION_EXPORT_VERSION } from '../../common/types/conversation_export';
+import { exportConversation, formatConversation } from '../utils/conversation_export';
+import { FeedbackStore } from '../services/storage/feedback_store';
 
 const llmRequestRoute = {
   path: ASSISTANT_API.SEND_MESSAGE,
@@ -49,35 +57,7 @@ const llmRequestRoute = {
         ),
       }),
       // Add UI context for contextual chat
-      uiContext: schema.maybe(
-        schema.object({
-          page: schema.object({
-            url: schema.string(),
-            title: schema.string(),
-            app: schema.string(),
-            route: schema.string(),
-            breadcrumbs: schema.arrayOf(schema.any()),
-            metadata: schema.any(),
-          }),
-          content: schema.arrayOf(schema.any()),
-          navigation: schema.object({
-            currentApp: schema.string(),
-            currentRoute: schema.string(),
-            breadcrumbs: schema.arrayOf(schema.any()),
-            availableApps: schema.arrayOf(schema.any()),
-          }),
-          filters: schema.arrayOf(schema.any()),
-          userActions: schema.arrayOf(schema.any()),
-          permissions: schema.object({
-            canViewData: schema.boolean(),
-            canModifyDashboard: schema.boolean(),
-            canAccessApp: schema.boolean(),
-            restrictedFields: schema.arrayOf(schema.string()),
-            dataSourcePermissions: schema.any(),
-          }),
-          extractedAt: schema.string(),
-        })
-      ),
+      uiContext: schema.maybe(uiContextSchema),
     }),
     query: schema.object({
       dataSourceId: schema.maybe(schema.string()),
@@ -94,6 +74,7 @@ const getConversationRoute = {
     }),
     query: schema.object({
       dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
       nextToken: schema.maybe(schema.string()),
     }),
   },
@@ -108,6 +89,7 @@ const abortAgentExecutionRoute = {
     }),
     query: schema.object({
       dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
     }),
   },
 };
@@ -119,9 +101,11 @@ const regenerateRoute = {
     body: schema.object({
       conversationId: schema.string(),
       interactionId: schema.string(),
+      uiContext: schema.maybe(uiContextSchema),
     }),
     query: schema.object({
       dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
     }),
   },
 };
@@ -138,7 +122,10 @@ const getConversationsRoute = {
       fields: schema.maybe(schema.arrayOf(schema.string())),
       search: schema.maybe(schema.string()),
       searchFields: schema.maybe(schema.oneOf([schema.string(), schema.arrayOf(schema.string())])),
+      // `content` searches the inputs and responses of the interactions instead of the titles
+      searchMode: schema.maybe(schema.oneOf([schema.literal('title'), schema.literal('content')])),
       dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
     }),
   },
 };
@@ -152,6 +139,7 @@ const deleteConversationRoute = {
     }),
     query: schema.object({
       dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
     }),
   },
 };
@@ -167,6 +155,108 @@ const updateConversationRoute = {
     }),
     query: schema.object({
       dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
+    }),
+  },
+};
+
+const exportConversationRoute = {
+  path: `${ASSISTANT_API.CONVERSATION}/{conversationId}/_export`,
+  validate: {
+    params: schema.object({
+      conversationId: schema.string(),
+    }),
+    query: schema.object({
+      format: schema.oneOf(
+        [schema.literal('json'), schema.literal('markdown'), schema.literal('html')],
+        { defaultValue: 'json' }
+      ),
+      dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
+    }),
+  },
+};
+
+// transcripts with traces are larger than the default payload limit
+const IMPORT_CONVERSATION_MAX_BYTES = 10 * 1024 * 1024;
+
+const importConversationRoute = {
+  path: ASSISTANT_API.IMPORT_CONVERSATION,
+  validate: {
+    body: schema.object(
+      {
+        version: schema.number({ min: 1, max: CONVERSATION_EXPORT_VERSION }),
+        conversation: schema.object(
+          {
+            title: schema.string({ minLength: 1 }),
+            createdTimeMs: schema.number(),
+            updatedTimeMs: schema.number(),
+          },
+          { unknowns: 'allow' }
+        ),
+        interactions: schema.arrayOf(
+          schema.object(
+            {
+              input: schema.string(),
+              response: schema.string(),
+              create_time: schema.string({
+                validate: (value) => {
+                  if (isNaN(Date.parse(value))) {
+                    return `[${value}] is not a valid date`;
+                  }
+                },
+              }),
+              additional_info: schema.maybe(schema.recordOf(schema.string(), schema.any())),
+            },
+            { unknowns: 'allow' }
+          )
+        ),
+      },
+      { unknowns: 'allow' }
+    ),
+    query: schema.object({
+      dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
+    }),
+  },
+  options: {
+    body: {
+      maxBytes: IMPORT_CONVERSATION_MAX_BYTES,
+    },
+  },
+};
+
+const shareConversationRoute = {
+  path: `${ASSISTANT_API.CONVERSATION}/{conversationId}/_share`,
+  validate: {
+    params: schema.object({
+      conversationId: schema.string(),
+    }),
+    query: schema.object({
+      dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
+    }),
+  },
+};
+
+const sharedConversationRoute = {
+  path: `${ASSISTANT_API.SHARED_CONVERSATION}/{sharedConversationId}`,
+  validate: {
+    params: schema.object({
+      sharedConversationId: schema.string(),
+    }),
+  },
+};
+
+const forkSharedConversationRoute = {
+  path: `${ASSISTANT_API.SHARED_CONVERSATION}/{sharedConversationId}/_fork`,
+  validate: {
+    params: schema.object({
+      sharedConversationId: schema.string(),
+    }),
+    query: schema.object({
+      dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
     }),
   },
 };
@@ -179,6 +269,7 @@ const getTracesRoute = {
     }),
     query: schema.object({
       dataSourceId: schema.maybe(schema.string()),
+      appId: schema.maybe(schema.string()),
     }),
   },
 };
@@ -191,9 +282,24 @@ const feedbackRoute = {
     }),
     body: schema.object({
       satisfaction: schema.boolean(),
+      reasons: schema.maybe(
+        schema.arrayOf(
+          schema.oneOf([
+            schema.literal('inaccurate'),
+            schema.literal('irrelevant'),
+            schema.literal('unsafe'),
+            schema.literal('too_slow'),
+          ]),
+          { maxSize: 4 }
+        )
+      ),
+      comment: schema.maybe(schema.string({ maxLength: 2000 })),
+      correctedAnswer: schema.maybe(schema.string({ maxLength: 10000 })),
     }),
     query: schema.object({
       dataSourceId: schema.maybe(schema.string()),
+      // the app the message was sent from, to pick the same backend as the message
+      appId: schema.maybe(schema.string()),
     }),
   },
 };
@@ -203,20 +309,127 @@ const accountRoute = {
   validate: {},
 };
 
+const resumeStreamRoute = {
+  path: ASSISTANT_API.RESUME_STREAM,
+  validate: {
+    query: schema.object({
+      // fallback for clients which can not set the Last-Event-ID header
+      lastEventId: schema.maybe(schema.string()),
+    }),
+  },
+};
+
+const streamResponseHeaders = {
+  // Browsers often need to buffer the entire response before decompressing, which defeats the purpose of streaming.
+  // need to set 'Content-Encoding' as 'identity' here to prevent browser buffering the response.
+  'Content-Encoding': 'identity',
+  Connection: 'keep-alive',
+  'Content-Type': 'text/event-stream',
+};
+
+type ChatRouteRequest = OpenSearchDashboardsRequest<
+  unknown,
+  { dataSourceId?: string; appId?: string },
+  unknown
+>;
+
 export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions) {
-  const createStorageService = async (context: RequestHandlerContext, dataSourceId?: string) =>
-    StorageServiceFactory.create(
-      routeOptions.config,
-      await getOpenSearchClientTransport({ context, dataSourceId }),
-      routeOptions.messageParsers,
-      context.assistant_plugin.logger
+  const streamRegistry = new ResumableStreamRegistry();
+
+  const createChatBackendOptions = async (
+    context: RequestHandlerContext,
+    request: ChatRouteRequest
+  ): Promise<ChatBackendOptions> => ({
+    config: routeOptions.config,
+    opensearchClientTransport: await getOpenSearchClientTransport({
+      context,
+      dataSourceId: request.query.dataSourceId,
+    }),
+    context,
+    messageParsers: routeOptions.messageParsers,
+    logger: context.assistant_plugin.logger,
+    userName: getUserName(routeOptions.auth, request),
+  });
+  /**
+   * Requests which send a message carry the app id in the input context, other requests
+   * take it from the `appId` query parameter. Without an app id the backend configured
+   * for the data source is used.
+   */
+  const resolveChatBackend = (request: ChatRouteRequest, appId = request.query.appId) =>
+    routeOptions.chatBackendRegistry.resolve(routeOptions.config, {
+      appId,
+      dataSourceId: request.query.dataSourceId,
+    });
+  const createStorageService = async (
+    context: RequestHandlerContext,
+    request: ChatRouteRequest,
+    appId?: string
+  ) =>
+    resolveChatBackend(request, appId).createStorageService(
+      await createChatBackendOptions(context, request)
     );
-  const createChatService = async (context: RequestHandlerContext, dataSourceId?: string) =>
+  const createChatService = async (
+    context: RequestHandlerContext,
+    request: ChatRouteRequest,
+    appId?: string
+  ) =>
     ChatServiceFactory.create(
-      routeOptions.config,
-      await getOpenSearchClientTransport({ context, dataSourceId }),
+      resolveChatBackend(request, appId),
+      await createChatBackendOptions(context, request)
+    );
+  const createFeedbackStore = (context: RequestHandlerContext) =>
+    new FeedbackStore(
+      context.core.opensearch.client.asInternalUser,
       context.assistant_plugin.logger
     );
+  /**
+   * Remember which agent answered, feedback on the interaction is reported for it. The answer
+   * is not held up by the write, a failure only leaves the report with the chat backend id.
+   */
+  const recordAnswerAgent = (
+    context: RequestHandlerContext,
+    request: ChatRouteRequest,
+    outputs: { interactionId: string; agentId?: string },
+    appId?: string
+  ) => {
+    if (!outputs.interactionId) {
+      return;
+    }
+    createFeedbackStore(context)
+      .saveAnswerAgent(
+        outputs.interactionId,
+        outputs.agentId ?? resolveChatBackend(request, appId).id
+      )
+      .catch((error) =>
+        context.assistant_plugin.logger.warn(
+          `Failed to record the agent of interaction ${outputs.interactionId}: ${error}`
+        )
+      );
+  };
+  /**
+   * The page context sent with a request, dropped when contextual prompts are turned off
+   * for the user. Flags which cannot be loaded are considered on, the static config applies then.
+   */
+  const getEnabledUIContext = async <T>(
+    context: RequestHandlerContext,
+    request: ChatRouteRequest,
+    uiContext?: T
+  ): Promise<T | undefined> => {
+    if (!uiContext || !routeOptions.getFeatureFlagManager) {
+      return uiContext;
+    }
+    try {
+      const featureFlagManager = await routeOptions.getFeatureFlagManager();
+      const userName = getUserName(routeOptions.auth, request);
+      if (!featureFlagManager.isEnabled(FEATURE_FLAGS.CONTEXTUAL_PROMPTS, userName)) {
+        context.assistant_plugin.logger.debug('Contextual prompts are disabled for the user');
+        return undefined;
+      }
+    } catch (error) {
+      context.assistant_plugin.logger.warn('Failed to evaluate the contextual prompts flag', error);
+    }
+    return uiContext;
+  };
 
   router.post(
     llmRequestRoute,
@@ -257,8 +470,8 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
         });
       }
 
-      const storageService = await createStorageService(context, request.query.dataSourceId);
-      const chatService = await createChatService(context, request.query.dataSourceId);
+      const storageService = await createStorageService(context, request, input.context.appId);
+      const chatService = await createChatService(context, request, input.context.appId);
 
       let outputs: Awaited<ReturnType<ChatService['requestLLM']>> | undefined;
 
@@ -267,9 +480,9 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
        */
       try {
         // Check if this is a contextual chat service
-        if (typeof (chatService as any).requestLLMWithContext === 'function') {
+        if (isContextualChatService(chatService)) {
           // Extract UI context from request body if available
-          const uiContext = (request.body as any).uiContext;
+          const uiContext = await getEnabledUIContext(context, request, request.body.uiContext);
 
           context.assistant_plugin.logger.debug('Using contextual chat service', {
             hasUIContext: !!uiContext,
@@ -278,7 +491,7 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
             imageCount: input.images?.length || 0,
           });
 
-          outputs = await (chatService as any).requestLLMWithContext(
+          outputs = await chatService.requestLLMWithContext(
             {
               messages,
               input,
@@ -304,23 +517,16 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
           );
         }
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({ statusCode: error.statusCode || 500, body: error.message });
+        return handleChatError(error, response, context.assistant_plugin.logger);
       }
 
+      recordAnswerAgent(context, request, outputs, input.context.appId);
+
       if (outputs.stream) {
-        const result = response.ok({
-          headers: {
-            // Browsers often need to buffer the entire response before decompressing, which defeats the purpose of streaming.
-            // need to set 'Content-Encoding' as 'identity' here to prevent browser buffering the response.
-            'Content-Encoding': 'identity',
-            Connection: 'keep-alive',
-            'Content-Type': 'text/event-stream',
-          },
-          body: outputs.stream,
+        return response.ok({
+          headers: streamResponseHeaders,
+          body: streamRegistry.track(outputs.stream, getUserName(routeOptions.auth, request)),
         });
-
-        return result;
       }
 
       /**
@@ -340,11 +546,15 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
           conversationId,
         };
 
-        // Check if we're using OpenSearch Agents service
-        if (routeOptions.config.aiAgent.enabled) {
-          // For OpenSearch Agents, return the messages directly from the chat service
+        // Chat services like OpenSearch Agents return the messages directly
+        if (outputs.messages?.length) {
           resultPayload.messages = outputs.messages || [];
-          resultPayload.title = conversationIdInRequestBody ? undefined : 'New Conversation';
+          if (!conversationIdInRequestBody) {
+            const conversation = await storageService
+              .getConversation(conversationId)
+              .catch(() => undefined);
+            resultPayload.title = conversation?.title || 'New Conversation';
+          }
 
           // Create a mock interaction for compatibility
           if (resultPayload.messages.length > 0) {
@@ -362,7 +572,7 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
             }
           }
         } else {
-          // For ML Commons service, use the existing storage-based approach
+          // Chat services like ML Commons store the messages, read them from the storage
           if (!conversationIdInRequestBody) {
             /**
              * If no conversationId is provided in request payload,
@@ -402,8 +612,7 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
           body: resultPayload,
         });
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({ statusCode: error.statusCode || 500, body: error.message });
+        return handleChatError(error, response, context.assistant_plugin.logger);
       }
     }
   );
@@ -415,14 +624,13 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       request,
       response
     ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
-      const storageService = await createStorageService(context, request.query.dataSourceId);
+      const storageService = await createStorageService(context, request);
 
       try {
         const getResponse = await storageService.getConversation(request.params.conversationId);
         return response.ok({ body: getResponse });
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({ statusCode: error.statusCode || 500, body: error.message });
+        return handleChatError(error, response, context.assistant_plugin.logger);
       }
     }
   );
@@ -434,7 +642,7 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       request,
       response
     ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
-      const storageService = await createStorageService(context, request.query.dataSourceId);
+      const storageService = await createStorageService(context, request);
 
       try {
         const getResponse = await storageService.getConversations(request.query);
@@ -457,14 +665,13 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       request,
       response
     ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
-      const storageService = await createStorageService(context, request.query.dataSourceId);
+      const storageService = await createStorageService(context, request);
 
       try {
         const getResponse = await storageService.deleteConversation(request.params.conversationId);
         return response.ok({ body: getResponse });
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({ statusCode: error.statusCode || 500, body: error.message });
+        return handleChatError(error, response, context.assistant_plugin.logger);
       }
     }
   );
@@ -476,7 +683,7 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       request,
       response
     ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
-      const storageService = await createStorageService(context, request.query.dataSourceId);
+      const storageService = await createStorageService(context, request);
 
       try {
         const getResponse = await storageService.updateConversation(
@@ -485,8 +692,134 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
         );
         return response.ok({ body: getResponse });
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({ statusCode: error.statusCode || 500, body: error.message });
+        return handleChatError(error, response, context.assistant_plugin.logger);
+      }
+    }
+  );
+
+  router.get(
+    exportConversationRoute,
+    async (
+      context,
+      request,
+      response
+    ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
+      const storageService = await createStorageService(context, request);
+
+      try {
+        const { body, contentType, filename } = formatConversation(
+          await exportConversation(storageService, request.params.conversationId),
+          request.query.format
+        );
+        return response.ok({
+          body,
+          headers: {
+            'Content-Type': contentType,
+            'Content-Disposition': `attachment; filename="${filename}"`,
+          },
+        });
+      } catch (error) {
+        return handleChatError(error, response, context.assistant_plugin.logger);
+      }
+    }
+  );
+
+  router.post(
+    importConversationRoute,
+    async (
+      context,
+      request,
+      response
+    ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
+      const storageService = await createStorageService(context, request);
+
+      try {
+        const result = await storageService.importConversation(request.body);
+        return response.ok({ body: result });
+      } catch (error) {
+        return handleChatError(error, response, context.assistant_plugin.logger);
+      }
+    }
+  );
+
+  router.post(
+    shareConversationRoute,
+    async (
+      context,
+      request,
+      response
+    ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
+      const storageService = await createStorageService(context, request);
+      try {
+        const sharedConversationService = await routeOptions.getSharedConversationService(request);
+        // reading the conversation checks the user can access it before it is shared
+        const sharedConversation = await sharedConversationService.share(
+          await exportConversation(storageService, request.params.conversationId),
+          getUserName(routeOptions.auth, request)
+        );
+        return response.ok({ body: sharedConversation });
+      } catch (error) {
+        return handleChatError(error, response, context.assistant_plugin.logger);
+      }
+    }
+  );
+
+  router.get(
+    sharedConversationRoute,
+    async (
+      context,
+      request,
+      response
+    ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
+      try {
+        const sharedConversationService = await routeOptions.getSharedConversationService(request);
+        const sharedConversation = await sharedConversationService.get(
+          request.params.sharedConversationId
+        );
+        return response.ok({ body: sharedConversation });
+      } catch (error) {
+        return handleChatError(error, response, context.assistant_plugin.logger);
+      }
+    }
+  );
+
+  router.delete(
+    sharedConversationRoute,
+    async (
+      context,
+      request,
+      response
+    ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
+      try {
+        const sharedConversationService = await routeOptions.getSharedConversationService(request);
+        await sharedConversationService.delete(
+          request.params.sharedConversationId,
+          getUserName(routeOptions.auth, request)
+        );
+        return response.ok({ body: { success: true } });
+      } catch (error) {
+        return handleChatError(error, response, context.assistant_plugin.logger);
+      }
+    }
+  );
+
+  router.post(
+    forkSharedConversationRoute,
+    async (
+      context,
+      request,
+      response
+    ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
+      const storageService = await createStorageService(context, request);
+      try {
+        const sharedConversationService = await routeOptions.getSharedConversationService(request);
+        const { snapshot } = await sharedConversationService.get(
+          request.params.sharedConversationId
+        );
+        const result = await storageService.importConversation(snapshot);
+        return response.ok({ body: result });
+      } catch (error) {
+        return handleChatError(error, response, context.assistant_plugin.logger);
       }
     }
   );
@@ -498,14 +831,13 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       request,
       response
     ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
-      const storageService = await createStorageService(context, request.query.dataSourceId);
+      const storageService = await createStorageService(context, request);
 
       try {
         const getResponse = await storageService.getTraces(request.params.interactionId);
         return response.ok({ body: getResponse });
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({ statusCode: error.statusCode || 500, body: error.message });
+        return handleChatError(error, response, context.assistant_plugin.logger);
       }
     }
   );
@@ -517,7 +849,7 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       request,
       response
     ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
-      const chatService = await createChatService(context, request.query.dataSourceId);
+      const chatService = await createChatService(context, request);
       try {
         chatService.abortAgentExecution(request.body.conversationId);
         context.assistant_plugin.logger.info(
@@ -525,8 +857,7 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
         );
         return response.ok();
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({ statusCode: error.statusCode || 500, body: error.message });
+        return handleChatError(error, response, context.assistant_plugin.logger);
       }
     }
   );
@@ -539,8 +870,8 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       response
     ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
       const { conversationId, interactionId } = request.body;
-      const storageService = await createStorageService(context, request.query.dataSourceId);
-      const chatService = await createChatService(context, request.query.dataSourceId);
+      const storageService = await createStorageService(context, request);
+      const chatService = await createChatService(context, request);
 
       let outputs: Awaited<ReturnType<ChatService['regenerate']>> | undefined;
 
@@ -549,11 +880,11 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
        */
       try {
         // Check if this is a contextual chat service
-        if (typeof (chatService as any).regenerateWithContext === 'function') {
+        if (isContextualChatService(chatService)) {
           // Extract UI context from request body if available
-          const uiContext = (request.body as any).uiContext;
+          const uiContext = await getEnabledUIContext(context, request, request.body.uiContext);
 
-          outputs = await (chatService as any).regenerateWithContext(
+          outputs = await chatService.regenerateWithContext(
             {
               conversationId,
               interactionId,
@@ -574,8 +905,16 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
           );
         }
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({ statusCode: error.statusCode || 500, body: error.message });
+        return handleChatError(error, response, context.assistant_plugin.logger);
+      }
+
+      recordAnswerAgent(context, request, outputs);
+
+      if (outputs?.stream) {
+        return response.ok({
+          headers: streamResponseHeaders,
+          body: streamRegistry.track(outputs.stream, getUserName(routeOptions.auth, request)),
+        });
       }
 
       /**
@@ -599,8 +938,7 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
           },
         });
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({ statusCode: error.statusCode || 500, body: error.message });
+        return handleChatError(error, response, context.assistant_plugin.logger);
       }
     }
   );
@@ -612,20 +950,32 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       request,
       response
     ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
-      const storageService = await createStorageService(context, request.query.dataSourceId);
+      const { appId } = request.query;
+      const storageService = await createStorageService(context, request, appId);
       const { interactionId } = request.params;
 
       try {
         const updateResponse = await storageService.updateInteraction(interactionId, {
           feedback: request.body,
         });
+        try {
+          const feedbackStore = createFeedbackStore(context);
+          const agent = await feedbackStore.getAnswerAgent(interactionId);
+          await feedbackStore.saveFeedback(getUserName(routeOptions.auth, request), {
+            interactionId,
+            agent: agent ?? resolveChatBackend(request, appId).id,
+            appId,
+            feedback: request.body,
+          });
+        } catch (error) {
+          // the feedback is kept with the interaction, only the report misses it
+          context.assistant_plugin.logger.warn(
+            `Failed to save the feedback on interaction ${interactionId} for the report: ${error}`
+          );
+        }
         return response.ok({ body: { ...updateResponse, success: true } });
       } catch (error) {
-        context.assistant_plugin.logger.error(error);
-        return response.custom({
-          statusCode: error.statusCode || 500,
-          body: error.message,
-        });
+        return handleChatError(error, response, context.assistant_plugin.logger);
       }
     }
   );
@@ -638,14 +988,9 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       response
     ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
       try {
-        const auth = routeOptions.auth.get<{
-          authInfo?: {
-            user_name?: string;
-          };
-        }>(request);
         return response.ok({
           body: {
-            user_name: auth?.state?.authInfo?.user_name ?? DEFAULT_USER_NAME,
+            user_name: getUserName(routeOptions.auth, request),
           },
         });
       } catch (error) {
@@ -656,4 +1001,29 @@ export function registerChatRoutes(router: IRouter, routeOptions: RoutesOptions)
       }
     }
   );
+  router.get(
+    resumeStreamRoute,
+    async (
+      context,
+      request,
+      response
+    ): Promise<IOpenSearchDashboardsResponse<HttpResponsePayload | ResponseError>> => {
+      const lastEventId = request.headers['last-event-id'] ?? request.query.lastEventId;
+      if (typeof lastEventId !== 'string' || !lastEventId) {
+        return response.badRequest({ body: 'Last-Event-ID is required to resume a stream' });
+      }
+
+      const stream = streamRegistry.resume(lastEventId, getUserName(routeOptions.auth, request));
+      if (!stream) {
+        return response.notFound({
+          body: `The stream of event ${lastEventId} does not exist or has expired`,
+        });
+      }
+
+      return response.ok({
+        headers: streamResponseHeaders,
+        body: stream,
+      });
+    }
+  );
 }
@@ -0,0 +1,153 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ResponseObject } from '@hapi/hapi';
+import { Boom } from '@hapi/boom';
+import { Router } from '../../../../src/core/server/http/router';
+import { enhanceWithContext, triggerHandler } from './router.mock';
+import { httpServerMock } from '../../../../src/core/server/http/http_server.mocks';
+import {
+  mockAgentFrameworkStorageService,
+  resetMocks,
+} from '../services/storage/agent_framework_storage_service.mock';
+import { loggerMock } from '../../../../src/core/server/logging/logger.mock';
+import { registerChatRoutes } from './chat_routes';
+import { ASSISTANT_API } from '../../common/constants/llm';
+
+const mockedLogger = loggerMock.create();
+
+const router = new Router(
+  '',
+  mockedLogger,
+  enhanceWithContext({
+    assistant_plugin: {
+      logger: mockedLogger,
+    },
+  })
+);
+registerChatRoutes(router, {
+  messageParsers: [],
+});
+
+const conversation = {
+  title: 'Failed shards',
+  createdTimeMs: 0,
+  updatedTimeMs: 0,
+  messages: [],
+  interactions: [
+    {
+      input: 'why did shards fail?',
+      response: 'The disk is full.',
+      conversation_id: '1',
+      interaction_id: 'interaction_1',
+      create_time: '2024-01-01T00:00:00.000Z',
+      additional_info: { feedback: { satisfaction: true } },
+    },
+  ],
+};
+
+describe('conversation export routes', () => {
+  const exportConversationRequest = (query: Record<string, string>) =>
+    triggerHandler(router, {
+      method: 'get',
+      path: `${ASSISTANT_API.CONVERSATION}/{conversationId}/_export`,
+      req: httpServerMock.createRawRequest({
+        params: { conversationId: '1' },
+        query,
+      }),
+    });
+  const importConversationRequest = (payload: unknown) =>
+    triggerHandler(router, {
+      method: 'post',
+      path: ASSISTANT_API.IMPORT_CONVERSATION,
+      req: httpServerMock.createRawRequest({
+        payload,
+      }),
+    });
+
+  beforeEach(() => {
+    loggerMock.clear(mockedLogger);
+    resetMocks();
+  });
+
+  it('export the conversation with the traces of its interactions', async () => {
+    mockAgentFrameworkStorageService.getConversation.mockResolvedValue(conversation);
+    mockAgentFrameworkStorageService.getTraces.mockResolvedValue([]);
+
+    const result = (await exportConversationRequest({})) as ResponseObject;
+
+    expect(mockAgentFrameworkStorageService.getTraces).toHaveBeenCalledWith('interaction_1');
+    expect(result.headers['content-disposition']).toBe('attachment; filename="Failed_shards.json"');
+    expect(JSON.parse(result.source as string)).toMatchObject({
+      version: 1,
+      conversation: { id: '1', title: 'Failed shards' },
+      interactions: [{ interaction_id: 'interaction_1', traces: [] }],
+    });
+  });
+
+  it('export the conversation in markdown', async () => {
+    mockAgentFrameworkStorageService.getConversation.mockResolvedValue(conversation);
+    mockAgentFrameworkStorageService.getTraces.mockResolvedValue([]);
+
+    const result = (await exportConversationRequest({ format: 'markdown' })) as ResponseObject;
+
+    expect(result.headers['content-type']).toBe('text/markdown; charset=utf-8');
+    expect(result.source).toContain('# Failed shards');
+    expect(result.source).toContain('**Feedback:** helpful');
+  });
+
+  it('return 404 when the conversation to export does not exist', async () => {
+    mockAgentFrameworkStorageService.getConversation.mockRejectedValue(
+      Object.assign(new Error('Conversation 1 not found'), { statusCode: 404 })
+    );
+
+    const result = (await exportConversationRequest({})) as Boom;
+
+    expect(result.output.statusCode).toBe(404);
+  });
+
+  it('import an exported conversation', async () => {
+    mockAgentFrameworkStorageService.importConversation.mockResolvedValue({
+      conversationId: 'imported',
+    });
+    const payload = {
+      version: 1,
+      exportedAt: '2024-01-02T00:00:00.000Z',
+      conversation: { id: '1', title: 'Failed shards', createdTimeMs: 0, updatedTimeMs: 0 },
+      interactions: conversation.interactions.map((interaction) => ({
+        ...interaction,
+        traces: [],
+      })),
+      messages: [],
+    };
+
+    const result = (await importConversationRequest(payload)) as ResponseObject;
+
+    expect(result.source).toEqual({ conversationId: 'imported' });
+    expect(mockAgentFrameworkStorageService.importConversation).toHaveBeenCalledWith(payload);
+  });
+
+  it('return 400 when the export comes from a newer version', async () => {
+    const result = (await importConversationRequest({
+      version: 2,
+      conversation: { title: 'Failed shards', createdTimeMs: 0, updatedTimeMs: 0 },
+      interactions: [],
+    })) as Boom;
+
+    expect(result.output.statusCode).toBe(400);
+    expect(mockAgentFrameworkStorageService.importConversation).not.toHaveBeenCalled();
+  });
+
+  it('return 400 when the create time of an interaction is not a date', async () => {
+    const result = (await importConversationRequest({
+      version: 1,
+      conversation: { title: 'Failed shards', createdTimeMs: 0, updatedTimeMs: 0 },
+      interactions: [{ input: 'why?', response: 'disk full', create_time: 'yesterday' }],
+    })) as Boom;
+
+    expect(result.output.statusCode).toBe(400);
+    expect(mockAgentFrameworkStorageService.importConversation).not.toHaveBeenCalled();
+  });
+});
@@ -6,7 +6,7 @@
 import { ApiResponse, errors } from '@opensearch-project/opensearch';
 import { handleError } from './error_handler';
 import { loggerMock } from '../../../../src/core/server/logging/logger.mock';
-import { AgentNotFoundError } from './errors';
+import { AgentNotFoundError, AgentUnavailableError } from './errors';
 import { opensearchDashboardsResponseFactory } from '../../../../src/core/server';
 
 describe('Error handler', () => {
@@ -21,6 +21,17 @@ describe('Error handler', () => {
     expect(error.options.body).toMatchInlineSnapshot('"Agent not found"');
   });
 
+  it('should return 503 with the message if error is AgentUnavailableError', () => {
+    const mockedLogger = loggerMock.create();
+    const error = handleError(
+      new AgentUnavailableError('Assistant backend unavailable'),
+      opensearchDashboardsResponseFactory,
+      mockedLogger
+    );
+    expect(error.status).toBe(503);
+    expect(error.options.body).toEqual({ message: 'Assistant backend unavailable' });
+  });
+
   it('should return 4xx with original error body', () => {
     const mockedLogger = loggerMock.create();
     const error = handleError(
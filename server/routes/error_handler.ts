@@ -5,7 +5,12 @@
 
 import { errors } from '@opensearch-project/opensearch';
 import { Logger, OpenSearchDashboardsResponseFactory } from '../../../../src/core/server';
-import { AgentNotFoundError } from './errors';
+import {
+  ContextualChatErrorHandler,
+  getErrorStatusCode,
+  toErrorAttributes,
+} from '../../common/utils/error_handling/contextual_chat_error_handler';
+import { AgentNotFoundError, AgentUnavailableError } from './errors';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 export const handleError = (e: any, res: OpenSearchDashboardsResponseFactory, logger: Logger) => {
@@ -14,6 +19,13 @@ export const handleError = (e: any, res: OpenSearchDashboardsResponseFactory, lo
   if (e instanceof AgentNotFoundError) {
     return res.notFound({ body: 'Agent not found' });
   }
+  // the message tells the user to retry later, unlike the generic 5xx response
+  if (e instanceof AgentUnavailableError) {
+    return res.customError({
+      body: { message: e.message },
+      statusCode: e.statusCode,
+    });
+  }
 
   // handle OpenSearch client connection errors
   if (e instanceof errors.NoLivingConnectionsError || e instanceof errors.ConnectionError) {
@@ -44,3 +56,26 @@ export const handleError = (e: any, res: OpenSearchDashboardsResponseFactory, lo
   // Return an general internalError for unhandled server-side issues
   return res.internalError();
 };
+
+const chatErrorHandler = new ContextualChatErrorHandler();
+
+/**
+ * Respond to a failure of the chat pipeline with a user-safe message, the attributes
+ * of the typed error tell the browser how to present it and whether to offer a retry.
+ */
+export const handleChatError = (
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  e: any,
+  res: OpenSearchDashboardsResponseFactory,
+  logger: Logger
+) => {
+  logger.error(e);
+  const error = chatErrorHandler.toContextualError(e);
+  return res.customError({
+    statusCode: getErrorStatusCode(error),
+    body: {
+      message: error.userMessage ?? error.message,
+      attributes: { ...toErrorAttributes(error) },
+    },
+  });
+};
@@ -3,9 +3,81 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { ContextualChatErrorType } from '../../common/types/error_handling';
+
 export class AgentNotFoundError extends Error {
+  public readonly type = ContextualChatErrorType.INVALID_CONFIGURATION;
+
+  constructor(message: string) {
+    super(message);
+    this.message = message;
+  }
+}
+
+export class ConversationNotFoundError extends Error {
+  public readonly statusCode = 404;
+
   constructor(message: string) {
     super(message);
     this.message = message;
   }
 }
+
+/**
+ * Thrown instead of calling the external AI agent while its circuit breaker is open.
+ */
+export class AgentUnavailableError extends Error {
+  public readonly statusCode = 503;
+  public readonly type = ContextualChatErrorType.CHAT_SERVICE_UNAVAILABLE;
+  // retrying would fail right away until the circuit closes
+  public readonly retryable = false;
+
+  constructor(message: string) {
+    super(message);
+    this.message = message;
+  }
+}
+
+/**
+ * Error response of the external AI agent.
+ */
+export class AgentRequestError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.message = message;
+  }
+}
+
+/**
+ * Thrown when the chat backend does not keep the conversation history
+ */
+export class HistoryDisabledError extends Error {
+  public readonly statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.message = message;
+  }
+}
+
+/**
+ * Thrown when a user deletes a shared conversation they did not share
+ */
+export class SharedConversationOwnerError extends Error {
+  public readonly statusCode = 403;
+
+  constructor(message: string) {
+    super(message);
+    this.message = message;
+  }
+}
+
+/**
+ * Thrown when some interactions of an imported conversation are rejected by OpenSearch
+ */
+export class ConversationImportError extends Error {
+  constructor(message: string, public readonly statusCode: number) {
+    super(message);
+    this.message = message;
+  }
+}
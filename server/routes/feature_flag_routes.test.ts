@@ -0,0 +1,80 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ResponseObject } from '@hapi/hapi';
+import { Boom } from '@hapi/boom';
+import { HttpAuth } from '../../../../src/core/server';
+import { Router } from '../../../../src/core/server/http/router';
+import { enhanceWithContext, triggerHandler } from './router.mock';
+import { httpServerMock } from '../../../../src/core/server/http/http_server.mocks';
+import { loggerMock } from '../../../../src/core/server/logging/logger.mock';
+import { ASSISTANT_API } from '../../common/constants/llm';
+import { FeatureFlagManager } from '../services/config/feature_flag_manager';
+import { registerFeatureFlagRoutes } from './feature_flag_routes';
+
+const mockedLogger = loggerMock.create();
+
+const mockFeatureFlagManager = {
+  getFlagStatus: jest.fn(),
+};
+
+const mockAuth = {
+  get: jest.fn(),
+  isAuthenticated: jest.fn(),
+};
+
+const mockGetFeatureFlagManager = jest.fn();
+
+const router = new Router(
+  '',
+  mockedLogger,
+  enhanceWithContext({
+    assistant_plugin: {
+      logger: mockedLogger,
+    },
+  })
+);
+registerFeatureFlagRoutes(router, {
+  auth: mockAuth as unknown as HttpAuth,
+  getFeatureFlagManager: mockGetFeatureFlagManager,
+});
+
+const getFlags = () =>
+  triggerHandler(router, {
+    method: 'get',
+    path: ASSISTANT_API.FLAGS,
+    req: httpServerMock.createRawRequest({}),
+  });
+
+describe('feature flag routes', () => {
+  beforeEach(() => {
+    loggerMock.clear(mockedLogger);
+    mockGetFeatureFlagManager.mockResolvedValue(
+      mockFeatureFlagManager as unknown as FeatureFlagManager
+    );
+  });
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('should evaluate the flags for the authenticated user', async () => {
+    mockAuth.get.mockReturnValue({ state: { authInfo: { user_name: 'alice' } } });
+    mockFeatureFlagManager.getFlagStatus.mockReturnValue({ contextual_prompts_enabled: false });
+
+    const result = (await getFlags()) as ResponseObject;
+
+    expect(result.source).toEqual({ flags: { contextual_prompts_enabled: false } });
+    expect(mockFeatureFlagManager.getFlagStatus).toHaveBeenCalledWith('alice');
+  });
+
+  it('should return an error when the flags cannot be loaded', async () => {
+    mockAuth.get.mockReturnValue({});
+    mockGetFeatureFlagManager.mockRejectedValue(new Error('saved objects unavailable'));
+
+    const result = (await getFlags()) as Boom;
+
+    expect(result.output.statusCode).toBe(500);
+  });
+});
@@ -0,0 +1,34 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HttpAuth, IRouter } from '../../../../src/core/server';
+import { ASSISTANT_API } from '../../common/constants/llm';
+import { FeatureFlagManager } from '../services/config/feature_flag_manager';
+import { getUserName } from '../utils/get_user_name';
+import { handleError } from './error_handler';
+
+export interface FeatureFlagRoutesOptions {
+  auth: HttpAuth;
+  getFeatureFlagManager: () => Promise<FeatureFlagManager>;
+}
+
+export function registerFeatureFlagRoutes(router: IRouter, options: FeatureFlagRoutesOptions) {
+  router.get(
+    {
+      path: ASSISTANT_API.FLAGS,
+      validate: {},
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      try {
+        const featureFlagManager = await options.getFeatureFlagManager();
+        return res.ok({
+          body: { flags: featureFlagManager.getFlagStatus(getUserName(options.auth, req)) },
+        });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+}
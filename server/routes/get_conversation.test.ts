@@ -76,8 +76,14 @@ describe('getConversation route', () => {
       Object {
         "headers": Object {},
         "payload": Object {
+          "attributes": Object {
+            "recoveryStrategy": "notify_user",
+            "retryable": false,
+            "severity": "high",
+            "type": "unknown_error",
+          },
           "error": "Internal Server Error",
-          "message": "getConversation error",
+          "message": "Something went wrong while processing the request, please try again.",
           "statusCode": 500,
         },
         "statusCode": 500,
@@ -124,8 +124,14 @@ describe('test regenerate route', () => {
       Object {
         "headers": Object {},
         "payload": Object {
+          "attributes": Object {
+            "recoveryStrategy": "notify_user",
+            "retryable": false,
+            "severity": "high",
+            "type": "unknown_error",
+          },
           "error": "Internal Server Error",
-          "message": "something went wrong",
+          "message": "Something went wrong while processing the request, please try again.",
           "statusCode": 500,
         },
         "statusCode": 500,
@@ -154,8 +160,14 @@ describe('test regenerate route', () => {
         Object {
           "headers": Object {},
           "payload": Object {
+            "attributes": Object {
+              "recoveryStrategy": "notify_user",
+              "retryable": false,
+              "severity": "high",
+              "type": "unknown_error",
+            },
             "error": "Internal Server Error",
-            "message": "foo",
+            "message": "Something went wrong while processing the request, please try again.",
             "statusCode": 500,
           },
           "statusCode": 500,
@@ -143,8 +143,14 @@ describe('test send_message route', () => {
       Object {
         "headers": Object {},
         "payload": Object {
+          "attributes": Object {
+            "recoveryStrategy": "notify_user",
+            "retryable": false,
+            "severity": "high",
+            "type": "unknown_error",
+          },
           "error": "Internal Server Error",
-          "message": "something went wrong",
+          "message": "Something went wrong while processing the request, please try again.",
           "statusCode": 500,
         },
         "statusCode": 500,
@@ -152,6 +158,32 @@ describe('test send_message route', () => {
     `);
   });
 
+  it('return a typed error with a user-safe message when the backend cannot be reached', async () => {
+    mockOllyChatService.requestLLM.mockImplementationOnce(() => {
+      throw Object.assign(new Error('connect ECONNREFUSED 10.0.0.1:9200'), {
+        code: 'ECONNREFUSED',
+      });
+    });
+    const result = (await sendMessageRequest({
+      input: {
+        content: '1',
+        contentType: 'text',
+        type: 'input',
+        context: {},
+      },
+    })) as Boom;
+    expect(result.output.statusCode).toBe(502);
+    expect(result.output.payload).toMatchObject({
+      message: 'The assistant backend could not be reached, please try again.',
+      attributes: {
+        type: 'network_error',
+        severity: 'high',
+        recoveryStrategy: 'retry_with_backoff',
+        retryable: true,
+      },
+    });
+  });
+
   it('return 500 when requestLLM return without conversationId and no conversation id provided', async () => {
     mockOllyChatService.requestLLM.mockImplementationOnce(async () => {
       return {
@@ -173,8 +205,14 @@ describe('test send_message route', () => {
       Object {
         "headers": Object {},
         "payload": Object {
+          "attributes": Object {
+            "recoveryStrategy": "notify_user",
+            "retryable": false,
+            "severity": "high",
+            "type": "unknown_error",
+          },
           "error": "Internal Server Error",
-          "message": "Not a valid conversation",
+          "message": "Something went wrong while processing the request, please try again.",
           "statusCode": 500,
         },
         "statusCode": 500,
@@ -214,8 +252,14 @@ describe('test send_message route', () => {
       Object {
         "headers": Object {},
         "payload": Object {
+          "attributes": Object {
+            "recoveryStrategy": "notify_user",
+            "retryable": false,
+            "severity": "high",
+            "type": "unknown_error",
+          },
           "error": "Internal Server Error",
-          "message": "something went wrong",
+          "message": "Something went wrong while processing the request, please try again.",
           "statusCode": 500,
         },
         "statusCode": 500,
@@ -250,12 +294,36 @@ describe('test send_message route', () => {
         Object {
           "headers": Object {},
           "payload": Object {
+            "attributes": Object {
+              "recoveryStrategy": "notify_user",
+              "retryable": false,
+              "severity": "high",
+              "type": "unknown_error",
+            },
             "error": "Internal Server Error",
-            "message": "foo",
+            "message": "Something went wrong while processing the request, please try again.",
             "statusCode": 500,
           },
           "statusCode": 500,
         }
       `);
   });
+
+  it('return 400 when the ui context is malformed', async () => {
+    const result = (await sendMessageRequest({
+      input: {
+        content: '1',
+        contentType: 'text',
+        type: 'input',
+        context: {},
+      },
+      uiContext: {
+        page: { url: '/app/dashboards', title: 'Sales', app: 'dashboards', route: '/' },
+        content: 'not a list',
+      },
+    } as any)) as Boom;
+    expect(result.output.statusCode).toBe(400);
+    expect(result.output.payload.message).toContain('[request body.uiContext.');
+    expect(mockOllyChatService.requestLLM).not.toHaveBeenCalled();
+  });
 });
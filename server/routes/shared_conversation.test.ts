@@ -0,0 +1,135 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ResponseObject } from '@hapi/hapi';
+import { Boom } from '@hapi/boom';
+import { HttpAuth, SavedObjectsClientContract } from '../../../../src/core/server';
+import { Router } from '../../../../src/core/server/http/router';
+import { enhanceWithContext, triggerHandler } from './router.mock';
+import { httpServerMock } from '../../../../src/core/server/http/http_server.mocks';
+import {
+  mockAgentFrameworkStorageService,
+  resetMocks,
+} from '../services/storage/agent_framework_storage_service.mock';
+import { loggerMock } from '../../../../src/core/server/logging/logger.mock';
+import { registerChatRoutes } from './chat_routes';
+import { ASSISTANT_API } from '../../common/constants/llm';
+import { SharedConversationService } from '../services/shared_conversation_service';
+import { SharedConversationOwnerError } from './errors';
+
+jest.mock('../services/shared_conversation_service');
+
+const mockedLogger = loggerMock.create();
+
+const router = new Router(
+  '',
+  mockedLogger,
+  enhanceWithContext({
+    assistant_plugin: {
+      logger: mockedLogger,
+    },
+  })
+);
+registerChatRoutes(router, {
+  messageParsers: [],
+  auth: {
+    get: () => ({ state: { authInfo: { user_name: 'alice' } } }),
+  } as unknown as HttpAuth,
+  getSharedConversationService: async () =>
+    new SharedConversationService({} as SavedObjectsClientContract),
+});
+
+const snapshot = {
+  version: 1,
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  conversation: { id: '1', title: 'Failed shards', createdTimeMs: 0, updatedTimeMs: 0 },
+  interactions: [],
+  messages: [],
+};
+const sharedConversation = {
+  id: 'shared_1',
+  title: 'Failed shards',
+  sharedBy: 'alice',
+  sharedAt: '2024-01-02T00:00:00.000Z',
+  snapshot,
+};
+
+const mockedService = SharedConversationService.prototype as jest.Mocked<SharedConversationService>;
+
+describe('shared conversation routes', () => {
+  beforeEach(() => {
+    loggerMock.clear(mockedLogger);
+    resetMocks();
+    jest.clearAllMocks();
+  });
+
+  it('share a snapshot of the conversation', async () => {
+    mockAgentFrameworkStorageService.getConversation.mockResolvedValue({
+      title: 'Failed shards',
+      createdTimeMs: 0,
+      updatedTimeMs: 0,
+      messages: [],
+      interactions: [],
+    });
+    mockedService.share.mockResolvedValue(sharedConversation);
+
+    const result = (await triggerHandler(router, {
+      method: 'post',
+      path: `${ASSISTANT_API.CONVERSATION}/{conversationId}/_share`,
+      req: httpServerMock.createRawRequest({ params: { conversationId: '1' } }),
+    })) as ResponseObject;
+
+    expect(result.source).toEqual(sharedConversation);
+    expect(mockedService.share).toHaveBeenCalledWith(
+      expect.objectContaining({ conversation: expect.objectContaining({ id: '1' }) }),
+      'alice'
+    );
+  });
+
+  it('return 404 when the shared conversation does not exist', async () => {
+    mockedService.get.mockRejectedValue(
+      Object.assign(new Error('Saved object not found'), { output: { statusCode: 404 } })
+    );
+
+    const result = (await triggerHandler(router, {
+      method: 'get',
+      path: `${ASSISTANT_API.SHARED_CONVERSATION}/{sharedConversationId}`,
+      req: httpServerMock.createRawRequest({ params: { sharedConversationId: 'shared_1' } }),
+    })) as Boom;
+
+    expect(result.output.statusCode).toBe(404);
+  });
+
+  it('fork the snapshot into a conversation of the user', async () => {
+    mockedService.get.mockResolvedValue(sharedConversation);
+    mockAgentFrameworkStorageService.importConversation.mockResolvedValue({
+      conversationId: 'forked',
+    });
+
+    const result = (await triggerHandler(router, {
+      method: 'post',
+      path: `${ASSISTANT_API.SHARED_CONVERSATION}/{sharedConversationId}/_fork`,
+      req: httpServerMock.createRawRequest({ params: { sharedConversationId: 'shared_1' } }),
+    })) as ResponseObject;
+
+    expect(result.source).toEqual({ conversationId: 'forked' });
+    expect(mockAgentFrameworkStorageService.importConversation).toHaveBeenCalledWith(snapshot);
+  });
+
+  it('return 403 when another user deletes the shared conversation', async () => {
+    mockedService.delete.mockRejectedValue(
+      new SharedConversationOwnerError('Only the user who shared the conversation can delete it')
+    );
+
+    const result = (await triggerHandler(router, {
+      method: 'delete',
+      path: `${ASSISTANT_API.SHARED_CONVERSATION}/{sharedConversationId}`,
+      req: httpServerMock.createRawRequest({ params: { sharedConversationId: 'shared_1' } }),
+    })) as Boom;
+
+    expect(result.output.statusCode).toBe(403);
+    expect(mockedService.delete).toHaveBeenCalledWith('shared_1', 'alice');
+  });
+});
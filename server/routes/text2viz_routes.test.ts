@@ -3,6 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { ResponseObject } from '@hapi/hapi';
 import { Boom } from '@hapi/boom';
 import { OpenSearchDashboardsRequest, Router } from '../../../../src/core/server/http/router';
 import { enhanceWithContext, triggerHandler } from './router.mock';
@@ -58,6 +59,15 @@ describe('test text2viz route', () => {
         query,
       }),
     });
+  const text2sqlRequest = (payload: {}, query: {}) =>
+    triggerHandler(router, {
+      method: 'post',
+      path: TEXT2VIZ_API.TEXT2SQL,
+      req: httpServerMock.createRawRequest({
+        payload: JSON.stringify(payload),
+        query,
+      }),
+    });
   beforeEach(() => {
     loggerMock.clear(mockedLogger);
     resetMocks();
@@ -235,4 +245,65 @@ describe('test text2viz route', () => {
       }
     `);
   });
+
+  it('asks for a refinement of the previous query for text2ppl', async () => {
+    mockedAssistantClient.executeAgentByConfigName = jest.fn().mockResolvedValue({
+      body: { inference_results: [{ output: [{ result: '{"ppl":"source=index | head 24"}' }] }] },
+    });
+    await text2pplRequest(
+      {
+        index: 'index',
+        question: 'question',
+        instruction: 'only last 24h',
+        previous_ppl: 'source=index',
+      },
+      {}
+    );
+    expect(mockedAssistantClient.executeAgentByConfigName).toHaveBeenCalledWith(
+      'os_query_assist_ppl',
+      {
+        index: 'index',
+        question: expect.stringContaining('The current PPL query is: source=index'),
+      }
+    );
+  });
+
+  it('asks for a refinement of the previous specification for text2viz', async () => {
+    mockedAssistantClient.executeAgentByConfigName = jest.fn().mockResolvedValue({
+      body: { inference_results: [{ output: [{ result: '{"mark":"bar"}' }] }] },
+    });
+    await text2vizRequest(
+      {
+        input_question: 'question',
+        input_instruction: 'make it a stacked bar',
+        ppl: 'ppl',
+        dataSchema: 'mapping',
+        sampleData: 'sample',
+        previous_vega: '{"mark":"line"}',
+      },
+      {}
+    );
+    expect(mockedAssistantClient.executeAgentByConfigName).toHaveBeenCalledWith(
+      'os_text2vega_with_instructions',
+      expect.objectContaining({
+        input_instruction:
+          'make it a stacked bar\nApply the change to this Vega-Lite specification: {"mark":"line"}',
+      })
+    );
+  });
+
+  it('generates SQL with the SQL agent for text2sql', async () => {
+    mockedAssistantClient.executeAgentByConfigName = jest.fn().mockResolvedValue({
+      body: {
+        inference_results: [{ output: [{ result: '{"sql":"SELECT COUNT(*) FROM logs"}' }] }],
+      },
+    });
+    const result = await text2sqlRequest({ index: 'logs', question: 'how many logs' }, {});
+
+    expect(
+      mockedAssistantClient.executeAgentByConfigName
+    ).toHaveBeenCalledWith('os_query_assist_sql', { index: 'logs', question: 'how many logs' });
+    expect((result as ResponseObject).statusCode).toEqual(200);
+    expect((result as ResponseObject).source).toEqual({ sql: 'SELECT COUNT(*) FROM logs' });
+  });
 });
@@ -7,6 +7,7 @@ import { schema } from '@osd/config-schema';
 import { IRouter } from '../../../../src/core/server';
 import {
   TEXT2PPL_AGENT_CONFIG_ID,
+  TEXT2SQL_AGENT_CONFIG_ID,
   TEXT2VEGA_RULE_BASED_AGENT_CONFIG_ID,
   TEXT2VEGA_INPUT_SIZE_LIMIT,
   TEXT2VEGA_WITH_INSTRUCTIONS_AGENT_CONFIG_ID,
@@ -15,6 +16,7 @@ import {
 import { AssistantServiceSetup } from '../services/assistant_service';
 import { handleError } from './error_handler';
 import { checkSingleMetric, addTitleTextLayer } from '../utils/style_single_metric';
+import { extractVegaLiteSpec } from '../utils/tool_output';
 
 const inputSchema = schema.string({
   maxLength: TEXT2VEGA_INPUT_SIZE_LIMIT,
@@ -25,6 +27,21 @@ const inputSchema = schema.string({
   },
 });
 
+/**
+ * The agents only take a question and an instruction, so a refinement asks them to change
+ * the query or specification of the previous revision.
+ */
+const withPreviousQuery = (
+  language: 'PPL' | 'SQL',
+  question: string,
+  instruction: string,
+  previousQuery: string
+) =>
+  `${question}\nThe current ${language} query is: ${previousQuery}\nChange the query to: ${instruction}\nKeep the query unchanged if the change only concerns the presentation.`;
+
+const withPreviousVega = (instruction: string, previousVega: string) =>
+  `${instruction}\nApply the change to this Vega-Lite specification: ${previousVega}`;
+
 export function registerText2VizRoutes(router: IRouter, assistantService: AssistantServiceSetup) {
   router.post(
     {
@@ -36,6 +53,8 @@ export function registerText2VizRoutes(router: IRouter, assistantService: Assist
           ppl: schema.string(),
           dataSchema: schema.string(),
           sampleData: schema.string(),
+          // the specification of the revision being refined by input_instruction
+          previous_vega: schema.maybe(schema.string()),
         }),
         query: schema.object({
           dataSourceId: schema.maybe(schema.string()),
@@ -50,36 +69,22 @@ export function registerText2VizRoutes(router: IRouter, assistantService: Assist
           : TEXT2VEGA_RULE_BASED_AGENT_CONFIG_ID;
         const response = await assistantClient.executeAgentByConfigName(agentConfigName, {
           input_question: req.body.input_question,
-          input_instruction: req.body.input_instruction,
+          input_instruction:
+            req.body.input_instruction && req.body.previous_vega
+              ? withPreviousVega(req.body.input_instruction, req.body.previous_vega)
+              : req.body.input_instruction,
           ppl: req.body.ppl,
           dataSchema: req.body.dataSchema,
           sampleData: req.body.sampleData,
         });
 
-        let textContent = response.body.inference_results[0].output[0].result;
+        const textContent = response.body.inference_results[0].output[0].result;
         // Check if the visualization is single value:
         // it should have exactly 1 metric and no dimensions.
         const ifSingleMetric = checkSingleMetric(textContent);
 
-        // extra content between tag <vega-lite></vega-lite>
-        const startTag = '<vega-lite>';
-        const endTag = '</vega-lite>';
-
-        const startIndex = textContent.indexOf(startTag);
-        const endIndex = textContent.indexOf(endTag);
-
-        if (startIndex !== -1 && endIndex !== -1 && startIndex < endIndex) {
-          // Extract the content between the tags
-          textContent = textContent.substring(startIndex + startTag.length, endIndex).trim();
-        }
-        // extract json object
-        const jsonMatch = textContent.match(/\{.*\}/s);
-        if (jsonMatch) {
-          let result = JSON.parse(jsonMatch[0]);
-          // sometimes llm returns {response: <schema>} instead of <schema>
-          if (result.response) {
-            result = JSON.parse(result.response);
-          }
+        let result = extractVegaLiteSpec(textContent);
+        if (result) {
           // Sometimes the response contains width and height which is not needed, here delete the these fields
           delete result.width;
           delete result.height;
@@ -105,6 +110,9 @@ export function registerText2VizRoutes(router: IRouter, assistantService: Assist
         body: schema.object({
           index: schema.string(),
           question: inputSchema,
+          // a follow-up request refining previous_ppl
+          instruction: schema.maybe(schema.string({ maxLength: TEXT2VEGA_INPUT_SIZE_LIMIT })),
+          previous_ppl: schema.maybe(schema.string()),
         }),
         query: schema.object({
           dataSourceId: schema.maybe(schema.string()),
@@ -114,8 +122,49 @@ export function registerText2VizRoutes(router: IRouter, assistantService: Assist
     router.handleLegacyErrors(async (context, req, res) => {
       const assistantClient = assistantService.getScopedClient(req, context);
       try {
+        const { question, instruction, previous_ppl: previousPPL } = req.body;
         const response = await assistantClient.executeAgentByConfigName(TEXT2PPL_AGENT_CONFIG_ID, {
-          question: req.body.question,
+          question:
+            instruction && previousPPL
+              ? withPreviousQuery('PPL', question, instruction, previousPPL)
+              : question,
+          index: req.body.index,
+        });
+
+        const result = JSON.parse(response.body.inference_results[0].output[0].result);
+        return res.ok({ body: result });
+      } catch (e) {
+        return handleError(e, res, context.assistant_plugin.logger);
+      }
+    })
+  );
+
+  router.post(
+    {
+      path: TEXT2VIZ_API.TEXT2SQL,
+      validate: {
+        body: schema.object({
+          // the index or the table of the dataset
+          index: schema.string(),
+          question: inputSchema,
+          // a follow-up request refining previous_sql
+          instruction: schema.maybe(schema.string({ maxLength: TEXT2VEGA_INPUT_SIZE_LIMIT })),
+          previous_sql: schema.maybe(schema.string()),
+        }),
+        query: schema.object({
+          dataSourceId: schema.maybe(schema.string()),
+        }),
+      },
+    },
+    router.handleLegacyErrors(async (context, req, res) => {
+      const assistantClient = assistantService.getScopedClient(req, context);
+      try {
+        const { question, instruction, previous_sql: previousSQL } = req.body;
+        const response = await assistantClient.executeAgentByConfigName(TEXT2SQL_AGENT_CONFIG_ID, {
+          question:
+            instruction && previousSQL
+              ? withPreviousQuery('SQL', question, instruction, previousSQL)
+              : question,
           index: req.body.index,
         });
 
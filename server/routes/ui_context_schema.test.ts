@@ -0,0 +1,134 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ContentElement, ContentType, UIContext } from '../../common/types/ui_context';
+import { captureUIContext } from '../../public/services/content_extraction/page_snapshot';
+import { MAX_CONTENT_ELEMENTS, MAX_UI_CONTEXT_SIZE, uiContextSchema } from './ui_context_schema';
+
+const createContentElement = (id: string, summary = 'summary'): ContentElement => ({
+  id,
+  type: ContentType.VISUALIZATION,
+  title: 'Requests',
+  data: {
+    summary,
+    chartData: { type: 'bar', values: [{ x: 'host-a', y: 10 }] },
+  },
+});
+
+const createUIContext = (overrides: Partial<UIContext> = {}): UIContext => ({
+  version: 1,
+  page: {
+    url: 'http://localhost:5601/app/dashboards#/view/1',
+    title: 'Sales',
+    app: 'dashboards',
+    route: '/app/dashboards',
+    breadcrumbs: [{ text: 'Dashboards', href: '/app/dashboards', active: false }],
+    metadata: { dashboardId: '1' },
+  },
+  content: [createContentElement('requests')],
+  navigation: {
+    currentApp: 'dashboards',
+    currentRoute: '/app/dashboards',
+    breadcrumbs: [],
+    availableApps: [],
+  },
+  filters: [{ displayName: 'host: host-a', field: 'host', value: 'host-a', enabled: true }],
+  timeRange: { from: 'now-15m', to: 'now', mode: 'relative' },
+  userActions: [],
+  permissions: { canViewData: true, canModifyDashboard: false, canAccessApp: true },
+  extractedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('uiContextSchema', () => {
+  it('should accept a valid UI context', () => {
+    const uiContext = createUIContext();
+
+    expect(uiContextSchema.validate(uiContext)).toEqual(uiContext);
+  });
+
+  it('should accept a UI context without version and optional fields', () => {
+    const { version, timeRange, ...uiContext } = createUIContext();
+
+    expect(() => uiContextSchema.validate(uiContext)).not.toThrow();
+  });
+
+  it('should reject malformed content elements', () => {
+    expect(() =>
+      uiContextSchema.validate(
+        createUIContext({
+          content: [{ ...createContentElement('requests'), type: 'chart' as ContentType }],
+        })
+      )
+    ).toThrow(/\[content\.0\.type\]: type must be one of \[visualization, .*\], got \[chart\]/);
+    expect(() =>
+      uiContextSchema.validate(
+        createUIContext({
+          content: [{ ...createContentElement('requests'), data: { tableData: { rows: 'a' } } }],
+        } as any)
+      )
+    ).toThrow(/content\.0\.data\.tableData/);
+    expect(() =>
+      uiContextSchema.validate(createUIContext({ content: [createContentElement('')] }))
+    ).toThrow(/content\.0\.id/);
+  });
+
+  it('should reject missing fields and unsupported versions', () => {
+    const { page, ...withoutPage } = createUIContext();
+
+    expect(() => uiContextSchema.validate(withoutPage)).toThrow(/\[page\]/);
+    expect(() => uiContextSchema.validate(createUIContext({ version: 2 }))).toThrow(/\[version\]/);
+  });
+
+  it('should accept the UI context captured on a page with a long URL', async () => {
+    const appState = `(columns:!(${Array.from({ length: 300 }, (_, i) => `field_${i}`).join(
+      ','
+    )}))`;
+    window.history.pushState(
+      {},
+      '',
+      `/app/data-explorer/discover#/?_g=(time:(from:now-15m))&_a=${appState}`
+    );
+    document.body.innerHTML = `
+      <nav class="euiBreadcrumbs">
+        ${Array.from(
+          { length: 150 },
+          (_, i) => `<a class="euiBreadcrumb" href="#/${i}">Page ${i}</a>`
+        ).join('')}
+      </nav>
+      ${Array.from(
+        { length: 150 },
+        (_, i) => `<div class="globalFilterItem">host: host-${i}</div>`
+      ).join('')}
+    `;
+
+    const uiContext = await captureUIContext({ appId: 'data-explorer', extractContent: false });
+
+    expect(window.location.href.length).toBeGreaterThan(2048);
+    expect(() => uiContextSchema.validate(uiContext)).not.toThrow();
+    document.body.innerHTML = '';
+  });
+
+  it('should reject oversized UI contexts', () => {
+    expect(() =>
+      uiContextSchema.validate(
+        createUIContext({
+          content: Array.from({ length: MAX_CONTENT_ELEMENTS + 1 }, (_, i) =>
+            createContentElement(`element-${i}`)
+          ),
+        })
+      )
+    ).toThrow(/\[content\]/);
+    expect(() =>
+      uiContextSchema.validate(
+        createUIContext({
+          content: Array.from({ length: MAX_CONTENT_ELEMENTS }, (_, i) =>
+            createContentElement(`element-${i}`, 'a'.repeat(20000))
+          ),
+        })
+      )
+    ).toThrow(`it should not exceed ${MAX_UI_CONTEXT_SIZE} characters`);
+  });
+});
@@ -0,0 +1,312 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { schema, Type } from '@osd/config-schema';
+import { UI_CONTEXT_LIMITS } from '../../common/constants/contextual_chat';
+import { ContentType, UI_CONTEXT_VERSION, VisibilityState } from '../../common/types/ui_context';
+
+/**
+ * Maximum size of a serialized UI context, larger page snapshots would not fit in a prompt anyway
+ */
+export const MAX_UI_CONTEXT_SIZE = UI_CONTEXT_LIMITS.MAX_SIZE;
+export const MAX_CONTENT_ELEMENTS = UI_CONTEXT_LIMITS.MAX_CONTENT_ELEMENTS;
+const { MAX_ITEMS, MAX_DATA_ITEMS, MAX_STRING_LENGTH, MAX_TEXT_LENGTH } = UI_CONTEXT_LIMITS;
+
+const shortString = () => schema.string({ maxLength: MAX_STRING_LENGTH });
+const longString = () => schema.string({ maxLength: MAX_TEXT_LENGTH });
+const record = () => schema.recordOf(schema.string(), schema.any());
+
+const enumValue = <T extends string>(name: string, values: T[]) =>
+  schema.string({
+    validate: (value) => {
+      if (!values.includes(value as T)) {
+        return `${name} must be one of [${values.join(', ')}], got [${value}]`;
+      }
+    },
+  }) as Type<T>;
+
+const navigationItemSchema = schema.object({
+  text: shortString(),
+  href: schema.maybe(shortString()),
+  active: schema.boolean(),
+});
+
+const chartDataSchema = schema.object({
+  type: shortString(),
+  values: schema.arrayOf(
+    schema.object({
+      x: schema.oneOf([shortString(), schema.number()]),
+      y: schema.number(),
+      label: schema.maybe(shortString()),
+      metadata: schema.maybe(record()),
+    }),
+    { maxSize: MAX_DATA_ITEMS }
+  ),
+  series: schema.maybe(
+    schema.arrayOf(
+      schema.object({
+        name: shortString(),
+        color: schema.maybe(shortString()),
+        type: schema.maybe(shortString()),
+        visible: schema.maybe(schema.boolean()),
+      }),
+      { maxSize: MAX_ITEMS }
+    )
+  ),
+  trends: schema.maybe(
+    schema.object({
+      direction: schema.oneOf([
+        schema.literal('increasing'),
+        schema.literal('decreasing'),
+        schema.literal('stable'),
+      ]),
+      confidence: schema.maybe(schema.number()),
+      changePercent: schema.maybe(schema.number()),
+      anomalies: schema.maybe(
+        schema.arrayOf(
+          schema.object({
+            timestamp: shortString(),
+            value: schema.number(),
+            severity: schema.oneOf([
+              schema.literal('low'),
+              schema.literal('medium'),
+              schema.literal('high'),
+            ]),
+          }),
+          { maxSize: MAX_ITEMS }
+        )
+      ),
+    })
+  ),
+  aggregations: schema.maybe(
+    schema.arrayOf(
+      schema.object({
+        field: shortString(),
+        value: schema.number(),
+        type: schema.maybe(shortString()),
+      }),
+      { maxSize: MAX_ITEMS }
+    )
+  ),
+});
+
+const tableDataSchema = schema.object({
+  headers: schema.arrayOf(shortString(), { maxSize: MAX_ITEMS }),
+  rows: schema.arrayOf(schema.arrayOf(schema.any(), { maxSize: MAX_ITEMS }), {
+    maxSize: MAX_DATA_ITEMS,
+  }),
+  totalRows: schema.maybe(schema.number({ min: 0 })),
+  pagination: schema.maybe(
+    schema.object({
+      currentPage: schema.number({ min: 0 }),
+      totalPages: schema.maybe(schema.number({ min: 0 })),
+      pageSize: schema.maybe(schema.number({ min: 0 })),
+      totalItems: schema.maybe(schema.number({ min: 0 })),
+    })
+  ),
+  sorting: schema.maybe(
+    schema.object({
+      column: shortString(),
+      direction: schema.oneOf([schema.literal('asc'), schema.literal('desc')]),
+    })
+  ),
+});
+
+const metricDataSchema = schema.object({
+  metrics: schema.arrayOf(
+    schema.object({
+      label: shortString(),
+      value: schema.number(),
+      displayValue: shortString(),
+      unit: schema.maybe(shortString()),
+      trend: schema.maybe(
+        schema.oneOf([schema.literal('up'), schema.literal('down'), schema.literal('neutral')])
+      ),
+    }),
+    { maxSize: MAX_ITEMS }
+  ),
+});
+
+const textContentSchema = schema.object({
+  text: longString(),
+  formattedText: schema.maybe(longString()),
+  markdown: schema.maybe(longString()),
+  links: schema.arrayOf(
+    schema.object({
+      text: shortString(),
+      href: shortString(),
+      external: schema.boolean(),
+    }),
+    { maxSize: MAX_ITEMS }
+  ),
+});
+
+const formDataSchema = schema.object({
+  fields: schema.arrayOf(
+    schema.object({
+      name: shortString(),
+      label: schema.maybe(shortString()),
+      type: shortString(),
+      required: schema.boolean(),
+      disabled: schema.boolean(),
+      options: schema.maybe(schema.arrayOf(shortString(), { maxSize: MAX_DATA_ITEMS })),
+    }),
+    { maxSize: MAX_ITEMS }
+  ),
+  values: record(),
+  validation: schema.object({
+    isValid: schema.boolean(),
+    errors: schema.arrayOf(
+      schema.object({
+        field: schema.maybe(shortString()),
+        message: shortString(),
+      }),
+      { maxSize: MAX_ITEMS }
+    ),
+  }),
+});
+
+const navigationDataSchema = schema.object({
+  items: schema.arrayOf(navigationItemSchema, { maxSize: MAX_ITEMS }),
+  currentPath: shortString(),
+  actions: schema.arrayOf(
+    schema.object({
+      label: shortString(),
+      type: schema.oneOf([
+        schema.literal('button'),
+        schema.literal('link'),
+        schema.literal('menu_item'),
+      ]),
+      enabled: schema.boolean(),
+    }),
+    { maxSize: MAX_ITEMS }
+  ),
+});
+
+export const contentElementSchema = schema.object({
+  id: schema.string({ minLength: 1, maxLength: MAX_STRING_LENGTH }),
+  type: enumValue('type', Object.values(ContentType)),
+  title: shortString(),
+  description: schema.maybe(longString()),
+  data: schema.object({
+    summary: schema.maybe(longString()),
+    chartData: schema.maybe(chartDataSchema),
+    tableData: schema.maybe(tableDataSchema),
+    metricData: schema.maybe(metricDataSchema),
+    textContent: schema.maybe(textContentSchema),
+    formData: schema.maybe(formDataSchema),
+    navigationData: schema.maybe(navigationDataSchema),
+    custom: schema.maybe(record()),
+  }),
+  position: schema.maybe(
+    schema.object({
+      x: schema.number(),
+      y: schema.number(),
+      width: schema.number(),
+      height: schema.number(),
+      zIndex: schema.maybe(schema.number()),
+    })
+  ),
+  visibility: schema.maybe(enumValue('visibility', Object.values(VisibilityState))),
+  metadata: schema.maybe(record()),
+  relationships: schema.maybe(
+    schema.arrayOf(
+      schema.object({
+        type: shortString(),
+        targetId: shortString(),
+        description: schema.maybe(shortString()),
+      }),
+      { maxSize: MAX_ITEMS }
+    )
+  ),
+});
+
+/**
+ * Validates the UIContext page snapshot sent along with chat messages.
+ */
+export const uiContextSchema = schema.object(
+  {
+    version: schema.maybe(schema.number({ min: 1, max: UI_CONTEXT_VERSION })),
+    page: schema.object({
+      url: shortString(),
+      title: shortString(),
+      app: shortString(),
+      route: shortString(),
+      breadcrumbs: schema.arrayOf(navigationItemSchema, { maxSize: MAX_ITEMS }),
+      metadata: record(),
+    }),
+    content: schema.arrayOf(contentElementSchema, { maxSize: MAX_CONTENT_ELEMENTS }),
+    navigation: schema.object({
+      currentApp: shortString(),
+      currentRoute: shortString(),
+      breadcrumbs: schema.arrayOf(navigationItemSchema, { maxSize: MAX_ITEMS }),
+      availableApps: schema.arrayOf(
+        schema.object({
+          id: shortString(),
+          title: shortString(),
+          url: schema.maybe(shortString()),
+        }),
+        { maxSize: MAX_ITEMS }
+      ),
+    }),
+    filters: schema.arrayOf(
+      schema.object({
+        field: schema.maybe(shortString()),
+        operator: schema.maybe(shortString()),
+        value: schema.maybe(schema.any()),
+        displayName: schema.maybe(shortString()),
+        enabled: schema.boolean(),
+        negated: schema.maybe(schema.boolean()),
+        pinned: schema.maybe(schema.boolean()),
+      }),
+      { maxSize: MAX_ITEMS }
+    ),
+    timeRange: schema.maybe(
+      schema.object({
+        from: shortString(),
+        to: shortString(),
+        mode: schema.maybe(
+          schema.oneOf([
+            schema.literal('absolute'),
+            schema.literal('relative'),
+            schema.literal('quick'),
+          ])
+        ),
+        displayName: schema.maybe(shortString()),
+        refreshInterval: schema.maybe(
+          schema.object({
+            pause: schema.boolean(),
+            value: schema.number({ min: 0 }),
+          })
+        ),
+      })
+    ),
+    userActions: schema.arrayOf(
+      schema.object({
+        type: shortString(),
+        timestamp: shortString(),
+        elementId: schema.maybe(shortString()),
+        details: schema.maybe(record()),
+      }),
+      { maxSize: MAX_ITEMS }
+    ),
+    permissions: schema.object({
+      canViewData: schema.boolean(),
+      canModifyDashboard: schema.boolean(),
+      canAccessApp: schema.boolean(),
+      restrictedFields: schema.maybe(schema.arrayOf(shortString(), { maxSize: MAX_ITEMS })),
+      dataSourcePermissions: schema.maybe(schema.recordOf(schema.string(), schema.boolean())),
+    }),
+    extractedAt: shortString(),
+  },
+  {
+    validate: (value) => {
+      const size = JSON.stringify(value).length;
+      if (size > MAX_UI_CONTEXT_SIZE) {
+        return `uiContext is ${size} characters long, it should not exceed ${MAX_UI_CONTEXT_SIZE} characters`;
+      }
+    },
+  }
+);
@@ -3,23 +3,219 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { SavedObjectsType } from '../../../../src/core/server';
+import { SavedObject, SavedObjectsType } from '../../../../src/core/server';
 
 /**
- * Contextual Chat Saved Object Types - Snapshot-based approach
+ * Contextual Chat Saved Object Types
  *
- * Note: With the snapshot-based approach, we don't need persistent
- * contextual chat saved objects since context is extracted on-demand.
- * This file provides an empty array to maintain compatibility.
+ * The page context itself is extracted on demand and never stored, these types hold the
+ * data of the admin, monitoring and configuration services. They are not tied to a tenant,
+ * and only the fields which are searched or sorted on are mapped.
  */
 
+export const PERFORMANCE_ALERTS_SAVED_OBJECT = 'contextual-chat-performance-alerts';
+export const DIAGNOSTIC_REPORTS_SAVED_OBJECT = 'contextual-chat-diagnostic-reports';
+export const DIAGNOSTIC_TEST_SAVED_OBJECT = 'contextual-chat-diagnostic-test';
+export const USAGE_EVENTS_SAVED_OBJECT = 'contextual-chat-usage-events';
+export const FEATURE_FLAGS_SAVED_OBJECT = 'contextual-chat-feature-flags';
+export const ADMIN_SETTINGS_SAVED_OBJECT = 'contextual-chat-admin-settings';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How long the objects of a type are kept after their last update, types without a
+ * retention are configuration and are kept until they are deleted.
+ */
+export const contextualChatSavedObjectRetentionMs: Record<string, number> = {
+  [PERFORMANCE_ALERTS_SAVED_OBJECT]: 30 * DAY_MS,
+  [DIAGNOSTIC_REPORTS_SAVED_OBJECT]: 30 * DAY_MS,
+  // the connectivity test deletes its object right away, only failed deletions are left
+  [DIAGNOSTIC_TEST_SAVED_OBJECT]: DAY_MS,
+  [USAGE_EVENTS_SAVED_OBJECT]: 90 * DAY_MS,
+};
+
+/**
+ * Feature flags and admin settings change the behavior of the assistant for every user, and
+ * alerts, diagnostic reports and usage events describe the activity of every user. The types
+ * are hidden and only read and written with the internal repository of the admin services.
+ */
+export const CONTEXTUAL_CHAT_HIDDEN_SAVED_OBJECTS = [
+  PERFORMANCE_ALERTS_SAVED_OBJECT,
+  DIAGNOSTIC_REPORTS_SAVED_OBJECT,
+  DIAGNOSTIC_TEST_SAVED_OBJECT,
+  USAGE_EVENTS_SAVED_OBJECT,
+  FEATURE_FLAGS_SAVED_OBJECT,
+  ADMIN_SETTINGS_SAVED_OBJECT,
+];
+
+export interface PerformanceAlertSavedObjectAttributes {
+  metric: string;
+  level: 'warning' | 'critical';
+  value: number;
+  threshold: number;
+  timestamp: number;
+  resolved: boolean;
+  resolvedAt?: number;
+}
+
+export interface DiagnosticReportSavedObjectAttributes {
+  timestamp: number;
+  overallStatus: 'healthy' | 'issues' | 'critical';
+}
+
+export interface UsageEventsSavedObjectAttributes {
+  events: unknown[];
+  timestamp: number;
+}
+
+export interface FeatureFlagSavedObjectAttributes {
+  key: string;
+  value: boolean;
+  reason: string;
+  timestamp: number;
+  userId?: string;
+}
+
+export interface AdminSettingSavedObjectAttributes {
+  settingId: string;
+  value: boolean | number | string;
+  timestamp: number;
+}
+
+const formatTimestamp = (timestamp?: number) =>
+  timestamp ? new Date(timestamp).toISOString() : 'unknown date';
+
+export const performanceAlertsSavedObjectType: SavedObjectsType = {
+  name: PERFORMANCE_ALERTS_SAVED_OBJECT,
+  hidden: true,
+  namespaceType: 'agnostic',
+  management: {
+    importableAndExportable: false,
+    getTitle: ({ attributes }: SavedObject<PerformanceAlertSavedObjectAttributes>) =>
+      `${attributes.level} ${attributes.metric} alert, ${formatTimestamp(attributes.timestamp)}`,
+  },
+  // first version of the type, there are no documents to migrate yet
+  migrations: {},
+  mappings: {
+    dynamic: false,
+    properties: {
+      metric: { type: 'keyword' },
+      level: { type: 'keyword' },
+      value: { type: 'double' },
+      threshold: { type: 'double' },
+      timestamp: { type: 'date' },
+      resolved: { type: 'boolean' },
+      resolvedAt: { type: 'date' },
+    },
+  },
+};
+
+export const diagnosticReportsSavedObjectType: SavedObjectsType = {
+  name: DIAGNOSTIC_REPORTS_SAVED_OBJECT,
+  hidden: true,
+  namespaceType: 'agnostic',
+  management: {
+    importableAndExportable: false,
+    getTitle: ({ attributes }: SavedObject<DiagnosticReportSavedObjectAttributes>) =>
+      `Diagnostic report (${attributes.overallStatus}), ${formatTimestamp(attributes.timestamp)}`,
+  },
+  migrations: {},
+  mappings: {
+    dynamic: false,
+    properties: {
+      timestamp: { type: 'date' },
+      overallStatus: { type: 'keyword' },
+    },
+  },
+};
+
+export const diagnosticTestSavedObjectType: SavedObjectsType = {
+  name: DIAGNOSTIC_TEST_SAVED_OBJECT,
+  hidden: true,
+  namespaceType: 'agnostic',
+  management: {
+    // short-lived objects of the connectivity test, there is nothing to manage
+    importableAndExportable: false,
+  },
+  migrations: {},
+  mappings: {
+    dynamic: false,
+    properties: {
+      test: { type: 'boolean' },
+    },
+  },
+};
+
+export const usageEventsSavedObjectType: SavedObjectsType = {
+  name: USAGE_EVENTS_SAVED_OBJECT,
+  hidden: true,
+  namespaceType: 'agnostic',
+  management: {
+    importableAndExportable: false,
+    getTitle: ({ attributes }: SavedObject<UsageEventsSavedObjectAttributes>) =>
+      `${attributes.events?.length ?? 0} usage events, ${formatTimestamp(attributes.timestamp)}`,
+  },
+  migrations: {},
+  mappings: {
+    dynamic: false,
+    properties: {
+      // the events of a batch are not mapped, they are only read back as a whole
+      timestamp: { type: 'date' },
+    },
+  },
+};
+
+export const featureFlagsSavedObjectType: SavedObjectsType = {
+  name: FEATURE_FLAGS_SAVED_OBJECT,
+  hidden: true,
+  namespaceType: 'agnostic',
+  management: {
+    importableAndExportable: false,
+    getTitle: ({ attributes }: SavedObject<FeatureFlagSavedObjectAttributes>) =>
+      `Feature flag ${attributes.key}: ${attributes.value ? 'on' : 'off'}`,
+  },
+  migrations: {},
+  mappings: {
+    dynamic: false,
+    properties: {
+      key: { type: 'keyword' },
+      value: { type: 'boolean' },
+      reason: { type: 'text' },
+      timestamp: { type: 'date' },
+      userId: { type: 'keyword' },
+    },
+  },
+};
+
+export const adminSettingsSavedObjectType: SavedObjectsType = {
+  name: ADMIN_SETTINGS_SAVED_OBJECT,
+  hidden: true,
+  namespaceType: 'agnostic',
+  management: {
+    importableAndExportable: false,
+    getTitle: ({ attributes }: SavedObject<AdminSettingSavedObjectAttributes>) =>
+      `Setting ${attributes.settingId}`,
+  },
+  migrations: {},
+  mappings: {
+    dynamic: false,
+    properties: {
+      settingId: { type: 'keyword' },
+      timestamp: { type: 'date' },
+    },
+  },
+};
+
 /**
  * Array of contextual chat saved object types
- * Empty for snapshot-based approach - no persistent contextual data needed
  */
 export const contextualChatSavedObjectTypes: SavedObjectsType[] = [
-  // No saved object types needed for snapshot-based contextual chat
-  // Context is extracted on-demand from browser snapshots
+  performanceAlertsSavedObjectType,
+  diagnosticReportsSavedObjectType,
+  diagnosticTestSavedObjectType,
+  usageEventsSavedObjectType,
+  featureFlagsSavedObjectType,
+  adminSettingsSavedObjectType,
 ];
 
 /**
@@ -4,3 +4,4 @@
  */
 
 export * from './contextual_chat_saved_objects';
+export * from './shared_conversation_saved_object';
@@ -0,0 +1,40 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SavedObjectsType } from '../../../../src/core/server';
+import { SavedObjectAttributes } from '../../../../src/core/types';
+import { SHARED_CONVERSATION_SAVED_OBJECT } from '../../common/constants/shared_conversation';
+
+export interface SharedConversationSavedObjectAttributes extends SavedObjectAttributes {
+  title: string;
+  sharedBy: string;
+  sharedAt: string;
+  /**
+   * The serialized {@link ConversationExport} of the conversation
+   */
+  snapshot: string;
+}
+
+/**
+ * Snapshots of shared conversations. They belong to the tenant or workspace of the user
+ * who shared them, so only the users who can read saved objects there can open the link.
+ * The type is hidden, it is only read and written by the `SharedConversationService`
+ * so the link can only be revoked by the user who shared it.
+ */
+export const sharedConversationSavedObjectType: SavedObjectsType = {
+  name: SHARED_CONVERSATION_SAVED_OBJECT,
+  hidden: true,
+  namespaceType: 'single',
+  migrations: {},
+  mappings: {
+    dynamic: false,
+    properties: {
+      title: { type: 'text' },
+      sharedBy: { type: 'keyword' },
+      sharedAt: { type: 'date' },
+      snapshot: { type: 'text', index: false },
+    },
+  },
+};
@@ -0,0 +1,127 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Logger } from '@osd/logging';
+import { SavedObjectsClientContract } from '@osd/core/server';
+import { SavedObjectsRetentionService } from '../saved_objects_retention_service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = Date.parse('2024-06-01T00:00:00.000Z');
+
+const savedObject = (id: string, ageInDays: number) => ({
+  id,
+  type: 'contextual-chat-performance-alerts',
+  attributes: {},
+  references: [],
+  updated_at: new Date(now - ageInDays * DAY_MS).toISOString(),
+});
+
+describe('SavedObjectsRetentionService', () => {
+  let mockLogger: jest.Mocked<Logger>;
+  let mockSavedObjectsClient: jest.Mocked<SavedObjectsClientContract>;
+  let retentionService: SavedObjectsRetentionService;
+
+  beforeEach(() => {
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+      trace: jest.fn(),
+      fatal: jest.fn(),
+      get: jest.fn(),
+    } as any;
+
+    mockSavedObjectsClient = {
+      find: jest.fn(),
+      delete: jest.fn().mockResolvedValue({}),
+    } as any;
+
+    retentionService = new SavedObjectsRetentionService(mockSavedObjectsClient, mockLogger, {
+      'contextual-chat-performance-alerts': 30 * DAY_MS,
+    });
+  });
+
+  afterEach(() => {
+    retentionService.destroy();
+  });
+
+  it('should delete the objects older than the retention of their type', async () => {
+    mockSavedObjectsClient.find.mockResolvedValue({
+      saved_objects: [savedObject('old', 45), savedObject('expired', 31), savedObject('recent', 2)],
+      total: 3,
+      per_page: 100,
+      page: 1,
+    } as any);
+
+    const deleted = await retentionService.purgeExpiredObjects(now);
+
+    expect(mockSavedObjectsClient.find).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: 'contextual-chat-performance-alerts',
+        sortField: 'updated_at',
+        sortOrder: 'asc',
+      })
+    );
+    expect(mockSavedObjectsClient.delete).toHaveBeenCalledTimes(2);
+    expect(mockSavedObjectsClient.delete).toHaveBeenCalledWith(
+      'contextual-chat-performance-alerts',
+      'old'
+    );
+    expect(mockSavedObjectsClient.delete).toHaveBeenCalledWith(
+      'contextual-chat-performance-alerts',
+      'expired'
+    );
+    expect(deleted).toEqual({ 'contextual-chat-performance-alerts': 2 });
+  });
+
+  it('should keep purging while whole pages are expired', async () => {
+    mockSavedObjectsClient.find
+      .mockResolvedValueOnce({ saved_objects: [savedObject('1', 60), savedObject('2', 50)] } as any)
+      .mockResolvedValueOnce({ saved_objects: [savedObject('3', 40)] } as any)
+      .mockResolvedValueOnce({ saved_objects: [] } as any);
+
+    const deleted = await retentionService.purgeExpiredObjects(now);
+
+    expect(mockSavedObjectsClient.find).toHaveBeenCalledTimes(3);
+    expect(deleted).toEqual({ 'contextual-chat-performance-alerts': 3 });
+  });
+
+  it('should log failures and report nothing deleted', async () => {
+    mockSavedObjectsClient.find.mockRejectedValue(new Error('index unavailable'));
+
+    const deleted = await retentionService.purgeExpiredObjects(now);
+
+    expect(deleted).toEqual({ 'contextual-chat-performance-alerts': 0 });
+    expect(mockLogger.error).toHaveBeenCalledWith(
+      'Failed to purge expired contextual-chat-performance-alerts saved objects',
+      expect.any(Error)
+    );
+  });
+
+  it('should purge at start and then periodically', () => {
+    jest.useFakeTimers();
+    try {
+      mockSavedObjectsClient.find.mockResolvedValue({
+        saved_objects: [],
+        total: 0,
+        per_page: 100,
+        page: 1,
+      });
+
+      retentionService.start();
+      expect(mockSavedObjectsClient.find).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(6 * 60 * 60 * 1000);
+      expect(mockSavedObjectsClient.find).toHaveBeenCalledTimes(2);
+
+      retentionService.destroy();
+      jest.advanceTimersByTime(6 * 60 * 60 * 1000);
+      expect(mockSavedObjectsClient.find).toHaveBeenCalledTimes(2);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
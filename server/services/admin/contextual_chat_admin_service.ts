@@ -322,6 +322,11 @@ export class ContextualChatAdminService {
     }
   }
 
+  public async resetFeatureFlag(flagKey: string): Promise<void> {
+    this.logger.info(`Resetting feature flag: ${flagKey}`);
+    await this.featureFlagManager.deleteOverride(flagKey);
+  }
+
   public async getPerformanceMetrics(): Promise<PerformanceMetrics> {
     try {
       // In a real implementation, these would come from actual metrics collection
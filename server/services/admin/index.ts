@@ -0,0 +1,68 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Logger } from '@osd/logging';
+import { SavedObjectsClientContract } from '@osd/core/server';
+import { ConfigSchema } from '../../../common/types/config';
+import { ContextualChatConfigService } from '../config/contextual_chat_config_service';
+import { FeatureFlagManager } from '../config/feature_flag_manager';
+import { ContextualChatAdminService } from './contextual_chat_admin_service';
+import { PerformanceMonitoringService } from './performance_monitoring_service';
+import { TroubleshootingTools } from './troubleshooting_tools';
+import { UsageAnalyticsService } from './usage_analytics_service';
+
+const FEATURE_FLAG_REFRESH_INTERVAL_MS = 60 * 1000;
+
+export interface AdminServices {
+  configService: ContextualChatConfigService;
+  featureFlagManager: FeatureFlagManager;
+  adminService: ContextualChatAdminService;
+  performanceService: PerformanceMonitoringService;
+  troubleshootingTools: TroubleshootingTools;
+  analyticsService: UsageAnalyticsService;
+}
+
+/**
+ * Create the admin, monitoring and troubleshooting services on top of one
+ * saved objects client. The feature flags, performance and analytics services own timers,
+ * so callers should create them once and release them with `destroyAdminServices`.
+ */
+export const createAdminServices = async (
+  config: ConfigSchema['contextualChat'],
+  savedObjectsClient: SavedObjectsClientContract,
+  logger: Logger
+): Promise<AdminServices> => {
+  const configService = new ContextualChatConfigService(config, logger);
+  const featureFlagManager = new FeatureFlagManager(logger, savedObjectsClient);
+  await featureFlagManager.loadOverrides();
+  featureFlagManager.watchOverrides(FEATURE_FLAG_REFRESH_INTERVAL_MS);
+
+  const performanceService = new PerformanceMonitoringService(savedObjectsClient, logger);
+
+  return {
+    configService,
+    featureFlagManager,
+    adminService: new ContextualChatAdminService(
+      configService,
+      featureFlagManager,
+      savedObjectsClient,
+      logger
+    ),
+    performanceService,
+    troubleshootingTools: new TroubleshootingTools(
+      configService,
+      performanceService,
+      savedObjectsClient,
+      logger
+    ),
+    analyticsService: new UsageAnalyticsService(savedObjectsClient, logger),
+  };
+};
+
+export const destroyAdminServices = (services: AdminServices) => {
+  services.featureFlagManager.destroy();
+  services.performanceService.destroy();
+  services.analyticsService.destroy();
+};
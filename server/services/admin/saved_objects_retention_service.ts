@@ -0,0 +1,90 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Logger } from '@osd/logging';
+import { SavedObjectsClientContract } from '@osd/core/server';
+import { contextualChatSavedObjectRetentionMs } from '../../saved_objects';
+
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const PURGE_PAGE_SIZE = 100;
+// bounds the work of one purge, the next purge continues where it stopped
+const MAX_PURGED_PAGES = 10;
+
+/**
+ * Deletes the monitoring and analytics saved objects older than the retention of their type.
+ */
+export class SavedObjectsRetentionService {
+  private purgeTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly savedObjectsClient: SavedObjectsClientContract,
+    private readonly logger: Logger,
+    private readonly retentionMs: Record<string, number> = contextualChatSavedObjectRetentionMs
+  ) {}
+
+  /**
+   * Purge the expired objects now, then periodically until the service is destroyed.
+   */
+  public start(): void {
+    this.purgeExpiredObjects();
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpiredObjects();
+    }, PURGE_INTERVAL_MS);
+    // the purge must not keep the server process alive
+    this.purgeTimer.unref();
+  }
+
+  /**
+   * @returns the number of deleted objects by type
+   */
+  public async purgeExpiredObjects(now: number = Date.now()): Promise<Record<string, number>> {
+    const deleted: Record<string, number> = {};
+    for (const [type, retention] of Object.entries(this.retentionMs)) {
+      try {
+        deleted[type] = await this.purgeType(type, now - retention);
+      } catch (error) {
+        this.logger.error(`Failed to purge expired ${type} saved objects`, error);
+        deleted[type] = 0;
+      }
+    }
+    return deleted;
+  }
+
+  public destroy(): void {
+    if (this.purgeTimer) {
+      clearInterval(this.purgeTimer);
+    }
+  }
+
+  private async purgeType(type: string, expiredBefore: number): Promise<number> {
+    let deleted = 0;
+    for (let page = 0; page < MAX_PURGED_PAGES; page++) {
+      const response = await this.savedObjectsClient.find({
+        type,
+        perPage: PURGE_PAGE_SIZE,
+        sortField: 'updated_at',
+        sortOrder: 'asc',
+      });
+      const expired = response.saved_objects.filter(
+        ({ updated_at: updatedAt }) => updatedAt && Date.parse(updatedAt) < expiredBefore
+      );
+
+      for (const { id } of expired) {
+        await this.savedObjectsClient.delete(type, id);
+      }
+      deleted += expired.length;
+
+      // objects are sorted from the oldest, the remaining ones are not expired
+      if (expired.length < response.saved_objects.length || expired.length === 0) {
+        break;
+      }
+    }
+
+    if (deleted > 0) {
+      this.logger.info(`Purged ${deleted} expired ${type} saved objects`);
+    }
+    return deleted;
+  }
+}
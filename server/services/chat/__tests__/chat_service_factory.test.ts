@@ -5,10 +5,25 @@
 
 import { ChatServiceFactory } from '../chat_service_factory';
 import { ConfigSchema } from '../../../../common/types/config';
+import { ChatBackendOptions } from '../../../types';
+import { ChatBackendRegistry } from '../chat_backend_registry';
+import { mlCommonsChatBackend, openSearchAgentsChatBackend } from '../chat_backends';
 
 describe('ChatServiceFactory', () => {
   let mockLogger: any;
   let mockOpenSearchTransport: any;
+  const chatBackendRegistry = new ChatBackendRegistry();
+  chatBackendRegistry.register(mlCommonsChatBackend);
+  chatBackendRegistry.register(openSearchAgentsChatBackend);
+
+  const createOptions = (config: ConfigSchema): ChatBackendOptions => ({
+    config,
+    opensearchClientTransport: mockOpenSearchTransport,
+    context: { core: { opensearch: { client: { asInternalUser: {} } } } } as any,
+    messageParsers: [],
+    logger: mockLogger,
+    userName: 'test_user',
+  });
 
   beforeEach(() => {
     mockLogger = {
@@ -52,10 +67,15 @@ describe('ChatServiceFactory', () => {
         timeout: 300000,
         healthCheckInterval: 60000,
       },
+      chatBackend: { dataSources: {}, apps: {} },
+      admin: { backendRoles: ['admin'] },
       branding: {},
     };
 
-    const service = ChatServiceFactory.create(config, mockOpenSearchTransport, mockLogger);
+    const service = ChatServiceFactory.create(
+      chatBackendRegistry.resolve(config),
+      createOptions(config)
+    );
 
     expect(service).toBeDefined();
     expect(mockLogger.info).toHaveBeenCalledWith('Using ML-Commons (Olly) chat service');
@@ -92,10 +112,15 @@ describe('ChatServiceFactory', () => {
         timeout: 300000,
         healthCheckInterval: 60000,
       },
+      chatBackend: { dataSources: {}, apps: {} },
+      admin: { backendRoles: ['admin'] },
       branding: {},
     };
 
-    const service = ChatServiceFactory.create(config, mockOpenSearchTransport, mockLogger);
+    const service = ChatServiceFactory.create(
+      chatBackendRegistry.resolve(config),
+      createOptions(config)
+    );
 
     expect(service).toBeDefined();
     expect(mockLogger.info).toHaveBeenCalledWith('Using OpenSearch-Agents chat service');
@@ -132,10 +157,15 @@ describe('ChatServiceFactory', () => {
         timeout: 300000,
         healthCheckInterval: 60000,
       },
+      chatBackend: { dataSources: {}, apps: {} },
+      admin: { backendRoles: ['admin'] },
       branding: {},
     };
 
-    const service = ChatServiceFactory.create(config, mockOpenSearchTransport, mockLogger);
+    const service = ChatServiceFactory.create(
+      chatBackendRegistry.resolve(config),
+      createOptions(config)
+    );
 
     expect(service).toBeDefined();
     expect(mockLogger.info).toHaveBeenCalledWith('Using ML-Commons (Olly) chat service');
@@ -178,6 +208,8 @@ describe('ChatServiceFactory', () => {
         timeout: 300000,
         healthCheckInterval: 60000,
       },
+      chatBackend: { dataSources: {}, apps: {} },
+      admin: { backendRoles: ['admin'] },
       branding: {},
     };
 
@@ -190,7 +222,10 @@ describe('ChatServiceFactory', () => {
       };
     });
 
-    const service = ChatServiceFactory.create(config, mockOpenSearchTransport, mockLogger);
+    const service = ChatServiceFactory.create(
+      chatBackendRegistry.resolve(config),
+      createOptions(config)
+    );
 
     expect(service).toBeDefined();
     expect(mockLogger.error).toHaveBeenCalledWith(
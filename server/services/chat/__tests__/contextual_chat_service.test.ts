@@ -0,0 +1,196 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Readable } from 'stream';
+import { IInput } from '../../../../common/types/chat_saved_object_attributes';
+import { UIContext } from '../../../../common/types/ui_context';
+import { AgentUnavailableError } from '../../../routes/errors';
+import { ChatService } from '../chat_service';
+import {
+  ContextualChatService,
+  ContextualChatServiceConfig,
+  isContextualChatService,
+} from '../contextual_chat_service';
+
+const input: IInput = { type: 'input', contentType: 'text', content: 'Why are there errors?' };
+
+const uiContext: UIContext = {
+  page: {
+    url: '/app/dashboards',
+    title: 'Sales',
+    app: 'dashboards',
+    route: '/',
+    breadcrumbs: [],
+    metadata: {},
+  },
+  content: [],
+  navigation: { currentApp: 'dashboards', currentRoute: '/', breadcrumbs: [], availableApps: [] },
+  filters: [],
+  userActions: [],
+  permissions: { canViewData: true, canModifyDashboard: false, canAccessApp: true },
+  extractedAt: '2024-01-01T00:00:00.000Z',
+};
+
+const chatResponse = {
+  messages: [{ type: 'output' as const, contentType: 'markdown', content: 'answer' }],
+  conversationId: 'conversation_id',
+  interactionId: 'interaction_id',
+};
+
+const serverError = Object.assign(new Error('agent unavailable'), { statusCode: 503 });
+
+describe('ContextualChatService', () => {
+  let baseChatService: jest.Mocked<ChatService>;
+  let promptBuilder: { enhanceInputWithContext: jest.Mock };
+  let responseProcessor: { processResponse: jest.Mock };
+  const logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const context = {} as any;
+
+  const createService = (config: Partial<ContextualChatServiceConfig> = {}) =>
+    new ContextualChatService(
+      baseChatService,
+      promptBuilder as any,
+      responseProcessor as any,
+      logger as any,
+      {
+        enabled: true,
+        contextTimeout: 1000,
+        maxRetryAttempts: 2,
+        retryBackoffMs: 0,
+        fallbackToStandard: true,
+        ...config,
+      }
+    );
+
+  beforeEach(() => {
+    baseChatService = {
+      requestLLM: jest.fn().mockResolvedValue(chatResponse),
+      regenerate: jest.fn().mockResolvedValue(chatResponse),
+      abortAgentExecution: jest.fn(),
+    };
+    promptBuilder = {
+      enhanceInputWithContext: jest.fn(async (message: IInput) => ({
+        ...message,
+        content: `Context: Sales\n\nUser Question: ${message.content}`,
+      })),
+    };
+    responseProcessor = {
+      processResponse: jest.fn(async (response) => ({ ...response, processed: true })),
+    };
+  });
+
+  it('should send the message as is without UI context', async () => {
+    const service = createService();
+
+    await service.requestLLMWithContext({ messages: [], input }, context);
+
+    expect(promptBuilder.enhanceInputWithContext).not.toHaveBeenCalled();
+    expect(baseChatService.requestLLM).toHaveBeenCalledWith({ messages: [], input }, context);
+    expect(isContextualChatService(service)).toBe(true);
+    expect(isContextualChatService(baseChatService)).toBe(false);
+  });
+
+  it('should send the contextual prompt and process the answer', async () => {
+    const result = await createService().requestLLMWithContext(
+      { messages: [], input, conversationId: 'conversation_id', uiContext },
+      context
+    );
+
+    expect(baseChatService.requestLLM).toHaveBeenCalledWith(
+      {
+        messages: [],
+        input: { ...input, content: 'Context: Sales\n\nUser Question: Why are there errors?' },
+        conversationId: 'conversation_id',
+      },
+      context
+    );
+    expect(responseProcessor.processResponse).toHaveBeenCalledWith(chatResponse, uiContext);
+    expect(result).toEqual({ ...chatResponse, processed: true });
+  });
+
+  it('should pass streamed answers through', async () => {
+    const streamedResponse = { ...chatResponse, stream: new Readable({ read() {} }) };
+    baseChatService.requestLLM.mockResolvedValue(streamedResponse);
+
+    const result = await createService().requestLLMWithContext(
+      { messages: [], input, uiContext },
+      context
+    );
+
+    expect(result).toBe(streamedResponse);
+    expect(responseProcessor.processResponse).not.toHaveBeenCalled();
+  });
+
+  it('should send the message without context when building the prompt times out', async () => {
+    promptBuilder.enhanceInputWithContext.mockReturnValue(new Promise(() => {}));
+
+    await createService({ contextTimeout: 10 }).requestLLMWithContext(
+      { messages: [], input, uiContext },
+      context
+    );
+
+    expect(baseChatService.requestLLM).toHaveBeenCalledWith({ messages: [], input }, context);
+  });
+
+  it('should retry server errors before falling back to the standard chat', async () => {
+    baseChatService.requestLLM
+      .mockRejectedValueOnce(serverError)
+      .mockRejectedValueOnce(serverError)
+      .mockRejectedValueOnce(serverError);
+
+    const result = await createService().requestLLMWithContext(
+      { messages: [], input, uiContext },
+      context
+    );
+
+    expect(baseChatService.requestLLM).toHaveBeenCalledTimes(4);
+    expect(baseChatService.requestLLM).toHaveBeenLastCalledWith({ messages: [], input }, context);
+    expect(result).toBe(chatResponse);
+  });
+
+  it('should not retry client errors and throw when the fallback is disabled', async () => {
+    const clientError = Object.assign(new Error('bad request'), { statusCode: 400 });
+    baseChatService.requestLLM.mockRejectedValue(clientError);
+
+    await expect(
+      createService({ fallbackToStandard: false }).requestLLMWithContext(
+        { messages: [], input, uiContext },
+        context
+      )
+    ).rejects.toBe(clientError);
+    expect(baseChatService.requestLLM).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not send the message again when the agent is known to be unavailable', async () => {
+    const unavailableError = new AgentUnavailableError('The AI agent is unavailable');
+    baseChatService.requestLLM.mockRejectedValue(unavailableError);
+
+    await expect(
+      createService().requestLLMWithContext({ messages: [], input, uiContext }, context)
+    ).rejects.toBe(unavailableError);
+    expect(baseChatService.requestLLM).toHaveBeenCalledTimes(1);
+  });
+
+  it('should regenerate with retries and process the answer', async () => {
+    baseChatService.regenerate.mockRejectedValueOnce(serverError);
+    const payload = { conversationId: 'conversation_id', interactionId: 'id', rootAgentId: '' };
+
+    const result = await createService().regenerateWithContext({ ...payload, uiContext }, context);
+
+    expect(baseChatService.regenerate).toHaveBeenCalledTimes(2);
+    expect(baseChatService.regenerate).toHaveBeenCalledWith(payload, context);
+    expect(result).toEqual({ ...chatResponse, processed: true });
+  });
+
+  it('should not use the UI context when contextual chat is disabled', async () => {
+    const service = createService({ enabled: false });
+
+    await service.requestLLMWithContext({ messages: [], input, uiContext }, context);
+
+    expect(service.isContextualModeAvailable()).toBe(false);
+    expect(promptBuilder.enhanceInputWithContext).not.toHaveBeenCalled();
+    expect(baseChatService.requestLLM).toHaveBeenCalledWith({ messages: [], input }, context);
+  });
+});
@@ -0,0 +1,132 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { loggerMock } from '../../../../../src/core/server/logging/logger.mock';
+import { AgentUnavailableError } from '../../routes/errors';
+import { AgentHealthMonitor } from './agent_health_monitor';
+
+describe('AgentHealthMonitor', () => {
+  const logger = loggerMock.create();
+  const config = {
+    enabled: true,
+    baseUrl: 'http://localhost:8000',
+    timeout: 300000,
+    healthCheckInterval: 60000,
+  };
+  const fetchMock = jest.fn();
+  let monitor: AgentHealthMonitor;
+
+  const failHealthChecks = async (count: number) => {
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    for (let i = 0; i < count; i++) {
+      await monitor.checkHealth();
+    }
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers();
+    global.fetch = fetchMock;
+    monitor = new AgentHealthMonitor(config, logger, { failureThreshold: 3, cooldownMs: 30000 });
+  });
+
+  afterEach(() => {
+    monitor.destroy();
+    jest.useRealTimers();
+  });
+
+  it('should report the agent as healthy after a successful check', async () => {
+    fetchMock.mockResolvedValue({ ok: true, json: async () => ({ status: 'ok' }) });
+
+    const status = await monitor.checkHealth();
+
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:8000/health', expect.anything());
+    expect(status).toMatchObject({
+      monitored: true,
+      status: 'healthy',
+      circuit: 'closed',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('should keep the circuit closed below the failure threshold', async () => {
+    await failHealthChecks(2);
+
+    expect(monitor.getStatus()).toMatchObject({
+      status: 'unhealthy',
+      circuit: 'closed',
+      consecutiveFailures: 2,
+      lastError: 'connect ECONNREFUSED',
+    });
+    expect(() => monitor.assertAvailable()).not.toThrow();
+  });
+
+  it('should fail fast once the circuit is open', async () => {
+    await failHealthChecks(3);
+
+    expect(monitor.getStatus().circuit).toBe('open');
+    expect(() => monitor.assertAvailable()).toThrow(AgentUnavailableError);
+  });
+
+  it('should let a request probe the agent after the cooldown', async () => {
+    await failHealthChecks(3);
+    jest.advanceTimersByTime(30000);
+
+    expect(() => monitor.assertAvailable()).not.toThrow();
+    expect(monitor.getStatus().circuit).toBe('half_open');
+    // the other requests wait for the outcome of the probe
+    expect(() => monitor.assertAvailable()).toThrow(AgentUnavailableError);
+
+    monitor.recordFailure('still down');
+    expect(monitor.getStatus().circuit).toBe('open');
+    expect(() => monitor.assertAvailable()).toThrow(AgentUnavailableError);
+  });
+
+  it('should let another request probe the agent when a probe has no outcome', async () => {
+    await failHealthChecks(3);
+    jest.advanceTimersByTime(30000);
+    monitor.assertAvailable();
+
+    jest.advanceTimersByTime(29999);
+    expect(() => monitor.assertAvailable()).toThrow(AgentUnavailableError);
+    jest.advanceTimersByTime(1);
+    expect(() => monitor.assertAvailable()).not.toThrow();
+
+    monitor.recordSuccess();
+    expect(monitor.getStatus().circuit).toBe('closed');
+    expect(() => monitor.assertAvailable()).not.toThrow();
+  });
+
+  it('should close the circuit when the agent recovers', async () => {
+    await failHealthChecks(3);
+    fetchMock.mockResolvedValue({ ok: true, json: async () => ({}) });
+
+    await monitor.checkHealth();
+
+    expect(monitor.getStatus()).toMatchObject({ status: 'healthy', circuit: 'closed' });
+    expect(() => monitor.assertAvailable()).not.toThrow();
+  });
+
+  it('should count failed responses of the health endpoint', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 503 });
+
+    await monitor.checkHealth();
+
+    expect(monitor.getStatus().lastError).toBe('Health check failed with status 503');
+  });
+
+  it('should poll the agent at the configured interval until destroyed', () => {
+    fetchMock.mockResolvedValue({ ok: true, json: async () => ({}) });
+
+    monitor.start();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(config.healthCheckInterval);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    monitor.destroy();
+    jest.advanceTimersByTime(config.healthCheckInterval);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,149 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Logger } from '@osd/logging';
+import { ConfigSchema } from '../../../common/types/config';
+import { AgentCircuitState, AgentHealthStatus } from '../../../common/types/agent_health';
+import { AgentUnavailableError } from '../../routes/errors';
+import { OpenSearchAgentsChatService } from './opensearch_agents_chat_service';
+
+export interface AgentHealthMonitorOptions {
+  /**
+   * Consecutive failed health checks or requests which open the circuit.
+   */
+  failureThreshold: number;
+  /**
+   * Time the circuit stays open before a request or health check may probe the agent again.
+   */
+  cooldownMs: number;
+}
+
+const DEFAULT_OPTIONS: AgentHealthMonitorOptions = {
+  failureThreshold: 3,
+  cooldownMs: 30 * 1000,
+};
+
+export const AGENT_UNAVAILABLE_MESSAGE =
+  'Assistant backend unavailable, the AI agent is not responding. Please try again later.';
+
+/**
+ * Polls the `/health` endpoint of the external AI agent and keeps a circuit breaker
+ * in front of it, so that chat requests fail fast while the agent is down instead of
+ * waiting for `aiAgent.timeout`.
+ */
+export class AgentHealthMonitor {
+  private readonly options: AgentHealthMonitorOptions;
+  private readonly agentClient: OpenSearchAgentsChatService;
+  private healthCheckTimer?: NodeJS.Timeout;
+  private status: AgentHealthStatus['status'] = 'unknown';
+  private circuit: AgentCircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeStartedAt = 0;
+  private lastCheckedAt?: Date;
+  private lastError?: string;
+
+  constructor(
+    private readonly config: ConfigSchema['aiAgent'],
+    private readonly logger: Logger,
+    options: Partial<AgentHealthMonitorOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.agentClient = new OpenSearchAgentsChatService(config, logger);
+  }
+
+  /**
+   * Check the agent now and then every `aiAgent.healthCheckInterval`.
+   */
+  start() {
+    this.destroy();
+    this.checkHealth();
+    this.healthCheckTimer = setInterval(() => this.checkHealth(), this.config.healthCheckInterval);
+    // polling should not keep the process alive on shutdown
+    this.healthCheckTimer.unref();
+  }
+
+  async checkHealth(): Promise<AgentHealthStatus> {
+    const result = await this.agentClient.healthCheck();
+    if (result.status === 'healthy') {
+      this.recordSuccess();
+    } else {
+      const { details } = result;
+      this.recordFailure(
+        details?.error ?? `Health check failed with status ${details?.statusCode ?? 'unknown'}`
+      );
+    }
+    return this.getStatus();
+  }
+
+  recordSuccess() {
+    if (this.circuit !== 'closed') {
+      this.logger.info('AI agent is reachable again, closing the circuit');
+    }
+    this.status = 'healthy';
+    this.circuit = 'closed';
+    this.consecutiveFailures = 0;
+    this.lastCheckedAt = new Date();
+    this.lastError = undefined;
+  }
+
+  recordFailure(error: string) {
+    this.status = 'unhealthy';
+    this.consecutiveFailures++;
+    this.lastCheckedAt = new Date();
+    this.lastError = error;
+
+    // a failed probe reopens the circuit right away
+    if (
+      this.circuit === 'half_open' ||
+      (this.circuit === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)
+    ) {
+      this.logger.warn(
+        `AI agent failed ${this.consecutiveFailures} times in a row, opening the circuit: ${error}`
+      );
+      this.circuit = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Throw when requests should not be sent to the agent. Once the cooldown elapsed, a
+   * single request is let through to probe the agent and the other ones fail fast until
+   * its outcome is recorded. A probe without outcome, e.g. aborted by the user, is
+   * replaced by the next request after another cooldown.
+   */
+  assertAvailable() {
+    const now = Date.now();
+    if (
+      (this.circuit === 'open' && now - this.openedAt >= this.options.cooldownMs) ||
+      (this.circuit === 'half_open' && now - this.probeStartedAt >= this.options.cooldownMs)
+    ) {
+      this.circuit = 'half_open';
+      this.probeStartedAt = now;
+      return;
+    }
+    if (this.circuit !== 'closed') {
+      throw new AgentUnavailableError(AGENT_UNAVAILABLE_MESSAGE);
+    }
+  }
+
+  getStatus(): AgentHealthStatus {
+    return {
+      monitored: true,
+      status: this.status,
+      circuit: this.circuit,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.lastCheckedAt && { lastCheckedAt: this.lastCheckedAt.toISOString() }),
+      ...(this.lastError && { lastError: this.lastError }),
+    };
+  }
+
+  destroy() {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      this.healthCheckTimer = undefined;
+    }
+  }
+}
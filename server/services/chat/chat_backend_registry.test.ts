@@ -0,0 +1,85 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ConfigSchema } from '../../../common/types/config';
+import { ChatBackend } from '../../types';
+import { ChatBackendRegistry } from './chat_backend_registry';
+
+const createBackend = (id: string): ChatBackend => ({
+  id,
+  createChatService: jest.fn(),
+  createStorageService: jest.fn(),
+});
+
+const createConfig = (
+  chatBackend: Partial<ConfigSchema['chatBackend']> = {},
+  aiAgentEnabled = false
+) =>
+  ({
+    aiAgent: { enabled: aiAgentEnabled },
+    chatBackend: { dataSources: {}, apps: {}, ...chatBackend },
+  } as unknown as ConfigSchema);
+
+describe('ChatBackendRegistry', () => {
+  it('should register and unregister backends', () => {
+    const registry = new ChatBackendRegistry();
+    const backend = createBackend('foo');
+
+    registry.register(backend);
+    expect(() => registry.register(createBackend('foo'))).toThrow(
+      'There is already a chat backend whose id is foo'
+    );
+    expect(registry.get('foo')).toBe(backend);
+    expect(registry.getBackendIds()).toEqual(['foo']);
+
+    expect(registry.unregister('foo')).toBe(true);
+    expect(registry.unregister('foo')).toBe(false);
+    expect(registry.get('foo')).toBeUndefined();
+  });
+
+  it('should fall back to the backend of the aiAgent config', () => {
+    expect(ChatBackendRegistry.getConfiguredBackendId(createConfig())).toBe('ml-commons');
+    expect(ChatBackendRegistry.getConfiguredBackendId(createConfig({}, true))).toBe(
+      'opensearch-agents'
+    );
+    expect(ChatBackendRegistry.getConfiguredBackendId(createConfig({ default: 'foo' }, true))).toBe(
+      'foo'
+    );
+  });
+
+  it('should prefer the app mapping over the data source mapping', () => {
+    const config = createConfig({
+      default: 'default',
+      dataSources: { ds: 'data_source_backend' },
+      apps: { discover: 'app_backend' },
+    });
+
+    expect(
+      ChatBackendRegistry.getConfiguredBackendId(config, { appId: 'discover', dataSourceId: 'ds' })
+    ).toBe('app_backend');
+    expect(
+      ChatBackendRegistry.getConfiguredBackendId(config, {
+        appId: 'dashboards',
+        dataSourceId: 'ds',
+      })
+    ).toBe('data_source_backend');
+    expect(ChatBackendRegistry.getConfiguredBackendId(config, { dataSourceId: 'other' })).toBe(
+      'default'
+    );
+  });
+
+  it('should resolve registered backends and report missing ones', () => {
+    const registry = new ChatBackendRegistry();
+    const backend = createBackend('default');
+    registry.register(backend);
+    const config = createConfig({ default: 'default', dataSources: { ds: 'missing' } });
+
+    expect(registry.resolve(config)).toBe(backend);
+    expect(() => registry.resolve(config, { dataSourceId: 'ds' })).toThrow(
+      'Chat backend missing is not registered'
+    );
+    expect(registry.getMissingBackendIds(config)).toEqual(['missing']);
+  });
+});
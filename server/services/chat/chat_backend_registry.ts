@@ -0,0 +1,75 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ConfigSchema } from '../../../common/types/config';
+import { ChatBackend } from '../../types';
+import { ML_COMMONS_CHAT_BACKEND, OPENSEARCH_AGENTS_CHAT_BACKEND } from '../../utils/constants';
+
+export class ChatBackendRegistry {
+  private readonly backends = new Map<string, ChatBackend>();
+
+  register(chatBackend: ChatBackend) {
+    if (this.backends.has(chatBackend.id)) {
+      throw new Error(`There is already a chat backend whose id is ${chatBackend.id}`);
+    }
+    this.backends.set(chatBackend.id, chatBackend);
+  }
+
+  /**
+   * @returns false if there is no backend with the id
+   */
+  unregister(backendId: ChatBackend['id']): boolean {
+    return this.backends.delete(backendId);
+  }
+
+  get(backendId: ChatBackend['id']): ChatBackend | undefined {
+    return this.backends.get(backendId);
+  }
+
+  getBackendIds(): string[] {
+    return [...this.backends.keys()];
+  }
+
+  /**
+   * Get the id of the backend configured for a request, the app mapping takes precedence
+   * over the data source mapping, which takes precedence over the default backend.
+   */
+  static getConfiguredBackendId(
+    config: ConfigSchema,
+    { appId, dataSourceId }: { appId?: string; dataSourceId?: string } = {}
+  ): string {
+    const { chatBackend } = config;
+    return (
+      (appId && chatBackend?.apps[appId]) ||
+      (dataSourceId && chatBackend?.dataSources[dataSourceId]) ||
+      chatBackend?.default ||
+      (config.aiAgent?.enabled ? OPENSEARCH_AGENTS_CHAT_BACKEND : ML_COMMONS_CHAT_BACKEND)
+    );
+  }
+
+  /**
+   * Get the ids of the backends referenced by config which are not registered.
+   */
+  getMissingBackendIds(config: ConfigSchema): string[] {
+    const configuredBackendIds = new Set([
+      ChatBackendRegistry.getConfiguredBackendId(config),
+      ...Object.values(config.chatBackend?.dataSources ?? {}),
+      ...Object.values(config.chatBackend?.apps ?? {}),
+    ]);
+    return [...configuredBackendIds].filter((backendId) => !this.backends.has(backendId));
+  }
+
+  /**
+   * Get the backend configured for a request, throws when the backend is not registered.
+   */
+  resolve(config: ConfigSchema, target?: { appId?: string; dataSourceId?: string }): ChatBackend {
+    const backendId = ChatBackendRegistry.getConfiguredBackendId(config, target);
+    const chatBackend = this.backends.get(backendId);
+    if (!chatBackend) {
+      throw new Error(`Chat backend ${backendId} is not registered`);
+    }
+    return chatBackend;
+  }
+}
@@ -0,0 +1,81 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ChatBackend, ChatBackendOptions } from '../../types';
+import {
+  LOCAL_MOCK_CHAT_BACKEND,
+  ML_COMMONS_CHAT_BACKEND,
+  OPENSEARCH_AGENTS_CHAT_BACKEND,
+} from '../../utils/constants';
+import { AgentFrameworkStorageService } from '../storage/agent_framework_storage_service';
+import { AgentsMemoryStore } from '../storage/agents_memory_store';
+import { LocalMockMemory, LocalMockStorageService } from '../storage/local_mock_storage_service';
+import { OpenSearchAgentsStorageService } from '../storage/opensearch_agents_storage_service';
+import { LocalMockChatService } from './local_mock_chat_service';
+import { OllyChatService } from './olly_chat_service';
+import { OpenSearchAgentsChatService } from './opensearch_agents_chat_service';
+import { AgentHealthMonitor } from './agent_health_monitor';
+
+export const mlCommonsChatBackend: ChatBackend = {
+  id: ML_COMMONS_CHAT_BACKEND,
+  createChatService: ({ opensearchClientTransport, logger }) => {
+    logger.info('Using ML-Commons (Olly) chat service');
+    return new OllyChatService(opensearchClientTransport);
+  },
+  createStorageService: ({ opensearchClientTransport, messageParsers, logger }) => {
+    logger.info('Using standard Agent Framework storage service');
+    return new AgentFrameworkStorageService(opensearchClientTransport, messageParsers);
+  },
+};
+
+/**
+ * Conversation memory for the OpenSearch-Agents backend, which has no memory API of its own.
+ */
+const createAgentsMemoryStore = ({ context, userName, logger }: ChatBackendOptions) =>
+  new AgentsMemoryStore(context.core.opensearch.client.asInternalUser, userName, logger);
+
+/**
+ * Backend sending the messages to the external AI agent, requests fail fast
+ * while the health monitor reports the agent as down.
+ */
+export const createOpenSearchAgentsChatBackend = (
+  healthMonitor?: AgentHealthMonitor
+): ChatBackend => ({
+  id: OPENSEARCH_AGENTS_CHAT_BACKEND,
+  createChatService: (options) => {
+    options.logger.info('Using OpenSearch-Agents chat service');
+    return new OpenSearchAgentsChatService(
+      options.config.aiAgent,
+      options.logger,
+      createAgentsMemoryStore(options),
+      healthMonitor
+    );
+  },
+  createStorageService: (options) => {
+    options.logger.info('Using OpenSearch-Agents storage service');
+    return new OpenSearchAgentsStorageService(
+      options.opensearchClientTransport,
+      options.messageParsers,
+      options.logger,
+      createAgentsMemoryStore(options)
+    );
+  },
+});
+
+export const openSearchAgentsChatBackend = createOpenSearchAgentsChatBackend();
+
+/**
+ * Backend answering with canned responses and keeping conversations in memory,
+ * for developing and testing the chat UI without ML Commons or an agent server.
+ */
+export const createLocalMockChatBackend = (): ChatBackend => {
+  const memory = new LocalMockMemory();
+  return {
+    id: LOCAL_MOCK_CHAT_BACKEND,
+    createChatService: ({ userName }) => new LocalMockChatService(memory, userName),
+    createStorageService: ({ opensearchClientTransport, messageParsers, userName }) =>
+      new LocalMockStorageService(opensearchClientTransport, messageParsers, memory, userName),
+  };
+};
@@ -15,6 +15,7 @@ export interface ChatService {
     messages: IMessage[];
     conversationId: string;
     interactionId: string;
+    agentId?: string; // The agent or agent configuration which answered
     stream?: Stream; // This is the stream to update the message
   }>;
 
@@ -25,6 +26,8 @@ export interface ChatService {
     messages: IMessage[];
     conversationId: string;
     interactionId: string;
+    agentId?: string; // The agent or agent configuration which answered
+    stream?: Stream; // This is the stream to update the regenerated message
   }>;
 
   abortAgentExecution(conversationId: string): void;
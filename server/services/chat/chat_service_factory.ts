@@ -3,32 +3,18 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { OpenSearchClient } from '../../../../../src/core/server';
-import { ConfigSchema } from '../../../common/types/config';
+import { ChatBackend, ChatBackendOptions } from '../../types';
 import { ChatService } from './chat_service';
-import { OllyChatService } from './olly_chat_service';
-import { OpenSearchAgentsChatService } from './opensearch_agents_chat_service';
-import { ContextualChatService } from './contextual_chat_service';
+import { ContextualChatService, ContextualChatServiceConfig } from './contextual_chat_service';
 import { ContextualPromptBuilder } from './contextual_prompt_builder';
 import { ContextualResponseProcessor } from './contextual_response_processor';
 import { ContentPrioritizer } from './content_prioritizer';
 
 export class ChatServiceFactory {
-  static create(
-    config: ConfigSchema,
-    opensearchClientTransport: OpenSearchClient['transport'],
-    logger: any
-  ): ChatService {
+  static create(chatBackend: ChatBackend, options: ChatBackendOptions): ChatService {
+    const { config, logger } = options;
     // Create the base chat service
-    let baseChatService: ChatService;
-
-    if (config.aiAgent.enabled) {
-      logger.info('Using OpenSearch-Agents chat service');
-      baseChatService = new OpenSearchAgentsChatService(config.aiAgent, logger);
-    } else {
-      logger.info('Using ML-Commons (Olly) chat service');
-      baseChatService = new OllyChatService(opensearchClientTransport);
-    }
+    const baseChatService = chatBackend.createChatService(options);
 
     // Wrap with contextual chat service if enabled
     if (config.contextualChat?.enabled) {
@@ -75,10 +61,9 @@ export class ChatServiceFactory {
         const responseProcessor = new ContextualResponseProcessor(logger);
 
         // Create contextual configuration
-        const contextualConfig = {
+        const contextualConfig: ContextualChatServiceConfig = {
           enabled: config.contextualChat.enabled,
           contextTimeout: config.contextualChat.extractionTimeout || 5000,
-          enableStandardChatFallback: true,
           maxRetryAttempts: 2,
           retryBackoffMs: 1000,
           fallbackToStandard: true,
@@ -94,7 +79,7 @@ export class ChatServiceFactory {
         );
 
         logger.info('Contextual chat service initialized successfully');
-        return contextualService as any; // Type assertion needed due to interface differences
+        return contextualService;
       } catch (error) {
         logger.error(
           'Failed to initialize contextual chat service, falling back to base service:',
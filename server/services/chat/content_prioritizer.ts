@@ -4,7 +4,11 @@
  */
 
 import { Logger } from '@osd/logging';
-import { ContentElement, ContentType } from '../../../common/types/ui_context';
+import { ContentElement, ContentType, VisibilityState } from '../../../common/types/ui_context';
+
+const isVisible = (element: ContentElement) =>
+  element.visibility === VisibilityState.VISIBLE ||
+  element.visibility === VisibilityState.PARTIALLY_VISIBLE;
 
 /**
  * Content Prioritizer - Snapshot-based approach
@@ -18,7 +22,7 @@ export class ContentPrioritizer {
     private config: {
       enableSemanticScoring: boolean;
       keywordWeights: Record<string, number>;
-      typeWeights: Record<ContentType, number>;
+      typeWeights: Partial<Record<ContentType, number>>;
     }
   ) {
     // Set default type weights if not provided
@@ -91,10 +95,10 @@ export class ContentPrioritizer {
     score += typeWeight;
 
     // Visibility bonus
-    if (element.visibility?.isVisible) {
+    if (isVisible(element)) {
       score += 1.0;
     }
-    if (element.visibility?.inViewport) {
+    if (element.visibility === VisibilityState.VISIBLE) {
       score += 0.5;
     }
 
@@ -218,8 +222,8 @@ export class ContentPrioritizer {
       typeDistribution[element.type] = (typeDistribution[element.type] || 0) + 1;
 
       // Count visibility
-      if (element.visibility?.isVisible) visible++;
-      if (element.visibility?.inViewport) inViewport++;
+      if (isVisible(element)) visible++;
+      if (element.visibility === VisibilityState.VISIBLE) inViewport++;
     });
 
     return {
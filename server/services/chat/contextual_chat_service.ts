@@ -4,124 +4,129 @@
  */
 
 import { Logger } from '@osd/logging';
-import { ConfigSchema } from '../../../common/types/config';
+import { RequestHandlerContext } from '../../../../../src/core/server';
+import { IInput, IMessage } from '../../../common/types/chat_saved_object_attributes';
+import { IContextualChatService } from '../../../common/types/contextual_chat_service';
+import { UIContext } from '../../../common/types/ui_context';
+import {
+  ContextualChatErrorHandler,
+  RecoveryActions,
+} from '../../../common/utils/error_handling/contextual_chat_error_handler';
 import { ChatService } from './chat_service';
-import { IMessage } from '../../../common/types/chat_saved_object_attributes';
 import { ContextualPromptBuilder } from './contextual_prompt_builder';
 import { ContextualResponseProcessor } from './contextual_response_processor';
 
+export interface ContextualChatServiceConfig {
+  enabled: boolean;
+  /**
+   * Maximum time spent building the contextual prompt, the input is sent without context after it
+   */
+  contextTimeout: number;
+  /**
+   * Number of retries of a failed contextual request, only unavailable backends are retried
+   */
+  maxRetryAttempts: number;
+  /**
+   * Delay before the first retry, doubled on every following retry
+   */
+  retryBackoffMs: number;
+  /**
+   * Send the message without its UI context when the contextual request keeps failing
+   */
+  fallbackToStandard: boolean;
+}
+
 /**
  * Contextual Chat Service - Snapshot-based approach
  *
  * This service wraps a base chat service and adds contextual capabilities
- * using snapshot-based context extraction instead of continuous monitoring.
+ * using the UI context snapshot sent along with the message.
  */
-export class ContextualChatService implements ChatService {
+export class ContextualChatService implements ChatService, IContextualChatService {
+  private readonly errorHandler: ContextualChatErrorHandler;
+
   constructor(
     private baseChatService: ChatService,
     private promptBuilder: ContextualPromptBuilder,
     private responseProcessor: ContextualResponseProcessor,
     private logger: Logger,
-    private config: {
-      enabled: boolean;
-      contextTimeout: number;
-      enableStandardChatFallback: boolean;
-      maxRetryAttempts: number;
-      retryBackoffMs: number;
-      fallbackToStandard: boolean;
-    }
-  ) {}
+    private config: ContextualChatServiceConfig
+  ) {
+    this.errorHandler = new ContextualChatErrorHandler({
+      logger,
+      fallback: {
+        maxRetryAttempts: config.maxRetryAttempts,
+        retryBackoffMs: config.retryBackoffMs,
+        enableStandardChatFallback: config.fallbackToStandard,
+      },
+    });
+  }
+
+  async requestLLM(
+    payload: Parameters<ChatService['requestLLM']>[0],
+    context: RequestHandlerContext
+  ) {
+    return this.baseChatService.requestLLM(payload, context);
+  }
+
+  async regenerate(
+    payload: Parameters<ChatService['regenerate']>[0],
+    context: RequestHandlerContext
+  ) {
+    return this.baseChatService.regenerate(payload, context);
+  }
 
   /**
-   * Send a message with contextual enhancement
+   * Send the message with a prompt built from the UI context, streamed answers are passed through
    */
-  async sendMessage(
-    messages: IMessage[],
-    conversationId?: string,
-    context?: any
-  ): Promise<{ messages: IMessage[]; interactions: any[] }> {
-    if (!this.config.enabled) {
-      return this.baseChatService.sendMessage(messages, conversationId, context);
+  async requestLLMWithContext(
+    payload: Parameters<IContextualChatService['requestLLMWithContext']>[0],
+    context: RequestHandlerContext
+  ) {
+    const { uiContext, ...standardPayload } = payload;
+    if (!this.config.enabled || !uiContext) {
+      return this.baseChatService.requestLLM(standardPayload, context);
     }
 
-    try {
-      // Extract context from the provided context parameter (snapshot-based)
-      let enhancedMessages = messages;
-
-      if (context && context.uiContext) {
-        this.logger.debug('Enhancing messages with UI context');
-        enhancedMessages = await this.promptBuilder.enhanceMessagesWithContext(
-          messages,
-          context.uiContext
-        );
-      }
-
-      // Send enhanced messages to base service
-      const response = await this.baseChatService.sendMessage(
-        enhancedMessages,
-        conversationId,
-        context
-      );
-
-      // Process response with contextual information
-      const processedResponse = await this.responseProcessor.processResponse(
-        response,
-        context?.uiContext
+    const input = await this.enhanceInput(standardPayload.input, uiContext);
+    const request = async () =>
+      this.processResponse(
+        await this.baseChatService.requestLLM({ ...standardPayload, input }, context),
+        uiContext
       );
-
-      return processedResponse;
-    } catch (error) {
-      this.logger.error('Error in contextual chat service:', error);
-
-      if (this.config.fallbackToStandard) {
-        this.logger.info('Falling back to standard chat service');
-        return this.baseChatService.sendMessage(messages, conversationId, context);
-      }
-
-      throw error;
-    }
+    return this.withRecovery(request, {
+      retry: request,
+      withoutContext: () => this.baseChatService.requestLLM(standardPayload, context),
+    });
   }
 
   /**
-   * Process streaming response with contextual enhancement
+   * Regenerate an answer, the backend replays the original question so the UI context only
+   * annotates the regenerated answer
    */
-  async processStreamingResponse(
-    messages: IMessage[],
-    conversationId: string,
-    context?: any
-  ): Promise<any> {
-    if (!this.config.enabled) {
-      return this.baseChatService.processStreamingResponse(messages, conversationId, context);
+  async regenerateWithContext(
+    payload: Parameters<IContextualChatService['regenerateWithContext']>[0],
+    context: RequestHandlerContext
+  ) {
+    const { uiContext, ...standardPayload } = payload;
+    if (!this.config.enabled || !uiContext) {
+      return this.baseChatService.regenerate(standardPayload, context);
     }
 
-    try {
-      // Extract context from the provided context parameter (snapshot-based)
-      let enhancedMessages = messages;
-
-      if (context && context.uiContext) {
-        this.logger.debug('Enhancing streaming messages with UI context');
-        enhancedMessages = await this.promptBuilder.enhanceMessagesWithContext(
-          messages,
-          context.uiContext
-        );
-      }
-
-      // Process streaming with base service
-      return this.baseChatService.processStreamingResponse(
-        enhancedMessages,
-        conversationId,
-        context
+    const request = async () =>
+      this.processResponse(
+        await this.baseChatService.regenerate(standardPayload, context),
+        uiContext
       );
-    } catch (error) {
-      this.logger.error('Error in contextual streaming chat service:', error);
+    return this.withRecovery(request, { retry: request });
+  }
 
-      if (this.config.fallbackToStandard) {
-        this.logger.info('Falling back to standard streaming chat service');
-        return this.baseChatService.processStreamingResponse(messages, conversationId, context);
-      }
+  isContextualModeAvailable(): boolean {
+    return this.config.enabled;
+  }
 
-      throw error;
-    }
+  abortAgentExecution(conversationId: string): void {
+    this.baseChatService.abortAgentExecution(conversationId);
   }
 
   /**
@@ -133,4 +138,58 @@ export class ContextualChatService implements ChatService {
       contextual: this.config.enabled,
     };
   }
+
+  private async enhanceInput(input: IInput, uiContext: UIContext): Promise<IInput> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<IInput>((resolve) => {
+      timer = setTimeout(() => {
+        this.logger.warn(
+          `Building the contextual prompt took more than ${this.config.contextTimeout}ms, sending the message without context`
+        );
+        resolve(input);
+      }, this.config.contextTimeout);
+    });
+
+    try {
+      return await Promise.race([
+        this.promptBuilder.enhanceInputWithContext(input, uiContext),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Apply the recovery strategy of the error of a failed request, the error of the
+   * last attempt is thrown when the request cannot be recovered
+   */
+  private async withRecovery<T>(request: () => Promise<T>, recovery: RecoveryActions<T>) {
+    try {
+      return await request();
+    } catch (error) {
+      const result = await this.errorHandler.handleError(error, recovery);
+      if (!result.success) {
+        throw result.error?.originalError ?? result.error;
+      }
+      return result.result as T;
+    }
+  }
+
+  /**
+   * The messages of streamed answers are placeholders until the stream ends, they are not processed
+   */
+  private async processResponse<T extends { messages: IMessage[]; stream?: unknown }>(
+    response: T,
+    uiContext: UIContext
+  ): Promise<T> {
+    if (response.stream) {
+      return response;
+    }
+    return this.responseProcessor.processResponse(response, uiContext);
+  }
 }
+
+export const isContextualChatService = (
+  service: ChatService
+): service is ChatService & IContextualChatService => service instanceof ContextualChatService;
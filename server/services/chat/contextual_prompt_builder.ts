@@ -4,8 +4,8 @@
  */
 
 import { Logger } from '@osd/logging';
-import { IMessage } from '../../../common/types/chat_saved_object_attributes';
-import { UIContext } from '../../../common/types/ui_context';
+import { IInput } from '../../../common/types/chat_saved_object_attributes';
+import { TimeRangeContext, UIContext } from '../../../common/types/ui_context';
 import { ContentPrioritizer } from './content_prioritizer';
 
 /**
@@ -27,43 +27,22 @@ export class ContextualPromptBuilder {
   ) {}
 
   /**
-   * Enhance messages with UI context information
+   * Enhance the user input with UI context information
    */
-  async enhanceMessagesWithContext(
-    messages: IMessage[],
-    uiContext: UIContext
-  ): Promise<IMessage[]> {
+  async enhanceInputWithContext(input: IInput, uiContext: UIContext): Promise<IInput> {
     try {
-      if (!messages || messages.length === 0) {
-        return messages;
-      }
-
-      // Get the last user message to enhance
-      const lastMessage = messages[messages.length - 1];
-      if (lastMessage.type !== 'input') {
-        return messages;
-      }
-
-      // Build contextual prompt
-      const contextualPrompt = await this.buildContextualPrompt(lastMessage.content, uiContext);
-
-      // Create enhanced message
-      const enhancedMessages = [...messages];
-      enhancedMessages[enhancedMessages.length - 1] = {
-        ...lastMessage,
-        content: contextualPrompt,
-      };
+      const contextualPrompt = await this.buildContextualPrompt(input.content, uiContext);
 
-      this.logger.debug('Enhanced message with UI context', {
-        originalLength: lastMessage.content.length,
+      this.logger.debug('Enhanced input with UI context', {
+        originalLength: input.content.length,
         enhancedLength: contextualPrompt.length,
         contextElements: uiContext.content?.length || 0,
       });
 
-      return enhancedMessages;
+      return { ...input, content: contextualPrompt };
     } catch (error) {
-      this.logger.error('Error enhancing messages with context:', error);
-      return messages; // Return original messages on error
+      this.logger.error('Error enhancing input with context:', error);
+      return input; // Return original input on error
     }
   }
 
@@ -185,7 +164,7 @@ ${filterDescriptions.join('\n')}`;
   /**
    * Build time range context prompt section
    */
-  private buildTimeRangeContextPrompt(timeRange: UIContext['timeRange']): string {
+  private buildTimeRangeContextPrompt(timeRange: TimeRangeContext): string {
     return `Time Range: ${timeRange.displayName || `${timeRange.from} to ${timeRange.to}`}`;
   }
 
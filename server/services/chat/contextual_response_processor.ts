@@ -4,7 +4,7 @@
  */
 
 import { Logger } from '@osd/logging';
-import { IMessage } from '../../../common/types/chat_saved_object_attributes';
+import { IMessage, IOutput } from '../../../common/types/chat_saved_object_attributes';
 import { UIContext } from '../../../common/types/ui_context';
 
 /**
@@ -19,10 +19,10 @@ export class ContextualResponseProcessor {
   /**
    * Process response with contextual enhancement
    */
-  async processResponse(
-    response: { messages: IMessage[]; interactions: any[] },
+  async processResponse<T extends { messages: IMessage[] }>(
+    response: T,
     uiContext?: UIContext
-  ): Promise<{ messages: IMessage[]; interactions: any[] }> {
+  ): Promise<T> {
     try {
       if (!response.messages || response.messages.length === 0) {
         return response;
@@ -51,7 +51,7 @@ export class ContextualResponseProcessor {
   /**
    * Enhance response message with contextual metadata
    */
-  private async enhanceResponseMessage(message: IMessage, uiContext: UIContext): Promise<IMessage> {
+  private async enhanceResponseMessage(message: IOutput, uiContext: UIContext): Promise<IOutput> {
     try {
       // Add contextual metadata to the message
       const contextualMetadata = {
@@ -0,0 +1,133 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RequestHandlerContext } from '../../../../../src/core/server';
+import { GetConversationsSchema } from '../../routes/chat_routes';
+import { BasicInputOutputParser } from '../../parsers/basic_input_output_parser';
+import { LocalMockMemory, LocalMockStorageService } from '../storage/local_mock_storage_service';
+import { getLocalMockResponse, LocalMockChatService } from './local_mock_chat_service';
+
+describe('LocalMockChatService', () => {
+  const context = {} as RequestHandlerContext;
+  const input = {
+    type: 'input' as const,
+    contentType: 'text' as const,
+    content: 'What is OpenSearch?',
+  };
+  const conversationsQuery: GetConversationsSchema = { page: 1, perPage: 20 };
+  let memory: LocalMockMemory;
+  let chatService: LocalMockChatService;
+  let storageService: LocalMockStorageService;
+
+  beforeEach(() => {
+    memory = new LocalMockMemory();
+    chatService = new LocalMockChatService(memory, 'user');
+    storageService = new LocalMockStorageService(
+      {} as any,
+      [BasicInputOutputParser],
+      memory,
+      'user'
+    );
+  });
+
+  it('should answer and store the interaction in a new conversation', async () => {
+    const { conversationId, interactionId, messages } = await chatService.requestLLM(
+      { messages: [], input },
+      context
+    );
+
+    expect(messages).toEqual([]);
+    const conversation = await storageService.getConversation(conversationId);
+    expect(conversation.title).toBe('What is OpenSearch?');
+    expect(conversation.interactions).toEqual([
+      expect.objectContaining({
+        input: 'What is OpenSearch?',
+        response: getLocalMockResponse('What is OpenSearch?'),
+        interaction_id: interactionId,
+      }),
+    ]);
+    expect(conversation.messages.map(({ type }) => type)).toEqual(['input', 'output']);
+  });
+
+  it('should replace the regenerated interaction', async () => {
+    const { conversationId, interactionId } = await chatService.requestLLM(
+      { messages: [], input },
+      context
+    );
+
+    const regenerated = await chatService.regenerate(
+      { conversationId, interactionId, rootAgentId: '' },
+      context
+    );
+
+    const { interactions } = await storageService.getConversation(conversationId);
+    expect(interactions.map((item) => item.interaction_id)).toEqual([regenerated.interactionId]);
+    expect(interactions[0].input).toBe('What is OpenSearch?');
+  });
+
+  it('should keep the conversations of each user apart', async () => {
+    const { conversationId } = await chatService.requestLLM({ messages: [], input }, context);
+    const otherStorageService = new LocalMockStorageService({} as any, [], memory, 'other_user');
+
+    expect((await storageService.getConversations(conversationsQuery)).total).toBe(1);
+    expect((await otherStorageService.getConversations(conversationsQuery)).total).toBe(0);
+    await expect(otherStorageService.getConversation(conversationId)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+
+  it('should search, rename, give feedback on and delete conversations', async () => {
+    const { conversationId, interactionId } = await chatService.requestLLM(
+      { messages: [], input },
+      context
+    );
+    await chatService.requestLLM(
+      { messages: [], input: { ...input, content: 'How to create an index?' } },
+      context
+    );
+
+    const { objects } = await storageService.getConversations({
+      ...conversationsQuery,
+      search: 'opensearch',
+    });
+    expect(objects.map(({ id }) => id)).toEqual([conversationId]);
+
+    await storageService.updateConversation(conversationId, 'Renamed');
+    await storageService.updateInteraction(interactionId, { feedback: { satisfaction: true } });
+    const conversation = await storageService.getConversation(conversationId);
+    expect(conversation.title).toBe('Renamed');
+    expect(conversation.interactions[0].additional_info).toEqual({
+      feedback: { satisfaction: true },
+    });
+
+    await storageService.deleteConversation(conversationId);
+    expect((await storageService.getConversations(conversationsQuery)).total).toBe(1);
+  });
+
+  it('should search the content of the interactions', async () => {
+    await chatService.requestLLM({ messages: [], input }, context);
+    const { conversationId, interactionId } = await chatService.requestLLM(
+      { messages: [], input: { ...input, content: 'Which index stores my shard allocation?' } },
+      context
+    );
+
+    const { objects, total } = await storageService.getConversations({
+      ...conversationsQuery,
+      search: 'SHARD',
+      searchMode: 'content',
+    });
+
+    expect(total).toBe(1);
+    expect(objects[0].id).toBe(conversationId);
+    expect(objects[0].matches).toEqual([
+      {
+        interactionId,
+        highlights: expect.objectContaining({
+          input: ['Which index stores my <mark>shard</mark> allocation?'],
+        }),
+      },
+    ]);
+  });
+});
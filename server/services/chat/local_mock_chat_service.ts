@@ -0,0 +1,73 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { RequestHandlerContext } from '../../../../../src/core/server';
+import { IMessage, IInput } from '../../../common/types/chat_saved_object_attributes';
+import { ChatService } from './chat_service';
+import { LocalMockMemory } from '../storage/local_mock_storage_service';
+
+export const getLocalMockResponse = (question: string) =>
+  [
+    'This answer comes from the **local mock** chat backend, no LLM was called.',
+    'You asked:',
+    question
+      .split('\n')
+      .map((line) => `> ${line}`)
+      .join('\n'),
+  ].join('\n\n');
+
+/**
+ * Chat service of the local mock chat backend, answers every question with a canned
+ * response so that the chat UI can be developed without ML Commons or an agent server.
+ */
+export class LocalMockChatService implements ChatService {
+  constructor(private readonly memory: LocalMockMemory, private readonly user: string) {}
+
+  async requestLLM(
+    payload: { messages: IMessage[]; input: IInput; conversationId?: string },
+    context: RequestHandlerContext
+  ): Promise<{ messages: IMessage[]; conversationId: string; interactionId: string }> {
+    const { input, conversationId } = payload;
+    const interaction = this.memory.saveInteraction(this.user, {
+      conversationId,
+      input: input.content,
+      response: getLocalMockResponse(input.content),
+    });
+
+    return {
+      /**
+       * Interactions are stored in the mock memory,
+       * the route reads the messages from the storage service.
+       */
+      messages: [],
+      conversationId: interaction.conversation_id,
+      interactionId: interaction.interaction_id,
+    };
+  }
+
+  async regenerate(
+    payload: { conversationId: string; interactionId: string; rootAgentId: string },
+    context: RequestHandlerContext
+  ): Promise<{ messages: IMessage[]; conversationId: string; interactionId: string }> {
+    const { conversationId, interactionId } = payload;
+    const { input } = this.memory.getInteraction(this.user, interactionId, conversationId);
+    const interaction = this.memory.saveInteraction(this.user, {
+      conversationId,
+      input,
+      response: getLocalMockResponse(input),
+      replacesInteractionId: interactionId,
+    });
+
+    return {
+      messages: [],
+      conversationId,
+      interactionId: interaction.interaction_id,
+    };
+  }
+
+  abortAgentExecution(conversationId: string) {
+    // answers are created synchronously, there is nothing to abort
+  }
+}
@@ -87,6 +87,7 @@ describe('OllyChatService', () => {
     `);
     expect(result).toMatchInlineSnapshot(`
       Object {
+        "agentId": "4qJKOo0BT01kB_DHroJv",
         "conversationId": "foo",
         "interactionId": "",
         "messages": Array [],
@@ -184,6 +185,7 @@ describe('OllyChatService', () => {
     `);
     expect(result).toMatchInlineSnapshot(`
       Object {
+        "agentId": "4qJKOo0BT01kB_DHroJv",
         "conversationId": "foo",
         "interactionId": "",
         "messages": Array [],
@@ -79,6 +79,7 @@ export class OllyChatService implements ChatService {
         messages: [],
         conversationId: conversationIdItem?.result || '',
         interactionId: interactionIdItem?.result || '',
+        agentId: rootAgentId,
       };
     } catch (error) {
       throw error;
@@ -100,6 +101,7 @@ export class OllyChatService implements ChatService {
     messages: IMessage[];
     conversationId: string;
     interactionId: string;
+    agentId: string;
   }> {
     const { input, conversationId } = payload;
 
@@ -133,7 +135,12 @@ export class OllyChatService implements ChatService {
       rootAgentId: string;
     },
     context: RequestHandlerContext
-  ): Promise<{ messages: IMessage[]; conversationId: string; interactionId: string }> {
+  ): Promise<{
+    messages: IMessage[];
+    conversationId: string;
+    interactionId: string;
+    agentId: string;
+  }> {
     const { conversationId, interactionId } = payload;
     const parametersPayload: Pick<
       AgentRunPayload,
@@ -0,0 +1,281 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Readable } from 'stream';
+import { RequestHandlerContext } from '../../../../../src/core/server';
+import { STREAM_PROTOCOL_VERSION } from '../../../common/constants/llm';
+import { loggerMock } from '../../../../../src/core/server/logging/logger.mock';
+import { streamDeserializer } from '../../../common/utils/stream/serializer';
+import { AgentsMemoryStore } from '../storage/agents_memory_store';
+import { AgentUnavailableError } from '../../routes/errors';
+import { AgentHealthMonitor } from './agent_health_monitor';
+import { OpenSearchAgentsChatService } from './opensearch_agents_chat_service';
+
+describe('OpenSearchAgentsChatService', () => {
+  const conversationId = '6b1ec0c4-4d4b-4ad4-9bd5-8c1d3b1d4f30';
+  const logger = loggerMock.create();
+  const context = { assistant_plugin: { logger } } as unknown as RequestHandlerContext;
+  const memoryStore = {
+    getInteraction: jest.fn(),
+    saveInteraction: jest.fn(),
+    deleteInteraction: jest.fn(),
+  };
+  const chatService = new OpenSearchAgentsChatService(
+    { enabled: true, baseUrl: 'http://localhost:8000', timeout: 1000, healthCheckInterval: 1000 },
+    logger,
+    memoryStore as unknown as AgentsMemoryStore
+  );
+  const fetchMock = jest.fn();
+
+  const mockAgentStream = (events: Array<Record<string, unknown>>) => {
+    const read = jest.fn().mockResolvedValueOnce({
+      done: false,
+      value: new TextEncoder().encode(
+        events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('')
+      ),
+    });
+    read.mockResolvedValue({ done: true });
+    fetchMock.mockResolvedValue({
+      ok: true,
+      body: { getReader: () => ({ read, releaseLock: jest.fn() }) },
+    });
+  };
+  const readChunks = async (stream: Readable) => {
+    let output = '';
+    for await (const chunk of stream) {
+      output += chunk.toString();
+    }
+    return streamDeserializer(output);
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    global.fetch = fetchMock;
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        response: 'regenerated answer',
+        session_id: conversationId,
+        sources: [{ index: 'logs', document_id: '1', score: 1, timestamp: 'now' }],
+      }),
+    });
+  });
+
+  it('requestLLM should translate agent events into the stream protocol', async () => {
+    mockAgentStream([
+      { type: 'start', session_id: conversationId },
+      { type: 'tool_call', tool_call_id: 'call_1', name: 'SearchIndexTool', arguments: { a: 1 } },
+      { type: 'tool_result', tool_call_id: 'call_1', name: 'SearchIndexTool', result: 'hits' },
+      { type: 'content', content: 'answer' },
+      { type: 'sources', sources: [{ index: 'logs', document_id: '1', score: 1, timestamp: 't' }] },
+      { type: 'heartbeat' },
+      { type: 'complete', response: 'answer', usage: { input_tokens: 3, output_tokens: 1 } },
+    ]);
+
+    const result = await chatService.requestLLM(
+      {
+        messages: [],
+        input: { type: 'input', contentType: 'text', content: 'question' },
+        conversationId,
+      },
+      context
+    );
+    const chunks = await readChunks(result.stream!);
+    const messageId = `${result.interactionId}_1`;
+
+    expect(chunks).toEqual([
+      { event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION }, id: undefined },
+      expect.objectContaining({ event: 'metadata' }),
+      expect.objectContaining({
+        event: 'toolCall',
+        data: {
+          messageId,
+          toolCall: { id: 'call_1', name: 'SearchIndexTool', status: 'running', input: '{"a":1}' },
+        },
+      }),
+      expect.objectContaining({
+        event: 'toolCall',
+        data: {
+          messageId,
+          toolCall: { id: 'call_1', name: 'SearchIndexTool', status: 'succeeded', output: 'hits' },
+        },
+      }),
+      expect.objectContaining({
+        event: 'appendMessageContent',
+        data: { messageId, content: 'answer' },
+      }),
+      expect.objectContaining({
+        event: 'sourceAttributions',
+        data: { messageId, sourceAttributions: [expect.objectContaining({ title: 'Document 1' })] },
+      }),
+      expect.objectContaining({
+        event: 'usage',
+        data: { messageId, usage: { inputTokens: 3, outputTokens: 1, totalTokens: undefined } },
+      }),
+      expect.objectContaining({
+        event: 'metadata',
+        data: expect.objectContaining({
+          conversationId,
+          interactions: [expect.objectContaining({ interaction_id: result.interactionId })],
+        }),
+      }),
+    ]);
+  });
+
+  it('regenerate should replay the original input and replace the old interaction', async () => {
+    memoryStore.getInteraction.mockResolvedValue({
+      conversation_id: conversationId,
+      interaction_id: 'interaction_id',
+      input: 'what is in this chart?',
+      response: 'old answer',
+      create_time: '',
+      input_images: [{ data: 'base64', mimeType: 'image/png', filename: 'chart.png' }],
+    });
+
+    const result = await chatService.regenerate(
+      { conversationId, interactionId: 'interaction_id', rootAgentId: '' },
+      context
+    );
+
+    expect(memoryStore.getInteraction).toHaveBeenCalledWith(conversationId, 'interaction_id');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      query: 'what is in this chart?',
+      session_id: conversationId,
+      images: [{ data: 'base64', mime_type: 'image/png', filename: 'chart.png' }],
+    });
+    expect(result.interactionId).not.toBe('interaction_id');
+    expect(result.messages[1]).toEqual(
+      expect.objectContaining({
+        content: 'regenerated answer',
+        sourceAttributions: [expect.objectContaining({ title: 'Document 1' })],
+      })
+    );
+    expect(memoryStore.saveInteraction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        conversationId,
+        interactionId: result.interactionId,
+        response: 'regenerated answer',
+      })
+    );
+    expect(memoryStore.deleteInteraction).toHaveBeenCalledWith('interaction_id');
+  });
+
+  it('regenerate should keep the old interaction when the new one can not be recorded', async () => {
+    memoryStore.getInteraction.mockResolvedValue({
+      conversation_id: conversationId,
+      interaction_id: 'interaction_id',
+      input: 'question',
+      response: 'old answer',
+      create_time: '',
+    });
+    memoryStore.saveInteraction.mockRejectedValue(new Error('index is read only'));
+
+    await chatService.regenerate(
+      { conversationId, interactionId: 'interaction_id', rootAgentId: '' },
+      context
+    );
+
+    expect(memoryStore.deleteInteraction).not.toHaveBeenCalled();
+  });
+
+  it('regenerate should stream the new answer as chunks for the chat UI', async () => {
+    memoryStore.getInteraction.mockResolvedValue({
+      conversation_id: conversationId,
+      interaction_id: 'interaction_id',
+      input: 'question',
+      response: 'old answer',
+      create_time: '',
+    });
+    mockAgentStream([
+      { type: 'start', session_id: conversationId },
+      { type: 'content', content: 'new ' },
+      { type: 'content', content: 'answer' },
+      { type: 'complete', response: 'new answer', session_id: conversationId },
+    ]);
+
+    const result = await chatService.regenerate(
+      { conversationId, interactionId: 'interaction_id', rootAgentId: '' },
+      context
+    );
+    const chunks = await readChunks(result.stream!);
+
+    expect(chunks.map((chunk) => chunk.event)).toEqual([
+      'protocol',
+      'metadata',
+      'appendMessageContent',
+      'appendMessageContent',
+      'metadata',
+    ]);
+    expect(chunks[2].data).toEqual({ messageId: `${result.interactionId}_1`, content: 'new ' });
+    expect(chunks[4].data).toEqual(
+      expect.objectContaining({
+        conversationId,
+        messages: [
+          expect.objectContaining({ type: 'input', content: 'question' }),
+          expect.objectContaining({
+            type: 'output',
+            content: 'new answer',
+            messageId: `${result.interactionId}_1`,
+          }),
+        ],
+      })
+    );
+    expect(memoryStore.saveInteraction).toHaveBeenCalledWith(
+      expect.objectContaining({ interactionId: result.interactionId, response: 'new answer' })
+    );
+    expect(memoryStore.deleteInteraction).toHaveBeenCalledWith('interaction_id');
+  });
+
+  it('regenerate should fail when the interaction does not exist', async () => {
+    memoryStore.getInteraction.mockRejectedValue(new Error('Interaction foo not found'));
+
+    await expect(
+      chatService.regenerate({ conversationId, interactionId: 'foo', rootAgentId: '' }, context)
+    ).rejects.toThrow('Interaction foo not found');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  describe('with a health monitor', () => {
+    const healthMonitor = {
+      assertAvailable: jest.fn(),
+      recordSuccess: jest.fn(),
+      recordFailure: jest.fn(),
+    };
+    const monitoredChatService = new OpenSearchAgentsChatService(
+      { enabled: true, baseUrl: 'http://localhost:8000', timeout: 1000, healthCheckInterval: 1000 },
+      logger,
+      undefined,
+      healthMonitor as unknown as AgentHealthMonitor
+    );
+    const sendQuestion = () =>
+      monitoredChatService.requestLLM(
+        {
+          messages: [],
+          input: { type: 'input', contentType: 'text', content: 'question' },
+          conversationId,
+        },
+        context
+      );
+
+    it('requestLLM should fail fast while the agent is unavailable', async () => {
+      healthMonitor.assertAvailable.mockImplementation(() => {
+        throw new AgentUnavailableError('Assistant backend unavailable');
+      });
+
+      await expect(sendQuestion()).rejects.toThrow('Assistant backend unavailable');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('requestLLM should report the outcome of the request to the monitor', async () => {
+      fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'));
+      await expect(sendQuestion()).rejects.toThrow('connect ECONNREFUSED');
+      expect(healthMonitor.recordFailure).toHaveBeenCalledWith('connect ECONNREFUSED');
+
+      mockAgentStream([{ type: 'complete', response: 'answer' }]);
+      await sendQuestion();
+      expect(healthMonitor.recordSuccess).toHaveBeenCalled();
+    });
+  });
+});
@@ -6,9 +6,20 @@
 import * as uuid from 'uuid';
 import { Readable } from 'stream';
 import { RequestHandlerContext } from '../../../../../src/core/server';
-import { IMessage, IInput } from '../../../common/types/chat_saved_object_attributes';
+import { STREAM_PROTOCOL_VERSION } from '../../../common/constants/llm';
+import {
+  IMessage,
+  IInput,
+  IOutput,
+  IStreamUsage,
+  StreamChunk,
+} from '../../../common/types/chat_saved_object_attributes';
+import { streamSerializer } from '../../../common/utils/stream/serializer';
 import { ChatService } from './chat_service';
 import { ConfigSchema } from '../../../common/types/config';
+import { AgentsMemoryStore } from '../storage/agents_memory_store';
+import { AgentHealthMonitor } from './agent_health_monitor';
+import { AgentRequestError } from '../../routes/errors';
 
 interface OpenSearchAgentsChatRequest {
   query: string;
@@ -20,25 +31,122 @@ interface OpenSearchAgentsChatRequest {
   }>;
 }
 
+interface OpenSearchAgentsSource {
+  index: string;
+  document_id: string;
+  score: number;
+  timestamp: string;
+}
+
 interface OpenSearchAgentsChatResponse {
   response: string;
   session_id: string;
-  sources?: Array<{
-    index: string;
-    document_id: string;
-    score: number;
-    timestamp: string;
-  }>;
+  sources?: OpenSearchAgentsSource[];
   confidence: number;
   query_time_ms: number;
   total_results: number;
   timestamp: string;
 }
 
+type StreamCompleteHandler = (output: {
+  response: string;
+  sources?: OpenSearchAgentsSource[];
+}) => Promise<void>;
+
+/**
+ * Events sent by the OpenSearch-Agents `/api/v1/chat/stream` endpoint.
+ */
+interface OpenSearchAgentsStreamEvent {
+  type:
+    | 'start'
+    | 'content'
+    | 'tool_call'
+    | 'tool_result'
+    | 'sources'
+    | 'usage'
+    | 'heartbeat'
+    | 'complete'
+    | 'error';
+  session_id?: string;
+  content?: string;
+  response?: string;
+  sources?: OpenSearchAgentsSource[];
+  tool_call_id?: string;
+  name?: string;
+  arguments?: unknown;
+  result?: unknown;
+  error?: string;
+  usage?: { input_tokens?: number; output_tokens?: number; total_tokens?: number };
+}
+
+interface StreamOptions {
+  sessionId: string;
+  interactionId: string;
+  input: IInput;
+  onComplete?: StreamCompleteHandler;
+}
+
+const STREAM_HEARTBEAT_INTERVAL_MS = 15000;
+
+const toSourceAttributions = (sources: OpenSearchAgentsSource[]) =>
+  sources.map((source) => ({
+    title: `Document ${source.document_id}`,
+    url: `#/discover?_a=(index:'${source.index}')`,
+    body: `Score: ${source.score}, Timestamp: ${source.timestamp}`,
+  }));
+
+const toStreamUsage = (usage: NonNullable<OpenSearchAgentsStreamEvent['usage']>): IStreamUsage => ({
+  inputTokens: usage.input_tokens,
+  outputTokens: usage.output_tokens,
+  totalTokens: usage.total_tokens,
+});
+
+const toText = (value: unknown) => (typeof value === 'string' ? value : JSON.stringify(value));
+
 export class OpenSearchAgentsChatService implements ChatService {
   private static abortControllers: Map<string, AbortController> = new Map();
 
-  constructor(private readonly config: ConfigSchema['aiAgent'], private readonly logger: any) {}
+  constructor(
+    private readonly config: ConfigSchema['aiAgent'],
+    private readonly logger: any,
+    private readonly memoryStore?: AgentsMemoryStore,
+    private readonly healthMonitor?: AgentHealthMonitor
+  ) {}
+
+  /**
+   * Persist a finished interaction so that it shows up in the conversation history,
+   * replacing the interaction it was regenerated from if any.
+   * A failure to persist must not fail the chat request itself.
+   */
+  private async recordInteraction(
+    conversationId: string,
+    interactionId: string,
+    input: IInput,
+    output: { response: string; sources?: OpenSearchAgentsSource[] },
+    logger: any,
+    replacesInteractionId?: string
+  ) {
+    if (!this.memoryStore) {
+      return;
+    }
+    try {
+      await this.memoryStore.saveInteraction({
+        conversationId,
+        interactionId,
+        input,
+        response: output.response,
+        ...(output.sources &&
+          output.sources.length > 0 && {
+            additionalInfo: { sourceAttributions: toSourceAttributions(output.sources) },
+          }),
+      });
+      if (replacesInteractionId) {
+        await this.memoryStore.deleteInteraction(replacesInteractionId);
+      }
+    } catch (error) {
+      logger.error(`Failed to record OpenSearch-Agents interaction: ${error.message}`);
+    }
+  }
 
   /**
    * Get OpenSearch client from context for potential future use
@@ -51,6 +159,7 @@ export class OpenSearchAgentsChatService implements ChatService {
   private async makeStreamingRequest(
     endpoint: string,
     payload: any,
+    streamOptions: StreamOptions,
     conversationId?: string,
     context?: RequestHandlerContext,
     logger?: any
@@ -129,8 +238,9 @@ export class OpenSearchAgentsChatService implements ChatService {
             errorBody: errorText,
           });
         }
-        throw new Error(
-          `OpenSearch Agents streaming API error: ${response.status} ${response.statusText} - ${errorText}`
+        throw new AgentRequestError(
+          `OpenSearch Agents streaming API error: ${response.status} ${response.statusText} - ${errorText}`,
+          response.status
         );
       }
 
@@ -143,34 +253,82 @@ export class OpenSearchAgentsChatService implements ChatService {
         read() {},
       });
 
-      // Process the streaming response
-      this.processStreamingResponse(response.body, readable, conversationId, logger);
+      // Process the streaming response, the request stays abortable until the stream ends
+      this.processStreamingResponse(response.body, readable, logger, streamOptions).finally(() =>
+        this.releaseAbortController(conversationId, controller)
+      );
 
       return readable;
     } catch (error) {
       clearTimeout(timeoutId);
+      this.releaseAbortController(conversationId, controller);
       if (logger) {
         logger.error(`OpenSearch Agents streaming request failed: ${error.message}`);
       }
       throw error;
-    } finally {
-      if (conversationId) {
-        OpenSearchAgentsChatService.abortControllers.delete(conversationId);
-      }
     }
   }
 
+  private releaseAbortController(conversationId: string | undefined, controller: AbortController) {
+    if (
+      conversationId &&
+      OpenSearchAgentsChatService.abortControllers.get(conversationId) === controller
+    ) {
+      OpenSearchAgentsChatService.abortControllers.delete(conversationId);
+    }
+  }
+
+  /**
+   * Translate the OpenSearch-Agents events into `StreamChunk`s, the protocol shared by all
+   * streaming chat backends and browser consumers.
+   */
   private async processStreamingResponse(
     responseBody: ReadableStream<Uint8Array>,
     readable: Readable,
-    conversationId?: string,
-    logger?: any
+    logger: any,
+    streamOptions: StreamOptions
   ): Promise<void> {
     const reader = responseBody.getReader();
     const decoder = new TextDecoder();
+    const { input, interactionId } = streamOptions;
+    const push = (chunk: StreamChunk) => readable.push(streamSerializer(chunk));
+    const inputMessage: IInput = {
+      type: 'input',
+      contentType: 'text',
+      content: input.content,
+      messageId: `${interactionId}_0`,
+      ...(input.context && { context: input.context }),
+    };
+    const outputMessage: IOutput = {
+      type: 'output',
+      contentType: 'markdown',
+      content: '',
+      messageId: `${interactionId}_1`,
+      interactionId,
+      traceId: interactionId,
+    };
+    const messageId = outputMessage.messageId!;
+    let conversationId = streamOptions.sessionId;
+    let started = false;
+    const start = () => {
+      if (!started) {
+        started = true;
+        push({
+          event: 'metadata',
+          data: { conversationId, messages: [inputMessage, outputMessage], interactions: [] },
+        });
+      }
+    };
     let buffer = '';
     let accumulatedContent = '';
 
+    push({ event: 'protocol', data: { version: STREAM_PROTOCOL_VERSION } });
+    // keep idle connections open through proxies while the agent is working
+    const heartbeat = setInterval(
+      () => push({ event: 'heartbeat', data: { timestamp: Date.now() } }),
+      STREAM_HEARTBEAT_INTERVAL_MS
+    );
+
     try {
       while (true) {
         const { done, value } = await reader.read();
@@ -181,93 +339,128 @@ export class OpenSearchAgentsChatService implements ChatService {
         buffer = lines.pop() || ''; // Keep incomplete line in buffer
 
         for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const eventData = JSON.parse(line.slice(6));
-
-              // Process different event types
-              switch (eventData.type) {
-                case 'start':
-                  readable.push(
-                    `data: ${JSON.stringify({
-                      type: 'start',
-                      conversationId: eventData.session_id || conversationId,
-                      timestamp: new Date().toISOString(),
-                    })}\n\n`
-                  );
-                  break;
-
-                case 'content':
-                  accumulatedContent += eventData.content || '';
-                  readable.push(
-                    `data: ${JSON.stringify({
-                      type: 'content',
-                      content: eventData.content || '',
-                      accumulatedContent,
-                      conversationId: eventData.session_id || conversationId,
-                    })}\n\n`
-                  );
-                  break;
-
-                case 'complete':
-                  // Create final messages for the response
-                  const inputMessage: IMessage = {
-                    type: 'input',
-                    contentType: 'text',
-                    content: eventData.query || '',
-                  };
-
-                  const responseMessage: IMessage = {
-                    type: 'output',
-                    contentType: 'markdown',
-                    content: eventData.response || accumulatedContent,
-                    interactionId: `${eventData.session_id || conversationId}-${Date.now()}`,
-                    traceId: `${eventData.session_id || conversationId}-${Date.now()}`,
-                    createTime: new Date().toISOString(),
-                    ...(eventData.sources &&
-                      eventData.sources.length > 0 && {
-                        sourceAttributions: eventData.sources.map((source: any) => ({
-                          title: `Document ${source.document_id}`,
-                          url: `#/discover?_a=(index:'${source.index}')`,
-                          body: `Score: ${source.score}, Timestamp: ${source.timestamp}`,
-                        })),
-                      }),
-                  };
-
-                  readable.push(
-                    `data: ${JSON.stringify({
-                      type: 'complete',
-                      messages: [inputMessage, responseMessage],
-                      conversationId: eventData.session_id || conversationId,
-                      interactionId: `${eventData.session_id || conversationId}-${Date.now()}`,
-                      accumulatedContent,
-                    })}\n\n`
-                  );
-
-                  readable.push(null); // End the stream
-                  return;
-
-                case 'error':
-                  readable.push(
-                    `data: ${JSON.stringify({
-                      type: 'error',
-                      error: eventData.error || 'Unknown streaming error',
-                      conversationId: eventData.session_id || conversationId,
-                    })}\n\n`
-                  );
-
-                  readable.push(null); // End the stream
-                  return;
-
-                default:
-                  // Forward other event types as-is
-                  readable.push(`data: ${JSON.stringify(eventData)}\n\n`);
+          if (!line.startsWith('data: ')) {
+            continue;
+          }
+
+          let eventData: OpenSearchAgentsStreamEvent;
+          try {
+            eventData = JSON.parse(line.slice(6));
+          } catch (parseError) {
+            if (logger) {
+              logger.warn('Failed to parse SSE event:', line, parseError);
+            }
+            continue;
+          }
+          conversationId = eventData.session_id || conversationId;
+
+          switch (eventData.type) {
+            case 'start':
+              start();
+              break;
+
+            case 'content':
+              start();
+              accumulatedContent += eventData.content || '';
+              push({
+                event: 'appendMessageContent',
+                data: { messageId, content: eventData.content || '' },
+              });
+              break;
+
+            case 'tool_call':
+            case 'tool_result':
+              start();
+              push({
+                event: 'toolCall',
+                data: {
+                  messageId,
+                  toolCall: {
+                    id: eventData.tool_call_id || eventData.name || '',
+                    name: eventData.name || '',
+                    status:
+                      eventData.type === 'tool_call'
+                        ? 'running'
+                        : eventData.error
+                        ? 'failed'
+                        : 'succeeded',
+                    ...(eventData.arguments !== undefined && {
+                      input: toText(eventData.arguments),
+                    }),
+                    ...(eventData.result !== undefined && { output: toText(eventData.result) }),
+                  },
+                },
+              });
+              break;
+
+            case 'sources':
+              start();
+              if (eventData.sources?.length) {
+                push({
+                  event: 'sourceAttributions',
+                  data: { messageId, sourceAttributions: toSourceAttributions(eventData.sources) },
+                });
               }
-            } catch (parseError) {
-              if (logger) {
-                logger.warn('Failed to parse SSE event:', line, parseError);
+              break;
+
+            case 'usage':
+              if (eventData.usage) {
+                push({
+                  event: 'usage',
+                  data: { messageId, usage: toStreamUsage(eventData.usage) },
+                });
               }
+              break;
+
+            case 'complete': {
+              start();
+              const response = eventData.response || accumulatedContent;
+              const createTime = new Date().toISOString();
+              await streamOptions.onComplete?.({ response, sources: eventData.sources });
+
+              if (eventData.usage) {
+                push({
+                  event: 'usage',
+                  data: { messageId, usage: toStreamUsage(eventData.usage) },
+                });
+              }
+              push({
+                event: 'metadata',
+                data: {
+                  conversationId,
+                  messages: [
+                    inputMessage,
+                    {
+                      ...outputMessage,
+                      content: response,
+                      createTime,
+                      ...(eventData.sources &&
+                        eventData.sources.length > 0 && {
+                          sourceAttributions: toSourceAttributions(eventData.sources),
+                        }),
+                    },
+                  ],
+                  interactions: [
+                    {
+                      input: input.content,
+                      response,
+                      conversation_id: conversationId,
+                      interaction_id: interactionId,
+                      create_time: createTime,
+                    },
+                  ],
+                },
+              });
+              return;
             }
+
+            case 'error':
+              push({ event: 'error', data: eventData.error || 'Unknown streaming error' });
+              return;
+
+            default:
+              // heartbeats of the agent server are replaced by our own
+              break;
           }
         }
       }
@@ -275,15 +468,10 @@ export class OpenSearchAgentsChatService implements ChatService {
       if (logger) {
         logger.error('Error processing streaming response:', error);
       }
-      readable.push(
-        `data: ${JSON.stringify({
-          type: 'error',
-          error: error.message,
-          conversationId,
-        })}\n\n`
-      );
+      push({ event: 'error', data: error.message });
     } finally {
-      readable.push(null); // Ensure stream ends
+      clearInterval(heartbeat);
+      readable.push(null); // End the stream
       reader.releaseLock();
     }
   }
@@ -346,8 +534,9 @@ export class OpenSearchAgentsChatService implements ChatService {
           statusText: response.statusText,
           errorBody: errorText,
         });
-        throw new Error(
-          `OpenSearch Agents API error: ${response.status} ${response.statusText} - ${errorText}`
+        throw new AgentRequestError(
+          `OpenSearch Agents API error: ${response.status} ${response.statusText} - ${errorText}`,
+          response.status
         );
       }
 
@@ -370,6 +559,7 @@ export class OpenSearchAgentsChatService implements ChatService {
     messages: IMessage[];
     conversationId: string;
     interactionId: string;
+    agentId: string;
     stream?: Readable;
   }> {
     const { input, conversationId } = payload;
@@ -403,25 +593,6 @@ export class OpenSearchAgentsChatService implements ChatService {
       throw new Error('Input content is required and cannot be empty');
     }
 
-    let llmInput = input.content.trim();
-
-    // If we have images, keep the query simple to avoid context window overflow
-    // Otherwise, include context content if available
-    if (input.images && input.images.length > 0) {
-      // For image requests, use the user's question directly
-      llmInput = input.content.trim();
-      logger.debug('Using simple query for image request to avoid context overflow');
-    } else if (input.context?.content) {
-      // For text-only requests, include context
-      llmInput = `Based on the context: ${input.context?.content}, answer question: ${input.content}`;
-      logger.debug('Using context-enhanced query for text-only request');
-    }
-
-    // Validate final query
-    if (!llmInput || llmInput.trim() === '') {
-      throw new Error('Query cannot be empty after processing');
-    }
-
     // Generate or validate session ID as UUID
     let sessionId = conversationId;
     if (!sessionId) {
@@ -436,6 +607,53 @@ export class OpenSearchAgentsChatService implements ChatService {
       }
     }
 
+    return this.chatWithAgent(
+      input,
+      sessionId,
+      { conversationId, interactionId: `${sessionId}-${Date.now()}`, stream: true },
+      context,
+      logger
+    );
+  }
+
+  /**
+   * Send an input to the agent, streaming the answer when possible and falling back
+   * to a regular request otherwise. The finished interaction is recorded in memory.
+   */
+  private async chatWithAgent(
+    input: IInput,
+    sessionId: string,
+    options: {
+      conversationId?: string;
+      interactionId: string;
+      replacesInteractionId?: string;
+      stream: boolean;
+    },
+    context: RequestHandlerContext,
+    logger: any
+  ): Promise<{
+    messages: IMessage[];
+    conversationId: string;
+    interactionId: string;
+    agentId: string;
+    stream?: Readable;
+  }> {
+    const { conversationId, interactionId, replacesInteractionId } = options;
+    // fail fast instead of waiting for the timeout while the agent is known to be down
+    this.healthMonitor?.assertAvailable();
+
+    let llmInput = input.content.trim();
+
+    // If we have images, keep the query simple to avoid context window overflow
+    // Otherwise, include context content if available
+    if (input.images && input.images.length > 0) {
+      logger.debug('Using simple query for image request to avoid context overflow');
+    } else if (input.context?.content) {
+      // For text-only requests, include context
+      llmInput = `Based on the context: ${input.context?.content}, answer question: ${input.content}`;
+      logger.debug('Using context-enhanced query for text-only request');
+    }
+
     const agentRequest: OpenSearchAgentsChatRequest = {
       query: llmInput,
       session_id: sessionId,
@@ -459,27 +677,45 @@ export class OpenSearchAgentsChatService implements ChatService {
     });
 
     // Try streaming first - return stream directly to UI for real-time streaming
-    try {
-      logger.info('Attempting streaming response for OpenSearch Agents');
-      const stream = await this.makeStreamingRequest(
-        '/api/v1/chat/stream',
-        agentRequest,
-        conversationId,
-        context,
-        logger
-      );
+    if (options.stream) {
+      try {
+        logger.info('Attempting streaming response for OpenSearch Agents');
+        const stream = await this.makeStreamingRequest(
+          '/api/v1/chat/stream',
+          agentRequest,
+          {
+            sessionId,
+            interactionId,
+            input,
+            onComplete: (output) =>
+              this.recordInteraction(
+                sessionId,
+                interactionId,
+                input,
+                output,
+                logger,
+                replacesInteractionId
+              ),
+          },
+          conversationId,
+          context,
+          logger
+        );
 
-      if (stream) {
-        logger.info('Successfully created streaming response - returning stream to UI');
-        return {
-          messages: [], // Empty messages for streaming mode
-          conversationId: sessionId,
-          interactionId: `${sessionId}-${Date.now()}`,
-          stream, // Return the stream directly to the UI
-        };
+        if (stream) {
+          this.healthMonitor?.recordSuccess();
+          logger.info('Successfully created streaming response - returning stream to UI');
+          return {
+            messages: [], // Empty messages for streaming mode
+            conversationId: sessionId,
+            interactionId,
+            agentId: this.config.baseUrl,
+            stream, // Return the stream directly to the UI
+          };
+        }
+      } catch (streamError) {
+        logger.warn('Streaming failed, falling back to regular request:', streamError.message);
       }
-    } catch (streamError) {
-      logger.warn('Streaming failed, falling back to regular request:', streamError.message);
     }
 
     // Fallback to regular (non-streaming) request
@@ -491,6 +727,7 @@ export class OpenSearchAgentsChatService implements ChatService {
         conversationId,
         context
       );
+      this.healthMonitor?.recordSuccess();
 
       // Create input message
       const inputMessage: IMessage = {
@@ -505,26 +742,36 @@ export class OpenSearchAgentsChatService implements ChatService {
         type: 'output',
         contentType: 'markdown',
         content: agentResponse.response,
-        interactionId: `${agentResponse.session_id}-${Date.now()}`,
-        traceId: `${agentResponse.session_id}-${Date.now()}`,
+        interactionId,
+        traceId: interactionId,
         createTime: new Date().toISOString(),
         ...(agentResponse.sources &&
           agentResponse.sources.length > 0 && {
-            sourceAttributions: agentResponse.sources.map((source) => ({
-              title: `Document ${source.document_id}`,
-              url: `#/discover?_a=(index:'${source.index}')`,
-              body: `Score: ${source.score}, Timestamp: ${source.timestamp}`,
-            })),
+            sourceAttributions: toSourceAttributions(agentResponse.sources),
           }),
       };
 
+      await this.recordInteraction(
+        agentResponse.session_id,
+        interactionId,
+        input,
+        agentResponse,
+        logger,
+        replacesInteractionId
+      );
+
       return {
         messages: [inputMessage, responseMessage],
         conversationId: agentResponse.session_id,
-        interactionId: `${agentResponse.session_id}-${Date.now()}`,
+        interactionId,
+        agentId: this.config.baseUrl,
       };
     } catch (error) {
       logger.error(`OpenSearch Agents chat request failed: ${error.message}`);
+      // aborted requests were stopped by the user, they say nothing about the agent
+      if (error.name !== 'AbortError') {
+        this.healthMonitor?.recordFailure(error.message);
+      }
       throw error;
     }
   }
@@ -536,8 +783,10 @@ export class OpenSearchAgentsChatService implements ChatService {
     messages: IMessage[];
     conversationId: string;
     interactionId: string;
+    agentId: string;
+    stream?: Readable;
   }> {
-    const { conversationId } = payload;
+    const { conversationId, interactionId } = payload;
 
     // Use context logger for better traceability, with defensive checks
     const logger = context?.assistant_plugin?.logger || this.logger;
@@ -551,59 +800,33 @@ export class OpenSearchAgentsChatService implements ChatService {
       this.logger.warn('OpenSearch Agents regenerate: Context missing logger, using fallback');
     }
 
-    // Validate session ID is UUID format for regeneration
-    let sessionId = conversationId;
-    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
-    if (!sessionId || !uuidRegex.test(sessionId)) {
-      logger.warn('Invalid session ID for regeneration, generating new UUID:', {
-        oldSessionId: sessionId,
-      });
-      sessionId = uuid.v4();
+    if (!this.memoryStore) {
+      throw new Error('Regenerate requires conversation history for OpenSearch-Agents');
     }
 
-    // For OpenSearch-Agents, regeneration is handled by sending the same session_id
-    // with a special regenerate flag or by re-sending the last query
-    const agentRequest: OpenSearchAgentsChatRequest = {
-      query: 'Please regenerate the last response',
-      session_id: sessionId,
+    // Replay the original question, including its images and page context
+    const interaction = await this.memoryStore.getInteraction(conversationId, interactionId);
+    const input: IInput = {
+      type: 'input',
+      contentType: 'text',
+      content: interaction.input,
+      ...(interaction.input_context && { context: interaction.input_context }),
+      ...(interaction.input_images && { images: interaction.input_images }),
     };
 
-    try {
-      logger.info(`Regenerating response for conversation: ${conversationId}`);
-      const agentResponse = await this.makeAgentRequest(
-        '/api/v1/chat',
-        agentRequest,
+    logger.info(`Regenerating interaction ${interactionId} for conversation: ${conversationId}`);
+    return this.chatWithAgent(
+      input,
+      conversationId,
+      {
         conversationId,
-        context
-      );
-
-      // Format the regenerated response as a message
-      const responseMessage: IMessage = {
-        type: 'output',
-        contentType: 'markdown',
-        content: agentResponse.response,
-        interactionId: `${agentResponse.session_id}-${Date.now()}`,
-        traceId: `${agentResponse.session_id}-${Date.now()}`,
-        createTime: new Date().toISOString(),
-        ...(agentResponse.sources &&
-          agentResponse.sources.length > 0 && {
-            sourceAttributions: agentResponse.sources.map((source) => ({
-              title: `Document ${source.document_id}`,
-              url: `#/discover?_a=(index:'${source.index}')`,
-              body: `Score: ${source.score}, Timestamp: ${source.timestamp}`,
-            })),
-          }),
-      };
-
-      return {
-        messages: [responseMessage],
-        conversationId: agentResponse.session_id,
-        interactionId: `${agentResponse.session_id}-${Date.now()}`,
-      };
-    } catch (error) {
-      logger.error(`OpenSearch Agents regenerate request failed: ${error.message}`);
-      throw error;
-    }
+        interactionId: `${conversationId}-${Date.now()}`,
+        replacesInteractionId: interactionId,
+        stream: true,
+      },
+      context,
+      logger
+    );
   }
 
   abortAgentExecution(conversationId: string): void {
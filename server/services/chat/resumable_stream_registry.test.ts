@@ -0,0 +1,113 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Readable } from 'stream';
+import { streamDeserializer, streamSerializer } from '../../../common/utils/stream/serializer';
+import { ResumableStreamRegistry } from './resumable_stream_registry';
+
+const readAll = async (stream: Readable) => {
+  let content = '';
+  for await (const data of stream) {
+    content += data.toString();
+  }
+  return streamDeserializer(content);
+};
+
+const appendEvent = (content: string) =>
+  streamSerializer({ event: 'appendMessageContent', data: { messageId: 'foo_1', content } });
+
+describe('ResumableStreamRegistry', () => {
+  it('should assign sequential event ids to the streamed events', async () => {
+    const registry = new ResumableStreamRegistry();
+    const source = new Readable({ read() {} });
+
+    const stream = registry.track(source, 'user');
+    source.push(appendEvent('hello'));
+    source.push(streamSerializer({ event: 'heartbeat', data: { timestamp: 0 } }));
+    source.push(appendEvent(' world'));
+    source.push(null);
+
+    const chunks = await readAll(stream);
+    expect(chunks.map(({ event }) => event)).toEqual([
+      'appendMessageContent',
+      'heartbeat',
+      'appendMessageContent',
+    ]);
+    const streamId = chunks[0].id!.split(':')[0];
+    expect(chunks.map(({ id }) => id)).toEqual([`${streamId}:1`, undefined, `${streamId}:2`]);
+  });
+
+  it('should replay the events after the last event id and continue with live events', async () => {
+    const registry = new ResumableStreamRegistry();
+    const source = new Readable({ read() {} });
+    const stream = registry.track(source, 'user');
+    source.push(appendEvent('hello'));
+    source.push(appendEvent(' world'));
+    const [{ id: lastEventId }] = streamDeserializer(
+      (await stream[Symbol.asyncIterator]().next()).value.toString()
+    );
+    // the client lost its connection after the first event
+    stream.destroy();
+
+    const resumed = registry.resume(lastEventId!, 'user')!;
+    source.push(appendEvent('!'));
+    source.push(null);
+
+    const chunks = await readAll(resumed);
+    expect(
+      chunks.map((chunk) => (chunk.event === 'appendMessageContent' ? chunk.data.content : ''))
+    ).toEqual([' world', '!']);
+  });
+
+  it('should not resume streams of other users or expired streams', async () => {
+    const registry = new ResumableStreamRegistry({ retentionMs: 10 });
+    const source = new Readable({ read() {} });
+    const stream = registry.track(source, 'user');
+    source.push(appendEvent('hello'));
+    source.push(null);
+    const [{ id: lastEventId }] = await readAll(stream);
+
+    expect(registry.resume(lastEventId!, 'another_user')).toBeUndefined();
+    expect(registry.resume(lastEventId!, 'user')).toBeDefined();
+    expect(registry.resume('invalid', 'user')).toBeUndefined();
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(registry.resume(lastEventId!, 'user')).toBeUndefined();
+  });
+
+  it('should end streams beyond the buffer limit with an error event', async () => {
+    const registry = new ResumableStreamRegistry({ maxBufferedBytes: 200 });
+    const source = new Readable({ read() {} });
+    const stream = registry.track(source, 'user');
+    source.push(appendEvent('hello'));
+    source.push(appendEvent('x'.repeat(200)));
+    source.push(appendEvent('!'));
+
+    const chunks = await readAll(stream);
+    expect(chunks.map(({ event }) => event)).toEqual([
+      'appendMessageContent',
+      'appendMessageContent',
+      'error',
+    ]);
+    expect(chunks[2].data).toBe('The response is too large and was stopped');
+    expect(source.destroyed).toBe(true);
+
+    // a client resuming the stream gets the error too
+    const resumed = registry.resume(chunks[1].id!, 'user')!;
+    expect((await readAll(resumed)).map(({ event }) => event)).toEqual(['error']);
+  });
+
+  it('should end streams running longer than the age limit with an error event', async () => {
+    const registry = new ResumableStreamRegistry({ maxAgeMs: 10 });
+    const source = new Readable({ read() {} });
+    const stream = registry.track(source, 'user');
+    source.push(appendEvent('hello'));
+
+    const chunks = await readAll(stream);
+    expect(chunks.map(({ event }) => event)).toEqual(['appendMessageContent', 'error']);
+    expect(chunks[1].data).toBe('The response took too long and was stopped');
+    expect(source.destroyed).toBe(true);
+  });
+});
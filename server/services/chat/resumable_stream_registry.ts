@@ -0,0 +1,182 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { PassThrough, Readable } from 'stream';
+import * as uuid from 'uuid';
+import {
+  createStreamDeserializer,
+  formatStreamEventId,
+  parseStreamEventId,
+  streamSerializer,
+} from '../../../common/utils/stream/serializer';
+
+/**
+ * How long a finished stream stays available for resuming.
+ */
+export const DEFAULT_STREAM_RETENTION_MS = 2 * 60 * 1000;
+/**
+ * Size of the events buffered for one stream, the stream is ended with an error beyond it.
+ */
+export const DEFAULT_MAX_BUFFERED_BYTES = 10 * 1024 * 1024;
+/**
+ * How long a stream may run, the stream is ended with an error after it.
+ */
+export const DEFAULT_MAX_STREAM_AGE_MS = 30 * 60 * 1000;
+
+export interface ResumableStreamRegistryOptions {
+  retentionMs?: number;
+  maxBufferedBytes?: number;
+  maxAgeMs?: number;
+}
+
+interface BufferedStream {
+  owner: string;
+  /**
+   * Serialized events, the event at index i has the sequence number i + 1.
+   */
+  events: string[];
+  bufferedBytes: number;
+  done: boolean;
+  subscribers: Set<PassThrough>;
+}
+
+/**
+ * Keeps the events of streamed chat responses so that a client which lost its
+ * connection can resume the response from the last event it received.
+ *
+ * Every buffered event gets the id `<streamId>:<sequence>`. The source stream is
+ * consumed independently of the clients, so the agent keeps running when a client
+ * disconnects, and the events stay available for the retention window after the
+ * source stream ended. Streams growing beyond the buffer limit or running longer than
+ * the age limit are stopped and end with an error event.
+ */
+export class ResumableStreamRegistry {
+  private readonly streams = new Map<string, BufferedStream>();
+  private readonly retentionMs: number;
+  private readonly maxBufferedBytes: number;
+  private readonly maxAgeMs: number;
+
+  constructor({
+    retentionMs = DEFAULT_STREAM_RETENTION_MS,
+    maxBufferedBytes = DEFAULT_MAX_BUFFERED_BYTES,
+    maxAgeMs = DEFAULT_MAX_STREAM_AGE_MS,
+  }: ResumableStreamRegistryOptions = {}) {
+    this.retentionMs = retentionMs;
+    this.maxBufferedBytes = maxBufferedBytes;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  /**
+   * Start buffering the source stream, returns the stream for the client which started it.
+   */
+  track(source: Readable, owner: string): Readable {
+    const streamId = uuid.v4();
+    const bufferedStream: BufferedStream = {
+      owner,
+      events: [],
+      bufferedBytes: 0,
+      done: false,
+      subscribers: new Set(),
+    };
+    this.streams.set(streamId, bufferedStream);
+    const clientStream = this.subscribe(bufferedStream, 0);
+
+    const broadcast = (event: string) => {
+      bufferedStream.subscribers.forEach((subscriber) => subscriber.write(event));
+    };
+    const buffer = (event: string) => {
+      bufferedStream.events.push(event);
+      bufferedStream.bufferedBytes += Buffer.byteLength(event);
+      broadcast(event);
+    };
+    const deserialize = createStreamDeserializer();
+    const finish = () => {
+      if (bufferedStream.done) {
+        return;
+      }
+      bufferedStream.done = true;
+      clearTimeout(ageTimer);
+      bufferedStream.subscribers.forEach((subscriber) => subscriber.end());
+      bufferedStream.subscribers.clear();
+      const expiryTimer = setTimeout(() => this.streams.delete(streamId), this.retentionMs);
+      // the retention timer should not keep the process alive
+      expiryTimer.unref?.();
+    };
+
+    const fail = (message: string) => {
+      buffer(
+        streamSerializer(
+          { event: 'error', data: message },
+          formatStreamEventId(streamId, bufferedStream.events.length + 1)
+        )
+      );
+      finish();
+    };
+    // stop reading the source, the events buffered so far stay available until they expire
+    const evict = (message: string) => {
+      fail(message);
+      source.destroy();
+    };
+    const ageTimer = setTimeout(
+      () => evict('The response took too long and was stopped'),
+      this.maxAgeMs
+    );
+    ageTimer.unref?.();
+
+    source.setEncoding('utf8');
+    source.on('data', (content: string) => {
+      for (const chunk of deserialize(content)) {
+        if (bufferedStream.done) {
+          return;
+        }
+        // heartbeats only keep the connection alive, there is no point in replaying them
+        if (chunk.event === 'heartbeat') {
+          broadcast(streamSerializer(chunk));
+          continue;
+        }
+        buffer(
+          streamSerializer(chunk, formatStreamEventId(streamId, bufferedStream.events.length + 1))
+        );
+        if (bufferedStream.bufferedBytes > this.maxBufferedBytes) {
+          evict('The response is too large and was stopped');
+        }
+      }
+    });
+    source.on('error', (error) => fail(error.message));
+    source.on('end', finish);
+    source.on('close', finish);
+
+    return clientStream;
+  }
+
+  /**
+   * Resume a stream after the given event id, returns undefined when the stream
+   * does not exist, has expired or belongs to another user.
+   */
+  resume(lastEventId: string, owner: string): Readable | undefined {
+    const parsedEventId = parseStreamEventId(lastEventId);
+    if (!parsedEventId) {
+      return undefined;
+    }
+    const bufferedStream = this.streams.get(parsedEventId.streamId);
+    if (!bufferedStream || bufferedStream.owner !== owner) {
+      return undefined;
+    }
+    return this.subscribe(bufferedStream, parsedEventId.sequence);
+  }
+
+  private subscribe(bufferedStream: BufferedStream, afterSequence: number): PassThrough {
+    const subscriber = new PassThrough();
+    bufferedStream.events.slice(afterSequence).forEach((event) => subscriber.write(event));
+    if (bufferedStream.done) {
+      subscriber.end();
+      return subscriber;
+    }
+    bufferedStream.subscribers.add(subscriber);
+    // the client went away, keep buffering for the next resume request
+    subscriber.on('close', () => bufferedStream.subscribers.delete(subscriber));
+    return subscriber;
+  }
+}
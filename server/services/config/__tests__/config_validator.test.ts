@@ -4,7 +4,7 @@
  */
 
 import { Logger } from '@osd/logging';
-import { ConfigValidator } from '../config_validator';
+import { ConfigValidator, formatConfigValidationReport } from '../config_validator';
 import { ConfigSchema } from '../../../../common/types/config';
 
 describe('ConfigValidator', () => {
@@ -121,12 +121,12 @@ describe('ConfigValidator', () => {
       const config = { ...validConfig, extractionTimeout: 500 };
       const report = validator.validateConfig(config);
 
-      expect(report.isValid).toBe(false);
-      expect(report.errors).toContainEqual(
+      expect(report.isValid).toBe(true);
+      expect(report.warnings).toContainEqual(
         expect.objectContaining({
           field: 'extractionTimeout',
           message: 'extractionTimeout must be at least 1000ms',
-          severity: 'error',
+          severity: 'warning',
         })
       );
     });
@@ -135,12 +135,12 @@ describe('ConfigValidator', () => {
       const config = { ...validConfig, extractionTimeout: 35000 };
       const report = validator.validateConfig(config);
 
-      expect(report.isValid).toBe(false);
-      expect(report.errors).toContainEqual(
+      expect(report.isValid).toBe(true);
+      expect(report.warnings).toContainEqual(
         expect.objectContaining({
           field: 'extractionTimeout',
           message: 'extractionTimeout cannot exceed 30000ms',
-          severity: 'error',
+          severity: 'warning',
         })
       );
     });
@@ -165,12 +165,12 @@ describe('ConfigValidator', () => {
       const config = { ...validConfig, contextCacheTTL: 15 };
       const report = validator.validateConfig(config);
 
-      expect(report.isValid).toBe(false);
-      expect(report.errors).toContainEqual(
+      expect(report.isValid).toBe(true);
+      expect(report.warnings).toContainEqual(
         expect.objectContaining({
           field: 'contextCacheTTL',
           message: 'contextCacheTTL must be at least 30 seconds',
-          severity: 'error',
+          severity: 'warning',
         })
       );
     });
@@ -212,12 +212,12 @@ describe('ConfigValidator', () => {
       };
       const report = validator.validateConfig(config);
 
-      expect(report.isValid).toBe(false);
-      expect(report.errors).toContainEqual(
+      expect(report.isValid).toBe(true);
+      expect(report.warnings).toContainEqual(
         expect.objectContaining({
           field: 'performance.debounceMs',
           message: 'performance.debounceMs must be at least 50ms',
-          severity: 'error',
+          severity: 'warning',
         })
       );
     });
@@ -246,12 +246,12 @@ describe('ConfigValidator', () => {
       };
       const report = validator.validateConfig(config);
 
-      expect(report.isValid).toBe(false);
-      expect(report.errors).toContainEqual(
+      expect(report.isValid).toBe(true);
+      expect(report.warnings).toContainEqual(
         expect.objectContaining({
           field: 'performance.maxContentElements',
           message: 'performance.maxContentElements must be at least 5',
-          severity: 'error',
+          severity: 'warning',
         })
       );
     });
@@ -265,12 +265,12 @@ describe('ConfigValidator', () => {
       };
       const report = validator.validateConfig(config);
 
-      expect(report.isValid).toBe(false);
-      expect(report.errors).toContainEqual(
+      expect(report.isValid).toBe(true);
+      expect(report.warnings).toContainEqual(
         expect.objectContaining({
           field: 'security.respectPermissions',
           message: 'security.respectPermissions must be a boolean',
-          severity: 'error',
+          severity: 'warning',
         })
       );
     });
@@ -419,4 +419,131 @@ describe('ConfigValidator', () => {
       expect(error?.suggestion).toBe('Recommended range: 10-30 for optimal performance');
     });
   });
+
+  describe('plugin config validation', () => {
+    const createPluginConfig = (overrides: Partial<ConfigSchema> = {}) =>
+      ({
+        enabled: true,
+        chat: { enabled: true },
+        text2viz: { enabled: false },
+        alertInsight: { enabled: false },
+        smartAnomalyDetector: { enabled: false },
+        contextualChat: validConfig,
+        aiAgent: {
+          enabled: true,
+          baseUrl: 'http://localhost:8000',
+          timeout: 300000,
+          healthCheckInterval: 60000,
+        },
+        ...overrides,
+      } as ConfigSchema);
+
+    it('should accept the default config', () => {
+      const report = validator.validatePluginConfig(createPluginConfig());
+
+      expect(report.isValid).toBe(true);
+      expect(report.errors).toHaveLength(0);
+      expect(report.warnings).toHaveLength(0);
+    });
+
+    it('should detect a malformed agent base URL', () => {
+      const report = validator.validatePluginConfig(
+        createPluginConfig({
+          aiAgent: { ...createPluginConfig().aiAgent, baseUrl: 'localhost:8000' },
+        })
+      );
+
+      expect(report.isValid).toBe(false);
+      expect(report.errors).toContainEqual(
+        expect.objectContaining({
+          field: 'aiAgent.baseUrl',
+          message: 'aiAgent.baseUrl must use http or https, got [localhost:]',
+        })
+      );
+    });
+
+    it('should detect agent timeouts out of range', () => {
+      const report = validator.validatePluginConfig(
+        createPluginConfig({
+          aiAgent: { ...createPluginConfig().aiAgent, timeout: 500, healthCheckInterval: 1000 },
+        })
+      );
+
+      expect(report.errors.map(({ field }) => field)).toEqual([
+        'aiAgent.timeout',
+        'aiAgent.healthCheckInterval',
+      ]);
+    });
+
+    it('should not validate the agent settings when the agent is disabled', () => {
+      const report = validator.validatePluginConfig(
+        createPluginConfig({
+          aiAgent: { enabled: false, baseUrl: '', timeout: 0, healthCheckInterval: 0 },
+        })
+      );
+
+      expect(report.isValid).toBe(true);
+    });
+
+    it('should warn about text2viz without chat', () => {
+      const report = validator.validatePluginConfig(
+        createPluginConfig({
+          chat: { ...createPluginConfig().chat, enabled: false },
+          text2viz: { enabled: true },
+        })
+      );
+
+      expect(report.isValid).toBe(true);
+      expect(report.warnings).toContainEqual(
+        expect.objectContaining({
+          field: 'text2viz.enabled',
+          message: 'text2viz is enabled but chat is disabled',
+          severity: 'warning',
+        })
+      );
+    });
+
+    it('should keep the config valid when only warning rules fail', () => {
+      const report = validator.validatePluginConfig(
+        createPluginConfig({
+          contextualChat: {
+            ...validConfig,
+            extractionTimeout: 500,
+            performance: { ...validConfig.performance, debounceMs: 25 },
+          },
+        })
+      );
+
+      expect(report.isValid).toBe(true);
+      expect(report.errors).toHaveLength(0);
+      expect(report.warnings.map(({ field }) => field)).toEqual([
+        'contextualChat.extractionTimeout',
+        'contextualChat.performance.debounceMs',
+      ]);
+    });
+
+    it('should prefix the contextual chat issues with their section', () => {
+      const report = validator.validatePluginConfig(
+        createPluginConfig({ contextualChat: { ...validConfig, maxVisualizations: 0 } })
+      );
+
+      expect(report.errors).toContainEqual(
+        expect.objectContaining({
+          field: 'contextualChat.maxVisualizations',
+          message: 'maxVisualizations must be at least 1',
+        })
+      );
+    });
+
+    it('should format the report one line per issue', () => {
+      const report = validator.validatePluginConfig(
+        createPluginConfig({ enabled: false, text2viz: { enabled: true } })
+      );
+
+      expect(formatConfigValidationReport(report)).toBe(
+        '[warning] enabled: The assistant is disabled, chat, text2viz will not be available ' +
+          '(Enable assistant.enabled or disable the features)'
+      );
+    });
+  });
 });
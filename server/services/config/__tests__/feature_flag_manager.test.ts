@@ -92,6 +92,28 @@ describe('FeatureFlagManager', () => {
     });
   });
 
+  describe('rollout', () => {
+    it('should turn the flag on for the users in the rollout only', () => {
+      // analytics_enabled is off by default and rolled out to 25% of the users
+      const results = Array.from({ length: 100 }, (_, i) =>
+        featureFlagManager.isEnabled('analytics_enabled', `user${i}`)
+      );
+
+      expect(results.filter(Boolean).length).toBeGreaterThan(0);
+      expect(results.filter(Boolean).length).toBeLessThan(50);
+    });
+
+    it('should turn on a flag off by default for a user in the rollout', () => {
+      // bob falls in the 17th percent of the users, alice in the 40th
+      expect(featureFlagManager.isEnabled('analytics_enabled', 'bob')).toBe(true);
+      expect(featureFlagManager.isEnabled('analytics_enabled', 'alice')).toBe(false);
+    });
+
+    it('should use the default value for requests without a user', () => {
+      expect(featureFlagManager.isEnabled('analytics_enabled')).toBe(false);
+    });
+  });
+
   describe('override management', () => {
     it('should set overrides correctly', () => {
       featureFlagManager.setOverride('contextual_chat_enabled', false, 'Maintenance mode', 'admin');
@@ -150,6 +172,61 @@ describe('FeatureFlagManager', () => {
       expect(mockLogger.info).toHaveBeenCalledWith('Loaded 1 feature flag overrides');
     });
 
+    it('should drop the overrides which are no longer stored', async () => {
+      featureFlagManager.setOverride('contextual_chat_enabled', false, 'Removed elsewhere');
+      mockSavedObjectsClient.find.mockResolvedValue({
+        saved_objects: [],
+        total: 0,
+        per_page: 100,
+        page: 1,
+      });
+
+      await featureFlagManager.loadOverrides();
+
+      expect(featureFlagManager.getAllOverrides()).toHaveLength(0);
+      expect(featureFlagManager.isEnabled('contextual_chat_enabled')).toBe(true);
+    });
+
+    it('should reload the overrides periodically', async () => {
+      jest.useFakeTimers();
+      mockSavedObjectsClient.find.mockResolvedValue({
+        saved_objects: [],
+        total: 0,
+        per_page: 100,
+        page: 1,
+      });
+
+      featureFlagManager.watchOverrides(60000);
+      jest.advanceTimersByTime(120000);
+      featureFlagManager.destroy();
+      jest.advanceTimersByTime(60000);
+
+      expect(mockSavedObjectsClient.find).toHaveBeenCalledTimes(2);
+      jest.useRealTimers();
+    });
+
+    it('should delete stored overrides', async () => {
+      featureFlagManager.setOverride('contextual_chat_enabled', false, 'Testing');
+      mockSavedObjectsClient.delete.mockResolvedValue({});
+
+      await featureFlagManager.deleteOverride('contextual_chat_enabled');
+
+      expect(mockSavedObjectsClient.delete).toHaveBeenCalledWith(
+        'contextual-chat-feature-flags',
+        'contextual_chat_enabled'
+      );
+      expect(featureFlagManager.isEnabled('contextual_chat_enabled')).toBe(true);
+    });
+
+    it('should remove overrides which were never stored', async () => {
+      featureFlagManager.setOverride('contextual_chat_enabled', false, 'Testing');
+      mockSavedObjectsClient.delete.mockRejectedValue({ output: { statusCode: 404 } });
+
+      await featureFlagManager.deleteOverride('contextual_chat_enabled');
+
+      expect(featureFlagManager.getAllOverrides()).toHaveLength(0);
+    });
+
     it('should handle load errors gracefully', async () => {
       mockSavedObjectsClient.find.mockRejectedValue(new Error('Storage error'));
 
@@ -6,9 +6,13 @@
 import { Logger } from '@osd/logging';
 import { ConfigSchema } from '../../../common/types/config';
 
-export interface ValidationRule {
+export interface ValidationRule<T = ConfigSchema['contextualChat']> {
   field: string;
-  validator: (value: any, config: ConfigSchema['contextualChat']) => ValidationResult;
+  validator: (value: any, config: T) => ValidationResult;
+  /**
+   * Severity of the issue when the value is invalid, only failed 'error' rules make the
+   * config invalid. Messages of valid values are warnings.
+   */
   severity: 'error' | 'warning' | 'info';
 }
 
@@ -31,6 +35,77 @@ export interface ValidationIssue {
   suggestion?: string;
 }
 
+const HTTP_PROTOCOLS = ['http:', 'https:'];
+
+/**
+ * Rules of the whole `assistant.*` config, the fields are paths from the root of the config.
+ */
+const pluginRules: Array<ValidationRule<ConfigSchema>> = [
+  {
+    field: 'aiAgent.baseUrl',
+    validator: (value: string, config) => {
+      if (!config.aiAgent?.enabled) {
+        return { isValid: true };
+      }
+      let url: URL;
+      try {
+        url = new URL(value);
+      } catch (e) {
+        return { isValid: false, message: `aiAgent.baseUrl [${value}] is not a valid URL` };
+      }
+      if (!HTTP_PROTOCOLS.includes(url.protocol)) {
+        return {
+          isValid: false,
+          message: `aiAgent.baseUrl must use http or https, got [${url.protocol}]`,
+        };
+      }
+      if (url.search || url.hash) {
+        return {
+          isValid: true,
+          message: 'aiAgent.baseUrl query and fragment are ignored when calling the agent',
+        };
+      }
+      return { isValid: true };
+    },
+    severity: 'error',
+  },
+  {
+    field: 'aiAgent.timeout',
+    validator: (value: number, config) => {
+      if (!config.aiAgent?.enabled) {
+        return { isValid: true };
+      }
+      if (value < 1000) {
+        return { isValid: false, message: 'aiAgent.timeout must be at least 1000ms' };
+      }
+      if (value > 600000) {
+        return { isValid: false, message: 'aiAgent.timeout cannot exceed 600000ms' };
+      }
+      return { isValid: true };
+    },
+    severity: 'error',
+  },
+  {
+    field: 'aiAgent.healthCheckInterval',
+    validator: (value: number, config) => {
+      if (!config.aiAgent?.enabled) {
+        return { isValid: true };
+      }
+      if (value < 5000) {
+        return { isValid: false, message: 'aiAgent.healthCheckInterval must be at least 5000ms' };
+      }
+      if (value > 3600000) {
+        return {
+          isValid: false,
+          message: 'aiAgent.healthCheckInterval cannot exceed 3600000ms',
+        };
+      }
+      return { isValid: true };
+    },
+    severity: 'error',
+  },
+];
+
 export class ConfigValidator {
   private rules: ValidationRule[] = [];
   private logger: Logger;
@@ -45,10 +120,10 @@ export class ConfigValidator {
       // Basic enabled validation
       {
         field: 'enabled',
-        validator: (value: boolean) => ({
-          isValid: typeof value === 'boolean',
-          message: 'enabled must be a boolean value',
-        }),
+        validator: (value: boolean) =>
+          typeof value === 'boolean'
+            ? { isValid: true }
+            : { isValid: false, message: 'enabled must be a boolean value' },
         severity: 'error',
       },
 
@@ -190,32 +265,72 @@ export class ConfigValidator {
       // Audit access validation
       {
         field: 'security.auditAccess',
-        validator: (value: boolean) => ({
-          isValid: typeof value === 'boolean',
-          message: 'security.auditAccess must be a boolean value',
-        }),
+        validator: (value: boolean) =>
+          typeof value === 'boolean'
+            ? { isValid: true }
+            : { isValid: false, message: 'security.auditAccess must be a boolean value' },
         severity: 'error',
       },
 
       // Lazy loading validation
       {
         field: 'performance.enableLazyLoading',
-        validator: (value: boolean) => ({
-          isValid: typeof value === 'boolean',
-          message: 'performance.enableLazyLoading must be a boolean value',
-        }),
+        validator: (value: boolean) =>
+          typeof value === 'boolean'
+            ? { isValid: true }
+            : { isValid: false, message: 'performance.enableLazyLoading must be a boolean value' },
         severity: 'error',
       },
     ];
   }
 
   public validateConfig(config: ConfigSchema['contextualChat']): ConfigValidationReport {
+    const report = this.runRules(this.rules, config);
+
+    // Cross-field validations
+    this.validateCrossFieldDependencies(config, report.errors, report.warnings);
+    report.isValid = report.errors.length === 0;
+
+    this.logger.info('Configuration validation completed', {
+      isValid: report.isValid,
+      errorCount: report.errors.length,
+      warningCount: report.warnings.length,
+      infoCount: report.info.length,
+    });
+
+    return report;
+  }
+
+  /**
+   * Validate the whole `assistant.*` config, the contextual chat section is validated
+   * only when contextual chat is enabled.
+   */
+  public validatePluginConfig(config: ConfigSchema): ConfigValidationReport {
+    const report = this.runRules(pluginRules, config);
+
+    if (config.contextualChat?.enabled) {
+      const contextualChatReport = this.validateConfig(config.contextualChat);
+      const withPrefix = (issue: ValidationIssue) => ({
+        ...issue,
+        field: `contextualChat.${issue.field}`,
+      });
+      report.errors.push(...contextualChatReport.errors.map(withPrefix));
+      report.warnings.push(...contextualChatReport.warnings.map(withPrefix));
+      report.info.push(...contextualChatReport.info.map(withPrefix));
+    }
+
+    this.validateFeatureToggles(config, report);
+    report.isValid = report.errors.length === 0;
+
+    return report;
+  }
+
+  private runRules<T>(rules: Array<ValidationRule<T>>, config: T): ConfigValidationReport {
     const errors: ValidationIssue[] = [];
     const warnings: ValidationIssue[] = [];
     const info: ValidationIssue[] = [];
 
-    // Run all validation rules
-    for (const rule of this.rules) {
+    for (const rule of rules) {
       try {
         const fieldValue = this.getNestedValue(config, rule.field);
         const result = rule.validator(fieldValue, config);
@@ -224,7 +339,7 @@ export class ConfigValidator {
           const issue: ValidationIssue = {
             field: rule.field,
             message: result.message || 'Validation failed',
-            severity: result.isValid ? 'info' : rule.severity,
+            severity: result.isValid ? 'warning' : rule.severity,
           };
 
           // Add suggestions based on common issues
@@ -251,24 +366,56 @@ export class ConfigValidator {
       }
     }
 
-    // Cross-field validations
-    this.validateCrossFieldDependencies(config, errors, warnings);
-
-    const report: ConfigValidationReport = {
+    return {
       isValid: errors.length === 0,
       errors,
       warnings,
       info,
     };
+  }
 
-    this.logger.info('Configuration validation completed', {
-      isValid: report.isValid,
-      errorCount: errors.length,
-      warningCount: warnings.length,
-      infoCount: info.length,
-    });
+  private validateFeatureToggles(config: ConfigSchema, report: ConfigValidationReport): void {
+    const chatEnabled = !!config.chat?.enabled;
 
-    return report;
+    if (config.text2viz?.enabled && !chatEnabled) {
+      report.warnings.push({
+        field: 'text2viz.enabled',
+        message: 'text2viz is enabled but chat is disabled',
+        severity: 'warning',
+        suggestion: 'Enable assistant.chat.enabled or disable assistant.text2viz.enabled',
+      });
+    }
+
+    if (config.aiAgent?.enabled && !chatEnabled) {
+      report.warnings.push({
+        field: 'aiAgent.enabled',
+        message: 'The AI agent is enabled but chat is disabled, the agent will not be used',
+        severity: 'warning',
+        suggestion: 'Enable assistant.chat.enabled or disable assistant.aiAgent.enabled',
+      });
+    }
+
+    if (config.contextualChat?.enabled && !chatEnabled) {
+      report.info.push({
+        field: 'contextualChat.enabled',
+        message: 'Contextual chat is enabled but chat is disabled, only the admin APIs are active',
+        severity: 'info',
+      });
+    }
+
+    if (!config.enabled) {
+      const enabledFeatures = ['chat', 'text2viz', 'alertInsight', 'smartAnomalyDetector'].filter(
+        (feature) => (config as Record<string, any>)[feature]?.enabled
+      );
+      if (enabledFeatures.length) {
+        report.warnings.push({
+          field: 'enabled',
+          message: `The assistant is disabled, ${enabledFeatures.join(', ')} will not be available`,
+          severity: 'warning',
+          suggestion: 'Enable assistant.enabled or disable the features',
+        });
+      }
+    }
   }
 
   private validateCrossFieldDependencies(
@@ -321,6 +468,9 @@ export class ConfigValidator {
       extractionTimeout: 'Recommended range: 3000-8000ms for good UX',
       'performance.debounceMs': 'Recommended range: 200-800ms for responsive feel',
       'performance.maxContentElements': 'Recommended range: 20-50 for balanced performance',
+      'aiAgent.baseUrl': 'Use the URL of the agent service, e.g. http://localhost:8000',
+      'aiAgent.timeout': 'Recommended range: 60000-300000ms for long agent runs',
+      'aiAgent.healthCheckInterval': 'Recommended range: 30000-300000ms',
     };
 
     return suggestions[field];
@@ -336,3 +486,14 @@ export class ConfigValidator {
     this.logger.info(`Removed validation rule for field: ${field}`);
   }
 }
+
+/**
+ * Format a validation report as one line per issue, for the server logs.
+ */
+export const formatConfigValidationReport = (report: ConfigValidationReport): string =>
+  [...report.errors, ...report.warnings, ...report.info]
+    .map(
+      ({ severity, field, message, suggestion }) =>
+        `[${severity}] ${field}: ${message}${suggestion ? ` (${suggestion})` : ''}`
+    )
+    .join('\n');
@@ -5,6 +5,8 @@
 
 import { Logger } from '@osd/logging';
 import { SavedObjectsClientContract } from '@osd/core/server';
+import { FEATURE_FLAGS } from '../../../common/constants/contextual_chat';
+import { FEATURE_FLAGS_SAVED_OBJECT } from '../../saved_objects';
 
 export interface FeatureFlagDefinition {
   key: string;
@@ -29,6 +31,7 @@ export class FeatureFlagManager {
   private overrides: Map<string, FeatureFlagOverride> = new Map();
   private logger: Logger;
   private savedObjectsClient?: SavedObjectsClientContract;
+  private refreshTimer?: NodeJS.Timeout;
 
   constructor(logger: Logger, savedObjectsClient?: SavedObjectsClientContract) {
     this.logger = logger;
@@ -39,22 +42,22 @@ export class FeatureFlagManager {
   private initializeDefaultFlags(): void {
     const defaultFlags: FeatureFlagDefinition[] = [
       {
-        key: 'contextual_chat_enabled',
+        key: FEATURE_FLAGS.CONTEXTUAL_CHAT,
         name: 'Contextual Chat',
         description: 'Enable contextual chat functionality',
         defaultValue: true,
         category: 'core',
       },
       {
-        key: 'content_extraction_enabled',
+        key: FEATURE_FLAGS.CONTENT_EXTRACTION,
         name: 'Content Extraction',
         description: 'Enable DOM content extraction',
         defaultValue: true,
         category: 'core',
-        dependencies: ['contextual_chat_enabled'],
+        dependencies: [FEATURE_FLAGS.CONTEXTUAL_CHAT],
       },
       {
-        key: 'dom_observation_enabled',
+        key: FEATURE_FLAGS.DOM_OBSERVATION,
         name: 'DOM Observation',
         description: 'Enable real-time DOM change observation',
         defaultValue: true,
@@ -62,7 +65,7 @@ export class FeatureFlagManager {
         dependencies: ['content_extraction_enabled'],
       },
       {
-        key: 'contextual_prompts_enabled',
+        key: FEATURE_FLAGS.CONTEXTUAL_PROMPTS,
         name: 'Contextual Prompts',
         description: 'Enable context-aware prompt enhancement',
         defaultValue: true,
@@ -70,21 +73,21 @@ export class FeatureFlagManager {
         dependencies: ['content_extraction_enabled'],
       },
       {
-        key: 'performance_optimization_enabled',
+        key: FEATURE_FLAGS.PERFORMANCE_OPTIMIZATION,
         name: 'Performance Optimization',
         description: 'Enable performance optimization features',
         defaultValue: true,
         category: 'performance',
       },
       {
-        key: 'security_validation_enabled',
+        key: FEATURE_FLAGS.SECURITY_VALIDATION,
         name: 'Security Validation',
         description: 'Enable security validation and permission checks',
         defaultValue: true,
         category: 'security',
       },
       {
-        key: 'admin_interface_enabled',
+        key: FEATURE_FLAGS.ADMIN_INTERFACE,
         name: 'Admin Interface',
         description: 'Enable administrative interface for contextual chat',
         defaultValue: false,
@@ -92,7 +95,7 @@ export class FeatureFlagManager {
         rolloutPercentage: 10,
       },
       {
-        key: 'analytics_enabled',
+        key: FEATURE_FLAGS.ANALYTICS,
         name: 'Analytics',
         description: 'Enable usage analytics and reporting',
         defaultValue: false,
@@ -113,15 +116,15 @@ export class FeatureFlagManager {
     }
 
     try {
-      const response = await this.savedObjectsClient.find({
-        type: 'contextual-chat-feature-flags',
+      const response = await this.savedObjectsClient.find<FeatureFlagOverride>({
+        type: FEATURE_FLAGS_SAVED_OBJECT,
         perPage: 100,
       });
 
-      response.saved_objects.forEach((obj) => {
-        const override = obj.attributes as FeatureFlagOverride;
-        this.overrides.set(override.key, override);
-      });
+      // replace the overrides as a whole so that overrides removed by another instance go away
+      this.overrides = new Map(
+        response.saved_objects.map(({ attributes }) => [attributes.key, attributes])
+      );
 
       this.logger.info(`Loaded ${this.overrides.size} feature flag overrides`);
     } catch (error) {
@@ -136,7 +139,7 @@ export class FeatureFlagManager {
     }
 
     try {
-      await this.savedObjectsClient.create('contextual-chat-feature-flags', override, {
+      await this.savedObjectsClient.create(FEATURE_FLAGS_SAVED_OBJECT, override, {
         id: override.key,
         overwrite: true,
       });
@@ -149,6 +152,44 @@ export class FeatureFlagManager {
     }
   }
 
+  /**
+   * Remove the stored override of a flag, the flag falls back to its default value and rollout.
+   */
+  public async deleteOverride(flagKey: string): Promise<void> {
+    if (!this.savedObjectsClient) {
+      this.logger.warn('SavedObjectsClient not available, cannot delete override');
+      return;
+    }
+
+    try {
+      await this.savedObjectsClient.delete(FEATURE_FLAGS_SAVED_OBJECT, flagKey);
+    } catch (error) {
+      if (error?.output?.statusCode !== 404) {
+        this.logger.error(`Failed to delete feature flag override for ${flagKey}`, error);
+        throw error;
+      }
+    }
+    this.removeOverride(flagKey);
+  }
+
+  /**
+   * Reload the stored overrides periodically, so that the overrides saved through
+   * another OpenSearch Dashboards instance apply without a restart.
+   */
+  public watchOverrides(intervalMs: number): void {
+    this.destroy();
+    this.refreshTimer = setInterval(() => {
+      this.loadOverrides();
+    }, intervalMs);
+  }
+
+  public destroy(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+
   public isEnabled(flagKey: string, userId?: string): boolean {
     const flag = this.flags.get(flagKey);
     if (!flag) {
@@ -162,13 +203,16 @@ export class FeatureFlagManager {
       return override.value;
     }
 
-    // Check rollout percentage if specified
+    // A rollout turns a flag on for the users in the rollout, the other users and
+    // requests without a user get the default value.
+    let inRollout = false;
     if (flag.rolloutPercentage !== undefined && userId) {
       const hash = this.hashUserId(userId);
       const userPercentage = hash % 100;
-      if (userPercentage >= flag.rolloutPercentage) {
-        return false;
-      }
+      inRollout = userPercentage < flag.rolloutPercentage;
+    }
+    if (!inRollout && !flag.defaultValue) {
+      return false;
     }
 
     // Check dependencies
@@ -180,7 +224,7 @@ export class FeatureFlagManager {
       }
     }
 
-    return flag.defaultValue;
+    return true;
   }
 
   public setOverride(flagKey: string, value: boolean, reason: string, userId?: string): void {
@@ -2,3 +2,25 @@
  * Copyright OpenSearch Contributors
  * SPDX-License-Identifier: Apache-2.0
  */
+
+import { Logger } from '@osd/logging';
+import { ConfigSchema } from '../../common/types/config';
+
+/**
+ * Initialize contextual chat services on the server.
+ *
+ * The contextual chat service wraps the chat service of every request, see ChatServiceFactory,
+ * so there are no long-lived services to start, only the settings in use are reported.
+ */
+export function initializeContextualChatServices(config: ConfigSchema, logger: Logger): void {
+  if (!config.contextualChat?.enabled) {
+    logger.debug('Contextual chat is disabled, skipping server service initialization');
+    return;
+  }
+
+  logger.debug('Contextual chat settings', {
+    maxContentElements: config.contextualChat.performance.maxContentElements,
+    extractionTimeout: config.contextualChat.extractionTimeout,
+    respectPermissions: config.contextualChat.security.respectPermissions,
+  });
+}
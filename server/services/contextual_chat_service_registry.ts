@@ -23,8 +23,19 @@ export class ContextualChatServiceRegistry {
    * Register content extractor
    */
   public registerContentExtractor(extractor: ISpecializedExtractor): void {
-    const extractorId = `${extractor.getContentType()}_${Date.now()}`;
-    this.contentExtractors.set(extractorId, extractor);
+    if (this.contentExtractors.has(extractor.id)) {
+      throw new Error(`There is already a content extractor whose id is ${extractor.id}`);
+    }
+    this.contentExtractors.set(extractor.id, extractor);
+  }
+
+  /**
+   * Remove content extractor
+   *
+   * @returns false if there is no extractor with the id
+   */
+  public unregisterContentExtractor(extractorId: string): boolean {
+    return this.contentExtractors.delete(extractorId);
   }
 
   /**
@@ -0,0 +1,132 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SavedObjectsClientContract } from '../../../../src/core/server';
+import { SHARED_CONVERSATION_SAVED_OBJECT } from '../../common/constants/shared_conversation';
+import { ConversationExport } from '../../common/types/conversation_export';
+import { SharedConversationService } from './shared_conversation_service';
+
+const exported: ConversationExport = {
+  version: 1,
+  exportedAt: '2024-01-01T00:00:00.000Z',
+  conversation: {
+    id: 'conversation_1',
+    title: 'Failed shards',
+    createdTimeMs: 0,
+    updatedTimeMs: 0,
+  },
+  interactions: [
+    {
+      input: 'why did shards fail?',
+      response: 'The disk is full.',
+      conversation_id: 'conversation_1',
+      interaction_id: 'interaction_1',
+      create_time: '2024-01-01T00:00:00.000Z',
+      additional_info: {
+        'CatIndexTool.output': 'index_1 red',
+        feedback: { satisfaction: false },
+        sourceAttributions: [{ title: 'Shard allocation', url: 'https://opensearch.org' }],
+      },
+      traces: [
+        {
+          interactionId: 'interaction_1',
+          createTime: '2024-01-01T00:00:00.000Z',
+          input: 'GET _cat/shards',
+          output: 'red',
+          origin: 'CatIndexTool',
+          traceNumber: 1,
+        },
+      ],
+    },
+  ],
+  messages: [],
+};
+
+describe('SharedConversationService', () => {
+  let savedObjectsClient: jest.Mocked<SavedObjectsClientContract>;
+  let service: SharedConversationService;
+
+  beforeEach(() => {
+    savedObjectsClient = {
+      create: jest.fn(),
+      get: jest.fn(),
+      delete: jest.fn(),
+    } as unknown as jest.Mocked<SavedObjectsClientContract>;
+    service = new SharedConversationService(savedObjectsClient);
+  });
+
+  it('should save a snapshot of the conversation without its traces and tool outputs', async () => {
+    savedObjectsClient.create.mockImplementation(async (type, attributes) => ({
+      id: 'shared_1',
+      type,
+      attributes,
+      references: [],
+    }));
+
+    const shared = await service.share(exported, 'alice');
+
+    expect(savedObjectsClient.create).toHaveBeenCalledWith(
+      SHARED_CONVERSATION_SAVED_OBJECT,
+      expect.objectContaining({ title: 'Failed shards', sharedBy: 'alice' })
+    );
+    expect(shared).toMatchObject({ id: 'shared_1', title: 'Failed shards', sharedBy: 'alice' });
+    expect(shared.snapshot.interactions[0]).toEqual({
+      input: 'why did shards fail?',
+      response: 'The disk is full.',
+      conversation_id: 'conversation_1',
+      interaction_id: 'interaction_1',
+      create_time: '2024-01-01T00:00:00.000Z',
+      additional_info: {
+        sourceAttributions: [{ title: 'Shard allocation', url: 'https://opensearch.org' }],
+      },
+      traces: [],
+    });
+  });
+
+  it('should read the snapshot of a shared conversation', async () => {
+    savedObjectsClient.get.mockResolvedValue({
+      id: 'shared_1',
+      type: SHARED_CONVERSATION_SAVED_OBJECT,
+      attributes: {
+        title: 'Failed shards',
+        sharedBy: 'alice',
+        sharedAt: '2024-01-02T00:00:00.000Z',
+        snapshot: JSON.stringify(exported),
+      },
+      references: [],
+    });
+
+    expect(await service.get('shared_1')).toEqual({
+      id: 'shared_1',
+      title: 'Failed shards',
+      sharedBy: 'alice',
+      sharedAt: '2024-01-02T00:00:00.000Z',
+      snapshot: exported,
+    });
+  });
+
+  it('should only let the user who shared the conversation delete it', async () => {
+    savedObjectsClient.get.mockResolvedValue({
+      id: 'shared_1',
+      type: SHARED_CONVERSATION_SAVED_OBJECT,
+      attributes: {
+        title: 'Failed shards',
+        sharedBy: 'alice',
+        sharedAt: '2024-01-02T00:00:00.000Z',
+        snapshot: JSON.stringify(exported),
+      },
+      references: [],
+    });
+
+    await expect(service.delete('shared_1', 'bob')).rejects.toMatchObject({ statusCode: 403 });
+    expect(savedObjectsClient.delete).not.toHaveBeenCalled();
+
+    await service.delete('shared_1', 'alice');
+    expect(savedObjectsClient.delete).toHaveBeenCalledWith(
+      SHARED_CONVERSATION_SAVED_OBJECT,
+      'shared_1'
+    );
+  });
+});
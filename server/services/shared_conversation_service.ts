@@ -0,0 +1,86 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SavedObject, SavedObjectsClientContract } from '../../../../src/core/server';
+import { SHARED_CONVERSATION_SAVED_OBJECT } from '../../common/constants/shared_conversation';
+import { ConversationExport, ExportedInteraction } from '../../common/types/conversation_export';
+import { SharedConversation } from '../../common/types/shared_conversation';
+import { SharedConversationSavedObjectAttributes } from '../saved_objects/shared_conversation_saved_object';
+import { SharedConversationOwnerError } from '../routes/errors';
+
+const toSharedConversation = ({
+  id,
+  attributes,
+}: SavedObject<SharedConversationSavedObjectAttributes>): SharedConversation => ({
+  id,
+  title: attributes.title,
+  sharedBy: attributes.sharedBy,
+  sharedAt: attributes.sharedAt,
+  snapshot: JSON.parse(attributes.snapshot),
+});
+
+/**
+ * The fields of an interaction kept in a shared snapshot. The additional info holds raw tool
+ * outputs and the feedback of the sharer, only the source attributions of the answer are kept,
+ * and traces are dropped for the same reason. The parsed messages carry what the chat shows.
+ */
+const toSharedInteraction = (interaction: ExportedInteraction): ExportedInteraction => {
+  const sourceAttributions = interaction.additional_info?.sourceAttributions;
+  return {
+    input: interaction.input,
+    response: interaction.response,
+    conversation_id: interaction.conversation_id,
+    interaction_id: interaction.interaction_id,
+    create_time: interaction.create_time,
+    ...(sourceAttributions !== undefined && { additional_info: { sourceAttributions } }),
+    traces: [],
+  };
+};
+
+/**
+ * Stores the snapshots of shared conversations with the saved objects client of the request,
+ * so tenants, workspaces and the permissions of the security plugin apply to them.
+ */
+export class SharedConversationService {
+  constructor(private readonly savedObjectsClient: SavedObjectsClientContract) {}
+
+  async share(exported: ConversationExport, sharedBy: string): Promise<SharedConversation> {
+    const snapshot: ConversationExport = {
+      ...exported,
+      interactions: exported.interactions.map(toSharedInteraction),
+    };
+    const savedObject = await this.savedObjectsClient.create<
+      SharedConversationSavedObjectAttributes
+    >(SHARED_CONVERSATION_SAVED_OBJECT, {
+      title: snapshot.conversation.title,
+      sharedBy,
+      sharedAt: new Date().toISOString(),
+      snapshot: JSON.stringify(snapshot),
+    });
+    return toSharedConversation(savedObject);
+  }
+
+  async get(id: string): Promise<SharedConversation> {
+    return toSharedConversation(
+      await this.savedObjectsClient.get<SharedConversationSavedObjectAttributes>(
+        SHARED_CONVERSATION_SAVED_OBJECT,
+        id
+      )
+    );
+  }
+
+  /**
+   * Revoke the link of a shared conversation, only the user who shared it can revoke it
+   */
+  async delete(id: string, userName: string) {
+    const { sharedBy } = await this.get(id);
+    if (sharedBy !== userName) {
+      throw new SharedConversationOwnerError(
+        'Only the user who shared the conversation can delete it'
+      );
+    }
+    await this.savedObjectsClient.delete(SHARED_CONVERSATION_SAVED_OBJECT, id);
+  }
+}
@@ -14,6 +14,7 @@ const mockAgentFrameworkStorageService: jest.Mocked<PublicContract<
   saveMessages: jest.fn(),
   deleteConversation: jest.fn(),
   updateConversation: jest.fn(),
+  importConversation: jest.fn(),
   getTraces: jest.fn(),
   updateInteraction: jest.fn(),
   getInteraction: jest.fn(),
@@ -205,6 +205,88 @@ describe('AgentFrameworkStorageService', () => {
     `);
   });
 
+  it('getConversations should search the messages of the latest conversations', async () => {
+    mockedTransportRequest.mockImplementation(async (params) => {
+      if (params.path.endsWith('/memory/_search')) {
+        return {
+          body: {
+            hits: {
+              hits: ['foo', 'bar'].map((id) => ({
+                _id: id,
+                _source: { name: id, create_time: 1, updated_time: 1 },
+              })),
+            },
+          },
+        };
+      }
+      return {
+        body: {
+          hits: {
+            hits: params.path.includes('/memory/foo/')
+              ? [{ _id: 'message_id', highlight: { input: ['failed <mark>shards</mark>'] } }]
+              : [],
+          },
+        },
+      };
+    });
+
+    const result = await agentFrameworkService.getConversations({
+      search: 'shards',
+      searchMode: 'content',
+      page: 1,
+      perPage: 10,
+    });
+
+    expect(result.total).toBe(1);
+    expect(result.truncated).toBe(false);
+    expect(result.objects).toEqual([
+      expect.objectContaining({
+        id: 'foo',
+        title: 'foo',
+        matches: [
+          { interactionId: 'message_id', highlights: { input: ['failed <mark>shards</mark>'] } },
+        ],
+      }),
+    ]);
+    expect(mockedTransportRequest).toHaveBeenCalledWith(
+      expect.objectContaining({
+        path: '/_plugins/_ml/memory/bar/_search',
+        body: expect.objectContaining({
+          query: { multi_match: { query: 'shards', fields: ['input', 'response'] } },
+        }),
+      })
+    );
+  });
+
+  it('getConversations should tell when older conversations were not searched', async () => {
+    mockedTransportRequest.mockImplementation(async (params) => ({
+      body: {
+        hits: {
+          hits: params.path.endsWith('/memory/_search')
+            ? Array.from({ length: 101 }, (_, i) => ({
+                _id: `memory_${i}`,
+                _source: { name: `memory_${i}`, create_time: 1, updated_time: 1 },
+              }))
+            : [],
+        },
+      },
+    }));
+
+    const result = await agentFrameworkService.getConversations({
+      search: 'shards',
+      searchMode: 'content',
+      page: 1,
+      perPage: 10,
+    });
+
+    expect(result.truncated).toBe(true);
+    // the memory search and one message search per conversation
+    expect(mockedTransportRequest).toHaveBeenCalledTimes(101);
+    expect(mockedTransportRequest).not.toHaveBeenCalledWith(
+      expect.objectContaining({ path: '/_plugins/_ml/memory/memory_100/_search' })
+    );
+  });
+
   it('saveMessages should send error', async () => {
     expect(agentFrameworkService.saveMessages('', '', [])).rejects.toMatchInlineSnapshot(
       `[Error: Method is not needed]`
@@ -488,4 +570,87 @@ describe('AgentFrameworkStorageService', () => {
       ]
     `);
   });
+
+  it('importConversation', async () => {
+    mockedTransportRequest.mockResolvedValueOnce({ body: { memory_id: 'imported_id' } });
+    mockedTransportRequest.mockResolvedValue({ body: { message_id: 'message_id' } });
+
+    expect(
+      await agentFrameworkService.importConversation({
+        conversation: { title: 'foo', createdTimeMs: 0, updatedTimeMs: 0 },
+        interactions: [
+          {
+            input: 'input',
+            response: 'response',
+            create_time: '',
+            additional_info: {
+              feedback: { satisfaction: true },
+              sourceAttributions: [{ title: 'Runbook' }],
+              'PPLTool.output': 'source = logs',
+            },
+          },
+          { input: 'input', response: 'response', create_time: '', additional_info: {} },
+        ],
+      })
+    ).toEqual({ conversationId: 'imported_id' });
+    expect(mockedTransportRequest.mock.calls).toMatchInlineSnapshot(`
+      Array [
+        Array [
+          Object {
+            "body": Object {
+              "name": "foo",
+            },
+            "method": "POST",
+            "path": "/_plugins/_ml/memory",
+          },
+        ],
+        Array [
+          Object {
+            "body": Object {
+              "additional_info": Object {
+                "PPLTool.output": "source = logs",
+              },
+              "input": "input",
+              "response": "response",
+            },
+            "method": "POST",
+            "path": "/_plugins/_ml/memory/imported_id/messages",
+          },
+        ],
+        Array [
+          Object {
+            "body": Object {
+              "input": "input",
+              "response": "response",
+            },
+            "method": "POST",
+            "path": "/_plugins/_ml/memory/imported_id/messages",
+          },
+        ],
+      ]
+    `);
+  });
+
+  it('importConversation deletes the memory when a message fails', async () => {
+    const messageError = new Error('message rejected');
+    mockedTransportRequest
+      .mockResolvedValueOnce({ body: { memory_id: 'imported_id' } })
+      .mockResolvedValueOnce({ body: { message_id: 'message_id' } })
+      .mockRejectedValueOnce(messageError)
+      .mockResolvedValueOnce({ statusCode: 200 });
+
+    await expect(
+      agentFrameworkService.importConversation({
+        conversation: { title: 'foo', createdTimeMs: 0, updatedTimeMs: 0 },
+        interactions: [
+          { input: 'first', response: 'response', create_time: '' },
+          { input: 'second', response: 'response', create_time: '' },
+        ],
+      })
+    ).rejects.toBe(messageError);
+    expect(mockedTransportRequest).toHaveBeenLastCalledWith({
+      method: 'DELETE',
+      path: '/_plugins/_ml/memory/imported_id',
+    });
+  });
 });
@@ -13,12 +13,31 @@ import {
   Interaction,
   InteractionFromAgentFramework,
 } from '../../../common/types/chat_saved_object_attributes';
+import { ConversationImport } from '../../../common/types/conversation_export';
 import { GetConversationsSchema } from '../../routes/chat_routes';
 import { StorageService } from './storage_service';
 import { MessageParser } from '../../types';
 import { MessageParserRunner } from '../../utils/message_parser_runner';
 import { ML_COMMONS_BASE_API } from '../../utils/constants';
 import { formatInteractionFromBackend } from '../../utils/format';
+import {
+  buildContentSearch,
+  InteractionSearchHit,
+  MAX_MATCHES_PER_CONVERSATION,
+  toSearchMatch,
+} from '../../utils/conversation_search';
+
+/**
+ * ML Commons searches the messages of one memory at a time,
+ * so a content search only covers the latest conversations.
+ */
+const MAX_CONTENT_SEARCH_CONVERSATIONS = 100;
+const CONTENT_SEARCH_CONCURRENCY = 10;
+
+interface MemoryHit {
+  _id: string;
+  _source?: { name: string; create_time: string; updated_time: string };
+}
 
 export interface ConversationOptResponse {
   success: boolean;
@@ -26,6 +45,17 @@ export interface ConversationOptResponse {
   message?: string;
 }
 
+/**
+ * The additional info of a message created by ML Commons is a map of strings, the other values
+ * of an imported interaction, such as its feedback or source attributions, are not kept
+ */
+const toMessageAdditionalInfo = (additionalInfo: Interaction['additional_info']) => {
+  const entries = Object.entries(additionalInfo ?? {}).filter(
+    (entry): entry is [string, string] => typeof entry[1] === 'string'
+  );
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
 export class AgentFrameworkStorageService implements StorageService {
   constructor(
     private readonly clientTransport: OpenSearchClient['transport'],
@@ -69,6 +99,9 @@ export class AgentFrameworkStorageService implements StorageService {
   }
 
   async getConversations(query: GetConversationsSchema): Promise<IConversationFindResponse> {
+    if (query.searchMode === 'content' && query.search) {
+      return this.searchConversationContent(query, query.search);
+    }
     let sortField = '';
     if (query.sortField === 'updatedTimeMs') {
       sortField = 'updated_time';
@@ -137,6 +170,58 @@ export class AgentFrameworkStorageService implements StorageService {
     };
   }
 
+  private async searchConversationContent(
+    query: GetConversationsSchema,
+    search: string
+  ): Promise<IConversationFindResponse> {
+    const sortField = query.sortField === 'createTimeMs' ? 'create_time' : 'updated_time';
+    const conversations = await this.clientTransport.request({
+      method: 'GET',
+      path: `${ML_COMMONS_BASE_API}/memory/_search`,
+      body: {
+        // one more memory tells whether older conversations were left out
+        size: MAX_CONTENT_SEARCH_CONVERSATIONS + 1,
+        query: { match_all: {} },
+        sort: [{ [sortField]: query.sortOrder?.toLowerCase() === 'asc' ? 'asc' : 'desc' }],
+      },
+    });
+    const hits = conversations.body.hits.hits as MemoryHit[];
+    const memories = hits.slice(0, MAX_CONTENT_SEARCH_CONVERSATIONS).filter((hit) => hit._source);
+
+    const objects: IConversationFindResponse['objects'] = [];
+    for (let i = 0; i < memories.length; i += CONTENT_SEARCH_CONCURRENCY) {
+      const results = await Promise.all(
+        memories.slice(i, i + CONTENT_SEARCH_CONCURRENCY).map(async (memory) => {
+          const response = await this.clientTransport.request({
+            method: 'GET',
+            path: `${ML_COMMONS_BASE_API}/memory/${encodeURIComponent(memory._id)}/_search`,
+            body: { size: MAX_MATCHES_PER_CONVERSATION, ...buildContentSearch(search) },
+          });
+          return { memory, hits: response.body.hits.hits as InteractionSearchHit[] };
+        })
+      );
+      results.forEach(({ memory, hits }) => {
+        if (hits.length && memory._source) {
+          objects.push({
+            id: memory._id,
+            title: memory._source.name,
+            createdTimeMs: Date.parse(memory._source.create_time),
+            updatedTimeMs: Date.parse(memory._source.updated_time),
+            messages: [],
+            interactions: [],
+            matches: hits.map(toSearchMatch),
+          });
+        }
+      });
+    }
+
+    return {
+      objects: objects.slice((query.page - 1) * query.perPage, query.page * query.perPage),
+      total: objects.length,
+      truncated: hits.length > MAX_CONTENT_SEARCH_CONVERSATIONS,
+    };
+  }
+
   async saveMessages(
     title: string,
     conversationId: string | undefined,
@@ -187,6 +272,36 @@ export class AgentFrameworkStorageService implements StorageService {
     }
   }
 
+  async importConversation(imported: ConversationImport): Promise<{ conversationId: string }> {
+    const memory = (await this.clientTransport.request({
+      method: 'POST',
+      path: `${ML_COMMONS_BASE_API}/memory`,
+      body: { name: imported.conversation.title },
+    })) as ApiResponse<{ memory_id: string }>;
+    const conversationId = memory.body.memory_id;
+
+    // messages are appended one by one to keep their order, they get a new create time
+    try {
+      for (const interaction of imported.interactions) {
+        const additionalInfo = toMessageAdditionalInfo(interaction.additional_info);
+        await this.clientTransport.request({
+          method: 'POST',
+          path: `${ML_COMMONS_BASE_API}/memory/${encodeURIComponent(conversationId)}/messages`,
+          body: {
+            input: interaction.input,
+            response: interaction.response,
+            ...(additionalInfo && { additional_info: additionalInfo }),
+          },
+        });
+      }
+    } catch (error) {
+      // do not leave a partial conversation behind, the import error is the one to report
+      await this.deleteConversation(conversationId).catch(() => undefined);
+      throw error;
+    }
+    return { conversationId };
+  }
+
   async getTraces(interactionId: string): Promise<AgentFrameworkTrace[]> {
     const response = (await this.clientTransport.request({
       method: 'GET',
@@ -214,7 +329,7 @@ export class AgentFrameworkStorageService implements StorageService {
 
   async updateInteraction(
     interactionId: string,
-    additionalInfo: Record<string, Record<string, boolean | string>>
+    additionalInfo: NonNullable<Interaction['additional_info']>
   ): Promise<ConversationOptResponse> {
     const response = await this.clientTransport.request({
       method: 'PUT',
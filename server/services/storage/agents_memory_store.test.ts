@@ -0,0 +1,316 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { opensearchServiceMock } from '../../../../../src/core/server/mocks';
+import { loggerMock } from '../../../../../src/core/server/logging/logger.mock';
+import { AGENTS_CONVERSATION_INDEX, AGENTS_INTERACTION_INDEX } from '../../utils/constants';
+import { ConversationNotFoundError } from '../../routes/errors';
+import { AgentsMemoryStore } from './agents_memory_store';
+
+describe('AgentsMemoryStore', () => {
+  const client = opensearchServiceMock.createOpenSearchClient();
+  const store = new AgentsMemoryStore(client, 'alice', loggerMock.create());
+  const conversation = {
+    user: 'alice',
+    title: 'foo',
+    create_time: '2024-01-01T00:00:00.000Z',
+    updated_time: '2024-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.indices.exists.mockResolvedValue({ body: true } as any);
+  });
+
+  it('creates the conversation on the first interaction', async () => {
+    client.get.mockResolvedValue({ body: { found: false } } as any);
+    await store.saveInteraction({
+      conversationId: 'conversation_id',
+      interactionId: 'interaction_id',
+      input: { type: 'input', contentType: 'text', content: '  What is OpenSearch?  ' },
+      response: 'A search engine',
+    });
+
+    expect(client.index).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: AGENTS_CONVERSATION_INDEX,
+        id: 'conversation_id',
+        body: expect.objectContaining({ user: 'alice', title: 'What is OpenSearch?' }),
+      })
+    );
+    expect(client.index).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: AGENTS_INTERACTION_INDEX,
+        id: 'interaction_id',
+        body: expect.objectContaining({
+          conversation_id: 'conversation_id',
+          input: '  What is OpenSearch?  ',
+          response: 'A search engine',
+        }),
+      })
+    );
+  });
+
+  it('only touches updated_time of an existing conversation', async () => {
+    client.get.mockResolvedValue({ body: { found: true, _source: conversation } } as any);
+    await store.saveInteraction({
+      conversationId: 'conversation_id',
+      interactionId: 'interaction_id',
+      input: { type: 'input', contentType: 'text', content: 'follow up' },
+      response: 'response',
+    });
+
+    expect(client.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: AGENTS_CONVERSATION_INDEX,
+        body: { doc: { updated_time: expect.any(String) } },
+      })
+    );
+    expect(client.index).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not expose conversations of other users', async () => {
+    client.get.mockResolvedValue({
+      body: { found: true, _source: { ...conversation, user: 'bob' } },
+    } as any);
+
+    await expect(store.getConversation('conversation_id')).rejects.toBeInstanceOf(
+      ConversationNotFoundError
+    );
+    await expect(store.deleteConversation('conversation_id')).rejects.toBeInstanceOf(
+      ConversationNotFoundError
+    );
+    expect(client.search).not.toHaveBeenCalled();
+    expect(client.delete).not.toHaveBeenCalled();
+  });
+
+  it('returns the conversation with its interactions', async () => {
+    client.get.mockResolvedValue({ body: { found: true, _source: conversation } } as any);
+    client.search.mockResolvedValue({
+      body: { hits: { hits: [{ _source: { interaction_id: 'interaction_id' } }] } },
+    } as any);
+
+    expect(await store.getConversation('conversation_id')).toEqual({
+      ...conversation,
+      interactions: [{ interaction_id: 'interaction_id' }],
+    });
+  });
+
+  it('searches the content of the interactions of the current user', async () => {
+    client.search.mockResolvedValue({
+      body: {
+        hits: {
+          hits: [
+            {
+              _source: { conversation_id: 'conversation_id' },
+              inner_hits: {
+                matches: {
+                  hits: {
+                    hits: [
+                      {
+                        _id: 'interaction_id',
+                        highlight: { response: ['A <mark>search</mark> engine'] },
+                      },
+                    ],
+                  },
+                },
+              },
+            },
+          ],
+        },
+        aggregations: { conversations: { value: 1 } },
+      },
+    } as any);
+    client.mget.mockResolvedValue({
+      body: { docs: [{ _id: 'conversation_id', found: true, _source: conversation }] },
+    } as any);
+
+    const result = await store.getConversations({
+      page: 1,
+      perPage: 10,
+      search: 'search',
+      searchMode: 'content',
+    });
+
+    expect(result.total).toBe(1);
+    expect(result.objects[0]).toMatchObject({
+      id: 'conversation_id',
+      title: 'foo',
+      matches: [
+        {
+          interactionId: 'interaction_id',
+          highlights: { response: ['A <mark>search</mark> engine'] },
+        },
+      ],
+    });
+    expect(client.search).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: AGENTS_INTERACTION_INDEX,
+        body: expect.objectContaining({
+          query: {
+            bool: {
+              filter: [{ term: { user: 'alice' } }],
+              must: [{ multi_match: { query: 'search', fields: ['input', 'response'] } }],
+            },
+          },
+          collapse: expect.objectContaining({ field: 'conversation_id' }),
+        }),
+      })
+    );
+  });
+
+  it('lists conversations of the current user', async () => {
+    client.search.mockResolvedValue({
+      body: {
+        hits: { total: { value: 1 }, hits: [{ _id: 'conversation_id', _source: conversation }] },
+      },
+    } as any);
+
+    const result = await store.getConversations({
+      page: 2,
+      perPage: 10,
+      search: 'foo',
+      sortField: 'updatedTimeMs',
+      sortOrder: 'desc',
+    } as any);
+
+    expect(result).toEqual({
+      objects: [
+        {
+          id: 'conversation_id',
+          title: 'foo',
+          createdTimeMs: Date.parse(conversation.create_time),
+          updatedTimeMs: Date.parse(conversation.updated_time),
+          messages: [],
+          interactions: [],
+        },
+      ],
+      total: 1,
+    });
+    expect(client.search).toHaveBeenCalledWith(
+      expect.objectContaining({
+        body: expect.objectContaining({
+          from: 10,
+          size: 10,
+          query: {
+            bool: {
+              filter: [{ term: { user: 'alice' } }],
+              must: [{ match: { title: 'foo' } }],
+            },
+          },
+          sort: [{ updated_time: 'desc' }],
+        }),
+      })
+    );
+  });
+
+  it('merges interaction additional info', async () => {
+    client.get.mockResolvedValue({
+      body: {
+        found: true,
+        _source: {
+          user: 'alice',
+          conversation_id: 'conversation_id',
+          additional_info: { sourceAttributions: [] },
+        },
+      },
+    } as any);
+
+    await store.updateInteraction('interaction_id', { feedback: { satisfaction: true } });
+
+    expect(client.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: AGENTS_INTERACTION_INDEX,
+        id: 'interaction_id',
+        body: {
+          doc: {
+            additional_info: { sourceAttributions: [], feedback: { satisfaction: true } },
+          },
+        },
+      })
+    );
+  });
+
+  it('imports a conversation for the current user with new ids', async () => {
+    client.bulk.mockResolvedValue({ body: { errors: false, items: [] } } as any);
+    const conversationId = await store.importConversation({
+      conversation: { title: 'foo', createdTimeMs: 0, updatedTimeMs: 0 },
+      interactions: [
+        {
+          input: 'What is OpenSearch?',
+          response: 'A search engine',
+          create_time: '2024-01-01T00:00:00.000Z',
+          additional_info: { feedback: { satisfaction: true } },
+        },
+      ],
+    });
+
+    expect(client.index).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: AGENTS_CONVERSATION_INDEX,
+        id: conversationId,
+        body: expect.objectContaining({ user: 'alice', title: 'foo' }),
+      })
+    );
+    const [, interaction] = (client.bulk.mock.calls[0][0] as any).body;
+    expect(interaction).toEqual(
+      expect.objectContaining({
+        user: 'alice',
+        conversation_id: conversationId,
+        input: 'What is OpenSearch?',
+        additional_info: { feedback: { satisfaction: true } },
+      })
+    );
+  });
+
+  it('removes the imported conversation when interactions are rejected', async () => {
+    client.bulk.mockResolvedValue({
+      body: {
+        errors: true,
+        items: [
+          { index: { status: 201 } },
+          {
+            index: {
+              status: 400,
+              error: { type: 'mapper_parsing_exception', reason: 'failed to parse create_time' },
+            },
+          },
+        ],
+      },
+    } as any);
+
+    const importing = store.importConversation({
+      conversation: { title: 'foo', createdTimeMs: 0, updatedTimeMs: 0 },
+      interactions: [
+        { input: 'a', response: 'b', create_time: '2024-01-01T00:00:00.000Z' },
+        { input: 'c', response: 'd', create_time: '2024-01-02T00:00:00.000Z' },
+      ],
+    });
+
+    await expect(importing).rejects.toThrow(
+      '1 of 2 interactions were rejected: failed to parse create_time'
+    );
+    await expect(importing).rejects.toMatchObject({ statusCode: 400 });
+    const conversationId = (client.index.mock.calls[0][0] as any).id;
+    expect(client.deleteByQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ index: AGENTS_INTERACTION_INDEX })
+    );
+    expect(client.delete).toHaveBeenCalledWith(
+      expect.objectContaining({ index: AGENTS_CONVERSATION_INDEX, id: conversationId })
+    );
+  });
+
+  it('deletes an interaction owned by the current user', async () => {
+    client.get.mockResolvedValue({
+      body: { found: true, _source: { user: 'alice', conversation_id: 'conversation_id' } },
+    } as any);
+
+    await store.deleteInteraction('interaction_id');
+
+    expect(client.delete).toHaveBeenCalledWith(
+      expect.objectContaining({ index: AGENTS_INTERACTION_INDEX, id: 'interaction_id' })
+    );
+  });
+});
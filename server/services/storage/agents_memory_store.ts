@@ -0,0 +1,465 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as uuid from 'uuid';
+import { Logger, OpenSearchClient } from '../../../../../src/core/server';
+import {
+  IInput,
+  IConversationFindResponse,
+  Interaction,
+} from '../../../common/types/chat_saved_object_attributes';
+import { ConversationImport } from '../../../common/types/conversation_export';
+import { GetConversationsSchema } from '../../routes/chat_routes';
+import { ConversationImportError, ConversationNotFoundError } from '../../routes/errors';
+import { AGENTS_CONVERSATION_INDEX, AGENTS_INTERACTION_INDEX } from '../../utils/constants';
+import {
+  buildContentSearch,
+  InteractionSearchHit,
+  MAX_MATCHES_PER_CONVERSATION,
+  toSearchMatch,
+} from '../../utils/conversation_search';
+
+const MAX_INTERACTIONS_PER_CONVERSATION = 1000;
+const MAX_TITLE_LENGTH = 100;
+
+export interface AgentsConversationDocument {
+  user: string;
+  title: string;
+  create_time: string;
+  updated_time: string;
+}
+
+export type AgentsInteractionDocument = Interaction & {
+  user: string;
+  input_context?: IInput['context'];
+  input_images?: IInput['images'];
+};
+
+export interface AgentsInteractionRecord {
+  conversationId: string;
+  interactionId: string;
+  input: IInput;
+  response: string;
+  additionalInfo?: Interaction['additional_info'];
+}
+
+const conversationMappings = {
+  dynamic: false,
+  properties: {
+    user: { type: 'keyword' },
+    title: { type: 'text', fields: { keyword: { type: 'keyword', ignore_above: 256 } } },
+    create_time: { type: 'date' },
+    updated_time: { type: 'date' },
+  },
+};
+
+const interactionMappings = {
+  dynamic: false,
+  properties: {
+    user: { type: 'keyword' },
+    conversation_id: { type: 'keyword' },
+    interaction_id: { type: 'keyword' },
+    input: { type: 'text' },
+    response: { type: 'text' },
+    create_time: { type: 'date' },
+    input_context: { type: 'object', enabled: false },
+    input_images: { type: 'object', enabled: false },
+    additional_info: { type: 'object', dynamic: false },
+  },
+};
+
+let indicesReady: Promise<void> | undefined;
+
+/**
+ * Conversation memory for the OpenSearch-Agents backend.
+ *
+ * The agent server keeps its own session state but exposes no history API,
+ * so conversations and interactions are kept in plugin owned indices, written
+ * with the internal user and scoped to the requesting user by the `user` field.
+ */
+export class AgentsMemoryStore {
+  constructor(
+    private readonly client: OpenSearchClient,
+    private readonly user: string,
+    private readonly logger: Logger
+  ) {}
+
+  private async ensureIndices() {
+    if (!indicesReady) {
+      indicesReady = Promise.all(
+        [
+          { index: AGENTS_CONVERSATION_INDEX, mappings: conversationMappings },
+          { index: AGENTS_INTERACTION_INDEX, mappings: interactionMappings },
+        ].map(async ({ index, mappings }) => {
+          const { body: exists } = await this.client.indices.exists({ index });
+          if (!exists) {
+            await this.client.indices.create({
+              index,
+              body: { settings: { index: { hidden: true } }, mappings },
+            });
+          }
+        })
+      )
+        .then(() => undefined)
+        .catch((error) => {
+          // let the next call try again
+          indicesReady = undefined;
+          throw error;
+        });
+    }
+    return indicesReady;
+  }
+
+  private async getOwnedConversation(conversationId: string) {
+    await this.ensureIndices();
+    const { body } = await this.client.get<{
+      found: boolean;
+      _source?: AgentsConversationDocument;
+    }>({ index: AGENTS_CONVERSATION_INDEX, id: conversationId }, { ignore: [404] });
+    if (!body?.found || body._source?.user !== this.user) {
+      throw new ConversationNotFoundError(`Conversation ${conversationId} not found`);
+    }
+    return body._source as AgentsConversationDocument;
+  }
+
+  public async saveInteraction(record: AgentsInteractionRecord): Promise<void> {
+    await this.ensureIndices();
+    const now = new Date().toISOString();
+    const { body: existing } = await this.client.get<{
+      found: boolean;
+      _source?: AgentsConversationDocument;
+    }>({ index: AGENTS_CONVERSATION_INDEX, id: record.conversationId }, { ignore: [404] });
+
+    if (existing?.found && existing._source?.user !== this.user) {
+      throw new ConversationNotFoundError(`Conversation ${record.conversationId} not found`);
+    }
+
+    if (existing?.found) {
+      await this.client.update({
+        index: AGENTS_CONVERSATION_INDEX,
+        id: record.conversationId,
+        body: { doc: { updated_time: now } },
+      });
+    } else {
+      const conversation: AgentsConversationDocument = {
+        user: this.user,
+        title: record.input.content.trim().slice(0, MAX_TITLE_LENGTH),
+        create_time: now,
+        updated_time: now,
+      };
+      await this.client.index({
+        index: AGENTS_CONVERSATION_INDEX,
+        id: record.conversationId,
+        body: conversation,
+      });
+    }
+
+    const interaction: AgentsInteractionDocument = {
+      user: this.user,
+      conversation_id: record.conversationId,
+      interaction_id: record.interactionId,
+      input: record.input.content,
+      response: record.response,
+      create_time: now,
+      input_context: record.input.context,
+      input_images: record.input.images,
+      additional_info: record.additionalInfo,
+    };
+    await this.client.index({
+      index: AGENTS_INTERACTION_INDEX,
+      id: record.interactionId,
+      body: interaction,
+      refresh: 'wait_for',
+    });
+  }
+
+  /**
+   * Create a conversation of the user from an exported one, ids are generated again
+   * so a conversation can be imported several times. When an interaction is rejected the
+   * conversation is removed, so an import never leaves a partial conversation behind.
+   */
+  public async importConversation(imported: ConversationImport): Promise<string> {
+    await this.ensureIndices();
+    const conversationId = uuid.v4();
+    const conversation: AgentsConversationDocument = {
+      user: this.user,
+      title: imported.conversation.title.slice(0, MAX_TITLE_LENGTH),
+      create_time: new Date(imported.conversation.createdTimeMs).toISOString(),
+      updated_time: new Date(imported.conversation.updatedTimeMs).toISOString(),
+    };
+    await this.client.index({
+      index: AGENTS_CONVERSATION_INDEX,
+      id: conversationId,
+      body: conversation,
+    });
+
+    if (imported.interactions.length) {
+      const { body } = await this.client.bulk<{
+        errors: boolean;
+        items: Array<{ index?: { status: number; error?: { type: string; reason?: string } } }>;
+      }>({
+        refresh: 'wait_for',
+        body: imported.interactions.flatMap(
+          ({ input, response, create_time: createTime, additional_info: additionalInfo }) => {
+            const interaction: AgentsInteractionDocument = {
+              user: this.user,
+              conversation_id: conversationId,
+              interaction_id: uuid.v4(),
+              input,
+              response,
+              create_time: createTime,
+              additional_info: additionalInfo,
+            };
+            return [
+              { index: { _index: AGENTS_INTERACTION_INDEX, _id: interaction.interaction_id } },
+              interaction,
+            ];
+          }
+        ),
+      });
+      if (body.errors) {
+        await this.removeConversation(conversationId);
+        const rejected = body.items.filter((item) => item.index?.error);
+        const [first] = rejected;
+        throw new ConversationImportError(
+          `${rejected.length} of ${imported.interactions.length} interactions were rejected: ${
+            first?.index?.error?.reason ?? first?.index?.error?.type
+          }`,
+          first?.index?.status ?? 500
+        );
+      }
+    }
+    return conversationId;
+  }
+
+  public async getConversation(
+    conversationId: string
+  ): Promise<AgentsConversationDocument & { interactions: AgentsInteractionDocument[] }> {
+    const conversation = await this.getOwnedConversation(conversationId);
+    const { body } = await this.client.search<{
+      hits: { hits: Array<{ _source: AgentsInteractionDocument }> };
+    }>({
+      index: AGENTS_INTERACTION_INDEX,
+      body: {
+        size: MAX_INTERACTIONS_PER_CONVERSATION,
+        query: {
+          bool: {
+            filter: [{ term: { conversation_id: conversationId } }, { term: { user: this.user } }],
+          },
+        },
+        sort: [{ create_time: 'asc' }],
+      },
+    });
+    return {
+      ...conversation,
+      interactions: body.hits.hits.map((hit) => hit._source),
+    };
+  }
+
+  public async getConversations(query: GetConversationsSchema): Promise<IConversationFindResponse> {
+    await this.ensureIndices();
+    if (query.searchMode === 'content' && query.search) {
+      return this.searchConversationContent(query, query.search);
+    }
+    let sortField = '';
+    if (query.sortField === 'updatedTimeMs') {
+      sortField = 'updated_time';
+    } else if (query.sortField === 'createTimeMs') {
+      sortField = 'create_time';
+    }
+
+    const { body } = await this.client.search<{
+      hits: {
+        total: number | { value: number };
+        hits: Array<{ _id: string; _source: AgentsConversationDocument }>;
+      };
+    }>({
+      index: AGENTS_CONVERSATION_INDEX,
+      body: {
+        from: (query.page - 1) * query.perPage,
+        size: query.perPage,
+        track_total_hits: true,
+        query: {
+          bool: {
+            filter: [{ term: { user: this.user } }],
+            ...(query.search && {
+              must: [{ match: { title: query.search } }],
+            }),
+          },
+        },
+        ...(sortField && query.sortOrder && { sort: [{ [sortField]: query.sortOrder }] }),
+      },
+    });
+
+    return {
+      objects: body.hits.hits.map((hit) => ({
+        id: hit._id,
+        title: hit._source.title,
+        createdTimeMs: Date.parse(hit._source.create_time),
+        updatedTimeMs: Date.parse(hit._source.updated_time),
+        messages: [],
+        interactions: [],
+      })),
+      total: typeof body.hits.total === 'number' ? body.hits.total : body.hits.total.value,
+    };
+  }
+
+  /**
+   * Conversations of the user with interactions matching the search, most relevant first.
+   */
+  private async searchConversationContent(
+    query: GetConversationsSchema,
+    search: string
+  ): Promise<IConversationFindResponse> {
+    const { query: contentQuery, highlight } = buildContentSearch(search);
+    const { body } = await this.client.search<{
+      hits: {
+        hits: Array<{
+          _source: Pick<AgentsInteractionDocument, 'conversation_id'>;
+          inner_hits: { matches: { hits: { hits: InteractionSearchHit[] } } };
+        }>;
+      };
+      aggregations: { conversations: { value: number } };
+    }>({
+      index: AGENTS_INTERACTION_INDEX,
+      body: {
+        from: (query.page - 1) * query.perPage,
+        size: query.perPage,
+        _source: ['conversation_id'],
+        query: {
+          bool: {
+            filter: [{ term: { user: this.user } }],
+            must: [contentQuery],
+          },
+        },
+        collapse: {
+          field: 'conversation_id',
+          inner_hits: {
+            name: 'matches',
+            size: MAX_MATCHES_PER_CONVERSATION,
+            _source: false,
+            highlight,
+          },
+        },
+        aggs: { conversations: { cardinality: { field: 'conversation_id' } } },
+      },
+    });
+
+    const conversationIds = body.hits.hits.map((hit) => hit._source.conversation_id);
+    const conversations = new Map<string, AgentsConversationDocument>();
+    if (conversationIds.length) {
+      const { body: found } = await this.client.mget<{
+        docs: Array<{ _id: string; found: boolean; _source?: AgentsConversationDocument }>;
+      }>({ index: AGENTS_CONVERSATION_INDEX, body: { ids: conversationIds } });
+      found.docs.forEach((doc) => {
+        if (doc.found && doc._source?.user === this.user) {
+          conversations.set(doc._id, doc._source);
+        }
+      });
+    }
+
+    return {
+      objects: body.hits.hits.flatMap((hit) => {
+        const conversation = conversations.get(hit._source.conversation_id);
+        return conversation
+          ? [
+              {
+                id: hit._source.conversation_id,
+                title: conversation.title,
+                createdTimeMs: Date.parse(conversation.create_time),
+                updatedTimeMs: Date.parse(conversation.updated_time),
+                messages: [],
+                interactions: [],
+                matches: hit.inner_hits.matches.hits.hits.map(toSearchMatch),
+              },
+            ]
+          : [];
+      }),
+      total: body.aggregations.conversations.value,
+    };
+  }
+
+  public async getInteraction(
+    conversationId: string,
+    interactionId: string
+  ): Promise<AgentsInteractionDocument> {
+    await this.ensureIndices();
+    const { body } = await this.client.get<{ found: boolean; _source?: AgentsInteractionDocument }>(
+      { index: AGENTS_INTERACTION_INDEX, id: interactionId },
+      { ignore: [404] }
+    );
+    const interaction = body?._source;
+    if (
+      !body?.found ||
+      !interaction ||
+      interaction.user !== this.user ||
+      (conversationId && interaction.conversation_id !== conversationId)
+    ) {
+      throw new ConversationNotFoundError(`Interaction ${interactionId} not found`);
+    }
+    return interaction;
+  }
+
+  public async updateInteraction(
+    interactionId: string,
+    additionalInfo: Record<string, unknown>
+  ): Promise<void> {
+    const interaction = await this.getInteraction('', interactionId);
+    await this.client.update({
+      index: AGENTS_INTERACTION_INDEX,
+      id: interactionId,
+      refresh: 'wait_for',
+      body: {
+        doc: {
+          additional_info: { ...interaction.additional_info, ...additionalInfo },
+        },
+      },
+    });
+  }
+
+  public async deleteInteraction(interactionId: string): Promise<void> {
+    await this.getInteraction('', interactionId);
+    await this.client.delete({
+      index: AGENTS_INTERACTION_INDEX,
+      id: interactionId,
+      refresh: 'wait_for',
+    });
+  }
+
+  public async updateConversationTitle(conversationId: string, title: string): Promise<void> {
+    await this.getOwnedConversation(conversationId);
+    await this.client.update({
+      index: AGENTS_CONVERSATION_INDEX,
+      id: conversationId,
+      refresh: 'wait_for',
+      body: { doc: { title, updated_time: new Date().toISOString() } },
+    });
+  }
+
+  public async deleteConversation(conversationId: string): Promise<void> {
+    await this.getOwnedConversation(conversationId);
+    await this.removeConversation(conversationId);
+    this.logger.debug(`Deleted OpenSearch-Agents conversation ${conversationId}`);
+  }
+
+  private async removeConversation(conversationId: string) {
+    await this.client.deleteByQuery({
+      index: AGENTS_INTERACTION_INDEX,
+      refresh: true,
+      body: {
+        query: {
+          bool: {
+            filter: [{ term: { conversation_id: conversationId } }, { term: { user: this.user } }],
+          },
+        },
+      },
+    });
+    await this.client.delete({
+      index: AGENTS_CONVERSATION_INDEX,
+      id: conversationId,
+      refresh: 'wait_for',
+    });
+  }
+}
@@ -0,0 +1,176 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { opensearchServiceMock } from '../../../../../src/core/server/mocks';
+import { loggerMock } from '../../../../../src/core/server/logging/logger.mock';
+import { FEEDBACK_ANSWERS_INDEX, FEEDBACK_INDEX } from '../../utils/constants';
+import { FeedbackStore } from './feedback_store';
+
+describe('FeedbackStore', () => {
+  const client = opensearchServiceMock.createOpenSearchClient();
+  const store = new FeedbackStore(client, loggerMock.create());
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    client.indices.exists.mockResolvedValue({ body: true } as any);
+  });
+
+  it('creates the hidden index on first use', async () => {
+    client.indices.exists.mockResolvedValue({ body: false } as any);
+    client.search.mockResolvedValue({ body: {} } as any);
+
+    const report = await store.getReport({ startTime: 0, endTime: 1000, interval: '1h' });
+
+    expect(report.buckets).toEqual([]);
+    expect(client.indices.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        index: FEEDBACK_INDEX,
+        body: expect.objectContaining({ settings: { index: { hidden: true } } }),
+      })
+    );
+  });
+
+  it('saves one feedback per user and interaction', async () => {
+    await store.saveFeedback('alice', {
+      interactionId: 'interaction_id',
+      agent: 'opensearch-agents',
+      appId: 'discover',
+      feedback: { satisfaction: false, reasons: ['unsafe'], correctedAnswer: 'No' },
+    });
+
+    expect(client.index).toHaveBeenCalledWith({
+      index: FEEDBACK_INDEX,
+      id: 'interaction_id:alice',
+      body: {
+        interaction_id: 'interaction_id',
+        user: 'alice',
+        agent: 'opensearch-agents',
+        app_id: 'discover',
+        satisfaction: false,
+        reasons: ['unsafe'],
+        comment: undefined,
+        corrected_answer: 'No',
+        create_time: expect.any(String),
+      },
+    });
+  });
+
+  it('keeps the agent which answered an interaction', async () => {
+    client.get.mockResolvedValue({
+      body: { _source: { interaction_id: 'interaction_id', agent: 'root_agent_id' } },
+    } as any);
+
+    await store.saveAnswerAgent('interaction_id', 'root_agent_id');
+
+    expect(client.index).toHaveBeenCalledWith({
+      index: FEEDBACK_ANSWERS_INDEX,
+      id: 'interaction_id',
+      body: {
+        interaction_id: 'interaction_id',
+        agent: 'root_agent_id',
+        create_time: expect.any(String),
+      },
+    });
+    expect(await store.getAnswerAgent('interaction_id')).toBe('root_agent_id');
+  });
+
+  it('has no agent for an interaction which was not recorded', async () => {
+    client.get.mockResolvedValue({ body: { found: false } } as any);
+
+    expect(await store.getAnswerAgent('interaction_id')).toBeUndefined();
+  });
+
+  it('flattens the aggregations into report buckets', async () => {
+    client.search.mockResolvedValue({
+      body: {
+        aggregations: {
+          agents: {
+            buckets: [
+              {
+                key: 'ml-commons',
+                doc_count: 3,
+                apps: {
+                  buckets: [
+                    {
+                      key: 'discover',
+                      doc_count: 3,
+                      windows: {
+                        buckets: [
+                          {
+                            key_as_string: '2024-01-01T00:00:00.000Z',
+                            doc_count: 3,
+                            negative: { doc_count: 2 },
+                            reasons: {
+                              buckets: [
+                                { key: 'inaccurate', doc_count: 2 },
+                                { key: 'too_slow', doc_count: 1 },
+                              ],
+                            },
+                            comments: {
+                              latest: {
+                                hits: {
+                                  hits: [
+                                    {
+                                      _source: {
+                                        interaction_id: 'interaction_id',
+                                        reasons: ['inaccurate'],
+                                        comment: 'Wrong index',
+                                        create_time: '2024-01-01T01:00:00.000Z',
+                                      },
+                                    },
+                                  ],
+                                },
+                              },
+                            },
+                          },
+                        ],
+                      },
+                    },
+                  ],
+                },
+              },
+            ],
+          },
+        },
+      },
+    } as any);
+
+    const report = await store.getReport({
+      startTime: 0,
+      endTime: 1000,
+      interval: '1d',
+      appId: 'discover',
+    });
+
+    expect(client.search.mock.calls[0][0]?.body?.query).toEqual({
+      bool: {
+        filter: [
+          { range: { create_time: { gte: 0, lte: 1000 } } },
+          { term: { app_id: 'discover' } },
+        ],
+      },
+    });
+    expect(report.buckets).toEqual([
+      {
+        agent: 'ml-commons',
+        appId: 'discover',
+        windowStart: '2024-01-01T00:00:00.000Z',
+        total: 3,
+        positive: 1,
+        negative: 2,
+        reasons: { inaccurate: 2, too_slow: 1 },
+        comments: [
+          {
+            interactionId: 'interaction_id',
+            reasons: ['inaccurate'],
+            comment: 'Wrong index',
+            correctedAnswer: undefined,
+            createTime: '2024-01-01T01:00:00.000Z',
+          },
+        ],
+      },
+    ]);
+  });
+});
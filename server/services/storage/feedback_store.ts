@@ -0,0 +1,297 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Logger, OpenSearchClient } from '../../../../../src/core/server';
+import {
+  FeedbackReason,
+  SendFeedbackBody,
+} from '../../../common/types/chat_saved_object_attributes';
+import {
+  FeedbackReport,
+  FeedbackReportBucket,
+  FeedbackReportInterval,
+} from '../../../common/types/feedback_report';
+import { FEEDBACK_ANSWERS_INDEX, FEEDBACK_INDEX } from '../../utils/constants';
+
+const MAX_AGENTS = 50;
+const MAX_APPS = 50;
+const MAX_COMMENTS_PER_BUCKET = 5;
+
+export interface FeedbackDocument {
+  interaction_id: string;
+  user: string;
+  agent: string;
+  app_id: string;
+  satisfaction: boolean;
+  reasons: FeedbackReason[];
+  comment?: string;
+  corrected_answer?: string;
+  create_time: string;
+}
+
+export interface AnswerDocument {
+  interaction_id: string;
+  agent: string;
+  create_time: string;
+}
+
+export interface FeedbackRecord {
+  interactionId: string;
+  agent: string;
+  appId?: string;
+  feedback: SendFeedbackBody;
+}
+
+export interface FeedbackReportQuery {
+  startTime: number;
+  endTime: number;
+  interval: FeedbackReportInterval;
+  agent?: string;
+  appId?: string;
+}
+
+interface CountBucket {
+  key: string;
+  doc_count: number;
+}
+
+interface FeedbackAggregations {
+  agents: {
+    buckets: Array<
+      CountBucket & {
+        apps: {
+          buckets: Array<
+            CountBucket & {
+              windows: {
+                buckets: Array<{
+                  key_as_string: string;
+                  doc_count: number;
+                  negative: { doc_count: number };
+                  reasons: { buckets: CountBucket[] };
+                  comments: {
+                    latest: { hits: { hits: Array<{ _source: FeedbackDocument }> } };
+                  };
+                }>;
+              };
+            }
+          >;
+        };
+      }
+    >;
+  };
+}
+
+const feedbackMappings = {
+  dynamic: false,
+  properties: {
+    interaction_id: { type: 'keyword' },
+    user: { type: 'keyword' },
+    agent: { type: 'keyword' },
+    app_id: { type: 'keyword' },
+    satisfaction: { type: 'boolean' },
+    reasons: { type: 'keyword' },
+    comment: { type: 'text' },
+    corrected_answer: { type: 'text' },
+    create_time: { type: 'date' },
+  },
+};
+
+const answerMappings = {
+  dynamic: false,
+  properties: {
+    interaction_id: { type: 'keyword' },
+    agent: { type: 'keyword' },
+    create_time: { type: 'date' },
+  },
+};
+
+let indicesReady: Promise<void> | undefined;
+
+/**
+ * Feedback of users on the answers of every chat backend, kept in a plugin owned index
+ * written with the internal user so it can be aggregated across users for prompt owners.
+ */
+export class FeedbackStore {
+  constructor(private readonly client: OpenSearchClient, private readonly logger: Logger) {}
+
+  private async ensureIndices() {
+    if (!indicesReady) {
+      indicesReady = Promise.all(
+        [
+          { index: FEEDBACK_INDEX, mappings: feedbackMappings },
+          { index: FEEDBACK_ANSWERS_INDEX, mappings: answerMappings },
+        ].map(async ({ index, mappings }) => {
+          const { body: exists } = await this.client.indices.exists({ index });
+          if (!exists) {
+            await this.client.indices.create({
+              index,
+              body: { settings: { index: { hidden: true } }, mappings },
+            });
+          }
+        })
+      )
+        .then(() => undefined)
+        .catch((error) => {
+          // let the next call try again
+          indicesReady = undefined;
+          throw error;
+        });
+    }
+    return indicesReady;
+  }
+
+  /**
+   * Remember the agent which answered an interaction, feedback on the interaction is reported
+   * for this agent rather than for the chat backend selected when the feedback is sent.
+   */
+  public async saveAnswerAgent(interactionId: string, agent: string): Promise<void> {
+    await this.ensureIndices();
+    const document: AnswerDocument = {
+      interaction_id: interactionId,
+      agent,
+      create_time: new Date().toISOString(),
+    };
+    await this.client.index({ index: FEEDBACK_ANSWERS_INDEX, id: interactionId, body: document });
+  }
+
+  /**
+   * Agent which answered the interaction, undefined when it was not recorded.
+   */
+  public async getAnswerAgent(interactionId: string): Promise<string | undefined> {
+    await this.ensureIndices();
+    const { body } = await this.client.get<{ _source?: AnswerDocument }>(
+      { index: FEEDBACK_ANSWERS_INDEX, id: interactionId },
+      { ignore: [404] }
+    );
+    return body._source?.agent;
+  }
+
+  /**
+   * Feedback replaces the previous feedback of the user on the same interaction.
+   */
+  public async saveFeedback(user: string, record: FeedbackRecord): Promise<void> {
+    await this.ensureIndices();
+    const document: FeedbackDocument = {
+      interaction_id: record.interactionId,
+      user,
+      agent: record.agent,
+      app_id: record.appId ?? '',
+      satisfaction: record.feedback.satisfaction,
+      reasons: record.feedback.reasons ?? [],
+      comment: record.feedback.comment,
+      corrected_answer: record.feedback.correctedAnswer,
+      create_time: new Date().toISOString(),
+    };
+    await this.client.index({
+      index: FEEDBACK_INDEX,
+      id: `${record.interactionId}:${user}`,
+      body: document,
+    });
+    this.logger.debug(`Feedback on interaction ${record.interactionId} saved`);
+  }
+
+  /**
+   * Feedback grouped by agent, app and time window, windows without feedback are omitted.
+   */
+  public async getReport(query: FeedbackReportQuery): Promise<FeedbackReport> {
+    await this.ensureIndices();
+    const { body } = await this.client.search<{ aggregations?: FeedbackAggregations }>({
+      index: FEEDBACK_INDEX,
+      body: {
+        size: 0,
+        query: {
+          bool: {
+            filter: [
+              { range: { create_time: { gte: query.startTime, lte: query.endTime } } },
+              ...(query.agent ? [{ term: { agent: query.agent } }] : []),
+              ...(query.appId !== undefined ? [{ term: { app_id: query.appId } }] : []),
+            ],
+          },
+        },
+        aggs: {
+          agents: {
+            terms: { field: 'agent', size: MAX_AGENTS },
+            aggs: {
+              apps: {
+                terms: { field: 'app_id', size: MAX_APPS },
+                aggs: {
+                  windows: {
+                    date_histogram: {
+                      field: 'create_time',
+                      fixed_interval: query.interval,
+                      min_doc_count: 1,
+                    },
+                    aggs: {
+                      negative: { filter: { term: { satisfaction: false } } },
+                      reasons: { terms: { field: 'reasons' } },
+                      comments: {
+                        filter: {
+                          bool: {
+                            filter: [{ term: { satisfaction: false } }],
+                            should: [
+                              { exists: { field: 'comment' } },
+                              { exists: { field: 'corrected_answer' } },
+                            ],
+                            minimum_should_match: 1,
+                          },
+                        },
+                        aggs: {
+                          latest: {
+                            top_hits: {
+                              size: MAX_COMMENTS_PER_BUCKET,
+                              sort: [{ create_time: 'desc' }],
+                              _source: [
+                                'interaction_id',
+                                'reasons',
+                                'comment',
+                                'corrected_answer',
+                                'create_time',
+                              ],
+                            },
+                          },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    const buckets: FeedbackReportBucket[] = (body.aggregations?.agents.buckets ?? []).flatMap(
+      (agent) =>
+        agent.apps.buckets.flatMap((app) =>
+          app.windows.buckets.map((window) => ({
+            agent: agent.key,
+            appId: app.key,
+            windowStart: window.key_as_string,
+            total: window.doc_count,
+            positive: window.doc_count - window.negative.doc_count,
+            negative: window.negative.doc_count,
+            reasons: Object.fromEntries(
+              window.reasons.buckets.map(({ key, doc_count: count }) => [key, count])
+            ),
+            comments: window.comments.latest.hits.hits.map(({ _source: source }) => ({
+              interactionId: source.interaction_id,
+              reasons: source.reasons,
+              comment: source.comment,
+              correctedAnswer: source.corrected_answer,
+              createTime: source.create_time,
+            })),
+          }))
+        )
+    );
+
+    return {
+      startTime: query.startTime,
+      endTime: query.endTime,
+      interval: query.interval,
+      buckets,
+    };
+  }
+}
@@ -0,0 +1,250 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as uuid from 'uuid';
+import { OpenSearchClient } from '../../../../../src/core/server';
+import {
+  IConversation,
+  IConversationFindResponse,
+  Interaction,
+} from '../../../common/types/chat_saved_object_attributes';
+import { ConversationImport } from '../../../common/types/conversation_export';
+import { GetConversationsSchema } from '../../routes/chat_routes';
+import { ConversationNotFoundError } from '../../routes/errors';
+import { MessageParser } from '../../types';
+import { highlightText, MAX_MATCHES_PER_CONVERSATION } from '../../utils/conversation_search';
+import {
+  AgentFrameworkStorageService,
+  ConversationOptResponse,
+} from './agent_framework_storage_service';
+
+const MAX_TITLE_LENGTH = 50;
+
+interface LocalMockConversation {
+  id: string;
+  user: string;
+  title: string;
+  create_time: string;
+  updated_time: string;
+  interactions: Interaction[];
+}
+
+/**
+ * In-memory conversation history of the local mock chat backend.
+ * Conversations are kept per user and are lost when the server restarts.
+ */
+export class LocalMockMemory {
+  private readonly conversations = new Map<string, LocalMockConversation>();
+
+  getConversation(user: string, conversationId: string): LocalMockConversation {
+    const conversation = this.conversations.get(conversationId);
+    if (!conversation || conversation.user !== user) {
+      throw new ConversationNotFoundError(`Conversation ${conversationId} not found`);
+    }
+    return conversation;
+  }
+
+  getConversations(user: string): LocalMockConversation[] {
+    return [...this.conversations.values()].filter((conversation) => conversation.user === user);
+  }
+
+  /**
+   * Find an interaction of the user, the conversation is optional.
+   */
+  getInteraction(user: string, interactionId: string, conversationId?: string): Interaction {
+    const conversations = conversationId
+      ? [this.getConversation(user, conversationId)]
+      : this.getConversations(user);
+    for (const conversation of conversations) {
+      const interaction = conversation.interactions.find(
+        (item) => item.interaction_id === interactionId
+      );
+      if (interaction) {
+        return interaction;
+      }
+    }
+    throw new ConversationNotFoundError(`Interaction ${interactionId} not found`);
+  }
+
+  /**
+   * Append an interaction to a conversation, a new conversation titled after the input is
+   * created without conversation id. The replaced interaction is removed from the conversation.
+   */
+  saveInteraction(
+    user: string,
+    {
+      conversationId,
+      input,
+      response,
+      replacesInteractionId,
+    }: { conversationId?: string; input: string; response: string; replacesInteractionId?: string }
+  ): Interaction {
+    const now = new Date().toISOString();
+    let conversation: LocalMockConversation;
+    if (conversationId) {
+      conversation = this.getConversation(user, conversationId);
+    } else {
+      conversation = {
+        id: uuid.v4(),
+        user,
+        title: input.substring(0, MAX_TITLE_LENGTH),
+        create_time: now,
+        updated_time: now,
+        interactions: [],
+      };
+      this.conversations.set(conversation.id, conversation);
+    }
+
+    const interaction: Interaction = {
+      input,
+      response,
+      conversation_id: conversation.id,
+      interaction_id: uuid.v4(),
+      create_time: now,
+    };
+    conversation.interactions = [
+      ...conversation.interactions.filter((item) => item.interaction_id !== replacesInteractionId),
+      interaction,
+    ];
+    conversation.updated_time = now;
+    return interaction;
+  }
+
+  importConversation(user: string, imported: ConversationImport): LocalMockConversation {
+    const id = uuid.v4();
+    const conversation: LocalMockConversation = {
+      id,
+      user,
+      title: imported.conversation.title,
+      create_time: new Date(imported.conversation.createdTimeMs).toISOString(),
+      updated_time: new Date(imported.conversation.updatedTimeMs).toISOString(),
+      interactions: imported.interactions.map((interaction) => ({
+        ...interaction,
+        conversation_id: id,
+        interaction_id: uuid.v4(),
+      })),
+    };
+    this.conversations.set(id, conversation);
+    return conversation;
+  }
+
+  deleteConversation(user: string, conversationId: string) {
+    this.getConversation(user, conversationId);
+    this.conversations.delete(conversationId);
+  }
+}
+
+/**
+ * Storage service of the local mock chat backend, reads the conversations from LocalMockMemory.
+ */
+export class LocalMockStorageService extends AgentFrameworkStorageService {
+  constructor(
+    opensearchClientTransport: OpenSearchClient['transport'],
+    messageParsers: MessageParser[],
+    private readonly memory: LocalMockMemory,
+    private readonly user: string
+  ) {
+    super(opensearchClientTransport, messageParsers);
+  }
+
+  async getConversation(conversationId: string): Promise<IConversation> {
+    const conversation = this.memory.getConversation(this.user, conversationId);
+    return {
+      title: conversation.title,
+      createdTimeMs: Date.parse(conversation.create_time),
+      updatedTimeMs: Date.parse(conversation.updated_time),
+      messages: await this.getMessagesFromInteractions(conversation.interactions),
+      interactions: conversation.interactions,
+    };
+  }
+
+  async getConversations(query: GetConversationsSchema): Promise<IConversationFindResponse> {
+    const search = query.search?.toLowerCase();
+    const contentSearch = query.searchMode === 'content' ? query.search : undefined;
+    const conversations: IConversationFindResponse['objects'] = this.memory
+      .getConversations(this.user)
+      .filter(
+        (conversation) =>
+          !search || contentSearch || conversation.title.toLowerCase().includes(search)
+      )
+      .map((conversation) => ({
+        id: conversation.id,
+        title: conversation.title,
+        createdTimeMs: Date.parse(conversation.create_time),
+        updatedTimeMs: Date.parse(conversation.updated_time),
+        messages: [],
+        interactions: [],
+        ...(contentSearch && {
+          matches: conversation.interactions
+            .flatMap((interaction) => {
+              const input = highlightText(interaction.input, contentSearch);
+              const response = highlightText(interaction.response, contentSearch);
+              return input || response
+                ? [
+                    {
+                      interactionId: interaction.interaction_id,
+                      highlights: {
+                        ...(input && { input: [input] }),
+                        ...(response && { response: [response] }),
+                      },
+                    },
+                  ]
+                : [];
+            })
+            .slice(0, MAX_MATCHES_PER_CONVERSATION),
+        }),
+      }))
+      .filter(({ matches }) => !matches || matches.length);
+
+    const sortField = query.sortField === 'createTimeMs' ? 'createdTimeMs' : 'updatedTimeMs';
+    const direction = query.sortOrder?.toLowerCase() === 'asc' ? 1 : -1;
+    conversations.sort((a, b) => (a[sortField] - b[sortField]) * direction);
+
+    return {
+      objects: conversations.slice((query.page - 1) * query.perPage, query.page * query.perPage),
+      total: conversations.length,
+    };
+  }
+
+  async getInteraction(conversationId: string, interactionId: string): Promise<Interaction> {
+    if (!conversationId) {
+      throw new Error('conversationId is required');
+    }
+    if (!interactionId) {
+      throw new Error('interactionId is required');
+    }
+    return this.memory.getInteraction(this.user, interactionId, conversationId);
+  }
+
+  async deleteConversation(conversationId: string): Promise<ConversationOptResponse> {
+    this.memory.deleteConversation(this.user, conversationId);
+    return { success: true };
+  }
+
+  async updateConversation(
+    conversationId: string,
+    title: string
+  ): Promise<ConversationOptResponse> {
+    this.memory.getConversation(this.user, conversationId).title = title;
+    return { success: true };
+  }
+
+  async importConversation(imported: ConversationImport): Promise<{ conversationId: string }> {
+    return { conversationId: this.memory.importConversation(this.user, imported).id };
+  }
+
+  async getTraces(interactionId: string): Promise<any[]> {
+    return [];
+  }
+
+  async updateInteraction(
+    interactionId: string,
+    additionalInfo: NonNullable<Interaction['additional_info']>
+  ): Promise<ConversationOptResponse> {
+    const interaction = this.memory.getInteraction(this.user, interactionId);
+    interaction.additional_info = { ...interaction.additional_info, ...additionalInfo };
+    return { success: true };
+  }
+}
@@ -4,94 +4,131 @@
  */
 
 import { OpenSearchClient } from '../../../../../src/core/server';
-import { IMessage, IInteraction } from '../../../common/types/chat_saved_object_attributes';
-import { AgentFrameworkStorageService } from './agent_framework_storage_service';
+import {
+  IConversation,
+  IConversationFindResponse,
+  Interaction,
+} from '../../../common/types/chat_saved_object_attributes';
+import { ConversationImport } from '../../../common/types/conversation_export';
+import { GetConversationsSchema } from '../../routes/chat_routes';
+import { HistoryDisabledError } from '../../routes/errors';
+import {
+  AgentFrameworkStorageService,
+  ConversationOptResponse,
+} from './agent_framework_storage_service';
+import { AgentsInteractionDocument, AgentsMemoryStore } from './agents_memory_store';
+
+const toInteraction = ({
+  user,
+  input_context: inputContext,
+  input_images: inputImages,
+  ...interaction
+}: AgentsInteractionDocument): Interaction => interaction;
 
 /**
  * Storage service for OpenSearch-Agents integration.
- * Disables memory-related features since OpenSearch-Agents handles conversation management internally.
+ * OpenSearch-Agents only keeps session state internally, conversation history is
+ * persisted through the AgentsMemoryStore. Without a memory store, history is disabled.
  */
 export class OpenSearchAgentsStorageService extends AgentFrameworkStorageService {
   constructor(
     opensearchClientTransport: OpenSearchClient['transport'],
     messageParsers: any,
-    private readonly logger: any
+    private readonly logger: any,
+    private readonly memoryStore?: AgentsMemoryStore
   ) {
     super(opensearchClientTransport, messageParsers);
   }
 
-  /**
-   * Override getConversation to return minimal conversation data
-   * since OpenSearch-Agents manages conversations internally
-   */
-  async getConversation(
-    conversationId: string
-  ): Promise<{
-    id: string;
-    title: string;
-    messages: IMessage[];
-    interactions: IInteraction[];
-  }> {
-    this.logger.debug('OpenSearch-Agents mode: returning minimal conversation data');
+  async getConversation(conversationId: string): Promise<IConversation> {
+    if (!this.memoryStore) {
+      this.logger.debug('OpenSearch-Agents mode: returning minimal conversation data');
+      return {
+        title: 'OpenSearch-Agents Conversation',
+        createdTimeMs: Date.now(),
+        updatedTimeMs: Date.now(),
+        messages: [],
+        interactions: [],
+      };
+    }
 
+    const conversation = await this.memoryStore.getConversation(conversationId);
+    const interactions = conversation.interactions.map(toInteraction);
     return {
-      id: conversationId,
-      title: 'OpenSearch-Agents Conversation',
-      messages: [],
-      interactions: [],
+      title: conversation.title,
+      createdTimeMs: Date.parse(conversation.create_time),
+      updatedTimeMs: Date.parse(conversation.updated_time),
+      messages: await this.getMessagesFromInteractions(interactions),
+      interactions,
     };
   }
 
-  /**
-   * Override getConversations to return empty list
-   * since conversation history is disabled in OpenSearch-Agents mode
-   */
-  async getConversations(options: any): Promise<{ objects: any[]; total: number }> {
-    this.logger.debug('OpenSearch-Agents mode: conversation history disabled');
+  async getConversations(query: GetConversationsSchema): Promise<IConversationFindResponse> {
+    if (!this.memoryStore) {
+      this.logger.debug('OpenSearch-Agents mode: conversation history disabled');
+      return {
+        objects: [],
+        total: 0,
+      };
+    }
 
-    return {
-      objects: [],
-      total: 0,
-    };
+    return this.memoryStore.getConversations(query);
   }
 
-  /**
-   * Override getInteraction to return minimal interaction data
-   */
-  async getInteraction(conversationId: string, interactionId: string): Promise<IInteraction> {
-    this.logger.debug('OpenSearch-Agents mode: returning minimal interaction data');
+  async getInteraction(conversationId: string, interactionId: string): Promise<Interaction> {
+    if (!conversationId) {
+      throw new Error('conversationId is required');
+    }
+    if (!interactionId) {
+      throw new Error('interactionId is required');
+    }
+    if (!this.memoryStore) {
+      this.logger.debug('OpenSearch-Agents mode: returning minimal interaction data');
+      return {
+        conversation_id: conversationId,
+        interaction_id: interactionId,
+        create_time: new Date().toISOString(),
+        input: 'OpenSearch-Agents managed interaction',
+        response: 'Response handled by OpenSearch-Agents',
+      };
+    }
 
-    return {
-      conversation_id: conversationId,
-      interaction_id: interactionId,
-      create_time: new Date().toISOString(),
-      input: 'OpenSearch-Agents managed interaction',
-      response: 'Response handled by OpenSearch-Agents',
-      origin: 'OpenSearchAgents',
-      feedback: null,
-    };
+    return toInteraction(await this.memoryStore.getInteraction(conversationId, interactionId));
   }
 
-  /**
-   * Override deleteConversation to be a no-op
-   * since conversations are managed by OpenSearch-Agents
-   */
-  async deleteConversation(conversationId: string): Promise<{ success: boolean }> {
-    this.logger.debug('OpenSearch-Agents mode: conversation deletion not supported');
+  async deleteConversation(conversationId: string): Promise<ConversationOptResponse> {
+    if (!this.memoryStore) {
+      this.logger.debug('OpenSearch-Agents mode: conversation deletion not supported');
+      return { success: true };
+    }
 
+    await this.memoryStore.deleteConversation(conversationId);
     return { success: true };
   }
 
-  /**
-   * Override updateConversation to be a no-op
-   * since conversations are managed by OpenSearch-Agents
-   */
-  async updateConversation(conversationId: string, title: string): Promise<{ success: boolean }> {
-    this.logger.debug('OpenSearch-Agents mode: conversation updates not supported');
+  async updateConversation(
+    conversationId: string,
+    title: string
+  ): Promise<ConversationOptResponse> {
+    if (!this.memoryStore) {
+      this.logger.debug('OpenSearch-Agents mode: conversation updates not supported');
+      return { success: true };
+    }
 
+    await this.memoryStore.updateConversationTitle(conversationId, title);
     return { success: true };
   }
 
+  async importConversation(imported: ConversationImport): Promise<{ conversationId: string }> {
+    if (!this.memoryStore) {
+      throw new HistoryDisabledError(
+        'Conversation history is disabled, conversations cannot be imported'
+      );
+    }
+
+    return { conversationId: await this.memoryStore.importConversation(imported) };
+  }
+
   /**
    * Override getTraces to return empty traces
    * since tracing is handled differently in OpenSearch-Agents
@@ -102,17 +139,19 @@ export class OpenSearchAgentsStorageService extends AgentFrameworkStorageService
     return [];
   }
 
-  /**
-   * Override updateInteraction to handle feedback differently
-   */
-  async updateInteraction(interactionId: string, updateBody: any): Promise<{ success: boolean }> {
-    this.logger.debug('OpenSearch-Agents mode: interaction feedback logged but not persisted');
-
-    // Log feedback for monitoring purposes but don't persist to OpenSearch
-    if (updateBody.feedback) {
-      this.logger.info(`Feedback received for interaction ${interactionId}:`, updateBody.feedback);
+  async updateInteraction(
+    interactionId: string,
+    additionalInfo: NonNullable<Interaction['additional_info']>
+  ): Promise<ConversationOptResponse> {
+    if (!this.memoryStore) {
+      // feedback is still saved to the feedback index by the feedback route
+      this.logger.debug(
+        `OpenSearch-Agents mode: history is disabled, additional info of interaction ${interactionId} is not kept`
+      );
+      return { success: true };
     }
 
+    await this.memoryStore.updateInteraction(interactionId, additionalInfo);
     return { success: true };
   }
 }
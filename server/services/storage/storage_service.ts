@@ -9,6 +9,7 @@ import {
   IConversationFindResponse,
   Interaction,
 } from '../../../common/types/chat_saved_object_attributes';
+import { ConversationImport } from '../../../common/types/conversation_export';
 import { GetConversationsSchema } from '../../routes/chat_routes';
 
 export interface StorageService {
@@ -22,4 +23,8 @@ export interface StorageService {
   ): Promise<{ conversationId: string; messages: IMessage[] }>;
   deleteConversation(conversationId: string): Promise<{}>;
   updateConversation(conversationId: string, title: string): Promise<{}>;
+  /**
+   * Create a new conversation with the interactions of an exported one
+   */
+  importConversation(imported: ConversationImport): Promise<{ conversationId: string }>;
 }
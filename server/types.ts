@@ -4,15 +4,28 @@
  */
 
 import { IMessage, Interaction } from '../common/types/chat_saved_object_attributes';
-import { Logger, HttpAuth } from '../../../src/core/server';
+import {
+  Logger,
+  HttpAuth,
+  OpenSearchClient,
+  OpenSearchDashboardsRequest,
+  RequestHandlerContext,
+} from '../../../src/core/server';
 import { AssistantServiceSetup } from './services/assistant_service';
 import { ConfigSchema } from '../common/types/config';
 import { ContextualChatServiceRegistry } from './services/contextual_chat_service_registry';
+import { ChatService } from './services/chat/chat_service';
+import { AgentFrameworkStorageService } from './services/storage/agent_framework_storage_service';
+import { ChatBackendRegistry } from './services/chat/chat_backend_registry';
+import { FeatureFlagManager } from './services/config/feature_flag_manager';
+import { SharedConversationService } from './services/shared_conversation_service';
 
 export interface AssistantPluginSetup {
   assistantService: AssistantServiceSetup;
   registerMessageParser: (message: MessageParser) => void;
   removeMessageParser: (parserId: MessageParser['id']) => void;
+  registerChatBackend: (chatBackend: ChatBackend) => void;
+  removeChatBackend: (backendId: ChatBackend['id']) => void;
   contextualChatServiceRegistry: ContextualChatServiceRegistry;
 }
 // eslint-disable-next-line @typescript-eslint/no-empty-interface
@@ -43,10 +56,55 @@ export interface MessageParser {
   ) => Promise<Array<Omit<IMessage, 'messageId'>>>;
 }
 
+export interface ChatBackendOptions {
+  config: ConfigSchema;
+  /**
+   * Transport of the data source the request is made to.
+   */
+  opensearchClientTransport: OpenSearchClient['transport'];
+  /**
+   * Context of the request, e.g. for backends which keep their own indices with the internal user.
+   */
+  context: RequestHandlerContext;
+  messageParsers: MessageParser[];
+  logger: Logger;
+  /**
+   * Name of the user who makes the request.
+   */
+  userName: string;
+}
+
+export interface ChatBackend {
+  /**
+   * The id of the backend, should be unique among the backends.
+   * Config refers to backends by id in `assistant.chatBackend`.
+   */
+  id: string;
+  /**
+   * Create the service which sends the messages to the LLM, called for each request.
+   */
+  createChatService: (options: ChatBackendOptions) => ChatService;
+  /**
+   * Create the service which reads and updates the conversation history, called for each request.
+   */
+  createStorageService: (options: ChatBackendOptions) => AgentFrameworkStorageService;
+}
+
 export interface RoutesOptions {
   config: ConfigSchema;
   messageParsers: MessageParser[];
   auth: HttpAuth;
+  chatBackendRegistry: ChatBackendRegistry;
+  /**
+   * Feature flags evaluated per user, only available when contextual chat is enabled.
+   */
+  getFeatureFlagManager?: () => Promise<FeatureFlagManager>;
+  /**
+   * Shared conversations are a hidden saved object type, only reachable through this service.
+   */
+  getSharedConversationService: (
+    request: OpenSearchDashboardsRequest
+  ) => Promise<SharedConversationService>;
 }
 
 declare module '../../../src/core/server' {
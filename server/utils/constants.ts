@@ -6,3 +6,10 @@
 export const ML_COMMONS_BASE_API = '/_plugins/_ml';
 export const ROOT_AGENT_CONFIG_ID = 'os_chat';
 export const ENABLE_AI_FEATURES = 'enableAIFeatures';
+export const AGENTS_CONVERSATION_INDEX = '.plugins-assistant-agents-conversations';
+export const AGENTS_INTERACTION_INDEX = '.plugins-assistant-agents-interactions';
+export const FEEDBACK_INDEX = '.plugins-assistant-feedback';
+export const FEEDBACK_ANSWERS_INDEX = '.plugins-assistant-feedback-answers';
+export const ML_COMMONS_CHAT_BACKEND = 'ml-commons';
+export const OPENSEARCH_AGENTS_CHAT_BACKEND = 'opensearch-agents';
+export const LOCAL_MOCK_CHAT_BACKEND = 'local-mock';
@@ -0,0 +1,107 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ConversationExport } from '../../common/types/conversation_export';
+import { AgentFrameworkStorageService } from '../services/storage/agent_framework_storage_service';
+import {
+  exportConversation,
+  formatConversation,
+  formatConversationAsHtml,
+  formatConversationAsMarkdown,
+} from './conversation_export';
+
+const exported: ConversationExport = {
+  version: 1,
+  exportedAt: '2024-01-02T00:00:00.000Z',
+  conversation: { id: 'conversation_1', title: 'Disk <full>?', createdTimeMs: 0, updatedTimeMs: 0 },
+  interactions: [
+    {
+      input: 'why did shards fail?',
+      response: 'The disk is full, see <b>the docs</b>.',
+      conversation_id: 'conversation_1',
+      interaction_id: 'interaction_1',
+      create_time: '2024-01-01T00:00:00.000Z',
+      additional_info: {
+        feedback: { satisfaction: false },
+        sourceAttributions: [
+          { title: 'Disk watermarks', url: 'https://opensearch.org/docs', body: '' },
+          { title: 'Script', url: 'javascript:alert(1)', body: '' },
+        ],
+      },
+      traces: [
+        {
+          interactionId: 'interaction_1',
+          createTime: '',
+          input: 'GET _cat/allocation',
+          output: 'disk.percent 99 ```',
+          origin: 'CatIndexTool',
+          traceNumber: 1,
+        },
+      ],
+    },
+  ],
+  messages: [],
+};
+
+describe('conversation export', () => {
+  it('should export the traces of each interaction', async () => {
+    const storageService = {
+      getConversation: jest.fn().mockResolvedValue({
+        title: 'Disk',
+        createdTimeMs: 1,
+        updatedTimeMs: 2,
+        messages: [],
+        interactions: [
+          { interaction_id: 'interaction_1', input: 'a', response: 'b' },
+          { interaction_id: 'interaction_2', input: 'c', response: 'd' },
+        ],
+      }),
+      getTraces: jest
+        .fn()
+        .mockResolvedValueOnce([exported.interactions[0].traces[0]])
+        .mockRejectedValueOnce(new Error('traces not found')),
+    };
+
+    const result = await exportConversation(
+      storageService as unknown as AgentFrameworkStorageService,
+      'conversation_1'
+    );
+
+    expect(result.conversation).toEqual({
+      id: 'conversation_1',
+      title: 'Disk',
+      createdTimeMs: 1,
+      updatedTimeMs: 2,
+    });
+    expect(result.interactions.map(({ traces }) => traces.length)).toEqual([1, 0]);
+  });
+
+  it('should write the interactions, feedback, sources and traces in markdown', () => {
+    const markdown = formatConversationAsMarkdown(exported);
+
+    expect(markdown).toContain('# Disk <full>?');
+    expect(markdown).toContain('### User\n\nwhy did shards fail?');
+    expect(markdown).toContain('**Feedback:** not helpful');
+    expect(markdown).toContain('- [Disk watermarks](https://opensearch.org/docs)');
+    // the fence is longer than the backticks of the trace
+    expect(markdown).toContain('````\ndisk.percent 99 ```\n````');
+  });
+
+  it('should escape the content of the HTML page', () => {
+    const html = formatConversationAsHtml(exported);
+
+    expect(html).toContain('<title>Disk &lt;full&gt;?</title>');
+    expect(html).toContain('see &lt;b&gt;the docs&lt;/b&gt;.');
+    expect(html).toContain('<a href="https://opensearch.org/docs" rel="noopener noreferrer">');
+    expect(html).not.toContain('javascript:');
+  });
+
+  it('should name the file after the conversation title', () => {
+    expect(formatConversation(exported, 'html')).toMatchObject({
+      contentType: 'text/html; charset=utf-8',
+      filename: 'Disk_full.html',
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { IOutput, SendFeedbackBody } from '../../common/types/chat_saved_object_attributes';
+import {
+  ConversationExport,
+  ConversationExportFormat,
+  CONVERSATION_EXPORT_VERSION,
+  ExportedInteraction,
+} from '../../common/types/conversation_export';
+import { AgentFrameworkStorageService } from '../services/storage/agent_framework_storage_service';
+
+type SourceAttribution = NonNullable<IOutput['sourceAttributions']>[number];
+
+/**
+ * Read a conversation with the traces of its interactions. Interactions without traces,
+ * e.g. traces were purged, are still exported.
+ */
+export const exportConversation = async (
+  storageService: AgentFrameworkStorageService,
+  conversationId: string
+): Promise<ConversationExport> => {
+  const conversation = await storageService.getConversation(conversationId);
+  const interactions = await Promise.all(
+    conversation.interactions.map(
+      async (interaction): Promise<ExportedInteraction> => ({
+        ...interaction,
+        traces: await storageService.getTraces(interaction.interaction_id).catch(() => []),
+      })
+    )
+  );
+  return {
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: {
+      id: conversationId,
+      title: conversation.title,
+      createdTimeMs: conversation.createdTimeMs,
+      updatedTimeMs: conversation.updatedTimeMs,
+    },
+    interactions,
+    messages: conversation.messages,
+  };
+};
+
+const getFeedback = (interaction: ExportedInteraction) =>
+  (interaction.additional_info?.feedback as SendFeedbackBody | undefined)?.satisfaction;
+
+const getSourceAttributions = (interaction: ExportedInteraction): SourceAttribution[] => {
+  const sourceAttributions = interaction.additional_info?.sourceAttributions;
+  return Array.isArray(sourceAttributions) ? sourceAttributions : [];
+};
+
+/**
+ * A code fence longer than the backticks of the content, so the content cannot close it
+ */
+const fence = (content: string) => {
+  const longestBackticks = Math.max(0, ...(content.match(/`+/g) ?? []).map(({ length }) => length));
+  const backticks = '`'.repeat(Math.max(3, longestBackticks + 1));
+  return `${backticks}\n${content}\n${backticks}`;
+};
+
+export const formatConversationAsMarkdown = (exported: ConversationExport) => {
+  const lines = [
+    `# ${exported.conversation.title}`,
+    '',
+    `Conversation \`${exported.conversation.id}\`, exported at ${exported.exportedAt}.`,
+  ];
+  exported.interactions.forEach((interaction, index) => {
+    lines.push('', '---', '', `## Interaction ${index + 1}`, '');
+    if (interaction.create_time) {
+      lines.push(`_${interaction.create_time}_`, '');
+    }
+    lines.push('### User', '', interaction.input, '', '### Assistant', '', interaction.response);
+
+    const feedback = getFeedback(interaction);
+    if (feedback !== undefined) {
+      lines.push('', `**Feedback:** ${feedback ? 'helpful' : 'not helpful'}`);
+    }
+    const sourceAttributions = getSourceAttributions(interaction);
+    if (sourceAttributions.length) {
+      lines.push('', '**Sources:**', '');
+      sourceAttributions.forEach(({ title, url }) => lines.push(`- [${title}](${url})`));
+    }
+    if (interaction.traces.length) {
+      lines.push('', '### Traces');
+      interaction.traces.forEach((trace) => {
+        lines.push(
+          '',
+          `**Step ${trace.traceNumber}: ${trace.origin}**`,
+          '',
+          'Input:',
+          '',
+          fence(trace.input),
+          '',
+          'Output:',
+          '',
+          fence(trace.output)
+        );
+      });
+    }
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderLink = ({ title, url }: SourceAttribution) =>
+  /^https?:\/\//i.test(url)
+    ? `<a href="${escapeHtml(url)}" rel="noopener noreferrer">${escapeHtml(title)}</a>`
+    : escapeHtml(title);
+
+/**
+ * A standalone HTML page of the conversation, answers are kept as plain text
+ * so the page does not run anything coming from the model.
+ */
+export const formatConversationAsHtml = (exported: ConversationExport) => {
+  const title = escapeHtml(exported.conversation.title);
+  const interactions = exported.interactions.map((interaction, index) => {
+    const feedback = getFeedback(interaction);
+    const sourceAttributions = getSourceAttributions(interaction);
+    return [
+      '<section>',
+      `<h2>Interaction ${index + 1}</h2>`,
+      interaction.create_time ? `<time>${escapeHtml(interaction.create_time)}</time>` : '',
+      '<h3>User</h3>',
+      `<div class="message">${escapeHtml(interaction.input)}</div>`,
+      '<h3>Assistant</h3>',
+      `<div class="message">${escapeHtml(interaction.response)}</div>`,
+      feedback !== undefined
+        ? `<p><strong>Feedback:</strong> ${feedback ? 'helpful' : 'not helpful'}</p>`
+        : '',
+      sourceAttributions.length
+        ? `<p><strong>Sources:</strong></p><ul>${sourceAttributions
+            .map((source) => `<li>${renderLink(source)}</li>`)
+            .join('')}</ul>`
+        : '',
+      interaction.traces.length
+        ? `<details><summary>Traces (${
+            interaction.traces.length
+          })</summary>${interaction.traces
+            .map(
+              (trace) =>
+                `<h4>Step ${trace.traceNumber}: ${escapeHtml(trace.origin)}</h4>` +
+                `<pre>${escapeHtml(trace.input)}</pre><pre>${escapeHtml(trace.output)}</pre>`
+            )
+            .join('')}</details>`
+        : '',
+      '</section>',
+    ]
+      .filter(Boolean)
+      .join('\n');
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+body { font-family: sans-serif; max-width: 960px; margin: 0 auto; padding: 16px; }
+.message, pre { white-space: pre-wrap; }
+pre { background: #f5f7fa; padding: 8px; }
+section { border-top: 1px solid #d3dae6; }
+</style>
+</head>
+<body>
+<h1>${title}</h1>
+<p>Conversation <code>${escapeHtml(exported.conversation.id)}</code>, exported at ${escapeHtml(
+    exported.exportedAt
+  )}.</p>
+${interactions.join('\n')}
+</body>
+</html>
+`;
+};
+
+const EXPORT_FORMATS: Record<
+  ConversationExportFormat,
+  { contentType: string; extension: string; format: (exported: ConversationExport) => string }
+> = {
+  json: {
+    contentType: 'application/json',
+    extension: 'json',
+    format: (exported) => JSON.stringify(exported, null, 2),
+  },
+  markdown: {
+    contentType: 'text/markdown; charset=utf-8',
+    extension: 'md',
+    format: formatConversationAsMarkdown,
+  },
+  html: {
+    contentType: 'text/html; charset=utf-8',
+    extension: 'html',
+    format: formatConversationAsHtml,
+  },
+};
+
+/**
+ * The file of an exported conversation, named after its title
+ */
+export const formatConversation = (
+  exported: ConversationExport,
+  format: ConversationExportFormat
+) => {
+  const { contentType, extension, format: formatExport } = EXPORT_FORMATS[format];
+  const name =
+    exported.conversation.title
+      .replace(/[^\w\- ]+/g, '')
+      .trim()
+      .replace(/\s+/g, '_')
+      .slice(0, 100) || 'conversation';
+  return {
+    body: formatExport(exported),
+    contentType,
+    filename: `${name}.${extension}`,
+  };
+};
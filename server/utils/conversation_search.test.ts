@@ -0,0 +1,40 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { highlightText, toSearchMatch } from './conversation_search';
+
+describe('highlightText', () => {
+  it('should mark every occurrence of the search ignoring the case', () => {
+    expect(highlightText('Shards of the index, 2 shards failed', 'shards')).toBe(
+      '<mark>Shards</mark> of the index, 2 <mark>shards</mark> failed'
+    );
+  });
+
+  it('should keep a fragment around the first occurrence of long texts', () => {
+    const text = `${'a '.repeat(200)}needle${' b'.repeat(200)}`;
+    const snippet = highlightText(text, 'needle');
+
+    expect(snippet).toContain('<mark>needle</mark>');
+    expect(snippet!.length).toBeLessThan(200);
+  });
+
+  it('should escape the search in the pattern', () => {
+    expect(highlightText('a+b=c', 'a+b')).toBe('<mark>a+b</mark>=c');
+  });
+
+  it('should return undefined without occurrence', () => {
+    expect(highlightText('foo', 'bar')).toBeUndefined();
+    expect(highlightText('foo', '')).toBeUndefined();
+  });
+});
+
+describe('toSearchMatch', () => {
+  it('should only keep the highlighted fields', () => {
+    expect(toSearchMatch({ _id: 'id', highlight: { response: ['<mark>foo</mark>'] } })).toEqual({
+      interactionId: 'id',
+      highlights: { response: ['<mark>foo</mark>'] },
+    });
+  });
+});
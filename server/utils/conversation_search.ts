@@ -0,0 +1,66 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { SEARCH_HIGHLIGHT_TAGS } from '../../common/constants/llm';
+import { ConversationSearchMatch } from '../../common/types/chat_saved_object_attributes';
+
+export const MAX_MATCHES_PER_CONVERSATION = 3;
+const FRAGMENT_SIZE = 150;
+const NUMBER_OF_FRAGMENTS = 2;
+
+export interface InteractionSearchHit {
+  _id: string;
+  highlight?: ConversationSearchMatch['highlights'];
+}
+
+/**
+ * Query and highlight of a search over the inputs and responses of interactions
+ */
+export const buildContentSearch = (search: string) => ({
+  query: {
+    multi_match: {
+      query: search,
+      fields: ['input', 'response'],
+    },
+  },
+  highlight: {
+    pre_tags: [SEARCH_HIGHLIGHT_TAGS.pre],
+    post_tags: [SEARCH_HIGHLIGHT_TAGS.post],
+    fragment_size: FRAGMENT_SIZE,
+    number_of_fragments: NUMBER_OF_FRAGMENTS,
+    fields: { input: {}, response: {} },
+  },
+});
+
+/**
+ * Interactions are indexed with their id as document id.
+ */
+export const toSearchMatch = (hit: InteractionSearchHit): ConversationSearchMatch => ({
+  interactionId: hit._id,
+  highlights: {
+    ...(hit.highlight?.input && { input: hit.highlight.input }),
+    ...(hit.highlight?.response && { response: hit.highlight.response }),
+  },
+});
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * A snippet around the first occurrence of the search in the text, like the highlight of
+ * OpenSearch for backends which do not search with OpenSearch. Undefined without occurrence.
+ */
+export const highlightText = (text: string, search: string): string | undefined => {
+  const index = text.toLowerCase().indexOf(search.toLowerCase());
+  if (!search || index < 0) {
+    return undefined;
+  }
+  const context = Math.max(0, Math.floor((FRAGMENT_SIZE - search.length) / 2));
+  const start = Math.max(0, index - context);
+  const fragment = text.slice(start, index + search.length + context);
+  return fragment.replace(
+    new RegExp(escapeRegExp(search), 'gi'),
+    (matched) => `${SEARCH_HIGHLIGHT_TAGS.pre}${matched}${SEARCH_HIGHLIGHT_TAGS.post}`
+  );
+};
@@ -0,0 +1,19 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HttpAuth, OpenSearchDashboardsRequest } from '../../../../src/core/server';
+
+/**
+ * Get the backend roles of the authenticated user, empty when security is disabled
+ * or the auth state carries no user information.
+ */
+export const getUserBackendRoles = (auth: HttpAuth, request: OpenSearchDashboardsRequest) => {
+  const authState = auth.get<{
+    authInfo?: {
+      backend_roles?: string[];
+    };
+  }>(request);
+  return authState?.state?.authInfo?.backend_roles ?? [];
+};
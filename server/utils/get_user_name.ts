@@ -0,0 +1,20 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { HttpAuth, OpenSearchDashboardsRequest } from '../../../../src/core/server';
+import { DEFAULT_USER_NAME } from '../../common/constants/llm';
+
+/**
+ * Get the name of the authenticated user, falls back to the default user name
+ * when security is disabled or the auth state carries no user information.
+ */
+export const getUserName = (auth: HttpAuth, request: OpenSearchDashboardsRequest) => {
+  const authState = auth.get<{
+    authInfo?: {
+      user_name?: string;
+    };
+  }>(request);
+  return authState?.state?.authInfo?.user_name ?? DEFAULT_USER_NAME;
+};
@@ -0,0 +1,56 @@
+/*
+ * Copyright OpenSearch Contributors
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Interaction } from '../../common/types/chat_saved_object_attributes';
+
+/**
+ * Outputs of a tool in the additional info of an interaction, one for each call of the tool.
+ */
+export const getToolOutputs = (interaction: Interaction, toolName: string): string[] => {
+  const outputs = interaction.additional_info?.[`${toolName}.output`];
+  if (typeof outputs === 'string') {
+    return [outputs];
+  }
+  return Array.isArray(outputs)
+    ? outputs.filter((output): output is string => typeof output === 'string')
+    : [];
+};
+
+export const parseJsonSafely = (value: unknown): unknown => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return undefined;
+  }
+};
+
+/**
+ * Extract the Vega-Lite spec of a LLM answer, the spec may be wrapped in `<vega-lite>` tags,
+ * surrounded by text or under a `response` field.
+ */
+export const extractVegaLiteSpec = (text: string): Record<string, any> | undefined => {
+  let textContent = text;
+  const startTag = '<vega-lite>';
+  const endTag = '</vega-lite>';
+
+  const startIndex = textContent.indexOf(startTag);
+  const endIndex = textContent.indexOf(endTag);
+
+  if (startIndex !== -1 && endIndex !== -1 && startIndex < endIndex) {
+    // Extract the content between the tags
+    textContent = textContent.substring(startIndex + startTag.length, endIndex).trim();
+  }
+  // extract json object
+  const jsonMatch = textContent.match(/\{.*\}/s);
+  if (!jsonMatch) {
+    return undefined;
+  }
+  const result = JSON.parse(jsonMatch[0]);
+  // sometimes llm returns {response: <schema>} instead of <schema>
+  return result.response ? JSON.parse(result.response) : result;
+};